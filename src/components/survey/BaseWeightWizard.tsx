@@ -0,0 +1,385 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Layers } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { isCategoricalType } from '@/lib/survey/variable-types';
+import { marginCategories } from '@/lib/survey/weighting';
+import {
+  DEFAULT_PROPENSITY_CLASSES,
+  NONRESPONSE_METHOD_LABELS,
+  RESPONSE_STATUS_LABELS,
+  baseWeightAudit,
+  constructBaseWeights,
+  saveBaseWeights,
+  type BaseWeightResult
+} from '@/lib/survey/base-weights';
+import type { NonresponseMethod, ProcessedSurveyData, ResponseStatus, SurveyVariable } from '@/lib/survey/types';
+
+interface BaseWeightWizardProps {
+  data: ProcessedSurveyData;
+  onDataChange: (data: ProcessedSurveyData) => void;
+}
+
+/** Rows shown in the per-case preview; the audit file has them all. */
+const PREVIEW_ROWS = 10;
+
+const formatNumber = (value: number, digits = 2) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: digits });
+
+const StepHeading = ({ step, title }: { step: number; title: string }) => (
+  <h4 className="text-sm font-medium">
+    <span className="text-muted-foreground mr-1">{step}.</span>
+    {title}
+  </h4>
+);
+
+const VariableChecklist = ({ id, variables, selected, onChange }: {
+  id: string;
+  variables: SurveyVariable[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}) => (
+  <div className="flex flex-wrap gap-x-4 gap-y-2">
+    {variables.length === 0 && <span className="text-sm text-muted-foreground">No suitable variables</span>}
+    {variables.map(variable => (
+      <div key={variable.name} className="flex items-center gap-2">
+        <Checkbox
+          id={`${id}-${variable.name}`}
+          checked={selected.includes(variable.name)}
+          onCheckedChange={(checked) => onChange(checked === true
+            ? [...selected, variable.name]
+            : selected.filter(name => name !== variable.name))}
+        />
+        <Label htmlFor={`${id}-${variable.name}`} className="text-sm font-normal">{variable.name}</Label>
+      </div>
+    ))}
+  </div>
+);
+
+export const BaseWeightWizard = ({ data, onDataChange }: BaseWeightWizardProps) => {
+  const { toast } = useToast();
+  const [name, setName] = useState('base_weight');
+  const [stages, setStages] = useState<string[]>([]);
+  const [statusVariable, setStatusVariable] = useState('');
+  const [statusCodes, setStatusCodes] = useState<Record<string, ResponseStatus>>({});
+  const [eligibilityClasses, setEligibilityClasses] = useState<string[]>([]);
+  const [method, setMethod] = useState<NonresponseMethod>('classes');
+  const [nonresponseClasses, setNonresponseClasses] = useState<string[]>([]);
+  const [predictors, setPredictors] = useState<string[]>([]);
+  const [propensityClasses, setPropensityClasses] = useState(String(DEFAULT_PROPENSITY_CLASSES));
+  const [result, setResult] = useState<BaseWeightResult | null>(null);
+
+  const numericVariables = data.variables.filter(variable => variable.type === 'numeric');
+  const categoricalVariables = data.variables.filter(variable => isCategoricalType(variable.type));
+  const statusCategories = useMemo(
+    () => (statusVariable ? marginCategories(data, [statusVariable]) : []),
+    [data, statusVariable]
+  );
+  const hasUnknown = statusCategories.some(category => statusCodes[category.key] === 'unknown');
+
+  // Any change to the settings invalidates the computed weights
+  const change = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setResult(null);
+  };
+
+  const handleConstruct = () => {
+    try {
+      setResult(constructBaseWeights(data, {
+        name,
+        stageProbabilities: stages,
+        statusVariable,
+        statusCodes,
+        eligibilityClasses: hasUnknown ? eligibilityClasses : [],
+        nonresponseMethod: method,
+        nonresponseClasses: method === 'classes' ? nonresponseClasses : [],
+        propensityPredictors: method === 'propensity' ? predictors : [],
+        propensityClasses: method === 'propensity' ? Math.max(0, Math.round(Number(propensityClasses) || 0)) : 0
+      }));
+    } catch (error) {
+      setResult(null);
+      toast({
+        title: "Weight construction failed",
+        description: error instanceof Error ? error.message : "The base weights could not be computed.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAudit = () => {
+    if (!result) return;
+    const blob = new Blob([baseWeightAudit(data, result)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${data.fileName.replace(/\.[^.]+$/, '')}-${name.trim() || 'base_weight'}-audit.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSave = () => {
+    if (!result) return;
+    try {
+      onDataChange(saveBaseWeights(data, { ...result, spec: { ...result.spec, name } }));
+      toast({
+        title: "Weight saved",
+        description: `${name.trim()} can now be raked, trimmed or chosen as the weight variable of estimates.`,
+      });
+      setResult(null);
+    } catch (error) {
+      toast({
+        title: "Weight not saved",
+        description: error instanceof Error ? error.message : "The weight variable could not be added.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const previewRows = result
+    ? result.status.flatMap((status, row) => (status === null ? [] : [row])).slice(0, PREVIEW_ROWS)
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-blue-800">
+          <Layers className="h-5 w-5" />
+          Base Weight Construction
+        </CardTitle>
+        <CardDescription className="text-blue-600">
+          Build design weights for a sample file from the selection probabilities of each stage, then adjust for cases of unknown eligibility and for nonresponse
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <StepHeading step={1} title="Selection probability of each stage" />
+          <VariableChecklist id="stage" variables={numericVariables} selected={stages} onChange={change(setStages)} />
+        </div>
+
+        <div className="space-y-2">
+          <StepHeading step={2} title="Response status" />
+          <Select
+            value={statusVariable}
+            onValueChange={(value) => { setStatusVariable(value); setStatusCodes({}); setResult(null); }}
+          >
+            <SelectTrigger className="md:w-1/2">
+              <SelectValue placeholder="Disposition variable" />
+            </SelectTrigger>
+            <SelectContent>
+              {categoricalVariables.map(variable => (
+                <SelectItem key={variable.name} value={variable.name}>{variable.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {statusCategories.length > 0 && (
+            <div className="max-h-64 overflow-y-auto border rounded">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Cases</TableHead>
+                    <TableHead className="w-56">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statusCategories.map(category => (
+                    <TableRow key={category.key}>
+                      <TableCell>{category.label}</TableCell>
+                      <TableCell className="text-right">{category.respondents.toLocaleString()}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={statusCodes[category.key] ?? ''}
+                          onValueChange={(value) => change(setStatusCodes)({ ...statusCodes, [category.key]: value as ResponseStatus })}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue placeholder="Choose a status" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(RESPONSE_STATUS_LABELS) as ResponseStatus[]).map(status => (
+                              <SelectItem key={status} value={status}>{RESPONSE_STATUS_LABELS[status]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        {hasUnknown && (
+          <div className="space-y-2">
+            <StepHeading step={3} title="Eligibility-unknown adjustment classes" />
+            <p className="text-xs text-muted-foreground">
+              Cases of unknown eligibility pass their weight to cases of known eligibility in the same class; leave all unticked for one class
+            </p>
+            <VariableChecklist
+              id="eligibility"
+              variables={categoricalVariables.filter(variable => variable.name !== statusVariable)}
+              selected={eligibilityClasses}
+              onChange={change(setEligibilityClasses)}
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <StepHeading step={hasUnknown ? 4 : 3} title="Nonresponse adjustment" />
+          <Select value={method} onValueChange={(value) => change(setMethod)(value as NonresponseMethod)}>
+            <SelectTrigger className="md:w-1/2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(NONRESPONSE_METHOD_LABELS) as NonresponseMethod[]).map(option => (
+                <SelectItem key={option} value={option}>{NONRESPONSE_METHOD_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {method === 'classes' ? (
+            <>
+              <p className="text-xs text-muted-foreground">
+                Eligible nonrespondents pass their weight to respondents in the same class; leave all unticked for one class
+              </p>
+              <VariableChecklist
+                id="nonresponse"
+                variables={categoricalVariables.filter(variable => variable.name !== statusVariable)}
+                selected={nonresponseClasses}
+                onChange={change(setNonresponseClasses)}
+              />
+            </>
+          ) : (
+            <>
+              <p className="text-xs text-muted-foreground">
+                A weighted logistic regression of response on these sample-frame variables estimates each case's response propensity
+              </p>
+              <VariableChecklist
+                id="propensity"
+                variables={data.variables.filter(variable =>
+                  variable.name !== statusVariable && (variable.type === 'numeric' || isCategoricalType(variable.type)))}
+                selected={predictors}
+                onChange={change(setPredictors)}
+              />
+              <div className="flex items-center gap-2 md:w-1/2">
+                <Label htmlFor="propensity-classes" className="shrink-0">Propensity classes</Label>
+                <Input
+                  id="propensity-classes"
+                  type="number"
+                  min={0}
+                  value={propensityClasses}
+                  onChange={(e) => change(setPropensityClasses)(e.target.value)}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Respondents are adjusted within classes of similar propensity; 0 divides each weight by its own propensity instead
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="base-weight-name">New weight variable</Label>
+            <Input id="base-weight-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <Button onClick={handleConstruct} disabled={stages.length === 0 || !statusVariable}>
+            <Layers className="h-4 w-4 mr-1" />
+            Construct Weights
+          </Button>
+        </div>
+
+        {result && (
+          <div className="space-y-3">
+            <div className="border rounded">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Step</TableHead>
+                    {(Object.keys(RESPONSE_STATUS_LABELS) as ResponseStatus[]).map(status => (
+                      <TableHead key={status} className="text-right">{RESPONSE_STATUS_LABELS[status]}</TableHead>
+                    ))}
+                    <TableHead className="text-right">Respondent weights</TableHead>
+                    <TableHead className="text-right">Design effect</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.steps.map(step => (
+                    <TableRow key={step.label}>
+                      <TableCell>{step.label}</TableCell>
+                      {(Object.keys(RESPONSE_STATUS_LABELS) as ResponseStatus[]).map(status => (
+                        <TableCell key={status} className="text-right">{formatNumber(step.totals[status], 0)}</TableCell>
+                      ))}
+                      <TableCell className="text-right">
+                        {formatNumber(step.respondents.min)} to {formatNumber(step.respondents.max)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatNumber(step.respondents.designEffect)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {result.steps.filter(step => step.factors.length > 0).map(step => (
+              <div key={step.label} className="text-sm">
+                <span className="font-medium">{step.label}:</span>{' '}
+                <span className="text-muted-foreground">
+                  {step.factors.map(entry => `${entry.cell} ×${formatNumber(entry.factor, 3)} (${entry.cases} cases)`).join(' · ')}
+                </span>
+              </div>
+            ))}
+
+            {result.warnings.map((warning, index) => (
+              <p key={index} className="text-sm text-amber-700">{warning}</p>
+            ))}
+
+            <div className="border rounded overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Status</TableHead>
+                    {result.steps.map(step => (
+                      <TableHead key={step.label} className="text-right">{step.label}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.map(row => (
+                    <TableRow key={row}>
+                      <TableCell>{row + 1}</TableCell>
+                      <TableCell>
+                        <Badge variant={result.status[row] === 'respondent' ? 'secondary' : 'outline'}>
+                          {RESPONSE_STATUS_LABELS[result.status[row]!]}
+                        </Badge>
+                      </TableCell>
+                      {result.steps.map(step => (
+                        <TableCell key={step.label} className="text-right">{formatNumber(step.weights[row] ?? 0)}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <Button variant="outline" onClick={handleAudit}>
+                <Download className="h-4 w-4 mr-1" />
+                Download Audit CSV
+              </Button>
+              <Button onClick={handleSave}>
+                Save as {name.trim() || 'weight variable'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
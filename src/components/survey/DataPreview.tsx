@@ -5,31 +5,67 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Progress } from '@/components/ui/progress';
-import { BarChart3, Database, Target, Zap, ArrowRight } from 'lucide-react';
+import { BarChart3, Database, Target, Zap, ArrowRight, Download } from 'lucide-react';
+import { codebookToCsv, exportCodebook } from '@/lib/survey/codebook';
+import { formatLabelledValue, formatVariableName, isDeclaredMissing, isMissingCell } from '@/lib/survey/dataset';
+import { VARIABLE_TYPE_LABELS, isCategoricalType } from '@/lib/survey/variable-types';
+import type { CellValue, MissingCategory, ProcessedSurveyData } from '@/lib/survey/types';
+import { emptyMissingBreakdown, formatMissingBreakdown } from '@/lib/survey/missing';
+import { imputedCells } from '@/lib/survey/imputation';
+import { treatedCells } from '@/lib/survey/outliers';
+import { hasSkipLogic } from '@/lib/survey/xlsform';
+import { isComputedWeight } from '@/lib/survey/weighting';
+import { BaseWeightWizard } from './BaseWeightWizard';
+import { DerivedVariableEditor } from './DerivedVariableEditor';
+import { ImputationEditor } from './ImputationEditor';
+import { MissingValueEditor } from './MissingValueEditor';
+import { MultiResponseSetEditor } from './MultiResponseSetEditor';
+import { OutlierReview } from './OutlierReview';
+import { RespondentQualityChecks } from './RespondentQualityChecks';
+import { SkipLogicReport } from './SkipLogicReport';
+import { ValidationRuleEditor } from './ValidationRuleEditor';
+import { VariableTypeEditor } from './VariableTypeEditor';
+import { WeightingPanel } from './WeightingPanel';
 
 interface DataPreviewProps {
-  data: {
-    fileName: string;
-    totalRows: number;
-    totalColumns: number;
-    missingValues: number;
-    variables: Array<{
-      name: string;
-      type: string;
-      missing: number;
-      uniqueValues?: number;
-      mean?: number;
-      min?: number;
-      max?: number;
-      values?: any[];
-    }>;
-    sampleData: Array<any>;
-  };
+  data: ProcessedSurveyData;
+  onDataChange: (data: ProcessedSurveyData) => void;
   onStartAnalysis: () => void;
 }
 
-export const DataPreview = ({ data, onStartAnalysis }: DataPreviewProps) => {
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const DataPreview = ({ data, onDataChange, onStartAnalysis }: DataPreviewProps) => {
+  const variablesByName = new Map(data.variables.map(variable => [variable.name, variable]));
+  const imputed = imputedCells(data);
+  const treated = treatedCells(data);
+  const excludedRows = new Set(data.excludedRows);
   const missingPercentage = (data.missingValues / (data.totalRows * data.totalColumns)) * 100;
+  const missingBreakdown = emptyMissingBreakdown();
+  data.variables.forEach(variable => {
+    (Object.keys(missingBreakdown) as MissingCategory[]).forEach(category => {
+      missingBreakdown[category] += variable.missingBreakdown[category];
+    });
+  });
+  const baseName = data.fileName.replace(/\.[^.]+$/, '');
+
+  const handleExportCodebook = (format: 'csv' | 'json') => {
+    const entries = exportCodebook(data);
+    if (format === 'csv') {
+      downloadFile(codebookToCsv(entries), `${baseName}-codebook.csv`, 'text/csv');
+    } else {
+      downloadFile(JSON.stringify({ variables: entries }, null, 2), `${baseName}-codebook.json`, 'application/json');
+    }
+  };
+
   const dataQuality = missingPercentage < 5 ? 'Excellent' : missingPercentage < 15 ? 'Good' : 'Needs Attention';
 
   return (
@@ -51,11 +87,25 @@ export const DataPreview = ({ data, onStartAnalysis }: DataPreviewProps) => {
       {/* Data Overview */}
       <Card className="bg-gradient-to-r from-blue-50 to-white border-blue-200">
         <CardHeader>
-          <CardTitle className="flex items-center gap-2 text-blue-800">
-            <Database className="h-5 w-5" />
-            Data Overview
-          </CardTitle>
-          <CardDescription className="text-blue-600">Summary of your uploaded survey data</CardDescription>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2 text-blue-800">
+                <Database className="h-5 w-5" />
+                Data Overview
+              </CardTitle>
+              <CardDescription className="text-blue-600">Summary of your uploaded survey data</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => handleExportCodebook('csv')}>
+                <Download className="h-4 w-4 mr-2" />
+                Codebook CSV
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExportCodebook('json')}>
+                <Download className="h-4 w-4 mr-2" />
+                Codebook JSON
+              </Button>
+            </div>
+          </div>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -70,6 +120,9 @@ export const DataPreview = ({ data, onStartAnalysis }: DataPreviewProps) => {
             <div className="text-center p-4 border border-blue-200 rounded-lg bg-white/50">
               <div className="text-3xl font-bold text-blue-600">{data.missingValues.toLocaleString()}</div>
               <div className="text-sm text-blue-500">Missing Values</div>
+              {data.missingValues > missingBreakdown.system && (
+                <div className="text-xs text-blue-400 mt-1">{formatMissingBreakdown(missingBreakdown)}</div>
+              )}
             </div>
             <div className="text-center p-4 border border-blue-200 rounded-lg bg-white/50">
               <div className="text-3xl font-bold text-blue-600">{missingPercentage.toFixed(1)}%</div>
@@ -103,21 +156,70 @@ export const DataPreview = ({ data, onStartAnalysis }: DataPreviewProps) => {
             <table className="w-full border-collapse text-sm">
               <thead>
                 <tr className="border-b bg-blue-50">
-                  {Object.keys(data.sampleData[0] || {}).map((header, index) => (
-                    <th key={index} className="text-left p-3 font-medium text-blue-800 border-r border-blue-200 last:border-r-0">
-                      {header}
-                    </th>
-                  ))}
+                  {Object.keys(data.sampleData[0] || {}).map((header, index) => {
+                    const variable = variablesByName.get(header);
+                    const label = formatVariableName(header, variable);
+                    return (
+                      <th
+                        key={index}
+                        title={variable?.question ?? header}
+                        className="text-left p-3 font-medium text-blue-800 border-r border-blue-200 last:border-r-0"
+                      >
+                        {label}
+                        {label !== header && (
+                          <div className="text-xs font-normal font-mono text-blue-500">{header}</div>
+                        )}
+                        {variable?.expression !== undefined && (
+                          <Badge
+                            variant="outline"
+                            title={variable.expression}
+                            className="mt-1 text-xs font-normal border-blue-300 text-blue-600"
+                          >
+                            Derived
+                          </Badge>
+                        )}
+                        {isComputedWeight(data, header) && (
+                          <Badge variant="outline" className="mt-1 text-xs font-normal border-blue-300 text-blue-600">
+                            Weight
+                          </Badge>
+                        )}
+                        {variable?.platformField && (
+                          <Badge variant="outline" className="mt-1 text-xs font-normal border-blue-300 text-blue-600">
+                            Response metadata
+                          </Badge>
+                        )}
+                      </th>
+                    );
+                  })}
                 </tr>
               </thead>
               <tbody>
                 {data.sampleData.slice(0, 10).map((row, rowIndex) => (
-                  <tr key={rowIndex} className="border-b hover:bg-blue-50/50 transition-colors">
-                    {Object.values(row).map((value: any, colIndex) => (
-                      <td key={colIndex} className="p-3 border-r border-gray-200 last:border-r-0">
-                        {value || <span className="text-gray-400 italic">missing</span>}
-                      </td>
-                    ))}
+                  <tr
+                    key={rowIndex}
+                    title={excludedRows.has(rowIndex) ? 'Excluded from estimates' : undefined}
+                    className={`border-b hover:bg-blue-50/50 transition-colors ${excludedRows.has(rowIndex) ? 'opacity-50 line-through' : ''}`}
+                  >
+                    {Object.entries(row).map(([header, value]: [string, CellValue], colIndex) => {
+                      const variable = variablesByName.get(header);
+                      const isImputed = imputed.get(header)?.has(rowIndex);
+                      const isTreated = treated.get(header)?.has(rowIndex);
+                      return (
+                        <td
+                          key={colIndex}
+                          title={isImputed ? 'Imputed value' : isTreated ? 'Outlier treated' : undefined}
+                          className={`p-3 border-r border-gray-200 last:border-r-0 ${isImputed ? 'bg-amber-50 text-amber-800 italic' : isTreated ? 'bg-orange-50 text-orange-800' : ''}`}
+                        >
+                          {isMissingCell(value) ? (
+                            <span className="text-gray-400 italic">missing</span>
+                          ) : variable && isDeclaredMissing(value, variable) ? (
+                            <span className="text-gray-400 italic">{formatLabelledValue(value, variable)}</span>
+                          ) : (
+                            formatLabelledValue(value, variable)
+                          )}
+                        </td>
+                      );
+                    })}
                   </tr>
                 ))}
               </tbody>
@@ -126,6 +228,28 @@ export const DataPreview = ({ data, onStartAnalysis }: DataPreviewProps) => {
         </CardContent>
       </Card>
 
+      <VariableTypeEditor data={data} onDataChange={onDataChange} />
+
+      <MissingValueEditor data={data} onDataChange={onDataChange} />
+
+      <DerivedVariableEditor data={data} onDataChange={onDataChange} />
+
+      <ValidationRuleEditor data={data} onDataChange={onDataChange} />
+
+      <RespondentQualityChecks data={data} onDataChange={onDataChange} />
+
+      <OutlierReview data={data} onDataChange={onDataChange} />
+
+      <ImputationEditor data={data} onDataChange={onDataChange} />
+
+      <BaseWeightWizard data={data} onDataChange={onDataChange} />
+
+      <WeightingPanel data={data} onDataChange={onDataChange} />
+
+      <MultiResponseSetEditor data={data} onDataChange={onDataChange} />
+
+      {hasSkipLogic(data) && <SkipLogicReport data={data} />}
+
       {/* Variable Summary */}
       <Card>
         <CardHeader>
@@ -145,18 +269,27 @@ export const DataPreview = ({ data, onStartAnalysis }: DataPreviewProps) => {
               <div className="space-y-3">
                 {data.variables.filter(v => v.type === 'numeric').map((variable, index) => {
                   // Calculate proper statistics for numeric variables
-                  const numericValues = variable.values?.filter(v => v !== null && v !== undefined && v !== '' && !isNaN(parseFloat(v))).map(v => parseFloat(v)) || [];
+                  const numericValues = variable.values
+                    .filter(v => typeof v === 'number' || (typeof v === 'string' && !isNaN(parseFloat(v))))
+                    .filter(v => !isDeclaredMissing(v, variable))
+                    .map(v => (typeof v === 'number' ? v : parseFloat(v as string)));
                   const mean = numericValues.length > 0 ? numericValues.reduce((sum, val) => sum + val, 0) / numericValues.length : 0;
                   const sortedValues = [...numericValues].sort((a, b) => a - b);
                   const median = sortedValues.length > 0 ? (sortedValues.length % 2 === 0 ? (sortedValues[sortedValues.length/2-1] + sortedValues[sortedValues.length/2]) / 2 : sortedValues[Math.floor(sortedValues.length/2)]) : 0;
                   const q1 = sortedValues.length > 0 ? sortedValues[Math.floor(sortedValues.length * 0.25)] : 0;
                   const q3 = sortedValues.length > 0 ? sortedValues[Math.floor(sortedValues.length * 0.75)] : 0;
-                  const min = sortedValues.length > 0 ? Math.min(...sortedValues) : 0;
-                  const max = sortedValues.length > 0 ? Math.max(...sortedValues) : 0;
+                  const min = sortedValues.length > 0 ? sortedValues[0] : 0;
+                  const max = sortedValues.length > 0 ? sortedValues[sortedValues.length - 1] : 0;
                   
                   return (
                     <div key={index} className="p-3 bg-blue-50 rounded-lg border border-blue-200">
-                      <div className="font-medium text-blue-900 mb-2">{variable.name}</div>
+                      <div className="mb-2">
+                        <div className="font-medium text-blue-900">{formatVariableName(variable.name, variable)}</div>
+                        {variable.label && <div className="text-xs font-mono text-blue-600">{variable.name}</div>}
+                        {variable.question && variable.question !== variable.label && (
+                          <div className="text-xs italic text-blue-700 mt-1">{variable.question}</div>
+                        )}
+                      </div>
                       <div className="grid grid-cols-3 gap-2 text-xs text-blue-700">
                         <div>Mean: {mean.toFixed(2)}</div>
                         <div>Median: {median.toFixed(2)}</div>
@@ -168,6 +301,9 @@ export const DataPreview = ({ data, onStartAnalysis }: DataPreviewProps) => {
                         <div>Missing: {variable.missing || 0}</div>
                         <div>Std Dev: {numericValues.length > 1 ? Math.sqrt(numericValues.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / numericValues.length).toFixed(2) : '0.00'}</div>
                       </div>
+                      {variable.missing > variable.missingBreakdown.system && (
+                        <div className="text-xs text-blue-500 mt-1">{formatMissingBreakdown(variable.missingBreakdown)}</div>
+                      )}
                     </div>
                   );
                 })}
@@ -177,34 +313,55 @@ export const DataPreview = ({ data, onStartAnalysis }: DataPreviewProps) => {
             {/* Categorical Variables Section */}
             <div className="space-y-4">
               <h4 className="font-semibold text-purple-800 border-b border-purple-200 pb-2">
-                Categorical Variables ({data.variables.filter(v => v.type === 'categorical').length})
+                Categorical Variables ({data.variables.filter(v => isCategoricalType(v.type)).length})
               </h4>
               <div className="space-y-3">
-                {data.variables.filter(v => v.type === 'categorical').map((variable, index) => {
+                {data.variables.filter(v => isCategoricalType(v.type)).map((variable, index) => {
                   // Calculate proper statistics for categorical variables
-                  const validValues = variable.values?.filter(v => v !== null && v !== undefined && v !== '') || [];
+                  const validValues = variable.values.filter(v => !isMissingCell(v) && !isDeclaredMissing(v, variable));
                   const valueCounts: { [key: string]: number } = {};
                   validValues.forEach(val => {
-                    const key = String(val);
+                    const key = formatLabelledValue(val, variable);
                     valueCounts[key] = (valueCounts[key] || 0) + 1;
                   });
+                  // Ordinal variables list their levels in scale order rather than by frequency
+                  const levelOrder = (variable.levels ?? []).map(level => formatLabelledValue(level, variable));
                   const sortedCounts = Object.entries(valueCounts).sort((a, b) => b[1] - a[1]);
+                  const displayCounts = variable.type === 'ordinal'
+                    ? levelOrder.filter(level => level in valueCounts).map(level => [level, valueCounts[level]] as [string, number])
+                    : sortedCounts.slice(0, 3);
                   const mode = sortedCounts[0]?.[0] || 'N/A';
                   const modeCount = sortedCounts[0]?.[1] || 0;
                   const uniqueCount = Object.keys(valueCounts).length;
                   
                   return (
                     <div key={index} className="p-3 bg-purple-50 rounded-lg border border-purple-200">
-                      <div className="font-medium text-purple-900 mb-2">{variable.name}</div>
+                      <div className="mb-2">
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="font-medium text-purple-900">{formatVariableName(variable.name, variable)}</div>
+                          {variable.type !== 'categorical' && (
+                            <Badge variant="outline" className="text-xs border-purple-300 text-purple-700">
+                              {VARIABLE_TYPE_LABELS[variable.type]}
+                            </Badge>
+                          )}
+                        </div>
+                        {variable.label && <div className="text-xs font-mono text-purple-600">{variable.name}</div>}
+                        {variable.question && variable.question !== variable.label && (
+                          <div className="text-xs italic text-purple-700 mt-1">{variable.question}</div>
+                        )}
+                      </div>
                       <div className="grid grid-cols-2 gap-2 text-xs text-purple-700 mb-2">
                         <div>Count: {validValues.length}</div>
                         <div>Unique: {uniqueCount}</div>
                         <div>Missing: {variable.missing || 0}</div>
                         <div>Mode: {mode}</div>
                       </div>
+                      {variable.missing > variable.missingBreakdown.system && (
+                        <div className="text-xs text-purple-500 mb-2">{formatMissingBreakdown(variable.missingBreakdown)}</div>
+                      )}
                       <div className="text-xs text-purple-600">
-                        <div className="font-medium mb-1">Top Values:</div>
-                        {sortedCounts.slice(0, 3).map(([value, count], idx) => (
+                        <div className="font-medium mb-1">{variable.type === 'ordinal' ? 'Levels:' : 'Top Values:'}</div>
+                        {displayCounts.map(([value, count], idx) => (
                           <div key={idx} className="flex justify-between">
                             <span>{value}:</span>
                             <span>{count} ({((count / validValues.length) * 100).toFixed(1)}%)</span>
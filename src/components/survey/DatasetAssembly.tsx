@@ -0,0 +1,344 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, ArrowRight, Layers, Plus, X } from 'lucide-react';
+import {
+  appendDatasets,
+  isMergeValid,
+  mergeDatasets,
+  type AppendReport,
+  type JoinRelationship,
+  type JoinType,
+  type MergeReport
+} from '@/lib/survey/assembly';
+import type { ProcessedSurveyData } from '@/lib/survey/types';
+
+interface DatasetAssemblyProps {
+  datasets: ProcessedSurveyData[];
+  onDatasetsChange: (datasets: ProcessedSurveyData[]) => void;
+  onContinue: (data: ProcessedSurveyData) => void;
+  disabled?: boolean;
+}
+
+type Combined =
+  | { mode: 'append'; data: ProcessedSurveyData; report: AppendReport }
+  | { mode: 'merge'; data: ProcessedSurveyData; report: MergeReport };
+
+const RELATIONSHIP_LABELS: Record<JoinRelationship, string> = {
+  'one-to-one': 'One-to-one',
+  'one-to-many': 'One-to-many (first file is the "one" side)'
+};
+
+const JOIN_LABELS: Record<JoinType, string> = {
+  left: 'Keep all rows of the first file',
+  inner: 'Keep matched rows only',
+  full: 'Keep all rows of both files'
+};
+
+const REPORT_KEY_LIMIT = 10;
+
+const KeyList = ({ title, keys }: { title: string; keys: string[] }) =>
+  keys.length === 0 ? null : (
+    <div>
+      <span className="font-medium">{title} ({keys.length}): </span>
+      <span className="font-mono text-xs">
+        {keys.slice(0, REPORT_KEY_LIMIT).join(', ')}
+        {keys.length > REPORT_KEY_LIMIT && ', …'}
+      </span>
+    </div>
+  );
+
+const describe = (data: ProcessedSurveyData) =>
+  `${data.fileName}${data.sheetName ? ` (${data.sheetName})` : ''}`;
+
+export const DatasetAssembly = ({ datasets, onDatasetsChange, onContinue, disabled }: DatasetAssemblyProps) => {
+  const [mode, setMode] = useState<Combined['mode']>('append');
+  const [includeSource, setIncludeSource] = useState(true);
+  const [leftIndex, setLeftIndex] = useState(0);
+  const [rightIndex, setRightIndex] = useState(1);
+  const [keyPairs, setKeyPairs] = useState<Array<[string, string]>>([['', '']]);
+  const [relationship, setRelationship] = useState<JoinRelationship>('one-to-one');
+  const [join, setJoin] = useState<JoinType>('left');
+  const [combined, setCombined] = useState<Combined | null>(null);
+  const [error, setError] = useState('');
+
+  const left = datasets[leftIndex];
+  const right = datasets[rightIndex];
+
+  const resetPreview = () => {
+    setCombined(null);
+    setError('');
+  };
+
+  const removeDataset = (index: number) => {
+    onDatasetsChange(datasets.filter((_, i) => i !== index));
+    setLeftIndex(0);
+    setRightIndex(1);
+    setKeyPairs([['', '']]);
+    resetPreview();
+  };
+
+  const updateKey = (pairIndex: number, side: 0 | 1, name: string) => {
+    setKeyPairs(keyPairs.map((pair, i) => {
+      if (i !== pairIndex) return pair;
+      const next: [string, string] = [...pair];
+      next[side] = name;
+      // Columns with the same name in both files are usually the key
+      if (side === 0 && !next[1] && right?.variables.some(variable => variable.name === name)) next[1] = name;
+      return next;
+    }));
+    resetPreview();
+  };
+
+  const handlePreview = () => {
+    try {
+      setError('');
+      if (mode === 'append') {
+        setCombined({ mode, ...appendDatasets(datasets, includeSource) });
+      } else {
+        const pairs = keyPairs.filter(([leftKey, rightKey]) => leftKey && rightKey);
+        setCombined({
+          mode,
+          ...mergeDatasets(left, right, {
+            leftKeys: pairs.map(([leftKey]) => leftKey),
+            rightKeys: pairs.map(([, rightKey]) => rightKey),
+            relationship,
+            join
+          })
+        });
+      }
+    } catch (e) {
+      setCombined(null);
+      setError(e instanceof Error ? e.message : 'The files could not be combined');
+    }
+  };
+
+  const handleApply = () => {
+    if (!combined) return;
+    const remaining = combined.mode === 'append'
+      ? []
+      : datasets.filter((_, i) => i !== leftIndex && i !== rightIndex);
+    onDatasetsChange([combined.data, ...remaining]);
+    setLeftIndex(0);
+    setRightIndex(1);
+    setKeyPairs([['', '']]);
+    resetPreview();
+  };
+
+  const canApply = combined && (combined.mode === 'append' || isMergeValid(combined.report));
+
+  return (
+    <div className="mt-4 p-4 border rounded-lg space-y-4">
+      <div className="flex items-center gap-2 font-medium">
+        <Layers className="h-4 w-4" />
+        Dataset Assembly
+      </div>
+
+      <div className="space-y-2">
+        {datasets.map((data, index) => (
+          <div key={index} className="flex items-center justify-between gap-2 text-sm p-2 bg-muted/40 rounded">
+            <span className="truncate">
+              <Badge variant="outline" className="mr-2">{index + 1}</Badge>
+              {describe(data)}
+            </span>
+            <span className="flex items-center gap-2 shrink-0 text-muted-foreground">
+              {data.totalRows.toLocaleString()} rows · {data.totalColumns} columns
+              <Button variant="ghost" size="sm" onClick={() => removeDataset(index)} disabled={disabled}>
+                <X className="h-4 w-4" />
+              </Button>
+            </span>
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground">
+          Drop another file above to add survey waves or linked files, then append or merge them.
+        </p>
+      </div>
+
+      {datasets.length > 1 && (
+        <Tabs value={mode} onValueChange={(value) => { setMode(value as Combined['mode']); resetPreview(); }}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="append">Append Rows</TabsTrigger>
+            <TabsTrigger value="merge">Merge on Keys</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="append" className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Stacks all {datasets.length} files. Columns are matched by name, ignoring case; columns missing from a file are left empty.
+            </p>
+            <label className="flex items-center gap-2 text-sm">
+              <Switch checked={includeSource} onCheckedChange={(checked) => { setIncludeSource(checked); resetPreview(); }} />
+              Add a source_file column identifying each row's file
+            </label>
+          </TabsContent>
+
+          <TabsContent value="merge" className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {([['First file', leftIndex, setLeftIndex], ['Second file', rightIndex, setRightIndex]] as const).map(
+                ([title, value, setValue]) => (
+                  <div key={title}>
+                    <label className="text-sm font-medium mb-2 block">{title}</label>
+                    <Select
+                      value={String(value)}
+                      onValueChange={(selected) => { setValue(Number(selected)); setKeyPairs([['', '']]); resetPreview(); }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {datasets.map((data, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {index + 1}. {describe(data)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium block">Key Columns</label>
+              {keyPairs.map((pair, pairIndex) => (
+                <div key={pairIndex} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                  {([left, right] as const).map((data, side) => (
+                    <Select key={side} value={pair[side]} onValueChange={(name) => updateKey(pairIndex, side as 0 | 1, name)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select key column" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {data?.variables.map(variable => (
+                          <SelectItem key={variable.name} value={variable.name}>
+                            {variable.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => { setKeyPairs(keyPairs.filter((_, i) => i !== pairIndex)); resetPreview(); }}
+                    disabled={keyPairs.length === 1}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => setKeyPairs([...keyPairs, ['', '']])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Key Column
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium mb-2 block">Relationship</label>
+                <Select value={relationship} onValueChange={(value) => { setRelationship(value as JoinRelationship); resetPreview(); }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RELATIONSHIP_LABELS) as JoinRelationship[]).map(option => (
+                      <SelectItem key={option} value={option}>{RELATIONSHIP_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Rows to Keep</label>
+                <Select value={join} onValueChange={(value) => { setJoin(value as JoinType); resetPreview(); }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(JOIN_LABELS) as JoinType[]).map(option => (
+                      <SelectItem key={option} value={option}>{JOIN_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </TabsContent>
+
+          <Button
+            onClick={handlePreview}
+            variant="outline"
+            className="w-full mt-3"
+            disabled={disabled || (mode === 'merge' && leftIndex === rightIndex)}
+          >
+            Check {mode === 'append' ? 'Append' : 'Merge'}
+          </Button>
+        </Tabs>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-destructive">
+          <AlertTriangle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      {combined?.mode === 'append' && (
+        <div className="text-sm space-y-1 p-3 bg-muted/40 rounded">
+          <div>
+            {combined.report.totalRows.toLocaleString()} rows from {combined.report.files.length} files,{' '}
+            {combined.data.totalColumns} columns
+          </div>
+          {combined.report.partialColumns.map(column => (
+            <div key={column.name} className="text-xs text-muted-foreground">
+              <span className="font-mono">{column.name}</span> is not in {column.missingFrom.join(', ')}
+            </div>
+          ))}
+          {combined.report.typeConflicts.map(column => (
+            <div key={column.name} className="text-xs text-amber-700">
+              <span className="font-mono">{column.name}</span> has different types across files ({column.types.join(', ')})
+            </div>
+          ))}
+        </div>
+      )}
+
+      {combined?.mode === 'merge' && (
+        <div className="text-sm space-y-1 p-3 bg-muted/40 rounded">
+          <div>
+            {combined.report.matchedKeys.toLocaleString()} matched keys · {combined.report.resultRows.toLocaleString()} rows in the
+            result ({combined.report.leftRows.toLocaleString()} and {combined.report.rightRows.toLocaleString()} in the source files)
+          </div>
+          <KeyList title="Only in the first file" keys={combined.report.unmatchedLeft} />
+          <KeyList title="Only in the second file" keys={combined.report.unmatchedRight} />
+          {(combined.report.missingKeyLeft > 0 || combined.report.missingKeyRight > 0) && (
+            <div className="text-xs text-muted-foreground">
+              Rows with an empty key: {combined.report.missingKeyLeft} in the first file, {combined.report.missingKeyRight} in the second
+            </div>
+          )}
+          {!isMergeValid(combined.report) && (
+            <div className="text-destructive space-y-1">
+              <div className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="h-4 w-4" />
+                Keys repeat where the relationship requires them to be unique
+              </div>
+              <KeyList title="Repeated in the first file" keys={combined.report.duplicateLeft} />
+              <KeyList title="Repeated in the second file" keys={combined.report.duplicateRight} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {combined && (
+        <Button onClick={handleApply} className="w-full" disabled={disabled || !canApply}>
+          Combine Files
+        </Button>
+      )}
+
+      {datasets.length === 1 && (
+        <Button onClick={() => onContinue(datasets[0])} className="w-full" disabled={disabled}>
+          <ArrowRight className="h-4 w-4 mr-2" />
+          Continue to Data Preview
+        </Button>
+      )}
+    </div>
+  );
+};
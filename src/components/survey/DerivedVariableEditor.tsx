@@ -0,0 +1,294 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { FunctionSquare, Pencil, Plus, X } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { formatCellValue } from '@/lib/survey/dataset';
+import {
+  buildRecodeExpression,
+  deriveVariable,
+  isDerived,
+  removeDerivedVariable,
+  type RecodeFallback,
+  type RecodeRule
+} from '@/lib/survey/derive';
+import { EXPRESSION_FUNCTIONS, evaluateExpression, type ExpressionValue } from '@/lib/survey/expression';
+import type { ProcessedSurveyData } from '@/lib/survey/types';
+
+interface DerivedVariableEditorProps {
+  data: ProcessedSurveyData;
+  onDataChange: (data: ProcessedSurveyData) => void;
+}
+
+const EXAMPLES: Array<{ title: string; expression: string }> = [
+  { title: 'Age bands', expression: 'case(age < 35, "18-34", age < 55, "35-54", age >= 55, "55+")' },
+  { title: 'Index score', expression: 'mean(q1, q2, q3)' },
+  { title: 'Reverse code', expression: '6 - q3' },
+  { title: 'Top-2 box', expression: 'if(q1 >= 4, 1, 0)' },
+  { title: 'Days since', expression: 'datediff(start_date, today(), "days")' }
+];
+
+const PREVIEW_ROWS = 10;
+
+type Mode = 'compute' | 'recode';
+
+interface Preview {
+  values?: ExpressionValue[];
+  error?: string;
+}
+
+const previewExpression = (expression: string, data: ProcessedSurveyData): Preview => {
+  if (!expression.trim()) return {};
+  try {
+    return { values: evaluateExpression(expression, data) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'The expression is not valid' };
+  }
+};
+
+export const DerivedVariableEditor = ({ data, onDataChange }: DerivedVariableEditorProps) => {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<Mode>('compute');
+  const [name, setName] = useState('');
+  const [label, setLabel] = useState('');
+  const [expression, setExpression] = useState('');
+  const [source, setSource] = useState('');
+  const [rules, setRules] = useState<RecodeRule[]>([{ from: '', to: '' }]);
+  const [fallback, setFallback] = useState<RecodeFallback>('copy');
+
+  const derived = data.variables.filter(variable => variable.expression !== undefined);
+  const sources = data.variables.filter(variable => variable.type !== 'multi-response' && variable.type !== 'identifier');
+
+  let recodeExpression = '';
+  let recodeError: string | undefined;
+  if (mode === 'recode' && source) {
+    try {
+      recodeExpression = buildRecodeExpression(source, rules, fallback);
+    } catch (error) {
+      recodeError = error instanceof Error ? error.message : 'The recode is not complete';
+    }
+  }
+  const activeExpression = mode === 'compute' ? expression : recodeExpression;
+  const preview = recodeError ? { error: recodeError } : previewExpression(activeExpression, data);
+  const previewMissing = preview.values?.filter(value => value === null).length ?? 0;
+  const updating = isDerived(data, name.trim());
+
+  const updateRule = (index: number, patch: Partial<RecodeRule>) => {
+    setRules(rules.map((rule, position) => (position === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const resetForm = () => {
+    setName('');
+    setLabel('');
+    setExpression('');
+    setSource('');
+    setRules([{ from: '', to: '' }]);
+  };
+
+  const handleSave = () => {
+    try {
+      const next = deriveVariable(data, { name, expression: activeExpression, label });
+      const variable = next.variables.find(candidate => candidate.name === name.trim());
+      onDataChange(next);
+      toast({
+        title: updating ? "Variable recomputed" : "Variable added",
+        description: `${name.trim()}: ${variable?.missing ?? 0} of ${data.totalRows.toLocaleString()} rows missing.`,
+      });
+      resetForm();
+    } catch (error) {
+      toast({
+        title: "Could not compute the variable",
+        description: error instanceof Error ? error.message : "The expression could not be evaluated.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEdit = (variableName: string) => {
+    const variable = data.variables.find(candidate => candidate.name === variableName);
+    if (!variable?.expression) return;
+    setMode('compute');
+    setName(variable.name);
+    setLabel(variable.label ?? '');
+    setExpression(variable.expression);
+  };
+
+  const handleRemove = (variableName: string) => {
+    try {
+      onDataChange(removeDerivedVariable(data, variableName));
+    } catch (error) {
+      toast({
+        title: "Could not remove the variable",
+        description: error instanceof Error ? error.message : "The variable could not be removed.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-blue-800">
+          <FunctionSquare className="h-5 w-5" />
+          Derived Variables
+        </CardTitle>
+        <CardDescription className="text-blue-600">
+          Compute new variables from an expression or recode existing ones; they can be analyzed like uploaded variables
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {derived.length > 0 && (
+          <div className="space-y-2">
+            {derived.map(variable => (
+              <div key={variable.name} className="flex items-center justify-between gap-2 p-2 border rounded text-sm">
+                <div className="min-w-0">
+                  <span className="font-medium">{variable.name}</span>
+                  {variable.label && <span className="text-muted-foreground"> · {variable.label}</span>}
+                  <div className="font-mono text-xs text-muted-foreground truncate" title={variable.expression}>
+                    = {variable.expression}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant="outline">{variable.missing} missing</Badge>
+                  <Button variant="ghost" size="sm" onClick={() => handleEdit(variable.name)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleRemove(variable.name)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="derived-name">Name</Label>
+            <Input id="derived-name" value={name} placeholder="e.g. age_band" onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="derived-label">Label (optional)</Label>
+            <Input id="derived-label" value={label} onChange={(e) => setLabel(e.target.value)} />
+          </div>
+        </div>
+
+        <Tabs value={mode} onValueChange={(value) => setMode(value as Mode)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="compute">Compute</TabsTrigger>
+            <TabsTrigger value="recode">Recode</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="compute" className="space-y-3">
+            <Textarea
+              value={expression}
+              onChange={(e) => setExpression(e.target.value)}
+              placeholder='e.g. if(age < 18, "Under 18", "Adult")'
+              className="font-mono text-sm"
+              rows={3}
+            />
+            <div className="flex flex-wrap gap-2">
+              {EXAMPLES.map(example => (
+                <Button
+                  key={example.title}
+                  variant="outline"
+                  size="sm"
+                  title={example.expression}
+                  onClick={() => setExpression(example.expression)}
+                >
+                  {example.title}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Refer to variables by name, or in brackets when the name has spaces ([Overall rating]). Operators:
+              {' '}+ - * / % ^, & (join text), = != &lt; &lt;= &gt; &gt;=, and, or, not. Missing values stay missing;
+              use <span className="font-mono">missing(x)</span> or <span className="font-mono">coalesce(x, 0)</span> to handle them.
+              Functions: <span className="font-mono">{EXPRESSION_FUNCTIONS.join(', ')}</span>.
+            </p>
+          </TabsContent>
+
+          <TabsContent value="recode" className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <Select value={source} onValueChange={setSource}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Variable to recode" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sources.map(variable => (
+                    <SelectItem key={variable.name} value={variable.name}>{variable.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={fallback} onValueChange={(value) => setFallback(value as RecodeFallback)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="copy">Other values: keep unchanged</SelectItem>
+                  <SelectItem value="missing">Other values: set missing</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              {rules.map((rule, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={rule.from}
+                    placeholder="Values, e.g. 1, 2 or 18..34"
+                    onChange={(e) => updateRule(index, { from: e.target.value })}
+                  />
+                  <span className="text-muted-foreground">→</span>
+                  <Input
+                    value={rule.to}
+                    placeholder="New value"
+                    onChange={(e) => updateRule(index, { to: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={rules.length === 1}
+                    onClick={() => setRules(rules.filter((_, position) => position !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => setRules([...rules, { from: '', to: '' }])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Rule
+              </Button>
+            </div>
+            {recodeExpression && (
+              <div className="font-mono text-xs text-muted-foreground break-all">= {recodeExpression}</div>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        {preview.error && <p className="text-sm text-red-600">{preview.error}</p>}
+        {preview.values && (
+          <div className="text-sm">
+            <span className="font-medium text-blue-800">Preview: </span>
+            <span className="font-mono">
+              {preview.values.slice(0, PREVIEW_ROWS).map(value => (value === null ? '·' : formatCellValue(value))).join(', ')}
+            </span>
+            <span className="text-muted-foreground">
+              {' '}({previewMissing.toLocaleString()} of {data.totalRows.toLocaleString()} missing)
+            </span>
+          </div>
+        )}
+
+        <Button onClick={handleSave} disabled={!name.trim() || !activeExpression.trim() || !!preview.error} className="w-full">
+          <FunctionSquare className="h-4 w-4 mr-1" />
+          {updating ? 'Recompute Variable' : 'Add Variable'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
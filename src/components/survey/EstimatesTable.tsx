@@ -4,14 +4,25 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Target, Download, BarChart3 } from 'lucide-react';
+import { formatLabelledValue, formatVariableName } from '@/lib/survey/dataset';
+import { formatMissingBreakdown } from '@/lib/survey/missing';
+import { describeTreatment } from '@/lib/survey/outliers';
+import { CALIBRATION_METHOD_LABELS } from '@/lib/survey/weighting';
+import type { CalibrationMethod, MissingCategory, OutlierTreatment, SurveyVariable } from '@/lib/survey/types';
 
 interface EstimateGroup {
   group: string;
   estimate: number;
+  /** Readable form of the estimate, e.g. the median level of an ordinal scale. */
+  estimateLabel?: string;
   marginOfError: number;
   confidenceInterval: [number, number];
   sampleSize: number;
   weightedN: number;
+  /** Responses left out of the estimate, by missing reason. */
+  excluded?: Partial<Record<MissingCategory, number>>;
+  /** Design variance over the variance of a simple random sample of the same size. */
+  designEffect?: number;
 }
 
 interface ParameterEstimate {
@@ -19,15 +30,64 @@ interface ParameterEstimate {
   baseParameter: string;
   aggregationType: string;
   weightVariable?: string;
+  /** Option of a multi-response set that the proportions refer to. */
+  option?: string;
+  optionLabel?: string;
+  /** Whether imputed cells were used; `draws` is set when multiple imputations were pooled. */
+  imputation?: {
+    treatment: 'included' | 'excluded';
+    imputedCells: number;
+    draws?: number;
+  };
+  /** Outlier treatments applied to the variables behind the estimate. */
+  transformations?: Array<{ variable: string; treatment: OutlierTreatment; cells: number }>;
+  /** Respondents left out by the quality exclusions. */
+  excludedRespondents?: number;
+  /** Respondents left out for lack of a positive weight. */
+  unweightedRespondents?: number;
+  /** Declared sample design behind the design-based variances. */
+  design?: {
+    strataVariable?: string;
+    clusterVariable?: string;
+    fpcVariable?: string;
+    strata: number;
+    clusters: number;
+    degreesOfFreedom: number;
+    singletonStrata: number;
+  };
+  /** Replicate weights behind the variances. */
+  replicates?: {
+    method: string;
+    count: number;
+    scale: number;
+    fayCoefficient?: number;
+  };
+  /**
+   * Calibration of the weights to population totals. Calibrated estimates
+   * follow the same estimates with the initial weights, flagged `applied: false`.
+   */
+  calibration?: {
+    applied: boolean;
+    method: CalibrationMethod;
+    auxiliaries: string[];
+    iterations?: number;
+    /** Smallest and largest ratio of calibrated to initial weight. */
+    gRange?: [number, number];
+  };
   groups: EstimateGroup[];
 }
 
 interface EstimatesTableProps {
   estimates: ParameterEstimate[];
+  /** Dataset variables, used to show variable and value labels in place of raw codes. */
+  variables?: SurveyVariable[];
   onExportEstimates: () => void;
 }
 
-export const EstimatesTable = ({ estimates, onExportEstimates }: EstimatesTableProps) => {
+export const EstimatesTable = ({ estimates, variables = [], onExportEstimates }: EstimatesTableProps) => {
+  const variablesByName = new Map(variables.map(variable => [variable.name, variable]));
+  const variableName = (name: string) => formatVariableName(name, variablesByName.get(name));
+
   const formatNumber = (num: number, decimals: number = 2) => {
     if (typeof num !== 'number' || isNaN(num)) return 'N/A';
     return num.toLocaleString(undefined, { 
@@ -36,7 +96,7 @@ export const EstimatesTable = ({ estimates, onExportEstimates }: EstimatesTableP
     });
   };
 
-  const getEstimateUnit = (aggregationType: string, parameterName: string) => {
+  const getEstimateUnit = (aggregationType: string, parameterName: string, weighted: boolean) => {
     switch (aggregationType) {
       case 'Mean':
       case 'Median':
@@ -47,7 +107,8 @@ export const EstimatesTable = ({ estimates, onExportEstimates }: EstimatesTableP
       case 'Sum':
         return '';
       case 'Count':
-        return ' responses';
+        // Weighted counts estimate the population size rather than count responses
+        return weighted ? '' : ' responses';
       default:
         return '';
     }
@@ -86,101 +147,172 @@ export const EstimatesTable = ({ estimates, onExportEstimates }: EstimatesTableP
           </div>
         ) : (
           <div className="space-y-6">
-            {estimates.map((estimate, estimateIdx) => (
-              <div key={estimateIdx} className="border rounded-lg overflow-hidden">
-                <div className="bg-muted/30 p-4 border-b">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <h3 className="font-semibold text-lg">{estimate.estimatingParameter}</h3>
-                      <div className="flex items-center gap-2 mt-1">
-                        <Badge variant="default">{estimate.aggregationType}</Badge>
-                        {estimate.baseParameter !== 'None' && (
-                          <>
-                            <span className="text-sm text-muted-foreground">grouped by</span>
-                            <Badge variant="secondary">{estimate.baseParameter}</Badge>
-                          </>
-                        )}
-                        {estimate.weightVariable && (
-                          <>
-                            <span className="text-sm text-muted-foreground">weighted by</span>
-                            <Badge variant="outline">{estimate.weightVariable}</Badge>
-                          </>
+            {estimates.map((estimate, estimateIdx) => {
+              const baseVariable = variablesByName.get(estimate.baseParameter);
+              const estimatingName = variableName(estimate.estimatingParameter);
+              const showDesignEffect = estimate.groups.some(group => group.designEffect !== undefined);
+              return (
+                <div key={estimateIdx} className="border rounded-lg overflow-hidden">
+                  <div className="bg-muted/30 p-4 border-b">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h3 className="font-semibold text-lg">
+                          {estimatingName}
+                          {estimate.option !== undefined && (
+                            <span className="font-normal text-muted-foreground">: {estimate.optionLabel ?? estimate.option}</span>
+                          )}
+                        </h3>
+                        {estimatingName !== estimate.estimatingParameter && (
+                          <div className="text-xs text-muted-foreground font-mono">{estimate.estimatingParameter}</div>
                         )}
+                        <div className="flex items-center gap-2 mt-1">
+                          <Badge variant="default">{estimate.aggregationType}</Badge>
+                          {estimate.baseParameter !== 'None' && (
+                            <>
+                              <span className="text-sm text-muted-foreground">grouped by</span>
+                              <Badge variant="secondary">{variableName(estimate.baseParameter)}</Badge>
+                            </>
+                          )}
+                          {estimate.weightVariable && (
+                            <>
+                              <span className="text-sm text-muted-foreground">weighted by</span>
+                              <Badge variant="outline">{variableName(estimate.weightVariable)}</Badge>
+                            </>
+                          )}
+                          {estimate.imputation && (
+                            <Badge
+                              variant="outline"
+                              className={estimate.imputation.treatment === 'included' ? 'border-amber-300 text-amber-700' : ''}
+                            >
+                              {estimate.imputation.treatment === 'included'
+                                ? `With ${estimate.imputation.imputedCells} imputed values${estimate.imputation.draws ? ` (pooled over ${estimate.imputation.draws} imputations)` : ''}`
+                                : `Without ${estimate.imputation.imputedCells} imputed values`}
+                            </Badge>
+                          )}
+                          {estimate.transformations?.map((t, index) => (
+                            <Badge key={index} variant="outline" className="border-amber-300 text-amber-700">
+                              {variableName(t.variable)}: {describeTreatment(t.treatment, t.cells)}
+                            </Badge>
+                          ))}
+                          {estimate.design && (
+                            <Badge variant="outline" className="border-blue-300 text-blue-700">
+                              {estimate.design.strata} strata, {estimate.design.clusters} PSUs
+                              {estimate.design.fpcVariable ? ', with FPC' : ''}
+                              {estimate.design.singletonStrata > 0 ? ` (${estimate.design.singletonStrata} single-PSU strata)` : ''}
+                            </Badge>
+                          )}
+                          {estimate.replicates && (
+                            <Badge variant="outline" className="border-blue-300 text-blue-700">
+                              {estimate.replicates.method} with {estimate.replicates.count} replicate weights
+                              {estimate.replicates.fayCoefficient !== undefined ? ` (ρ = ${estimate.replicates.fayCoefficient})` : ''}
+                            </Badge>
+                          )}
+                          {estimate.calibration && (
+                            estimate.calibration.applied ? (
+                              <Badge variant="outline" className="border-green-300 text-green-700">
+                                {CALIBRATION_METHOD_LABELS[estimate.calibration.method]} calibration to {estimate.calibration.auxiliaries.map(variableName).join(', ')}
+                                {estimate.calibration.gRange ? ` (g ${formatNumber(estimate.calibration.gRange[0])} to ${formatNumber(estimate.calibration.gRange[1])})` : ''}
+                              </Badge>
+                            ) : (
+                              <Badge variant="outline">Uncalibrated, for comparison</Badge>
+                            )
+                          )}
+                          {estimate.excludedRespondents !== undefined && (
+                            <Badge variant="outline" className="border-red-300 text-red-700">
+                              {estimate.excludedRespondents} respondents excluded
+                            </Badge>
+                          )}
+                          {estimate.unweightedRespondents !== undefined && (
+                            <Badge variant="outline" className="border-red-300 text-red-700">
+                              {estimate.unweightedRespondents} without a positive weight
+                            </Badge>
+                          )}
+                        </div>
                       </div>
                     </div>
                   </div>
-                </div>
 
-                <div className="overflow-x-auto">
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead>Group</TableHead>
-                        <TableHead className="text-right">Estimate</TableHead>
-                        <TableHead className="text-right">Margin of Error</TableHead>
-                        <TableHead className="text-right">95% Confidence Interval</TableHead>
-                        <TableHead className="text-right">Sample Size (n)</TableHead>
-                        <TableHead className="text-right">Weighted n</TableHead>
-                        <TableHead className="text-center">Precision</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {estimate.groups.map((group, groupIdx) => {
-                        const unit = getEstimateUnit(estimate.aggregationType, estimate.estimatingParameter);
-                        const precision = getConfidenceWidth(group.estimate, group.marginOfError);
-                        
-                        return (
-                          <TableRow key={groupIdx}>
-                            <TableCell className="font-medium">
-                              {group.group}
-                            </TableCell>
-                            <TableCell className="text-right font-semibold">
-                              {formatNumber(group.estimate)}{unit}
-                            </TableCell>
-                            <TableCell className="text-right">
-                              ±{formatNumber(group.marginOfError)}{unit}
-                            </TableCell>
-                            <TableCell className="text-right">
-                              <span className="text-sm">
-                                [{formatNumber(group.confidenceInterval[0])}, {formatNumber(group.confidenceInterval[1])}]{unit}
-                              </span>
-                            </TableCell>
-                            <TableCell className="text-right">
-                              {group.sampleSize.toLocaleString()}
-                            </TableCell>
-                            <TableCell className="text-right">
-                              {formatNumber(group.weightedN, 0)}
-                            </TableCell>
-                            <TableCell className="text-center">
-                              <div className="flex items-center justify-center">
-                                <div className="w-16 bg-muted rounded-full h-2 overflow-hidden">
-                                  <div 
-                                    className={`h-full transition-all ${
-                                      precision < 10 ? 'bg-green-500' : 
-                                      precision < 25 ? 'bg-yellow-500' : 'bg-red-500'
-                                    }`}
-                                    style={{ width: `${Math.min(precision, 100)}%` }}
-                                  />
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Group</TableHead>
+                          <TableHead className="text-right">Estimate</TableHead>
+                          <TableHead className="text-right">Margin of Error</TableHead>
+                          <TableHead className="text-right">95% Confidence Interval</TableHead>
+                          <TableHead className="text-right">Sample Size (n)</TableHead>
+                          <TableHead className="text-right">Weighted n</TableHead>
+                          {showDesignEffect && <TableHead className="text-right">Design Effect</TableHead>}
+                          <TableHead>Excluded</TableHead>
+                          <TableHead className="text-center">Precision</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {estimate.groups.map((group, groupIdx) => {
+                          const unit = getEstimateUnit(estimate.aggregationType, estimate.estimatingParameter, Boolean(estimate.weightVariable));
+                          const precision = getConfidenceWidth(group.estimate, group.marginOfError);
+                          
+                          return (
+                            <TableRow key={groupIdx}>
+                              <TableCell className="font-medium">
+                                {baseVariable ? formatLabelledValue(group.group, baseVariable) : group.group}
+                              </TableCell>
+                              <TableCell className="text-right font-semibold">
+                                {group.estimateLabel ?? `${formatNumber(group.estimate)}${unit}`}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                ±{formatNumber(group.marginOfError)}{unit}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                <span className="text-sm">
+                                  [{formatNumber(group.confidenceInterval[0])}, {formatNumber(group.confidenceInterval[1])}]{unit}
+                                </span>
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {group.sampleSize.toLocaleString()}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {formatNumber(group.weightedN, 0)}
+                              </TableCell>
+                              {showDesignEffect && (
+                                <TableCell className="text-right">
+                                  {group.designEffect !== undefined ? formatNumber(group.designEffect) : '—'}
+                                </TableCell>
+                              )}
+                              <TableCell className="text-xs text-muted-foreground">
+                                {(group.excluded && formatMissingBreakdown(group.excluded)) || '—'}
+                              </TableCell>
+                              <TableCell className="text-center">
+                                <div className="flex items-center justify-center">
+                                  <div className="w-16 bg-muted rounded-full h-2 overflow-hidden">
+                                    <div 
+                                      className={`h-full transition-all ${
+                                        precision < 10 ? 'bg-green-500' : 
+                                        precision < 25 ? 'bg-yellow-500' : 'bg-red-500'
+                                      }`}
+                                      style={{ width: `${Math.min(precision, 100)}%` }}
+                                    />
+                                  </div>
+                                  <Badge 
+                                    variant={
+                                      precision < 10 ? 'default' : 
+                                      precision < 25 ? 'secondary' : 'destructive'
+                                    }
+                                    className="ml-2 text-xs"
+                                  >
+                                    {precision < 10 ? 'High' : precision < 25 ? 'Medium' : 'Low'}
+                                  </Badge>
                                 </div>
-                                <Badge 
-                                  variant={
-                                    precision < 10 ? 'default' : 
-                                    precision < 25 ? 'secondary' : 'destructive'
-                                  }
-                                  className="ml-2 text-xs"
-                                >
-                                  {precision < 10 ? 'High' : precision < 25 ? 'Medium' : 'Low'}
-                                </Badge>
-                              </div>
-                            </TableCell>
-                          </TableRow>
-                        );
-                      })}
-                    </TableBody>
-                  </Table>
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </CardContent>
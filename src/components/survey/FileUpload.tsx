@@ -1,211 +1,326 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, type ChangeEvent } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { Upload, FileSpreadsheet, AlertCircle } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Upload, FileSpreadsheet, AlertCircle, Table2, FileText, BookOpen, X } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { useSurveyParser, type ParseProgress } from '@/hooks/use-survey-parser';
+import { applyCodebook, type CodebookEntry } from '@/lib/survey/codebook';
+import { formatCellValue } from '@/lib/survey/dataset';
+import { CSV_DELIMITERS, CSV_ENCODINGS, CSV_QUOTES, type CsvDialect, type CsvQuote } from '@/lib/survey/csv';
+import type { CsvPreview } from '@/lib/survey/parser-protocol';
+import {
+  DEFAULT_IMPORT_PROFILE,
+  MAX_HEADER_ROWS,
+  PLATFORM_COLUMN_LABELS,
+  SURVEY_PLATFORM_LABELS,
+  detectSurveyPlatform,
+  platformLayout,
+  type ImportProfile,
+  type PlatformColumnHandling,
+  type SurveyPlatform
+} from '@/lib/survey/platforms';
+import type { CellValue, ProcessedSurveyData } from '@/lib/survey/types';
+import { DatasetAssembly } from './DatasetAssembly';
 
 interface FileUploadProps {
-  onFileProcessed: (data: any) => void;
+  onFileProcessed: (data: ProcessedSurveyData) => void;
   isProcessing: boolean;
 }
 
+const SHEET_PREVIEW_ROWS = 20;
+const CSV_PREVIEW_ROWS = 6;
+
+const DELIMITER_LABELS: Record<CsvDialect['delimiter'], string> = {
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+  '|': 'Pipe (|)'
+};
+
+const QUOTE_LABELS: Record<CsvQuote, string> = {
+  '"': 'Double quote (")',
+  "'": "Single quote (')",
+  '': 'None'
+};
+
+// Select items cannot have an empty value, so "no quoting" gets a stand-in key
+const quoteKey = (quote: CsvQuote) => quote || 'none';
+const quoteFromKey = (key: string) => (key === 'none' ? '' : key) as CsvQuote;
+
 export const FileUpload = ({ onFileProcessed, isProcessing }: FileUploadProps) => {
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [progressStage, setProgressStage] = useState('');
+  const [isParsing, setIsParsing] = useState(false);
   const [fileName, setFileName] = useState<string>('');
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [sheetName, setSheetName] = useState<string>('');
+  const [sheetRows, setSheetRows] = useState<CellValue[][]>([]);
+  const [sheetRowCount, setSheetRowCount] = useState(0);
+  const [headerRow, setHeaderRow] = useState(1);
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [csvOverride, setCsvOverride] = useState<Partial<CsvDialect>>({});
+  const [csvPreview, setCsvPreview] = useState<CsvPreview | null>(null);
+  const [codebook, setCodebook] = useState<{ fileName: string; entries: CodebookEntry[] } | null>(null);
+  const [datasets, setDatasets] = useState<ProcessedSurveyData[]>([]);
+  const [importProfile, setImportProfile] = useState<ImportProfile>(DEFAULT_IMPORT_PROFILE);
   const { toast } = useToast();
+  const { run } = useSurveyParser();
 
-  const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
+  const handleProgress = useCallback(({ progress, stage }: ParseProgress) => {
+    setUploadProgress(progress);
+    setProgressStage(stage);
+  }, []);
+
+  const reportFailure = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: "Processing failed",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+    setUploadProgress(0);
+    setProgressStage('');
+  }, [toast]);
+
+  const selectSheet = useCallback(async (name: string) => {
+    try {
+      const preview = await run({ type: 'read-sheet', sheetName: name, previewRows: SHEET_PREVIEW_ROWS });
+      setSheetName(name);
+      setSheetRows(preview.rows);
+      setSheetRowCount(preview.rowCount);
+      setHeaderRow(1);
+      setImportProfile(current => ({ ...current, platform: detectSurveyPlatform(preview.rows) }));
+    } catch (error) {
+      reportFailure(error, "Error reading worksheet.");
+    }
+  }, [run, reportFailure]);
+
+  const previewCsv = useCallback(async (file: File, override: Partial<CsvDialect>) => {
+    try {
+      const preview = await run({ type: 'sniff-csv', file, override, previewRows: CSV_PREVIEW_ROWS });
+      setCsvOverride(override);
+      setCsvPreview(preview);
+      setImportProfile(current => ({ ...current, platform: detectSurveyPlatform(preview.rows) }));
+    } catch (error) {
+      reportFailure(error, "Error reading CSV file.");
+    }
+  }, [run, reportFailure]);
+
+  const updateDialect = (changes: Partial<CsvDialect>) => {
+    if (csvFile) previewCsv(csvFile, { ...csvOverride, ...changes });
+  };
+
+  // Rows at the top of the preview that the chosen profile reads as headers
+  const headerRowCount = (rows: CellValue[][]) =>
+    platformLayout(importProfile.platform, rows.slice(0, MAX_HEADER_ROWS)).headerRows;
+
+  const handleCodebookFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
     if (!file) return;
 
-    if (!file.name.match(/\.(csv|xlsx)$/i)) {
+    try {
+      const entries = await run({ type: 'parse-codebook', file });
+      setCodebook({ fileName: file.name, entries });
       toast({
-        title: "Invalid file type",
-        description: "Please upload a CSV or XLSX file.",
+        title: "Codebook loaded",
+        description: `${entries.length} variables described in ${file.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Codebook could not be read",
+        description: error instanceof Error ? error.message : "Please upload a CSV, JSON or XLSX codebook.",
         variant: "destructive",
       });
-      return;
     }
+  };
 
-    setFileName(file.name);
-    setUploadProgress(0);
+  // Imported files wait in the assembly step until they are combined into one dataset
+  const completeImport = useCallback((processedData: ProcessedSurveyData) => {
+    setUploadProgress(100);
+    setProgressStage('Complete');
+    setDatasets(current => [...current, processedData]);
 
-    // Simulate file processing with progress
-    const progressInterval = setInterval(() => {
-      setUploadProgress(prev => {
-        if (prev >= 90) {
-          clearInterval(progressInterval);
-          return 90;
-        }
-        return prev + 10;
+    toast({
+      title: "File processed successfully",
+      description: `${processedData.fileName}${processedData.sheetName ? ` (${processedData.sheetName})` : ''} analyzed: ${processedData.totalRows} rows, ${processedData.totalColumns} columns`,
+    });
+  }, [toast]);
+
+  const handleContinue = (processedData: ProcessedSurveyData) => {
+    let data = processedData;
+    if (codebook) {
+      const result = applyCodebook(processedData, codebook.entries);
+      data = result.data;
+      toast({
+        title: "Codebook applied",
+        description: `Matched ${result.matched} of ${codebook.entries.length} variables` +
+          (result.unmatched.length > 0 ? ` (not found: ${result.unmatched.slice(0, 5).join(', ')}${result.unmatched.length > 5 ? ', …' : ''})` : ''),
+      });
+    }
+    onFileProcessed(data);
+  };
+
+  const handleImportSheet = async () => {
+    if (headerRow < 1 || headerRow >= sheetRowCount) {
+      toast({
+        title: "Invalid header row",
+        description: "The header row must be followed by at least one data row.",
+        variant: "destructive",
       });
-    }, 200);
+      return;
+    }
 
+    setIsParsing(true);
     try {
-      // Here you would integrate with your Python backend
-      // For now, we'll simulate the processing
-      setTimeout(() => {
-        clearInterval(progressInterval);
-        setUploadProgress(100);
-        
-        // Process the actual file to get real data
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          try {
-            const csvText = e.target?.result as string;
-            
-            // Handle different encodings and clean the text
-            const cleanText = csvText
-              .replace(/^\uFEFF/, '') // Remove BOM
-              .replace(/\r\n/g, '\n')
-              .replace(/\r/g, '\n');
-            
-            const lines = cleanText.trim().split('\n');
-            if (lines.length < 2) {
-              throw new Error('CSV file must have at least a header and one data row');
-            }
+      const processedData = await run(
+        { type: 'import-sheet', sheetName, headerRow, profile: importProfile },
+        handleProgress
+      );
+      setSheetNames([]);
+      completeImport(processedData);
+    } catch (error) {
+      reportFailure(error, "Error reading XLSX file. Please check format.");
+    } finally {
+      setIsParsing(false);
+    }
+  };
 
-            // Parse CSV properly handling quotes and commas
-            const parseCSVLine = (line: string): string[] => {
-              const result: string[] = [];
-              let current = '';
-              let inQuotes = false;
-              let i = 0;
-
-              while (i < line.length) {
-                const char = line[i];
-                
-                if (char === '"') {
-                  if (inQuotes && line[i + 1] === '"') {
-                    current += '"';
-                    i += 2;
-                  } else {
-                    inQuotes = !inQuotes;
-                    i++;
-                  }
-                } else if (char === ',' && !inQuotes) {
-                  result.push(current.trim());
-                  current = '';
-                  i++;
-                } else {
-                  current += char;
-                  i++;
-                }
-              }
-              
-              result.push(current.trim());
-              return result;
-            };
-
-            const headers = parseCSVLine(lines[0]);
-            const totalRows = lines.length - 1;
-            
-            // Parse all data for accurate statistics
-            const allData: any[] = [];
-            for (let i = 1; i < lines.length; i++) {
-              const values = parseCSVLine(lines[i]);
-              const row: any = {};
-              headers.forEach((header, index) => {
-                row[header] = values[index] || '';
-              });
-              allData.push(row);
-            }
+  const handleImportCsv = async () => {
+    if (!csvFile || !csvPreview) return;
 
-            // Get sample data (first 10 records)
-            const sampleData = allData.slice(0, 10);
-
-            // Analyze variables with all data
-            const variables = headers.map(header => {
-              let missing = 0;
-              let numericCount = 0;
-              const values: any[] = [];
-              
-              allData.forEach(row => {
-                const value = row[header];
-                if (!value || value === '' || value === null || value === undefined) {
-                  missing++;
-                } else {
-                  values.push(value);
-                  if (!isNaN(Number(value)) && value !== '' && value !== null) {
-                    numericCount++;
-                  }
-                }
-              });
-
-              const isNumeric = numericCount > values.length * 0.5 && values.length > 0;
-              const uniqueValues = [...new Set(values.filter(v => v !== '' && v !== null))].length;
-
-              if (isNumeric) {
-                const numericValues = values.map(v => parseFloat(v)).filter(v => !isNaN(v));
-                return {
-                  name: header,
-                  type: 'numeric',
-                  missing,
-                  uniqueValues,
-                  mean: numericValues.length > 0 ? numericValues.reduce((a, b) => a + b, 0) / numericValues.length : 0,
-                  min: numericValues.length > 0 ? Math.min(...numericValues) : 0,
-                  max: numericValues.length > 0 ? Math.max(...numericValues) : 0
-                };
-              } else {
-                return {
-                  name: header,
-                  type: 'categorical',
-                  missing,
-                  uniqueValues
-                };
-              }
-            });
-
-            const totalMissing = variables.reduce((sum, v) => sum + v.missing, 0);
-
-            const processedData = {
-              fileName: file.name,
-              totalRows,
-              totalColumns: headers.length,
-              missingValues: totalMissing,
-              variables,
-              sampleData
-            };
-            
-            onFileProcessed(processedData);
-            
-            toast({
-              title: "File processed successfully",
-              description: `${file.name} analyzed: ${processedData.totalRows} rows, ${processedData.totalColumns} columns`,
-            });
-          } catch (error) {
-            toast({
-              title: "Processing failed",
-              description: "Error reading CSV file. Please check format.",
-              variant: "destructive",
-            });
-          }
-        };
-        
-        reader.readAsText(file);
-      }, 2000);
+    setIsParsing(true);
+    try {
+      // Parsing streams the file in a worker so large surveys don't block the page
+      const processedData = await run(
+        { type: 'parse-csv', file: csvFile, dialect: csvPreview.dialect, profile: importProfile },
+        handleProgress
+      );
+      setCsvFile(null);
+      setCsvPreview(null);
+      completeImport(processedData);
     } catch (error) {
+      reportFailure(error, "Error reading CSV file. Please check the import settings.");
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    const file = acceptedFiles[0];
+    if (!file) return;
+
+    if (!file.name.match(/\.(csv|tsv|txt|xlsx|sav|zsav|dta)$/i)) {
       toast({
-        title: "Processing failed",
-        description: "There was an error processing your file.",
+        title: "Invalid file type",
+        description: "Please upload a CSV or other delimited text, XLSX, SPSS (.sav) or Stata (.dta) file.",
         variant: "destructive",
       });
-      setUploadProgress(0);
+      return;
+    }
+
+    setFileName(file.name);
+    setUploadProgress(0);
+    setSheetNames([]);
+    setCsvFile(null);
+    setCsvPreview(null);
+    setIsParsing(true);
+
+    try {
+      if (/\.xlsx$/i.test(file.name)) {
+        const { sheetNames: names } = await run({ type: 'open-workbook', file }, handleProgress);
+        if (names.length === 0) {
+          throw new Error('The workbook does not contain any worksheets');
+        }
+        setSheetNames(names);
+        await selectSheet(names[0]);
+      } else if (/\.(sav|zsav|dta)$/i.test(file.name)) {
+        const format = /\.dta$/i.test(file.name) ? 'stata' : 'spss';
+        completeImport(await run({ type: 'parse-statistical', file, format }, handleProgress));
+      } else {
+        setCsvFile(file);
+        await previewCsv(file, {});
+      }
+    } catch (error) {
+      reportFailure(error, "There was an error processing your file.");
+    } finally {
+      setIsParsing(false);
     }
-  }, [onFileProcessed, toast]);
+  }, [run, handleProgress, selectSheet, previewCsv, completeImport, reportFailure, toast]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       'text/csv': ['.csv'],
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx']
+      'text/tab-separated-values': ['.tsv'],
+      'text/plain': ['.txt'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'application/x-spss-sav': ['.sav', '.zsav'],
+      'application/x-stata-dta': ['.dta']
     },
     maxFiles: 1,
-    disabled: isProcessing
+    disabled: isProcessing || isParsing
   });
 
+  const sheetHeaderRows = headerRowCount(sheetRows.slice(headerRow - 1));
+  const csvHeaderRows = csvPreview ? headerRowCount(csvPreview.rows) : 1;
+
+  const profileSettings = (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="text-sm font-medium mb-2 block">Survey Platform</label>
+          <Select
+            value={importProfile.platform}
+            onValueChange={(value) => setImportProfile({ ...importProfile, platform: value as SurveyPlatform })}
+            disabled={isParsing}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SURVEY_PLATFORM_LABELS) as SurveyPlatform[]).map(platform => (
+                <SelectItem key={platform} value={platform}>
+                  {SURVEY_PLATFORM_LABELS[platform]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="text-sm font-medium mb-2 block">Response Metadata Columns</label>
+          <Select
+            value={importProfile.platformColumns}
+            onValueChange={(value) =>
+              setImportProfile({ ...importProfile, platformColumns: value as PlatformColumnHandling })
+            }
+            disabled={isParsing || importProfile.platform === 'generic'}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PLATFORM_COLUMN_LABELS) as PlatformColumnHandling[]).map(handling => (
+                <SelectItem key={handling} value={handling}>
+                  {PLATFORM_COLUMN_LABELS[handling]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {importProfile.platform !== 'generic' && (
+        <p className="text-xs text-muted-foreground">
+          {SURVEY_PLATFORM_LABELS[importProfile.platform]} layout: extra header rows become variable labels,
+          and columns such as IP address, location and timestamps are treated as response metadata.
+        </p>
+      )}
+    </>
+  );
+
   return (
     <Card className="w-full">
       <CardHeader>
@@ -214,7 +329,7 @@ export const FileUpload = ({ onFileProcessed, isProcessing }: FileUploadProps) =
           Upload Survey Data
         </CardTitle>
         <CardDescription>
-          Upload your CSV or XLSX file containing survey responses for automated analysis
+          Upload your CSV, XLSX, SPSS or Stata file containing survey responses for automated analysis
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -224,7 +339,7 @@ export const FileUpload = ({ onFileProcessed, isProcessing }: FileUploadProps) =
             isDragActive 
               ? 'border-primary bg-primary/5' 
               : 'border-border hover:border-primary/50'
-          } ${isProcessing ? 'opacity-50 cursor-not-allowed' : ''}`}
+          } ${isProcessing || isParsing ? 'opacity-50 cursor-not-allowed' : ''}`}
         >
           <input {...getInputProps()} />
           <div className="flex flex-col items-center gap-4">
@@ -240,23 +355,221 @@ export const FileUpload = ({ onFileProcessed, isProcessing }: FileUploadProps) =
                   </Button>
                 </p>
                 <p className="text-sm text-muted-foreground">
-                  Supports CSV and XLSX files up to 50MB
+                  Supports CSV and delimited text, XLSX, SPSS (.sav) and Stata (.dta) files up to 50MB
                 </p>
               </>
             )}
           </div>
         </div>
 
+        <div className="mt-4 flex items-center justify-between gap-4 p-3 border rounded-lg">
+          <div className="flex items-center gap-2 text-sm min-w-0">
+            <BookOpen className="h-4 w-4 shrink-0 text-muted-foreground" />
+            {codebook ? (
+              <span className="truncate">
+                Codebook: <span className="font-medium">{codebook.fileName}</span> ({codebook.entries.length} variables)
+              </span>
+            ) : (
+              <span className="text-muted-foreground">
+                Optional codebook (CSV, JSON or XLSX) or XLSForm questionnaire with variable labels, types, value labels, missing codes and skip logic
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {codebook && (
+              <Button variant="ghost" size="sm" onClick={() => setCodebook(null)} disabled={isParsing}>
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="outline" size="sm" asChild disabled={isProcessing || isParsing}>
+              <label className="cursor-pointer">
+                {codebook ? 'Replace' : 'Add Codebook'}
+                <input
+                  type="file"
+                  accept=".csv,.json,.xlsx,.txt"
+                  className="hidden"
+                  onChange={handleCodebookFile}
+                />
+              </label>
+            </Button>
+          </div>
+        </div>
+
         {fileName && (
           <div className="mt-4 space-y-2">
             <div className="flex items-center justify-between">
               <span className="text-sm font-medium">{fileName}</span>
-              <span className="text-sm text-muted-foreground">{uploadProgress}%</span>
+              <span className="text-sm text-muted-foreground">
+                {progressStage && `${progressStage} · `}{uploadProgress}%
+              </span>
             </div>
             <Progress value={uploadProgress} className="h-2" />
           </div>
         )}
 
+        {sheetNames.length > 0 && (
+          <div className="mt-4 p-4 border rounded-lg space-y-4">
+            <div className="flex items-center gap-2 font-medium">
+              <Table2 className="h-4 w-4" />
+              Workbook Import Settings
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium mb-2 block">Sheet</label>
+                <Select value={sheetName} onValueChange={selectSheet} disabled={isParsing}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sheetNames.map(name => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Header Row</label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={Math.max(Math.min(sheetRows.length, sheetRowCount - 1), 1)}
+                  value={headerRow}
+                  onChange={(e) => setHeaderRow(Math.max(1, parseInt(e.target.value) || 1))}
+                />
+              </div>
+            </div>
+            {profileSettings}
+
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse text-xs">
+                <tbody>
+                  {sheetRows.slice(0, Math.max(headerRow + 3, 6)).map((row, rowIndex) => (
+                    <tr
+                      key={rowIndex}
+                      className={`border-b ${rowIndex >= headerRow - 1 && rowIndex < headerRow - 1 + sheetHeaderRows ? 'bg-primary/10 font-medium' : ''} ${rowIndex < headerRow - 1 ? 'text-muted-foreground line-through' : ''}`}
+                    >
+                      <td className="p-1 pr-3 text-muted-foreground">{rowIndex + 1}</td>
+                      {row.slice(0, 8).map((value, colIndex) => (
+                        <td key={colIndex} className="p-1 pr-3 whitespace-nowrap">
+                          {formatCellValue(value)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <Button onClick={handleImportSheet} className="w-full" disabled={isProcessing || isParsing || sheetRowCount < 2}>
+              Import Sheet
+            </Button>
+          </div>
+        )}
+
+        {csvPreview && (
+          <div className="mt-4 p-4 border rounded-lg space-y-4">
+            <div className="flex items-center gap-2 font-medium">
+              <FileText className="h-4 w-4" />
+              CSV Import Settings
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Detected {DELIMITER_LABELS[csvPreview.detected.delimiter].toLowerCase()} separated values,{' '}
+              {QUOTE_LABELS[csvPreview.detected.quote].toLowerCase()} quoting, {csvPreview.detected.encoding} encoding
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="text-sm font-medium mb-2 block">Delimiter</label>
+                <Select
+                  value={csvPreview.dialect.delimiter}
+                  onValueChange={(value) => updateDialect({ delimiter: value as CsvDialect['delimiter'] })}
+                  disabled={isParsing}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_DELIMITERS.map(delimiter => (
+                      <SelectItem key={delimiter} value={delimiter}>
+                        {DELIMITER_LABELS[delimiter]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Quote Character</label>
+                <Select
+                  value={quoteKey(csvPreview.dialect.quote)}
+                  onValueChange={(value) => updateDialect({ quote: quoteFromKey(value) })}
+                  disabled={isParsing}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_QUOTES.map(quote => (
+                      <SelectItem key={quoteKey(quote)} value={quoteKey(quote)}>
+                        {QUOTE_LABELS[quote]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Encoding</label>
+                <Select
+                  value={csvPreview.dialect.encoding}
+                  onValueChange={(value) => updateDialect({ encoding: value as CsvDialect['encoding'] })}
+                  disabled={isParsing}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_ENCODINGS.map(encoding => (
+                      <SelectItem key={encoding} value={encoding}>
+                        {encoding}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {profileSettings}
+
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse text-xs">
+                <tbody>
+                  {csvPreview.rows.map((row, rowIndex) => (
+                    <tr key={rowIndex} className={`border-b ${rowIndex < csvHeaderRows ? 'bg-primary/10 font-medium' : ''}`}>
+                      {row.slice(0, 8).map((value, colIndex) => (
+                        <td key={colIndex} className="p-1 pr-3 whitespace-nowrap max-w-[12rem] truncate">
+                          {value}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <Button onClick={handleImportCsv} className="w-full" disabled={isProcessing || isParsing || csvPreview.rows.length <= csvHeaderRows}>
+              Import CSV
+            </Button>
+          </div>
+        )}
+
+        {datasets.length > 0 && (
+          <DatasetAssembly
+            datasets={datasets}
+            onDatasetsChange={setDatasets}
+            onContinue={handleContinue}
+            disabled={isProcessing || isParsing}
+          />
+        )}
+
         <div className="mt-4 p-4 bg-muted/50 rounded-lg">
           <div className="flex items-start gap-2">
             <AlertCircle className="h-4 w-4 text-muted-foreground mt-0.5" />
@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Wand2, X } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  DEFAULT_IMPUTATIONS,
+  DEFAULT_NEIGHBOURS,
+  IMPUTATION_METHOD_LABELS,
+  NUMERIC_ONLY_METHODS,
+  imputableRows,
+  imputeVariable,
+  removeImputation
+} from '@/lib/survey/imputation';
+import { trimmedCells } from '@/lib/survey/outliers';
+import type { ImputationMethod, ImputationSpec, ProcessedSurveyData } from '@/lib/survey/types';
+
+interface ImputationEditorProps {
+  data: ProcessedSurveyData;
+  onDataChange: (data: ProcessedSurveyData) => void;
+}
+
+const PREDICTOR_METHODS: ImputationMethod[] = ['knn', 'regression', 'multiple'];
+// Multiple imputation can draw from the whole sample; these cannot
+const PREDICTORS_REQUIRED: ImputationMethod[] = ['knn', 'regression'];
+
+export const ImputationEditor = ({ data, onDataChange }: ImputationEditorProps) => {
+  const { toast } = useToast();
+  const records = data.imputations ?? [];
+  const [variableName, setVariableName] = useState('');
+  const [method, setMethod] = useState<ImputationMethod>('hot-deck');
+  const [auxiliary, setAuxiliary] = useState<string[]>([]);
+  const [neighbours, setNeighbours] = useState(String(DEFAULT_NEIGHBOURS));
+  const [imputations, setImputations] = useState(String(DEFAULT_IMPUTATIONS));
+
+  const trimmed = trimmedCells(data);
+  // Variables already imputed stay listed so they can be imputed again with another method
+  const candidates = data.variables.filter(variable =>
+    variable.type !== 'identifier' &&
+    variable.type !== 'multi-response' &&
+    (imputableRows(variable, trimmed.get(variable.name)).length > 0 || records.some(record => record.variable === variable.name))
+  );
+  const target = data.variables.find(variable => variable.name === variableName);
+  const methods = (Object.keys(IMPUTATION_METHOD_LABELS) as ImputationMethod[]).filter(option =>
+    !target || target.type === 'numeric' || !NUMERIC_ONLY_METHODS.includes(option)
+  );
+  const usesClasses = method === 'hot-deck';
+  const usesPredictors = PREDICTOR_METHODS.includes(method);
+  const auxiliaryOptions = data.variables.filter(variable =>
+    variable.name !== variableName && variable.type !== 'identifier' && variable.type !== 'text'
+  );
+
+  const toggleAuxiliary = (name: string, checked: boolean) => {
+    setAuxiliary(checked ? [...auxiliary, name] : auxiliary.filter(item => item !== name));
+  };
+
+  const handleVariableChange = (name: string) => {
+    setVariableName(name);
+    setAuxiliary(auxiliary.filter(item => item !== name));
+    const next = data.variables.find(variable => variable.name === name);
+    if (next && next.type !== 'numeric' && NUMERIC_ONLY_METHODS.includes(method)) setMethod('hot-deck');
+  };
+
+  const handleImpute = () => {
+    const spec: ImputationSpec = { variable: variableName, method };
+    if (usesClasses) spec.classVariables = auxiliary;
+    if (usesPredictors) spec.predictors = auxiliary;
+    if (method === 'knn') spec.neighbours = Number(neighbours) || DEFAULT_NEIGHBOURS;
+    if (method === 'multiple') spec.imputations = Number(imputations) || DEFAULT_IMPUTATIONS;
+
+    try {
+      const next = imputeVariable(data, spec);
+      const record = next.imputations?.find(candidate => candidate.variable === variableName);
+      onDataChange(next);
+      toast({
+        title: "Values imputed",
+        description: `${record?.rows.length ?? 0} missing values of ${variableName} filled by ${IMPUTATION_METHOD_LABELS[method].toLowerCase()}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Imputation failed",
+        description: error instanceof Error ? error.message : "The values could not be imputed.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-blue-800">
+          <Wand2 className="h-5 w-5" />
+          Imputation
+        </CardTitle>
+        <CardDescription className="text-blue-600">
+          Fill missing values and flag the imputed cells, so estimates can be compared with and without them
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {records.length > 0 && (
+          <div className="space-y-2">
+            {records.map(record => (
+              <div key={record.variable} className="flex items-center justify-between gap-2 p-2 border rounded text-sm">
+                <div className="min-w-0">
+                  <span className="font-medium">{record.variable}</span>
+                  <span className="text-muted-foreground">
+                    {' '}· {record.rows.length.toLocaleString()} cells
+                    {record.predictors?.length ? ` · from ${record.predictors.join(', ')}` : ''}
+                    {record.classVariables?.length ? ` · within ${record.classVariables.join(', ')}` : ''}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant="outline">
+                    {IMPUTATION_METHOD_LABELS[record.method]}
+                    {record.draws ? ` (m = ${record.draws.length})` : ''}
+                  </Badge>
+                  <Button variant="ghost" size="sm" onClick={() => onDataChange(removeImputation(data, record.variable))}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {candidates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No variable has missing values to impute.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <Select value={variableName} onValueChange={handleVariableChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Variable to impute" />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map(variable => (
+                    <SelectItem key={variable.name} value={variable.name}>
+                      {variable.name} ({variable.missing} missing)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={method} onValueChange={(value) => setMethod(value as ImputationMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {methods.map(option => (
+                    <SelectItem key={option} value={option}>{IMPUTATION_METHOD_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {method === 'knn' && (
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="imputation-neighbours" className="shrink-0">Neighbours (k)</Label>
+                  <Input
+                    id="imputation-neighbours"
+                    type="number"
+                    min={1}
+                    value={neighbours}
+                    onChange={(e) => setNeighbours(e.target.value)}
+                  />
+                </div>
+              )}
+              {method === 'multiple' && (
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="imputation-count" className="shrink-0">Imputations (m)</Label>
+                  <Input
+                    id="imputation-count"
+                    type="number"
+                    min={2}
+                    value={imputations}
+                    onChange={(e) => setImputations(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+
+            {(usesClasses || usesPredictors) && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium text-blue-800">
+                  {usesClasses ? 'Imputation classes (donors match on every one)' : 'Predictors'}
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 max-h-40 overflow-y-auto p-2 border rounded">
+                  {auxiliaryOptions.map(variable => (
+                    <label key={variable.name} className="flex items-center gap-2 text-sm truncate">
+                      <Checkbox
+                        checked={auxiliary.includes(variable.name)}
+                        onCheckedChange={(checked) => toggleAuxiliary(variable.name, checked === true)}
+                      />
+                      {variable.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <Button
+              onClick={handleImpute}
+              disabled={!variableName || (PREDICTORS_REQUIRED.includes(method) && auxiliary.length === 0)}
+              className="w-full"
+            >
+              <Wand2 className="h-4 w-4 mr-1" />
+              Impute Missing Values
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Ban, Plus, X } from 'lucide-react';
+import { applyMissingSchema } from '@/lib/survey/dataset';
+import {
+  EMPTY_MISSING_SCHEMA,
+  MISSING_CATEGORY_LABELS,
+  MISSING_CODE_CATEGORIES,
+  SUGGESTED_MISSING_CODES,
+  formatMissingBreakdown,
+  normalizeMissingCode
+} from '@/lib/survey/missing';
+import type { MissingCodeRule, MissingValueSchema, ProcessedSurveyData } from '@/lib/survey/types';
+
+interface MissingValueEditorProps {
+  data: ProcessedSurveyData;
+  onDataChange: (data: ProcessedSurveyData) => void;
+}
+
+const GLOBAL_SCOPE = '__all__';
+
+const addRule = (rules: MissingCodeRule[], rule: MissingCodeRule) => [
+  ...rules.filter(existing => normalizeMissingCode(existing.code) !== normalizeMissingCode(rule.code)),
+  rule
+];
+
+export const MissingValueEditor = ({ data, onDataChange }: MissingValueEditorProps) => {
+  const schema = data.missingSchema ?? EMPTY_MISSING_SCHEMA;
+  const [code, setCode] = useState('');
+  const [category, setCategory] = useState<MissingCodeRule['category']>('refused');
+  const [scope, setScope] = useState(GLOBAL_SCOPE);
+
+  const updateSchema = (next: MissingValueSchema) => {
+    onDataChange(applyMissingSchema(data, next));
+  };
+
+  const handleAdd = () => {
+    const rule = { code: code.trim(), category };
+    if (!rule.code) return;
+    if (scope === GLOBAL_SCOPE) {
+      updateSchema({ ...schema, global: addRule(schema.global, rule) });
+    } else {
+      updateSchema({
+        ...schema,
+        variables: { ...schema.variables, [scope]: addRule(schema.variables[scope] ?? [], rule) }
+      });
+    }
+    setCode('');
+  };
+
+  const handleAddSuggested = () => {
+    updateSchema({ ...schema, global: SUGGESTED_MISSING_CODES.reduce(addRule, schema.global) });
+  };
+
+  const removeRule = (ruleScope: string, ruleCode: string) => {
+    if (ruleScope === GLOBAL_SCOPE) {
+      updateSchema({ ...schema, global: schema.global.filter(rule => rule.code !== ruleCode) });
+      return;
+    }
+    const remaining = (schema.variables[ruleScope] ?? []).filter(rule => rule.code !== ruleCode);
+    const variables = { ...schema.variables, [ruleScope]: remaining };
+    if (remaining.length === 0) delete variables[ruleScope];
+    updateSchema({ ...schema, variables });
+  };
+
+  const scopedRules = [
+    ...schema.global.map(rule => ({ scope: GLOBAL_SCOPE, rule })),
+    ...Object.entries(schema.variables).flatMap(([name, rules]) => rules.map(rule => ({ scope: name, rule })))
+  ];
+  const variablesWithMissing = data.variables.filter(variable => variable.missing > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-blue-800">
+          <Ban className="h-5 w-5" />
+          Missing Value Codes
+        </CardTitle>
+        <CardDescription className="text-blue-600">
+          Codes such as -99 or "DK" are counted as missing and left out of statistics
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <Input
+            placeholder="Code, e.g. -99"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          />
+          <Select value={category} onValueChange={(value) => setCategory(value as MissingCodeRule['category'])}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MISSING_CODE_CATEGORIES.map(option => (
+                <SelectItem key={option} value={option}>
+                  {MISSING_CATEGORY_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={GLOBAL_SCOPE}>All variables</SelectItem>
+              {data.variables.map(variable => (
+                <SelectItem key={variable.name} value={variable.name}>
+                  {variable.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex gap-2">
+            <Button onClick={handleAdd} disabled={!code.trim()} className="flex-1">
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+            <Button variant="outline" onClick={handleAddSuggested}>
+              Common Codes
+            </Button>
+          </div>
+        </div>
+
+        {scopedRules.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {scopedRules.map(({ scope: ruleScope, rule }) => (
+              <Badge key={`${ruleScope}:${rule.code}`} variant="secondary" className="flex items-center gap-1">
+                <span className="font-mono">{rule.code}</span>
+                <span className="text-muted-foreground">
+                  {MISSING_CATEGORY_LABELS[rule.category]}
+                  {ruleScope !== GLOBAL_SCOPE && ` · ${ruleScope}`}
+                </span>
+                <button onClick={() => removeRule(ruleScope, rule.code)} className="ml-1 hover:text-destructive">
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {variablesWithMissing.length > 0 && (
+          <div className="space-y-1 text-sm">
+            <div className="font-medium text-blue-800">Missing by variable</div>
+            {variablesWithMissing.map(variable => (
+              <div key={variable.name} className="flex justify-between gap-4 text-blue-700">
+                <span className="truncate">{variable.name}</span>
+                <span className="text-xs text-muted-foreground text-right">
+                  {formatMissingBreakdown(variable.missingBreakdown)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckSquare, Plus, Sparkles, X } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { setMultiResponseSets, suggestDummySets } from '@/lib/survey/multi-response';
+import { RESPONSE_DELIMITERS } from '@/lib/survey/variable-types';
+import type { MultiResponseSet, ProcessedSurveyData } from '@/lib/survey/types';
+
+interface MultiResponseSetEditorProps {
+  data: ProcessedSurveyData;
+  onDataChange: (data: ProcessedSurveyData) => void;
+}
+
+const LAYOUT_LABELS: Record<MultiResponseSet['layout'], string> = {
+  delimited: 'Options in one delimited cell',
+  dummy: 'One column per option'
+};
+
+export const MultiResponseSetEditor = ({ data, onDataChange }: MultiResponseSetEditorProps) => {
+  const { toast } = useToast();
+  const sets = data.multiResponseSets ?? [];
+  const [name, setName] = useState('');
+  const [layout, setLayout] = useState<MultiResponseSet['layout']>('dummy');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [delimiter, setDelimiter] = useState<string>(RESPONSE_DELIMITERS[0]);
+  const [selectedValue, setSelectedValue] = useState('');
+
+  const updateSets = (next: MultiResponseSet[]) => {
+    onDataChange(setMultiResponseSets(data, next));
+  };
+
+  const toggleVariable = (variableName: string, checked: boolean) => {
+    setSelected(checked ? [...selected, variableName] : selected.filter(item => item !== variableName));
+  };
+
+  const handleAdd = () => {
+    const newName = name.trim() || (layout === 'delimited' ? selected[0] : '');
+    const clash = sets.some(set => set.name === newName) ||
+      (layout === 'dummy' && data.variables.some(variable => variable.name === newName));
+    if (!newName || clash) {
+      toast({
+        title: "Choose another name",
+        description: clash ? `"${newName}" is already used by a variable or set.` : "Give the set a name.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    updateSets([
+      ...sets,
+      layout === 'delimited'
+        ? { name: newName, layout, variables: selected.slice(0, 1), delimiter }
+        : { name: newName, layout, variables: selected, selectedValue: selectedValue.trim() || undefined }
+    ]);
+    setName('');
+    setSelected([]);
+    setSelectedValue('');
+  };
+
+  const handleDetect = () => {
+    const suggestions = suggestDummySets(data).filter(
+      suggestion => !sets.some(set => set.name === suggestion.name)
+    );
+    if (suggestions.length === 0) {
+      toast({
+        title: "No sets found",
+        description: "No groups of option columns such as Q5_1, Q5_2 were found.",
+      });
+      return;
+    }
+    updateSets([...sets, ...suggestions]);
+    toast({
+      title: "Multi-response sets added",
+      description: suggestions.map(set => `${set.name} (${set.variables.length} options)`).join(', '),
+    });
+  };
+
+  const canAdd = layout === 'delimited' ? selected.length === 1 : selected.length >= 2;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-blue-800">
+          <CheckSquare className="h-5 w-5" />
+          Multi-Response Sets
+        </CardTitle>
+        <CardDescription className="text-blue-600">
+          Group select-all-that-apply questions, whether exported as one delimited cell or one column per option
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sets.length > 0 && (
+          <div className="space-y-2">
+            {sets.map(set => (
+              <div key={set.name} className="flex items-center justify-between gap-2 p-2 border rounded text-sm">
+                <div className="min-w-0">
+                  <span className="font-medium">{set.name}</span>
+                  <span className="text-muted-foreground"> · {set.variables.join(', ')}</span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant="outline">{set.layout === 'dummy' ? `${set.variables.length} columns` : 'Delimited'}</Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateSets(sets.filter(existing => existing.name !== set.name))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <Input placeholder="Set name, e.g. Q5" value={name} onChange={(e) => setName(e.target.value)} />
+          <Select
+            value={layout}
+            onValueChange={(value) => { setLayout(value as MultiResponseSet['layout']); setSelected([]); }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(LAYOUT_LABELS) as MultiResponseSet['layout'][]).map(option => (
+                <SelectItem key={option} value={option}>{LAYOUT_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {layout === 'delimited' ? (
+            <Select value={delimiter} onValueChange={setDelimiter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RESPONSE_DELIMITERS.map(option => (
+                  <SelectItem key={option} value={option}>Separated by "{option}"</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              placeholder="Selected value (default: any but 0/No)"
+              value={selectedValue}
+              onChange={(e) => setSelectedValue(e.target.value)}
+            />
+          )}
+        </div>
+
+        {layout === 'delimited' ? (
+          <Select value={selected[0] ?? ''} onValueChange={(value) => setSelected([value])}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select the variable holding the options" />
+            </SelectTrigger>
+            <SelectContent>
+              {data.variables.map(variable => (
+                <SelectItem key={variable.name} value={variable.name}>{variable.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 max-h-40 overflow-y-auto p-2 border rounded">
+            {data.variables.map(variable => (
+              <label key={variable.name} className="flex items-center gap-2 text-sm truncate">
+                <Checkbox
+                  checked={selected.includes(variable.name)}
+                  onCheckedChange={(checked) => toggleVariable(variable.name, checked === true)}
+                />
+                {variable.name}
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button onClick={handleAdd} disabled={!canAdd} className="flex-1">
+            <Plus className="h-4 w-4 mr-1" />
+            Add Set
+          </Button>
+          <Button variant="outline" onClick={handleDetect}>
+            <Sparkles className="h-4 w-4 mr-1" />
+            Detect Option Columns
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
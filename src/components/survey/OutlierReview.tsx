@@ -0,0 +1,332 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScanSearch, Undo2 } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { formatLabelledValue } from '@/lib/survey/dataset';
+import {
+  DEFAULT_CAP_PERCENTILE,
+  DEFAULT_OUTLIER_THRESHOLDS,
+  MULTIVARIATE_TREATMENTS,
+  OUTLIER_METHOD_LABELS,
+  OUTLIER_TREATMENT_LABELS,
+  TREATED_VALUE_LABELS,
+  detectOutliers,
+  treatOutliers,
+  undoLastTransformation,
+  type OutlierReport
+} from '@/lib/survey/outliers';
+import type { OutlierMethod, OutlierTreatment, ProcessedSurveyData } from '@/lib/survey/types';
+
+interface OutlierReviewProps {
+  data: ProcessedSurveyData;
+  onDataChange: (data: ProcessedSurveyData) => void;
+}
+
+const ROWS_SHOWN = 100;
+
+const THRESHOLD_LABELS: Record<OutlierMethod, string> = {
+  iqr: 'IQR multiplier',
+  'z-score': '|z| above',
+  'robust-z': '|robust z| above',
+  mahalanobis: 'Chi-square probability'
+};
+
+export const OutlierReview = ({ data, onDataChange }: OutlierReviewProps) => {
+  const { toast } = useToast();
+  const [method, setMethod] = useState<OutlierMethod>('iqr');
+  const [variables, setVariables] = useState<string[]>([]);
+  const [threshold, setThreshold] = useState(String(DEFAULT_OUTLIER_THRESHOLDS.iqr));
+  const [report, setReport] = useState<OutlierReport | null>(null);
+  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  const [treatment, setTreatment] = useState<OutlierTreatment>('winsorize');
+  const [percentile, setPercentile] = useState(String(DEFAULT_CAP_PERCENTILE));
+
+  const numericVariables = data.variables.filter(variable => variable.type === 'numeric');
+  const identifier = data.variables.find(variable => variable.type === 'identifier');
+  const log = data.transformations ?? [];
+  const multivariate = method === 'mahalanobis';
+  const treatments = (Object.keys(OUTLIER_TREATMENT_LABELS) as OutlierTreatment[]).filter(option =>
+    !report || report.spec.method !== 'mahalanobis' || MULTIVARIATE_TREATMENTS.includes(option)
+  );
+
+  const handleMethodChange = (value: OutlierMethod) => {
+    setMethod(value);
+    setThreshold(String(DEFAULT_OUTLIER_THRESHOLDS[value]));
+    setVariables(value === 'mahalanobis' ? variables : variables.slice(0, 1));
+  };
+
+  const toggleVariable = (name: string, checked: boolean) => {
+    setVariables(checked ? [...variables, name] : variables.filter(item => item !== name));
+  };
+
+  const handleDetect = () => {
+    try {
+      const next = detectOutliers(data, {
+        method,
+        variables,
+        threshold: Number(threshold) || DEFAULT_OUTLIER_THRESHOLDS[method]
+      });
+      setReport(next);
+      setSelectedRows(new Set(next.flags.map(flag => flag.row)));
+      if (next.spec.method === 'mahalanobis' && !MULTIVARIATE_TREATMENTS.includes(treatment)) setTreatment('trim');
+    } catch (error) {
+      toast({
+        title: "Outlier check failed",
+        description: error instanceof Error ? error.message : "The outliers could not be checked.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleRow = (row: number, checked: boolean) => {
+    const next = new Set(selectedRows);
+    if (checked) next.add(row);
+    else next.delete(row);
+    setSelectedRows(next);
+  };
+
+  const handleTreat = () => {
+    if (!report) return;
+    try {
+      onDataChange(treatOutliers(data, report, treatment, {
+        rows: [...selectedRows],
+        percentile: Number(percentile) || DEFAULT_CAP_PERCENTILE
+      }));
+      setReport(null);
+      toast({
+        title: "Outliers treated",
+        description: `${selectedRows.size} flagged rows ${TREATED_VALUE_LABELS[treatment]}. The change is recorded in the transformation log.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Treatment failed",
+        description: error instanceof Error ? error.message : "The outliers could not be treated.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleUndo = () => {
+    try {
+      onDataChange(undoLastTransformation(data));
+    } catch (error) {
+      toast({
+        title: "Cannot undo",
+        description: error instanceof Error ? error.message : "The treatment could not be undone.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const variablesByName = new Map(data.variables.map(variable => [variable.name, variable]));
+  const formatValue = (name: string, row: number) =>
+    formatLabelledValue(variablesByName.get(name)?.values[row], variablesByName.get(name));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-blue-800">
+          <ScanSearch className="h-5 w-5" />
+          Outliers
+        </CardTitle>
+        <CardDescription className="text-blue-600">
+          Find extreme values, review the flagged respondents and treat them; every treatment is logged and used by the analysis
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {numericVariables.length === 0 ? (
+          <p className="text-sm text-muted-foreground">There are no numeric variables to check.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <Select value={method} onValueChange={(value) => handleMethodChange(value as OutlierMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(OUTLIER_METHOD_LABELS) as OutlierMethod[]).map(option => (
+                    <SelectItem key={option} value={option}>{OUTLIER_METHOD_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!multivariate && (
+                <Select value={variables[0] ?? ''} onValueChange={(value) => setVariables([value])}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Variable to check" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {numericVariables.map(variable => (
+                      <SelectItem key={variable.name} value={variable.name}>{variable.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <div className="flex items-center gap-2">
+                <Label htmlFor="outlier-threshold" className="shrink-0">{THRESHOLD_LABELS[method]}</Label>
+                <Input
+                  id="outlier-threshold"
+                  type="number"
+                  step="any"
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {multivariate && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 max-h-40 overflow-y-auto p-2 border rounded">
+                {numericVariables.map(variable => (
+                  <label key={variable.name} className="flex items-center gap-2 text-sm truncate">
+                    <Checkbox
+                      checked={variables.includes(variable.name)}
+                      onCheckedChange={(checked) => toggleVariable(variable.name, checked === true)}
+                    />
+                    {variable.name}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <Button
+              onClick={handleDetect}
+              disabled={multivariate ? variables.length < 2 : variables.length === 0}
+              className="w-full"
+            >
+              <ScanSearch className="h-4 w-4 mr-1" />
+              Find Outliers
+            </Button>
+          </>
+        )}
+
+        {report && (
+          <div className="space-y-3">
+            <div className="text-sm text-blue-800">
+              <span className="font-medium">{report.flags.length.toLocaleString()}</span> of{' '}
+              {report.checked.toLocaleString()} rows flagged
+              {report.fences && (
+                <span className="text-muted-foreground">
+                  {' '}(outside {report.fences[0].toFixed(2)} to {report.fences[1].toFixed(2)})
+                </span>
+              )}
+              {report.cutoff !== undefined && (
+                <span className="text-muted-foreground"> (squared distance above {report.cutoff.toFixed(2)})</span>
+              )}
+            </div>
+
+            {report.flags.length > 0 && (
+              <>
+                <div className="max-h-72 overflow-y-auto border rounded">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10" />
+                        <TableHead>Row</TableHead>
+                        {identifier && <TableHead>{identifier.name}</TableHead>}
+                        {report.spec.variables.map(name => (
+                          <TableHead key={name}>{name}</TableHead>
+                        ))}
+                        <TableHead className="text-right">Score</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.flags.slice(0, ROWS_SHOWN).map(flag => (
+                        <TableRow key={flag.row}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedRows.has(flag.row)}
+                              onCheckedChange={(checked) => toggleRow(flag.row, checked === true)}
+                            />
+                          </TableCell>
+                          <TableCell>{flag.row + 1}</TableCell>
+                          {identifier && <TableCell className="font-mono text-xs">{formatValue(identifier.name, flag.row)}</TableCell>}
+                          {report.spec.variables.map(name => (
+                            <TableCell key={name}>
+                              {formatValue(name, flag.row)}
+                              {flag.side && (
+                                <Badge variant="outline" className="ml-2 text-xs">{flag.side === 'high' ? 'High' : 'Low'}</Badge>
+                              )}
+                            </TableCell>
+                          ))}
+                          <TableCell className="text-right">{flag.score.toFixed(2)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {report.flags.length > ROWS_SHOWN && (
+                  <p className="text-xs text-muted-foreground">
+                    Showing the first {ROWS_SHOWN} flagged rows; the treatment applies to every selected row.
+                  </p>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <Select value={treatment} onValueChange={(value) => setTreatment(value as OutlierTreatment)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {treatments.map(option => (
+                        <SelectItem key={option} value={option}>{OUTLIER_TREATMENT_LABELS[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {treatment === 'cap' && (
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="outlier-percentile" className="shrink-0">Percentile</Label>
+                      <Input
+                        id="outlier-percentile"
+                        type="number"
+                        min={50}
+                        max={100}
+                        step="any"
+                        value={percentile}
+                        onChange={(e) => setPercentile(e.target.value)}
+                      />
+                    </div>
+                  )}
+                  <Button onClick={handleTreat} disabled={selectedRows.size === 0} className="md:col-start-3">
+                    Treat {selectedRows.size.toLocaleString()} Rows
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {log.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="text-sm font-medium text-blue-800">Transformation Log</div>
+              <Button variant="outline" size="sm" onClick={handleUndo}>
+                <Undo2 className="h-4 w-4 mr-1" />
+                Undo Last
+              </Button>
+            </div>
+            {log.map((record, index) => (
+              <div key={index} className="flex items-center justify-between gap-2 p-2 border rounded text-sm">
+                <div className="min-w-0">
+                  <span className="font-medium">{index + 1}. {OUTLIER_TREATMENT_LABELS[record.treatment]}</span>
+                  {record.percentile !== undefined && <span> at P{record.percentile}</span>}
+                  <span className="text-muted-foreground">
+                    {' '}· {record.changes.map(change => `${change.variable} (${change.rows.length})`).join(', ')}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant="outline">{OUTLIER_METHOD_LABELS[record.method]} {record.threshold}</Badge>
+                  <span className="text-xs text-muted-foreground">{new Date(record.appliedAt).toLocaleTimeString()}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -4,13 +4,90 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Trash2, Calculator } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2, Calculator, X } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { VARIABLE_TYPE_LABELS, isCategoricalType } from '@/lib/survey/variable-types';
+import { formatMissingBreakdown } from '@/lib/survey/missing';
+import { CALIBRATION_METHOD_LABELS, CROSS_SEPARATOR, marginCategories } from '@/lib/survey/weighting';
+import { WeightDiagnostics } from './WeightDiagnostics';
+import type {
+  CalibrationMethod,
+  CalibrationSpec,
+  MultiResponseSet,
+  ProcessedSurveyData,
+  SurveyVariable,
+  VariableType
+} from '@/lib/survey/types';
 
-interface Variable {
-  name: string;
-  type: 'numeric' | 'categorical';
-}
+type Variable = Pick<SurveyVariable, 'name' | 'type' | 'missing' | 'missingBreakdown'>;
+
+/**
+ * How coded missing values (refused, don't know, ...) enter an estimate:
+ * left out, or kept as answer categories of categorical variables.
+ */
+type MissingTreatment = 'exclude' | 'include-codes';
+
+/**
+ * How imputed cells enter an estimate: used, restored to missing, or both
+ * so the two estimates can be compared.
+ */
+type ImputationTreatment = 'include' | 'exclude' | 'compare';
+
+const IMPUTATION_TREATMENT_LABELS: Record<ImputationTreatment, string> = {
+  include: 'Use imputed values',
+  exclude: 'Leave imputed values out',
+  compare: 'Estimate both ways to compare'
+};
+
+/**
+ * How margins of error account for the sample design: Taylor linearization
+ * over declared strata and PSUs, or replicate weights shipped with the data.
+ */
+type VarianceMethod = 'linearization' | 'replicate';
+
+type ReplicateMethod = 'JK1' | 'JKn' | 'BRR' | 'Fay' | 'bootstrap';
+
+const REPLICATE_METHOD_LABELS: Record<ReplicateMethod, string> = {
+  JK1: 'Jackknife (JK1)',
+  JKn: 'Stratified jackknife (JKn)',
+  BRR: 'Balanced repeated replication (BRR)',
+  Fay: "Fay's BRR",
+  bootstrap: 'Bootstrap'
+};
+
+// Column names like repwt12, pwgtp80 or rep_wt_3
+const REPLICATE_NAME = /(rep|repl|replicate|rwgt|rwt|wgtp|pwgtp)[\s_.-]*(wt|wgt|weight)?[\s_.-]*\d+$/i;
+
+// Scale of the replicate variance when none is given, as in R's survey package
+const defaultReplicateScale = (method: ReplicateMethod, count: number, fayCoefficient: number) => {
+  switch (method) {
+    case 'JK1': return (count - 1) / count;
+    case 'BRR': return 1 / count;
+    case 'Fay': return 1 / (count * Math.pow(1 - fayCoefficient, 2));
+    case 'bootstrap': return 1 / (count - 1);
+    default: return 1;
+  }
+};
+
+const parseFactors = (text: string) => text.split(/[\s,;]+/).filter(Boolean).map(Number);
+
+const NO_CROSS = '__none__';
+
+// Aggregations that make sense for each variable type; the first is the default recommendation
+const AGGREGATIONS_BY_TYPE: Record<VariableType, string[]> = {
+  numeric: ['Mean', 'Sum', 'Median', 'Count'],
+  categorical: ['Proportion', 'Count'],
+  ordinal: ['Median', 'Proportion', 'Count'],
+  boolean: ['Proportion', 'Count'],
+  date: ['Median', 'Count'],
+  datetime: ['Median', 'Count'],
+  identifier: ['Count'],
+  text: ['Count'],
+  'multi-response': ['Proportion', 'Count']
+};
 
 interface ParameterLog {
   id: string;
@@ -18,16 +95,70 @@ interface ParameterLog {
   baseParameter: string;
   aggregationType: string;
   weightVariable?: string;
+  missingTreatment: MissingTreatment;
+  imputationTreatment: ImputationTreatment;
+  /** Sample design behind design-based variances: strata, PSUs and finite population correction. */
+  strataVariable?: string;
+  clusterVariable?: string;
+  fpcVariable?: string;
+  /** Replicate weights used instead of design variables, with the method's scale factors. */
+  replicateWeights?: string[];
+  replicateMethod?: ReplicateMethod;
+  replicateScale?: number;
+  replicateScales?: number[];
+  fayCoefficient?: number;
+  /** Population totals the weights are calibrated to; uncalibrated estimates are reported alongside. */
+  calibration?: CalibrationSpec;
+}
+
+interface ReplicateSelection {
+  weights: string[];
+  method: ReplicateMethod;
+  scale: string;
+  /** One factor for every replicate, or one per replicate; JKn needs (n_h - 1) / n_h. */
+  rscales: string;
+  fayCoefficient: string;
+}
+
+/** Calibration being entered: population totals are kept as typed until the log entry is added. */
+interface CalibrationSelection {
+  method: CalibrationMethod | 'none';
+  margins: Array<{ variables: string[]; targets: Record<string, string> }>;
+  totals: Record<string, string>;
+  populationSize: string;
+  lower: string;
+  upper: string;
+}
+
+interface SampleDesignSelection {
+  strataVariable: string;
+  clusterVariable: string;
+  fpcVariable: string;
 }
 
 interface ParameterEstimationSetupProps {
   variables: Variable[];
+  /** Multi-response sets; each can be estimated as one proportion per option. */
+  multiResponseSets?: Array<Pick<MultiResponseSet, 'name' | 'label'>>;
+  /** Variables with imputed cells; estimates involving them can leave the imputed values out. */
+  imputedVariables?: string[];
+  /**
+   * Dataset whose categories calibration totals are entered for, and whose
+   * chosen weight is diagnosed; both are offered when given.
+   */
+  data?: ProcessedSurveyData;
+  /** Saves trimmed weights as a new variable. */
+  onDataChange?: (data: ProcessedSurveyData) => void;
   onGenerateEstimates: (parameters: ParameterLog[]) => void;
   isGenerating: boolean;
 }
 
 export const ParameterEstimationSetup = ({ 
   variables, 
+  multiResponseSets = [],
+  imputedVariables = [],
+  data,
+  onDataChange,
   onGenerateEstimates, 
   isGenerating 
 }: ParameterEstimationSetupProps) => {
@@ -37,16 +168,175 @@ export const ParameterEstimationSetup = ({
     estimatingParameter: '',
     baseParameter: 'None',
     aggregationType: 'Mean', // Set default to 'Mean' instead of empty string
-    weightVariable: 'none'
+    weightVariable: 'none',
+    missingTreatment: 'exclude' as MissingTreatment,
+    imputationTreatment: 'include' as ImputationTreatment
+  });
+  // The design describes how the whole sample was drawn, so it stays selected for every log entry
+  const [design, setDesign] = useState<SampleDesignSelection>({
+    strataVariable: 'none',
+    clusterVariable: 'none',
+    fpcVariable: 'none'
+  });
+  const [varianceMethod, setVarianceMethod] = useState<VarianceMethod>('linearization');
+  const [replicates, setReplicates] = useState<ReplicateSelection>({
+    weights: [],
+    method: 'JK1',
+    scale: '',
+    rscales: '',
+    fayCoefficient: '0.5'
+  });
+  // Population totals also describe the whole sample, so they stay entered for every log entry
+  const [calibration, setCalibration] = useState<CalibrationSelection>({
+    method: 'none',
+    margins: [],
+    totals: {},
+    populationSize: '',
+    lower: '0.5',
+    upper: '2'
+  });
+  const [auxiliaryVariable, setAuxiliaryVariable] = useState('');
+  const [auxiliaryCross, setAuxiliaryCross] = useState(NO_CROSS);
+
+  const namedVariables = variables.filter(v => v.name && v.name.trim() !== '');
+  const numericVariables = namedVariables.filter(v => v.type === 'numeric');
+  const categoricalVariables = namedVariables.filter(v => isCategoricalType(v.type));
+  // Identifiers and open text can only be counted, so they are left out of the estimation choices
+  const allVariables = namedVariables.filter(v => v.type !== 'identifier' && v.type !== 'text');
+  // Delimited sets share their variable's name and are offered through it
+  const setChoices = multiResponseSets.filter(set => !variables.some(v => v.name === set.name));
+  const designVariables = namedVariables.filter(v => v.type !== 'multi-response' && v.type !== 'text');
+  // Every row needs a stratum, PSU and correction for the design variance
+  const incompleteDesignVariables = varianceMethod === 'linearization'
+    ? Object.values(design)
+      .map(name => variables.find(v => v.name === name))
+      .filter((v): v is Variable => v !== undefined && v.missing > 0)
+    : [];
+  const suggestedReplicates = numericVariables
+    .filter(v => REPLICATE_NAME.test(v.name))
+    .map(v => v.name);
+  const fayCoefficient = Number(replicates.fayCoefficient);
+  const replicateScaleHint = replicates.weights.length >= 2
+    ? defaultReplicateScale(replicates.method, replicates.weights.length, fayCoefficient)
+    : undefined;
+
+  const toggleReplicate = (name: string, checked: boolean) => setReplicates({
+    ...replicates,
+    weights: checked ? [...replicates.weights, name] : replicates.weights.filter(weight => weight !== name)
+  });
+
+  // Replicate settings for a new log entry, or an error message when they are incomplete
+  const readReplicateSettings = (): Partial<ParameterLog> | string => {
+    if (replicates.weights.length < 2) return 'Select at least two replicate weight columns.';
+    if (currentParameter.weightVariable === 'none') return 'Select the full-sample weight as the weight variable.';
+    const scale = replicates.scale.trim() ? Number(replicates.scale) : undefined;
+    if (scale !== undefined && !(scale > 0)) return 'The scale must be a positive number.';
+    const rscales = parseFactors(replicates.rscales);
+    if (rscales.some(factor => !(factor > 0))) return 'Replicate scale factors must be positive numbers.';
+    if (rscales.length > 1 && rscales.length !== replicates.weights.length) {
+      return `Give one replicate scale factor or ${replicates.weights.length}, one per replicate.`;
+    }
+    if (replicates.method === 'JKn' && rscales.length === 0) {
+      return 'JKn needs the scale factor (n_h - 1) / n_h of each replicate.';
+    }
+    if (replicates.method === 'Fay' && !(fayCoefficient >= 0 && fayCoefficient < 1)) {
+      return "Fay's coefficient must be at least 0 and below 1.";
+    }
+    return {
+      replicateWeights: replicates.weights,
+      replicateMethod: replicates.method,
+      replicateScale: scale,
+      replicateScales: rscales.length > 0 ? rscales : undefined,
+      fayCoefficient: replicates.method === 'Fay' ? fayCoefficient : undefined
+    };
+  };
+
+  const boundedCalibration = calibration.method === 'truncated' || calibration.method === 'logit';
+
+  const handleAddAuxiliary = () => {
+    const variable = variables.find(v => v.name === auxiliaryVariable);
+    if (!variable) return;
+    if (variable.type === 'numeric') {
+      setCalibration({ ...calibration, totals: { ...calibration.totals, [variable.name]: '' } });
+    } else {
+      const crossed = auxiliaryCross !== NO_CROSS && auxiliaryCross !== variable.name
+        ? [variable.name, auxiliaryCross]
+        : [variable.name];
+      const key = crossed.join(CROSS_SEPARATOR);
+      if (!calibration.margins.some(margin => margin.variables.join(CROSS_SEPARATOR) === key)) {
+        setCalibration({ ...calibration, margins: [...calibration.margins, { variables: crossed, targets: {} }] });
+      }
+    }
+    setAuxiliaryVariable('');
+    setAuxiliaryCross(NO_CROSS);
+  };
+
+  const updateCalibrationTarget = (index: number, key: string, value: string) => setCalibration({
+    ...calibration,
+    margins: calibration.margins.map((margin, i) => (
+      i === index ? { ...margin, targets: { ...margin.targets, [key]: value } } : margin
+    ))
   });
 
-  const numericVariables = variables.filter(v => v.type === 'numeric' && v.name && v.name.trim() !== '');
-  const categoricalVariables = variables.filter(v => v.type === 'categorical' && v.name && v.name.trim() !== '');
-  const allVariables = [...numericVariables, ...categoricalVariables];
+  const removeCalibrationTotal = (name: string) => setCalibration({
+    ...calibration,
+    totals: Object.fromEntries(Object.entries(calibration.totals).filter(([total]) => total !== name))
+  });
+
+  // Calibration settings for a new log entry, or an error message when they are incomplete
+  const readCalibrationSettings = (): Partial<ParameterLog> | string => {
+    if (calibration.method === 'none') return {};
+    const margins = calibration.margins.map(margin => ({
+      variables: margin.variables,
+      targets: Object.fromEntries(
+        Object.entries(margin.targets)
+          .filter(([, value]) => value.trim() !== '')
+          .map(([key, value]) => [key, Number(value)])
+      )
+    }));
+    const totals = Object.fromEntries(Object.entries(calibration.totals).map(([name, value]) => [name, Number(value)]));
+    const populationSize = calibration.populationSize.trim() ? Number(calibration.populationSize) : undefined;
+
+    if (calibration.method === 'poststratification' && margins.length !== 1) {
+      return 'Post-stratification needs one categorical variable, or crossed variables for the cells.';
+    }
+    if (margins.length === 0 && Object.keys(totals).length === 0) return 'Add at least one auxiliary variable with its population totals.';
+    const empty = margins.find(margin => Object.keys(margin.targets).length === 0);
+    if (empty) return `Enter the population totals of ${empty.variables.join(CROSS_SEPARATOR)}.`;
+    if (margins.some(margin => Object.values(margin.targets).some(target => !(target >= 0)))) {
+      return 'Population totals must be zero or more.';
+    }
+    const marginTotals = margins.map(margin => Object.values(margin.targets).reduce((sum, target) => sum + target, 0));
+    const mismatched = margins.findIndex((_, index) => Math.abs(marginTotals[index] - marginTotals[0]) > marginTotals[0] * 1e-3);
+    if (mismatched > 0) {
+      return `The population totals of ${margins[mismatched].variables.join(CROSS_SEPARATOR)} add up to ${marginTotals[mismatched].toLocaleString()}, but those of ${margins[0].variables.join(CROSS_SEPARATOR)} add up to ${marginTotals[0].toLocaleString()}. Every margin must describe the same population.`;
+    }
+    const missingTotal = Object.entries(totals).find(([name]) => !calibration.totals[name].trim() || !Number.isFinite(totals[name]));
+    if (missingTotal) return `Enter the population total of ${missingTotal[0]}.`;
+    if (populationSize !== undefined && !(populationSize > 0)) return 'The population size must be a positive number.';
+
+    const lower = boundedCalibration ? Number(calibration.lower) : undefined;
+    const upper = boundedCalibration ? Number(calibration.upper) : undefined;
+    if (boundedCalibration && !(lower! >= 0 && lower! < 1 && upper! > 1)) {
+      return 'The weight ratio bounds must satisfy 0 ≤ lower < 1 < upper.';
+    }
+    return {
+      calibration: {
+        method: calibration.method,
+        margins,
+        totals: Object.keys(totals).length > 0 ? totals : undefined,
+        populationSize: margins.length === 0 ? populationSize : undefined,
+        lower,
+        upper
+      }
+    };
+  };
 
   const getRecommendedAggregation = (varName: string) => {
     const variable = variables.find(v => v.name === varName);
-    if (!variable) return 'Mean'; // Default to 'Mean' instead of empty string
+    if (!variable) {
+      return setChoices.some(set => set.name === varName) ? 'Proportion' : 'Mean'; // Default to 'Mean' instead of empty string
+    }
     
     // Simple heuristic for recommendations
     if (variable.type === 'numeric') {
@@ -58,15 +348,22 @@ export const ParameterEstimationSetup = ({
         return 'Mean';
       }
     } else {
-      return 'Proportion';
+      return AGGREGATIONS_BY_TYPE[variable.type][0];
     }
   };
 
-  const aggregationOptions = currentParameter.estimatingParameter ? 
-    variables.find(v => v.name === currentParameter.estimatingParameter)?.type === 'numeric' 
-      ? ['Mean', 'Sum', 'Median', 'Count']
-      : ['Proportion', 'Count']
-    : [];
+  const selectedVariable = variables.find(v => v.name === currentParameter.estimatingParameter);
+  const selectedType = selectedVariable?.type;
+  const selectedSet = setChoices.find(set => set.name === currentParameter.estimatingParameter);
+  const aggregationOptions = selectedSet ? ['Proportion'] : selectedType ? AGGREGATIONS_BY_TYPE[selectedType] : [];
+  const hasCodedMissing = selectedVariable
+    ? selectedVariable.missing > selectedVariable.missingBreakdown.system
+    : false;
+  const involvedImputed = [
+    currentParameter.estimatingParameter,
+    currentParameter.baseParameter,
+    currentParameter.weightVariable
+  ].filter(name => imputedVariables.includes(name));
 
   const handleAddLog = () => {
     if (!currentParameter.estimatingParameter || !currentParameter.aggregationType) {
@@ -78,12 +375,51 @@ export const ParameterEstimationSetup = ({
       return;
     }
 
+    if (incompleteDesignVariables.length > 0) {
+      toast({
+        title: "Incomplete Sample Design",
+        description: `${incompleteDesignVariables.map(v => v.name).join(', ')} must have a value for every respondent.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const replicateSettings = varianceMethod === 'replicate' ? readReplicateSettings() : {};
+    if (typeof replicateSettings === 'string') {
+      toast({
+        title: "Incomplete Replicate Weights",
+        description: replicateSettings,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const calibrationSettings = readCalibrationSettings();
+    if (typeof calibrationSettings === 'string') {
+      toast({
+        title: "Incomplete Calibration",
+        description: calibrationSettings,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const designSettings: Partial<ParameterLog> = varianceMethod === 'linearization' ? {
+      strataVariable: design.strataVariable !== 'none' ? design.strataVariable : undefined,
+      clusterVariable: design.clusterVariable !== 'none' ? design.clusterVariable : undefined,
+      fpcVariable: design.fpcVariable !== 'none' ? design.fpcVariable : undefined
+    } : replicateSettings;
+
     const newLog: ParameterLog = {
       id: Date.now().toString(),
       estimatingParameter: currentParameter.estimatingParameter,
       baseParameter: currentParameter.baseParameter,
       aggregationType: currentParameter.aggregationType,
-      weightVariable: currentParameter.weightVariable !== 'none' ? currentParameter.weightVariable : undefined
+      weightVariable: currentParameter.weightVariable !== 'none' ? currentParameter.weightVariable : undefined,
+      missingTreatment: currentParameter.missingTreatment,
+      imputationTreatment: involvedImputed.length > 0 ? currentParameter.imputationTreatment : 'include',
+      ...designSettings,
+      ...calibrationSettings
     };
 
     setParameterLogs([...parameterLogs, newLog]);
@@ -91,7 +427,9 @@ export const ParameterEstimationSetup = ({
       estimatingParameter: '',
       baseParameter: 'None',
       aggregationType: 'Mean', // Reset to 'Mean' instead of empty string
-      weightVariable: 'none'
+      weightVariable: 'none',
+      missingTreatment: 'exclude',
+      imputationTreatment: 'include'
     });
 
     toast({
@@ -139,7 +477,8 @@ export const ParameterEstimationSetup = ({
                 setCurrentParameter({
                   ...currentParameter, 
                   estimatingParameter: value,
-                  aggregationType: getRecommendedAggregation(value)
+                  aggregationType: getRecommendedAggregation(value),
+                  missingTreatment: 'exclude'
                 });
               }}
             >
@@ -149,7 +488,12 @@ export const ParameterEstimationSetup = ({
               <SelectContent>
                 {allVariables.map(variable => (
                   <SelectItem key={variable.name} value={variable.name}>
-                    {variable.name} ({variable.type})
+                    {variable.name} ({VARIABLE_TYPE_LABELS[variable.type].toLowerCase()})
+                  </SelectItem>
+                ))}
+                {setChoices.map(set => (
+                  <SelectItem key={`set:${set.name}`} value={set.name}>
+                    {set.label || set.name} (multi-response set)
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -219,6 +563,404 @@ export const ParameterEstimationSetup = ({
           </div>
         </div>
 
+        {data && currentParameter.weightVariable !== 'none' && (
+          <WeightDiagnostics
+            data={data}
+            weightVariable={currentParameter.weightVariable}
+            domainVariable={currentParameter.baseParameter !== 'None' ? currentParameter.baseParameter : undefined}
+            onDataChange={onDataChange}
+          />
+        )}
+
+        {hasCodedMissing && (
+          <div className="flex flex-col md:flex-row md:items-center gap-2 p-4 border rounded-lg bg-muted/20">
+            <label className="text-sm font-medium md:w-48">Missing Value Codes</label>
+            <div className="text-sm text-muted-foreground flex-1">
+              {formatMissingBreakdown({ ...selectedVariable!.missingBreakdown, system: 0 })}
+            </div>
+            <Select
+              value={currentParameter.missingTreatment}
+              onValueChange={(value) => setCurrentParameter({ ...currentParameter, missingTreatment: value as MissingTreatment })}
+            >
+              <SelectTrigger className="md:w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="exclude">Exclude from the estimate</SelectItem>
+                {selectedType && isCategoricalType(selectedType) && (
+                  <SelectItem value="include-codes">Report as answer categories</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {involvedImputed.length > 0 && (
+          <div className="flex flex-col md:flex-row md:items-center gap-2 p-4 border rounded-lg bg-muted/20">
+            <label className="text-sm font-medium md:w-48">Imputed Values</label>
+            <div className="text-sm text-muted-foreground flex-1">
+              Imputed cells in {involvedImputed.join(', ')}
+            </div>
+            <Select
+              value={currentParameter.imputationTreatment}
+              onValueChange={(value) => setCurrentParameter({ ...currentParameter, imputationTreatment: value as ImputationTreatment })}
+            >
+              <SelectTrigger className="md:w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(IMPUTATION_TREATMENT_LABELS) as ImputationTreatment[]).map(option => (
+                  <SelectItem key={option} value={option}>{IMPUTATION_TREATMENT_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-3 p-4 border rounded-lg bg-muted/20">
+          <div className="flex flex-col md:flex-row md:items-start gap-2">
+            <div className="flex-1">
+              <h4 className="text-sm font-medium">Sample Design</h4>
+              <p className="text-xs text-muted-foreground">
+                {varianceMethod === 'linearization'
+                  ? 'For stratified or multi-stage samples, margins of error use Taylor linearization over the primary sampling units and report design effects. Leave empty for simple random sampling.'
+                  : 'Margins of error come from re-estimating with each replicate weight. Select the full-sample weight as the weight variable.'}
+              </p>
+            </div>
+            <Select value={varianceMethod} onValueChange={(value) => setVarianceMethod(value as VarianceMethod)}>
+              <SelectTrigger className="md:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="linearization">Design variables</SelectItem>
+                <SelectItem value="replicate">Replicate weights</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {varianceMethod === 'linearization' ? (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="text-sm font-medium mb-2 block">Strata</label>
+                <Select
+                  value={design.strataVariable}
+                  onValueChange={(value) => setDesign({ ...design, strataVariable: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None (unstratified)</SelectItem>
+                    {designVariables.map(variable => (
+                      <SelectItem key={variable.name} value={variable.name}>
+                        {variable.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">PSU / Cluster</label>
+                <Select
+                  value={design.clusterVariable}
+                  onValueChange={(value) => setDesign({ ...design, clusterVariable: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None (each respondent)</SelectItem>
+                    {designVariables.map(variable => (
+                      <SelectItem key={variable.name} value={variable.name}>
+                        {variable.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Finite Population Correction</label>
+                <Select
+                  value={design.fpcVariable}
+                  onValueChange={(value) => setDesign({ ...design, fpcVariable: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    {numericVariables.map(variable => (
+                      <SelectItem key={variable.name} value={variable.name}>
+                        {variable.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Sampling fraction, or number of PSUs in the stratum's population
+                </p>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Method</label>
+                  <Select
+                    value={replicates.method}
+                    onValueChange={(value) => setReplicates({ ...replicates, method: value as ReplicateMethod })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(REPLICATE_METHOD_LABELS) as ReplicateMethod[]).map(method => (
+                        <SelectItem key={method} value={method}>{REPLICATE_METHOD_LABELS[method]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Scale</label>
+                  <Input
+                    type="number"
+                    step="any"
+                    value={replicates.scale}
+                    placeholder={replicateScaleHint !== undefined ? `Default ${replicateScaleHint.toPrecision(4)}` : 'Method default'}
+                    onChange={(e) => setReplicates({ ...replicates, scale: e.target.value })}
+                  />
+                </div>
+                {replicates.method === 'Fay' ? (
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">Fay's Coefficient</label>
+                    <Input
+                      type="number"
+                      step="any"
+                      min={0}
+                      max={0.99}
+                      value={replicates.fayCoefficient}
+                      onChange={(e) => setReplicates({ ...replicates, fayCoefficient: e.target.value })}
+                    />
+                  </div>
+                ) : (
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">Replicate Scale Factors</label>
+                    <Input
+                      value={replicates.rscales}
+                      placeholder={replicates.method === 'JKn' ? '(n_h - 1) / n_h per replicate' : 'Optional, 1 by default'}
+                      onChange={(e) => setReplicates({ ...replicates, rscales: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+              <div className="space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium">
+                    Replicate Weight Columns ({replicates.weights.length} selected)
+                  </span>
+                  {suggestedReplicates.length > 0 && (
+                    <Button variant="outline" size="sm" onClick={() => setReplicates({ ...replicates, weights: suggestedReplicates })}>
+                      Select {suggestedReplicates.length} Suggested
+                    </Button>
+                  )}
+                  {replicates.weights.length > 0 && (
+                    <Button variant="ghost" size="sm" onClick={() => setReplicates({ ...replicates, weights: [] })}>
+                      Clear
+                    </Button>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 max-h-40 overflow-y-auto p-2 border rounded bg-background">
+                  {numericVariables.map(variable => (
+                    <label key={variable.name} className="flex items-center gap-2 text-sm truncate">
+                      <Checkbox
+                        checked={replicates.weights.includes(variable.name)}
+                        onCheckedChange={(checked) => toggleReplicate(variable.name, checked === true)}
+                      />
+                      {variable.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+          {incompleteDesignVariables.length > 0 && (
+            <p className="text-sm text-destructive">
+              {incompleteDesignVariables.map(v => `${v.name} is missing on ${v.missing} rows`).join('; ')}. Every respondent needs a value for the design variables.
+            </p>
+          )}
+        </div>
+
+        {data && (
+          <div className="space-y-3 p-4 border rounded-lg bg-muted/20">
+            <div className="flex flex-col md:flex-row md:items-start gap-2">
+              <div className="flex-1">
+                <h4 className="text-sm font-medium">Calibration</h4>
+                <p className="text-xs text-muted-foreground">
+                  Calibrate the weights to known population totals of auxiliary variables. Margins of error account for the calibration, and the uncalibrated estimates are reported alongside for comparison.
+                </p>
+              </div>
+              <Select
+                value={calibration.method}
+                onValueChange={(value) => setCalibration({ ...calibration, method: value as CalibrationSelection['method'] })}
+              >
+                <SelectTrigger className="md:w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {(Object.keys(CALIBRATION_METHOD_LABELS) as CalibrationMethod[]).map(method => (
+                    <SelectItem key={method} value={method}>{CALIBRATION_METHOD_LABELS[method]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {calibration.method !== 'none' && (
+              <div className="space-y-3">
+                {calibration.margins.map((margin, index) => (
+                  <div key={margin.variables.join(CROSS_SEPARATOR)} className="border rounded bg-background">
+                    <div className="flex items-center justify-between gap-2 p-2 border-b bg-muted/30">
+                      <span className="font-medium text-sm">{margin.variables.join(CROSS_SEPARATOR)}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setCalibration({ ...calibration, margins: calibration.margins.filter((_, i) => i !== index) })}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="max-h-48 overflow-y-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Category</TableHead>
+                            <TableHead className="text-right">Respondents</TableHead>
+                            <TableHead className="w-40">Population total</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {marginCategories(data, margin.variables).map(category => (
+                            <TableRow key={category.key}>
+                              <TableCell>{category.label}</TableCell>
+                              <TableCell className="text-right">
+                                {category.respondents === 0
+                                  ? <Badge variant="outline" className="text-xs">Empty</Badge>
+                                  : category.respondents.toLocaleString()}
+                              </TableCell>
+                              <TableCell>
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  step="any"
+                                  className="h-8"
+                                  value={margin.targets[category.key] ?? ''}
+                                  onChange={(e) => updateCalibrationTarget(index, category.key, e.target.value)}
+                                />
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                ))}
+                {Object.entries(calibration.totals).map(([name, value]) => (
+                  <div key={name} className="flex items-center gap-2">
+                    <span className="text-sm font-medium md:w-48 truncate">{name}</span>
+                    <Input
+                      type="number"
+                      step="any"
+                      value={value}
+                      placeholder="Population total"
+                      onChange={(e) => setCalibration({ ...calibration, totals: { ...calibration.totals, [name]: e.target.value } })}
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => removeCalibrationTotal(name)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {calibration.margins.length === 0 && Object.keys(calibration.totals).length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium md:w-48">Population size</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={calibration.populationSize}
+                      placeholder="Optional; weights then sum to it"
+                      onChange={(e) => setCalibration({ ...calibration, populationSize: e.target.value })}
+                    />
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <Select value={auxiliaryVariable} onValueChange={setAuxiliaryVariable}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Auxiliary variable" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categoricalVariables.map(variable => (
+                        <SelectItem key={variable.name} value={variable.name}>{variable.name}</SelectItem>
+                      ))}
+                      {calibration.method !== 'poststratification' && numericVariables
+                        .filter(variable => !(variable.name in calibration.totals))
+                        .map(variable => (
+                          <SelectItem key={variable.name} value={variable.name}>{variable.name} (total)</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={auxiliaryCross}
+                    onValueChange={setAuxiliaryCross}
+                    disabled={!categoricalVariables.some(variable => variable.name === auxiliaryVariable)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_CROSS}>Not crossed</SelectItem>
+                      {categoricalVariables.filter(variable => variable.name !== auxiliaryVariable).map(variable => (
+                        <SelectItem key={variable.name} value={variable.name}>× {variable.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    onClick={handleAddAuxiliary}
+                    disabled={!auxiliaryVariable || (calibration.method === 'poststratification' && calibration.margins.length > 0)}
+                  >
+                    Add Auxiliary
+                  </Button>
+                </div>
+
+                {boundedCalibration && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div className="flex items-center gap-2">
+                      <label className="text-sm font-medium shrink-0">Lower bound</label>
+                      <Input
+                        type="number"
+                        step="any"
+                        min={0}
+                        value={calibration.lower}
+                        onChange={(e) => setCalibration({ ...calibration, lower: e.target.value })}
+                      />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="text-sm font-medium shrink-0">Upper bound</label>
+                      <Input
+                        type="number"
+                        step="any"
+                        value={calibration.upper}
+                        onChange={(e) => setCalibration({ ...calibration, upper: e.target.value })}
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground md:col-span-2">
+                      Bounds on the ratio of calibrated to initial weight, with the initial weights scaled to the population size
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         <Button 
           onClick={handleAddLog} 
           className="w-full"
@@ -251,6 +993,39 @@ export const ParameterEstimationSetup = ({
                         Weighted by: {log.weightVariable}
                       </div>
                     )}
+                    {log.replicateWeights && log.replicateMethod && (
+                      <div className="text-sm text-muted-foreground">
+                        Replicate weights: {REPLICATE_METHOD_LABELS[log.replicateMethod]}, {log.replicateWeights.length} replicates
+                      </div>
+                    )}
+                    {(log.strataVariable || log.clusterVariable || log.fpcVariable) && (
+                      <div className="text-sm text-muted-foreground">
+                        Design: {[
+                          log.strataVariable && `strata ${log.strataVariable}`,
+                          log.clusterVariable && `PSUs ${log.clusterVariable}`,
+                          log.fpcVariable && `FPC ${log.fpcVariable}`
+                        ].filter(Boolean).join(', ')}
+                      </div>
+                    )}
+                    {log.calibration && (
+                      <div className="text-sm text-muted-foreground">
+                        Calibration: {CALIBRATION_METHOD_LABELS[log.calibration.method]} to {[
+                          ...log.calibration.margins.map(margin => margin.variables.join(CROSS_SEPARATOR)),
+                          ...Object.keys(log.calibration.totals ?? {}),
+                          ...(log.calibration.populationSize ? ['population size'] : [])
+                        ].join(', ')}
+                      </div>
+                    )}
+                    {log.missingTreatment === 'include-codes' && (
+                      <div className="text-sm text-muted-foreground">
+                        Missing value codes reported as categories
+                      </div>
+                    )}
+                    {log.imputationTreatment !== 'include' && (
+                      <div className="text-sm text-muted-foreground">
+                        {IMPUTATION_TREATMENT_LABELS[log.imputationTreatment]}
+                      </div>
+                    )}
                   </div>
                   <Button
                     variant="ghost"
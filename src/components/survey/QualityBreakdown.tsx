@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatVariableName } from '@/lib/survey/dataset';
+import type { SurveyVariable } from '@/lib/survey/types';
+
+type QualityDimensionName = 'completeness' | 'validity' | 'consistency';
+
+export interface QualityReport {
+  overall: number;
+  dimensions: Record<QualityDimensionName, {
+    score: number;
+    /** Share of the overall score, e.g. 0.4. */
+    weight: number;
+    checks: Array<{ name: string; score: number; detail: string }>;
+  }>;
+  variables: Array<{
+    name: string;
+    score: number;
+    completeness: number;
+    validity: number;
+    consistency: number;
+    issues: string[];
+  }>;
+}
+
+interface QualityBreakdownProps {
+  report: QualityReport;
+  /** Dataset variables, used to show variable labels in place of names. */
+  variables?: SurveyVariable[];
+}
+
+const QUALITY_DIMENSION_LABELS: Record<QualityDimensionName, string> = {
+  completeness: 'Completeness',
+  validity: 'Validity',
+  consistency: 'Consistency'
+};
+
+const VARIABLES_SHOWN = 10;
+
+const scoreClass = (score: number) =>
+  score >= 95 ? 'text-green-700' : score >= 80 ? 'text-amber-700' : 'text-red-700';
+
+export const QualityBreakdown = ({ report, variables = [] }: QualityBreakdownProps) => {
+  const [showAll, setShowAll] = useState(false);
+  const variablesByName = new Map(variables.map(variable => [variable.name, variable]));
+  // Weakest variables first, so problems are at the top of the drill-down
+  const ranked = [...report.variables].sort((a, b) => a.score - b.score);
+  const shown = showAll ? ranked : ranked.slice(0, VARIABLES_SHOWN);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {(Object.keys(QUALITY_DIMENSION_LABELS) as QualityDimensionName[]).map(name => {
+          const dimension = report.dimensions[name];
+          return (
+            <div key={name} className="p-4 border rounded-lg space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{QUALITY_DIMENSION_LABELS[name]}</span>
+                <span className={`text-xl font-bold ${scoreClass(dimension.score)}`}>{dimension.score}%</span>
+              </div>
+              <Progress value={dimension.score} className="h-2" />
+              <div className="space-y-2">
+                {dimension.checks.map(check => (
+                  <div key={check.name} className="text-xs">
+                    <div className="flex justify-between gap-2">
+                      <span className="font-medium">{check.name}</span>
+                      <span className={scoreClass(check.score)}>{check.score}%</span>
+                    </div>
+                    <div className="text-muted-foreground">{check.detail}</div>
+                  </div>
+                ))}
+              </div>
+              <div className="text-xs text-muted-foreground">{Math.round(dimension.weight * 100)}% of the overall score</div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="font-semibold">Quality by Variable</h3>
+        <div className="overflow-x-auto border rounded">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Variable</TableHead>
+                <TableHead className="text-right">Score</TableHead>
+                <TableHead className="text-right">Completeness</TableHead>
+                <TableHead className="text-right">Validity</TableHead>
+                <TableHead className="text-right">Consistency</TableHead>
+                <TableHead>Issues</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shown.map(variable => (
+                <TableRow key={variable.name}>
+                  <TableCell className="font-medium">{formatVariableName(variable.name, variablesByName.get(variable.name))}</TableCell>
+                  <TableCell className={`text-right font-semibold ${scoreClass(variable.score)}`}>{variable.score}%</TableCell>
+                  <TableCell className={`text-right ${scoreClass(variable.completeness)}`}>{variable.completeness}%</TableCell>
+                  <TableCell className={`text-right ${scoreClass(variable.validity)}`}>{variable.validity}%</TableCell>
+                  <TableCell className={`text-right ${scoreClass(variable.consistency)}`}>{variable.consistency}%</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {variable.issues.map((issue, index) => (
+                        <Badge key={index} variant="outline" className="text-xs font-normal">{issue}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {ranked.length > VARIABLES_SHOWN && (
+          <Button variant="outline" size="sm" onClick={() => setShowAll(!showAll)}>
+            {showAll ? 'Show Weakest Only' : `Show All ${ranked.length} Variables`}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
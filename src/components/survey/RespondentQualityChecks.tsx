@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { UserCheck, UserX } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  RESPONDENT_CHECK_LABELS,
+  checkRespondents,
+  setExcludedRows,
+  suggestGridGroups,
+  suggestRespondentCheckOptions
+} from '@/lib/survey/respondents';
+import type { ProcessedSurveyData, RespondentCheck, RespondentCheckOptions, RespondentFlag } from '@/lib/survey/types';
+
+interface RespondentQualityChecksProps {
+  data: ProcessedSurveyData;
+  onDataChange: (data: ProcessedSurveyData) => void;
+}
+
+const ROWS_SHOWN = 100;
+const NONE = '__none__';
+
+export const RespondentQualityChecks = ({ data, onDataChange }: RespondentQualityChecksProps) => {
+  const { toast } = useToast();
+  const [options, setOptions] = useState<RespondentCheckOptions>(() => suggestRespondentCheckOptions(data));
+  const [speederPercent, setSpeederPercent] = useState(String(options.speederFraction * 100));
+  const [similarityPercent, setSimilarityPercent] = useState(String(options.similarityThreshold * 100));
+  const [flags, setFlags] = useState<RespondentFlag[] | null>(null);
+  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+
+  const excluded = data.excludedRows ?? [];
+  const numericVariables = data.variables.filter(variable => variable.type === 'numeric');
+  const gridCandidates = data.variables.filter(variable =>
+    variable.type === 'numeric' || variable.type === 'ordinal' || variable.type === 'categorical'
+  );
+  const textVariables = data.variables.filter(variable => variable.type === 'text');
+  const gridGroups = suggestGridGroups(data);
+
+  const update = (patch: Partial<RespondentCheckOptions>) => setOptions({ ...options, ...patch });
+
+  const toggleIn = (list: string[], name: string, checked: boolean) =>
+    checked ? [...list, name] : list.filter(item => item !== name);
+
+  const counts = new Map<RespondentCheck, number>();
+  flags?.forEach(flag => {
+    new Set(flag.reasons.map(reason => reason.check)).forEach(check => counts.set(check, (counts.get(check) ?? 0) + 1));
+  });
+
+  const handleRun = () => {
+    try {
+      const next = checkRespondents(data, {
+        ...options,
+        speederFraction: (Number(speederPercent) || 0) / 100,
+        similarityThreshold: (Number(similarityPercent) || 0) / 100
+      });
+      setFlags(next);
+      setSelectedRows(new Set(next.map(flag => flag.row)));
+    } catch (error) {
+      toast({
+        title: "Quality checks failed",
+        description: error instanceof Error ? error.message : "The respondents could not be checked.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleRow = (row: number, checked: boolean) => {
+    const next = new Set(selectedRows);
+    if (checked) next.add(row);
+    else next.delete(row);
+    setSelectedRows(next);
+  };
+
+  const handleExclude = () => {
+    onDataChange(setExcludedRows(data, [...selectedRows]));
+    toast({
+      title: "Respondents excluded",
+      description: `${selectedRows.size} respondents will be left out of the parameter estimates.`,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-blue-800">
+          <UserCheck className="h-5 w-5" />
+          Respondent Quality
+        </CardTitle>
+        <CardDescription className="text-blue-600">
+          Flag duplicates, repeated IDs, straight-liners, speeders and gibberish answers, and exclude low-quality completes from the estimates
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {excluded.length > 0 && (
+          <div className="flex items-center justify-between gap-2 p-2 border border-red-200 bg-red-50 rounded text-sm">
+            <span className="text-red-800">
+              <span className="font-medium">{excluded.length.toLocaleString()}</span> of {data.totalRows.toLocaleString()} respondents
+              are excluded from the estimates
+            </span>
+            <Button variant="outline" size="sm" onClick={() => onDataChange(setExcludedRows(data, []))}>
+              Clear Exclusions
+            </Button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Respondent ID</Label>
+            <Select
+              value={options.idVariable ?? NONE}
+              onValueChange={(value) => update({ idVariable: value === NONE ? undefined : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>None</SelectItem>
+                {data.variables.filter(variable => variable.type !== 'multi-response').map(variable => (
+                  <SelectItem key={variable.name} value={variable.name}>{variable.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Interview duration</Label>
+            <Select
+              value={options.durationVariable ?? NONE}
+              onValueChange={(value) => update({ durationVariable: value === NONE ? undefined : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>None</SelectItem>
+                {numericVariables.map(variable => (
+                  <SelectItem key={variable.name} value={variable.name}>{variable.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="speeder-percent" className="shrink-0">Speeders: under % of median</Label>
+            <Input
+              id="speeder-percent"
+              type="number"
+              min={1}
+              max={100}
+              value={speederPercent}
+              onChange={(e) => setSpeederPercent(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="similarity-percent" className="shrink-0">Near-duplicates: % answers shared</Label>
+            <Input
+              id="similarity-percent"
+              type="number"
+              min={50}
+              max={100}
+              value={similarityPercent}
+              onChange={(e) => setSimilarityPercent(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {gridCandidates.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium text-blue-800">Grid items (straight-lining)</span>
+              {gridGroups.map(group => (
+                <Button key={group.join()} variant="outline" size="sm" onClick={() => update({ gridVariables: group })}>
+                  {group[0]} … {group[group.length - 1]}
+                </Button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 max-h-40 overflow-y-auto p-2 border rounded">
+              {gridCandidates.map(variable => (
+                <label key={variable.name} className="flex items-center gap-2 text-sm truncate">
+                  <Checkbox
+                    checked={options.gridVariables.includes(variable.name)}
+                    onCheckedChange={(checked) =>
+                      update({ gridVariables: toggleIn(options.gridVariables, variable.name, checked === true) })
+                    }
+                  />
+                  {variable.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {textVariables.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-blue-800">Open-ended answers (gibberish)</div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 max-h-40 overflow-y-auto p-2 border rounded">
+              {textVariables.map(variable => (
+                <label key={variable.name} className="flex items-center gap-2 text-sm truncate">
+                  <Checkbox
+                    checked={options.openEndVariables.includes(variable.name)}
+                    onCheckedChange={(checked) =>
+                      update({ openEndVariables: toggleIn(options.openEndVariables, variable.name, checked === true) })
+                    }
+                  />
+                  {variable.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <Button onClick={handleRun} className="w-full">
+          <UserCheck className="h-4 w-4 mr-1" />
+          Check Respondents
+        </Button>
+
+        {flags && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm text-blue-800">
+              <span>
+                <span className="font-medium">{flags.length.toLocaleString()}</span> of {data.totalRows.toLocaleString()} respondents flagged
+              </span>
+              {[...counts].map(([check, count]) => (
+                <Badge key={check} variant="outline">{RESPONDENT_CHECK_LABELS[check]}: {count}</Badge>
+              ))}
+            </div>
+
+            {flags.length > 0 && (
+              <>
+                <div className="max-h-72 overflow-y-auto border rounded">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10" />
+                        <TableHead>Row</TableHead>
+                        <TableHead>Reasons</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {flags.slice(0, ROWS_SHOWN).map(flag => (
+                        <TableRow key={flag.row}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedRows.has(flag.row)}
+                              onCheckedChange={(checked) => toggleRow(flag.row, checked === true)}
+                            />
+                          </TableCell>
+                          <TableCell>{flag.row + 1}</TableCell>
+                          <TableCell className="space-y-1">
+                            {flag.reasons.map((reason, index) => (
+                              <div key={index} className="text-sm">
+                                <Badge variant="secondary" className="mr-2 text-xs">{RESPONDENT_CHECK_LABELS[reason.check]}</Badge>
+                                <span className="text-muted-foreground">{reason.detail}</span>
+                              </div>
+                            ))}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {flags.length > ROWS_SHOWN && (
+                  <p className="text-xs text-muted-foreground">
+                    Showing the first {ROWS_SHOWN} flagged respondents; the exclusion applies to every selected one.
+                  </p>
+                )}
+
+                <Button onClick={handleExclude} disabled={selectedRows.size === 0} variant="destructive" className="w-full">
+                  <UserX className="h-4 w-4 mr-1" />
+                  Exclude {selectedRows.size.toLocaleString()} Respondents
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -8,47 +8,97 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Download, FileText, BarChart3, Target, Zap, Calculator } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { formatCsvRow } from '@/lib/survey/csv';
+import { formatLabelledValue, formatVariableName } from '@/lib/survey/dataset';
+import { prepareAnalysisData, releaseAnalysisData } from '@/lib/survey/transfer';
+import { describeTreatment } from '@/lib/survey/outliers';
+import { CALIBRATION_METHOD_LABELS } from '@/lib/survey/weighting';
+import type { CalibrationMethod, OutlierTreatment, ProcessedSurveyData } from '@/lib/survey/types';
 
 import { ParameterEstimationSetup } from './ParameterEstimationSetup';
 import { StatisticalAnalysis } from './StatisticalAnalysis';
 import { EstimatesTable } from './EstimatesTable';
 import { EnhancedInsights } from './EnhancedInsights';
+import { QualityBreakdown, type QualityReport } from './QualityBreakdown';
 
 interface ResultsDashboardProps {
-  data: any;
+  data: ProcessedSurveyData;
+  /** Saves variables created while estimating, such as trimmed weights. */
+  onDataChange?: (data: ProcessedSurveyData) => void;
 }
 
-export const ResultsDashboard = ({ data }: ResultsDashboardProps) => {
+// Whether an estimate used imputed cells, as reported in exports
+const formatImputation = (imputation?: { treatment: string; imputedCells: number; draws?: number }) => {
+  if (!imputation) return '';
+  if (imputation.treatment === 'excluded') return `Excluded (${imputation.imputedCells})`;
+  return `Included (${imputation.imputedCells}${imputation.draws ? `, pooled over ${imputation.draws}` : ''})`;
+};
+
+// How an estimate's margin of error accounts for the sample design, as reported in exports
+const formatVarianceEstimation = (estimate: {
+  design?: { strata: number; clusters: number; fpcVariable?: string };
+  replicates?: { method: string; count: number };
+}) => {
+  if (estimate.replicates) return `${estimate.replicates.method} replicate weights (${estimate.replicates.count})`;
+  if (estimate.design) {
+    return `Linearized (${estimate.design.strata} strata, ${estimate.design.clusters} PSUs${estimate.design.fpcVariable ? ', FPC' : ''})`;
+  }
+  return '';
+};
+
+// Whether an estimate's weights were calibrated, as reported in exports
+const formatCalibration = (calibration?: { applied: boolean; method: CalibrationMethod; gRange?: [number, number] }) => {
+  if (!calibration) return '';
+  if (!calibration.applied) return 'Uncalibrated';
+  const range = calibration.gRange ? `, g ${calibration.gRange[0].toFixed(3)} to ${calibration.gRange[1].toFixed(3)}` : '';
+  return `${CALIBRATION_METHOD_LABELS[calibration.method]}${range}`;
+};
+
+export const ResultsDashboard = ({ data, onDataChange }: ResultsDashboardProps) => {
   const { toast } = useToast();
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isGeneratingEstimates, setIsGeneratingEstimates] = useState(false);
   const [analysisResults, setAnalysisResults] = useState<any>(null);
   const [parameterEstimates, setParameterEstimates] = useState<any[]>([]);
+  const [transferProgress, setTransferProgress] = useState<number | null>(null);
+
+  // Reports show codebook labels instead of raw column names and codes
+  const variablesByName = new Map(data.variables.map(variable => [variable.name, variable]));
+  const variableName = (name: string) => formatVariableName(name, variablesByName.get(name));
+  const groupName = (baseParameter: string, group: string) => {
+    const baseVariable = variablesByName.get(baseParameter);
+    return baseVariable ? formatLabelledValue(group, baseVariable) : group;
+  };
+
+  // Large datasets are uploaded to storage in parts and passed by reference
+  const getAnalysisData = async () => {
+    try {
+      return await prepareAnalysisData(data, setTransferProgress);
+    } finally {
+      setTransferProgress(null);
+    }
+  };
+
+  // Uploaded parts are single-use; clear them up even if the request failed
+  const invokeAnalysis = async (extra: Record<string, unknown> = {}) => {
+    const analysisData = await getAnalysisData();
+    try {
+      return await supabase.functions.invoke('analyze-survey', {
+        body: { ...analysisData, ...extra }
+      });
+    } finally {
+      releaseAnalysisData(analysisData).catch(error => console.error('Dataset cleanup error:', error));
+    }
+  };
 
   const performAnalysis = async () => {
     setIsAnalyzing(true);
     
     try {
-      // Prepare data with proper structure for the edge function
-      const analysisData = {
-        variables: data.variables.map((variable: any) => ({
-          name: variable.name,
-          type: variable.type,
-          values: variable.values || [],
-          missing: variable.missing || 0
-        })),
-        sampleData: data.sampleData || [],
-        totalRows: data.totalRows || 0,
-        fileName: data.fileName
-      };
-
-      console.log('Sending analysis request with data:', analysisData);
-
-      const { data: result, error } = await supabase.functions.invoke('analyze-survey', {
-        body: { 
-          data: analysisData
-        }
-      });
+      console.log('Sending analysis request for', data.variables.length, 'variables and', data.totalRows, 'rows');
+
+      // Columnar dataset: every variable carries all of its row values
+      const { data: result, error } = await invokeAnalysis();
 
       if (error) {
         console.error('Supabase function error:', error);
@@ -82,12 +132,7 @@ export const ResultsDashboard = ({ data }: ResultsDashboardProps) => {
     setIsGeneratingEstimates(true);
     
     try {
-      const { data: result, error } = await supabase.functions.invoke('analyze-survey', {
-        body: { 
-          data: data,
-          parameters
-        }
-      });
+      const { data: result, error } = await invokeAnalysis({ parameters });
 
       if (error) throw error;
 
@@ -149,6 +194,49 @@ export const ResultsDashboard = ({ data }: ResultsDashboardProps) => {
         doc.text('Data Quality Assessment', 20, 30);
         doc.setFontSize(12);
         doc.text(`Overall Quality Score: ${analysisResults.qualityScore}%`, 20, 45);
+        const report: QualityReport | undefined = analysisResults.qualityReport;
+        if (report) {
+          let yPos = 60;
+          Object.entries(report.dimensions).forEach(([name, dimension]) => {
+            if (yPos > 250) {
+              doc.addPage();
+              yPos = 20;
+            }
+            doc.text(`${name.charAt(0).toUpperCase()}${name.slice(1)}: ${dimension.score}% (weight ${Math.round(dimension.weight * 100)}%)`, 20, yPos);
+            yPos += 7;
+            doc.setFontSize(10);
+            dimension.checks.forEach(check => {
+              if (yPos > 250) {
+                doc.addPage();
+                yPos = 20;
+              }
+              doc.text(`${check.name}: ${check.score}% - ${check.detail}`, 28, yPos);
+              yPos += 6;
+            });
+            doc.setFontSize(12);
+            yPos += 3;
+          });
+          const weakest = [...report.variables].sort((a, b) => a.score - b.score).filter(v => v.issues.length > 0).slice(0, 10);
+          if (weakest.length > 0) {
+            if (yPos > 250) {
+              doc.addPage();
+              yPos = 20;
+            }
+            doc.text('Variables with the lowest quality:', 20, yPos + 5);
+            yPos += 12;
+            doc.setFontSize(10);
+            weakest.forEach(v => {
+              if (yPos > 250) {
+                doc.addPage();
+                yPos = 20;
+              }
+              const lines = doc.splitTextToSize(`${v.name}: ${v.score}% - ${v.issues.join('; ')}`, 170);
+              doc.text(lines, 28, yPos);
+              yPos += lines.length * 5 + 1;
+            });
+            doc.setFontSize(12);
+          }
+        }
       }
       
       // Parameter Estimates
@@ -165,12 +253,15 @@ export const ResultsDashboard = ({ data }: ResultsDashboardProps) => {
           }
           
           doc.setFontSize(14);
-          doc.text(`${estimate.estimatingParameter} (${estimate.aggregationType})`, 20, yPos);
+          const option = estimate.option !== undefined ? `: ${estimate.optionLabel ?? estimate.option}` : '';
+          const imputation = estimate.imputation ? `, imputed values ${formatImputation(estimate.imputation).toLowerCase()}` : '';
+          const calibration = estimate.calibration ? `, ${formatCalibration(estimate.calibration).toLowerCase()}` : '';
+          doc.text(`${variableName(estimate.estimatingParameter)}${option} (${estimate.aggregationType}${imputation}${calibration})`, 20, yPos);
           yPos += 15;
           
           estimate.groups.forEach((group: any) => {
             doc.setFontSize(10);
-            doc.text(`${group.group}: ${group.estimate.toFixed(2)} ± ${group.marginOfError.toFixed(2)}`, 30, yPos);
+            doc.text(`${groupName(estimate.baseParameter, group.group)}: ${group.estimateLabel ?? group.estimate.toFixed(2)} ± ${group.marginOfError.toFixed(2)}${group.designEffect !== undefined ? ` (deff ${group.designEffect.toFixed(2)})` : ''}`, 30, yPos);
             yPos += 10;
           });
           yPos += 10;
@@ -227,10 +318,11 @@ export const ResultsDashboard = ({ data }: ResultsDashboardProps) => {
     }
 
     const csvContent = [
-      ['Parameter', 'Group', 'Aggregation', 'Estimate', 'Margin of Error', '95% CI Lower', '95% CI Upper', 'Sample Size', 'Weighted N'].join(','),
+      ['Parameter', 'Option', 'Group', 'Aggregation', 'Estimate', 'Margin of Error', '95% CI Lower', '95% CI Upper', 'Sample Size', 'Weighted N', 'Imputed Values', 'Outlier Treatments', 'Excluded Respondents', 'Respondents Without Weight', 'Variance Estimation', 'Design Effect', 'Calibration'].join(','),
       ...parameterEstimates.flatMap(estimate =>
-        estimate.groups.map((group: any) => [
+        estimate.groups.map((group: any) => formatCsvRow([
           estimate.estimatingParameter,
+          estimate.optionLabel ?? estimate.option ?? '',
           group.group,
           estimate.aggregationType,
           group.estimate.toFixed(4),
@@ -238,8 +330,17 @@ export const ResultsDashboard = ({ data }: ResultsDashboardProps) => {
           group.confidenceInterval[0].toFixed(4),
           group.confidenceInterval[1].toFixed(4),
           group.sampleSize,
-          group.weightedN.toFixed(0)
-        ].join(','))
+          group.weightedN.toFixed(0),
+          formatImputation(estimate.imputation),
+          (estimate.transformations ?? [])
+            .map((t: { variable: string; treatment: OutlierTreatment; cells: number }) => `${t.variable}: ${describeTreatment(t.treatment, t.cells)}`)
+            .join('; '),
+          estimate.excludedRespondents ?? '',
+          estimate.unweightedRespondents ?? '',
+          formatVarianceEstimation(estimate),
+          group.designEffect?.toFixed(4) ?? '',
+          formatCalibration(estimate.calibration)
+        ]))
       )
     ].join('\n');
 
@@ -278,7 +379,9 @@ export const ResultsDashboard = ({ data }: ResultsDashboardProps) => {
               size="lg"
               className="flex-1 bg-blue-600 hover:bg-blue-700"
             >
-              {isAnalyzing ? 'Analyzing...' : 'Start AI Analysis'}
+              {isAnalyzing
+                ? transferProgress !== null ? `Uploading data (${transferProgress}%)...` : 'Analyzing...'
+                : 'Start AI Analysis'}
             </Button>
             
             <Button 
@@ -312,9 +415,9 @@ export const ResultsDashboard = ({ data }: ResultsDashboardProps) => {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Target className="h-5 w-5" />
-                  Analysis Quality Score
+                  Data Quality Score
                 </CardTitle>
-                <CardDescription>Overall confidence in the statistical estimates</CardDescription>
+                <CardDescription>Completeness, validity and consistency of the data, overall and by variable</CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="flex items-center gap-4">
@@ -323,6 +426,12 @@ export const ResultsDashboard = ({ data }: ResultsDashboardProps) => {
                   </div>
                   <div className="text-3xl font-bold text-primary">{analysisResults.qualityScore}%</div>
                 </div>
+
+                {analysisResults.qualityReport && (
+                  <div className="mt-6">
+                    <QualityBreakdown report={analysisResults.qualityReport} variables={data.variables} />
+                  </div>
+                )}
                 
                 {/* Executive Summary */}
                 {analysisResults.executiveSummary && (
@@ -357,6 +466,10 @@ export const ResultsDashboard = ({ data }: ResultsDashboardProps) => {
           <TabsContent value="parameters">
             <ParameterEstimationSetup
               variables={data.variables}
+              multiResponseSets={data.multiResponseSets}
+              imputedVariables={data.imputations?.map(record => record.variable)}
+              data={data}
+              onDataChange={onDataChange}
               onGenerateEstimates={generateEstimates}
               isGenerating={isGeneratingEstimates}
             />
@@ -369,6 +482,7 @@ export const ResultsDashboard = ({ data }: ResultsDashboardProps) => {
           <TabsContent value="estimates">
             <EstimatesTable 
               estimates={parameterEstimates}
+              variables={data.variables}
               onExportEstimates={exportEstimates}
             />
           </TabsContent>
@@ -0,0 +1,79 @@
+import { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { GitBranch } from 'lucide-react';
+import { formatVariableName } from '@/lib/survey/dataset';
+import { findSkipLogicIssues } from '@/lib/survey/xlsform';
+import type { ProcessedSurveyData } from '@/lib/survey/types';
+
+interface SkipLogicReportProps {
+  data: ProcessedSurveyData;
+}
+
+const ROWS_SHOWN = 8;
+
+export const SkipLogicReport = ({ data }: SkipLogicReportProps) => {
+  const issues = useMemo(() => findSkipLogicIssues(data), [data]);
+  const variablesByName = new Map(data.variables.map(variable => [variable.name, variable]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-blue-800">
+          <GitBranch className="h-5 w-5" />
+          Skip Logic & Constraints
+        </CardTitle>
+        <CardDescription className="text-blue-600">
+          Rows that answered questions their skip logic excludes, and answers that fail the form's constraints
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {issues.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            All {data.totalRows.toLocaleString()} rows follow the questionnaire's skip logic and constraints.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Variable</TableHead>
+                <TableHead>Check</TableHead>
+                <TableHead>Expression</TableHead>
+                <TableHead>Rows</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {issues.map(issue => (
+                <TableRow key={`${issue.variable}-${issue.kind}`}>
+                  <TableCell className="font-medium">
+                    {formatVariableName(issue.variable, variablesByName.get(issue.variable))}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      {issue.kind === 'relevant' ? 'Should be skipped' : 'Fails constraint'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs max-w-xs break-words">{issue.expression}</TableCell>
+                  <TableCell className="text-sm">
+                    {issue.error ? (
+                      <span className="text-destructive">Not checked: {issue.error}</span>
+                    ) : (
+                      <>
+                        <span className="font-medium">{issue.rows.length.toLocaleString()}</span>
+                        <span className="text-muted-foreground">
+                          {' '}(row {issue.rows.slice(0, ROWS_SHOWN).join(', ')}
+                          {issue.rows.length > ROWS_SHOWN ? ', …' : ''})
+                        </span>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -2,7 +2,42 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { BarChart3, TrendingUp, AlertTriangle, Hash } from 'lucide-react';
+import { BarChart3, TrendingUp, AlertTriangle, Hash, ListChecks, CheckSquare } from 'lucide-react';
+import { VARIABLE_TYPE_LABELS } from '@/lib/survey/variable-types';
+import { formatMissingBreakdown } from '@/lib/survey/missing';
+import { describeTreatment } from '@/lib/survey/outliers';
+import type { MissingCategory, OutlierTreatment, VariableType } from '@/lib/survey/types';
+
+interface OtherVariableAnalysis {
+  type: 'date' | 'identifier' | 'text';
+  variableType: VariableType;
+  label?: string;
+  count: number;
+  missing: number;
+  missingBreakdown?: Record<MissingCategory, number>;
+  unique?: number;
+  averageLength?: number;
+  earliest?: string;
+  latest?: string;
+  median?: string;
+}
+
+interface MultiResponseAnalysis {
+  type: 'multi-response';
+  layout: 'delimited' | 'dummy';
+  label?: string;
+  missing: number;
+  missingBreakdown?: Record<MissingCategory, number>;
+  respondents: number;
+  totalResponses: number;
+  options: Array<{
+    option: string;
+    label: string;
+    count: number;
+    percentOfRespondents: number;
+    percentOfResponses: number;
+  }>;
+}
 
 interface StatisticalAnalysisProps {
   analysis: any;
@@ -14,6 +49,26 @@ export const StatisticalAnalysis = ({ analysis, visualizations }: StatisticalAna
     varAnalysis.type === 'numeric');
   const categoricalVariables = Object.entries(analysis).filter(([_, varAnalysis]: [string, any]) => 
     varAnalysis.type === 'categorical');
+  const multiResponseSets = Object.entries(analysis as Record<string, { type: string }>).filter(([, varAnalysis]) =>
+    varAnalysis.type === 'multi-response') as Array<[string, MultiResponseAnalysis]>;
+  // Dates, identifiers and open text get a compact summary each
+  const otherVariables = Object.entries(analysis as Record<string, { type: string }>).filter(([, varAnalysis]) =>
+    !['numeric', 'categorical', 'multi-response'].includes(varAnalysis.type)) as Array<[string, OtherVariableAnalysis]>;
+
+  const describeOther = (varAnalysis: OtherVariableAnalysis): string => {
+    switch (varAnalysis.type) {
+      case 'date':
+        return varAnalysis.earliest && varAnalysis.latest && varAnalysis.median
+          ? `${varAnalysis.earliest.slice(0, 10)} to ${varAnalysis.latest.slice(0, 10)}, median ${varAnalysis.median.slice(0, 10)}`
+          : 'No valid dates';
+      case 'identifier':
+        return `${(varAnalysis.unique ?? 0).toLocaleString()} distinct values`;
+      case 'text':
+        return `${(varAnalysis.unique ?? 0).toLocaleString()} distinct answers, ${(varAnalysis.averageLength ?? 0).toFixed(0)} characters on average`;
+      default:
+        return '';
+    }
+  };
 
   const getSkewnessLabel = (skewness: number) => {
     if (Math.abs(skewness) < 0.5) return { label: 'Normal', color: 'default' };
@@ -51,6 +106,9 @@ export const StatisticalAnalysis = ({ analysis, visualizations }: StatisticalAna
                     <div className="flex items-start justify-between mb-4">
                       <div>
                         <h4 className="font-semibold text-lg">{varName}</h4>
+                        {varAnalysis.label && (
+                          <p className="text-sm text-muted-foreground">{varAnalysis.label}</p>
+                        )}
                         <div className="flex items-center gap-2 mt-1">
                           <Badge variant="outline">Numeric</Badge>
                           <Badge variant={skewnessInfo.color as any}>
@@ -59,6 +117,13 @@ export const StatisticalAnalysis = ({ analysis, visualizations }: StatisticalAna
                           <Badge variant="secondary">
                             n = {varAnalysis.count.toLocaleString()}
                           </Badge>
+                          {(varAnalysis.transformations ?? []).map(
+                            (t: { treatment: OutlierTreatment; cells: number }, index: number) => (
+                              <Badge key={index} variant="outline" className="border-amber-300 text-amber-700">
+                                {describeTreatment(t.treatment, t.cells)}
+                              </Badge>
+                            )
+                          )}
                         </div>
                       </div>
                       <div className="text-right">
@@ -69,6 +134,11 @@ export const StatisticalAnalysis = ({ analysis, visualizations }: StatisticalAna
                             {(((varAnalysis.count) / (varAnalysis.count + varAnalysis.missing)) * 100).toFixed(1)}%
                           </span>
                         </div>
+                        {varAnalysis.missing > 0 && varAnalysis.missingBreakdown && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {formatMissingBreakdown(varAnalysis.missingBreakdown)}
+                          </div>
+                        )}
                       </div>
                     </div>
 
@@ -158,15 +228,20 @@ export const StatisticalAnalysis = ({ analysis, visualizations }: StatisticalAna
             <div className="space-y-6">
               {categoricalVariables.map(([varName, varAnalysis]: [string, any]) => {
                 const visualization = visualizations[varName];
-                const isIdentifier = varAnalysis.unique / varAnalysis.count > 0.9;
+                const isIdentifier = varAnalysis.variableType === 'categorical' && varAnalysis.unique / varAnalysis.count > 0.9;
                 
                 return (
                   <div key={varName} className="border rounded-lg p-4">
                     <div className="flex items-start justify-between mb-4">
                       <div>
                         <h4 className="font-semibold text-lg">{varName}</h4>
+                        {varAnalysis.label && (
+                          <p className="text-sm text-muted-foreground">{varAnalysis.label}</p>
+                        )}
                         <div className="flex items-center gap-2 mt-1">
-                          <Badge variant="secondary">Categorical</Badge>
+                          <Badge variant="secondary">
+                            {VARIABLE_TYPE_LABELS[varAnalysis.variableType as VariableType] ?? 'Categorical'}
+                          </Badge>
                           {isIdentifier && (
                             <Badge variant="outline" className="border-orange-300 text-orange-700">
                               <AlertTriangle className="h-3 w-3 mr-1" />
@@ -186,6 +261,11 @@ export const StatisticalAnalysis = ({ analysis, visualizations }: StatisticalAna
                             {(((varAnalysis.count) / (varAnalysis.count + varAnalysis.missing)) * 100).toFixed(1)}%
                           </span>
                         </div>
+                        {varAnalysis.missing > 0 && varAnalysis.missingBreakdown && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {formatMissingBreakdown(varAnalysis.missingBreakdown)}
+                          </div>
+                        )}
                       </div>
                     </div>
 
@@ -195,8 +275,14 @@ export const StatisticalAnalysis = ({ analysis, visualizations }: StatisticalAna
                         <div className="font-semibold text-primary">{varAnalysis.unique.toLocaleString()}</div>
                       </div>
                       <div className="text-center p-3 bg-muted/50 rounded-lg">
-                        <div className="text-sm text-muted-foreground">Mode</div>
-                        <div className="font-semibold">{varAnalysis.mode || 'N/A'}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {varAnalysis.medianLevel !== undefined ? 'Median Level' : 'Mode'}
+                        </div>
+                        <div className="font-semibold">
+                          {varAnalysis.medianLevel !== undefined
+                            ? varAnalysis.medianLevelLabel
+                            : varAnalysis.modeLabel || varAnalysis.mode || 'N/A'}
+                        </div>
                       </div>
                       <div className="text-center p-3 bg-muted/50 rounded-lg">
                         <div className="text-sm text-muted-foreground">Mode Frequency</div>
@@ -207,7 +293,9 @@ export const StatisticalAnalysis = ({ analysis, visualizations }: StatisticalAna
                     {/* Top values visualization */}
                     {visualization && !isIdentifier && (
                       <div className="mt-4">
-                        <div className="text-sm font-medium mb-2">Top Categories</div>
+                        <div className="text-sm font-medium mb-2">
+                          {varAnalysis.variableType === 'ordinal' ? 'Levels' : 'Top Categories'}
+                        </div>
                         <div className="space-y-2">
                           {visualization.data.map((item: any, idx: number) => (
                             <div key={idx} className="flex items-center gap-3">
@@ -245,6 +333,101 @@ export const StatisticalAnalysis = ({ analysis, visualizations }: StatisticalAna
           </CardContent>
         </Card>
       )}
+
+      {/* Multiple-Response Questions */}
+      {multiResponseSets.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckSquare className="h-5 w-5" />
+              Multiple-Response Questions ({multiResponseSets.length})
+            </CardTitle>
+            <CardDescription>
+              Share of respondents choosing each option (can exceed 100% in total) and share of all responses
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              {multiResponseSets.map(([setName, setAnalysis]) => (
+                <div key={setName} className="space-y-2">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="font-medium">{setAnalysis.label || setName}</div>
+                      {setAnalysis.label && <p className="text-xs text-muted-foreground font-mono">{setName}</p>}
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant="outline">{setAnalysis.layout === 'dummy' ? 'Dummy columns' : 'Delimited'}</Badge>
+                      <Badge variant="secondary">{setAnalysis.respondents.toLocaleString()} respondents</Badge>
+                    </div>
+                  </div>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-muted-foreground">
+                        <th className="text-left py-1 font-medium">Option</th>
+                        <th className="text-right py-1 font-medium">Count</th>
+                        <th className="text-right py-1 font-medium">% of Respondents</th>
+                        <th className="text-right py-1 font-medium">% of Responses</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {setAnalysis.options.map(option => (
+                        <tr key={option.option} className="border-b last:border-b-0">
+                          <td className="py-1">{option.label}</td>
+                          <td className="text-right py-1">{option.count.toLocaleString()}</td>
+                          <td className="text-right py-1">{option.percentOfRespondents.toFixed(1)}%</td>
+                          <td className="text-right py-1">{option.percentOfResponses.toFixed(1)}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="text-xs text-muted-foreground">
+                    {setAnalysis.totalResponses.toLocaleString()} responses in total
+                    {setAnalysis.missing > 0 && setAnalysis.missingBreakdown &&
+                      ` · Not answered: ${formatMissingBreakdown(setAnalysis.missingBreakdown)}`}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Other Variables */}
+      {otherVariables.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              Other Variables ({otherVariables.length})
+            </CardTitle>
+            <CardDescription>Dates, identifiers and open text</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {otherVariables.map(([varName, varAnalysis]) => (
+                <div key={varName} className="flex items-start justify-between gap-4 border rounded-lg p-3">
+                  <div>
+                    <div className="font-medium">{varName}</div>
+                    {varAnalysis.label && (
+                      <p className="text-sm text-muted-foreground">{varAnalysis.label}</p>
+                    )}
+                    <div className="text-sm text-muted-foreground mt-1">{describeOther(varAnalysis)}</div>
+                    {varAnalysis.missing > 0 && varAnalysis.missingBreakdown && (
+                      <div className="text-xs text-muted-foreground">
+                        Missing: {formatMissingBreakdown(varAnalysis.missingBreakdown)}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Badge variant="outline">{VARIABLE_TYPE_LABELS[varAnalysis.variableType]}</Badge>
+                    <Badge variant="secondary">n = {varAnalysis.count.toLocaleString()}</Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
@@ -0,0 +1,271 @@
+import { useMemo, useState, type ChangeEvent } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, ShieldCheck, Upload, X } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  VALIDATION_RULE_KIND_LABELS,
+  createValidationRule,
+  describeRule,
+  evaluateValidationRules,
+  exportValidationRules,
+  parseValidationRules,
+  setValidationRules
+} from '@/lib/survey/validation';
+import type { ProcessedSurveyData, ValidationRuleKind } from '@/lib/survey/types';
+
+interface ValidationRuleEditorProps {
+  data: ProcessedSurveyData;
+  onDataChange: (data: ProcessedSurveyData) => void;
+}
+
+const ROWS_LISTED = 50;
+
+const parseBound = (text: string) => (text.trim() === '' ? undefined : Number(text));
+
+export const ValidationRuleEditor = ({ data, onDataChange }: ValidationRuleEditorProps) => {
+  const { toast } = useToast();
+  const [kind, setKind] = useState<ValidationRuleKind>('range');
+  const [name, setName] = useState('');
+  const [variableName, setVariableName] = useState('');
+  const [min, setMin] = useState('');
+  const [max, setMax] = useState('');
+  const [allowed, setAllowed] = useState('');
+  const [pattern, setPattern] = useState('');
+  const [condition, setCondition] = useState('');
+  const [expression, setExpression] = useState('');
+
+  const rules = data.validationRules ?? [];
+  const results = useMemo(() => evaluateValidationRules(data), [data]);
+  const variables = data.variables.filter(variable => variable.type !== 'multi-response');
+
+  const handleVariableChange = (value: string) => {
+    setVariableName(value);
+    // Start an allowed-values rule from the variable's value labels
+    const labels = data.variables.find(variable => variable.name === value)?.valueLabels;
+    if (kind === 'allowed' && !allowed.trim() && labels) setAllowed(Object.keys(labels).join(', '));
+  };
+
+  const handleAdd = () => {
+    try {
+      const rule = createValidationRule({
+        name,
+        kind,
+        variable: kind === 'logic' ? undefined : variableName,
+        min: kind === 'range' ? parseBound(min) : undefined,
+        max: kind === 'range' ? parseBound(max) : undefined,
+        allowed: kind === 'allowed' ? allowed.split(',') : undefined,
+        pattern: kind === 'pattern' ? pattern : undefined,
+        condition: kind === 'logic' ? condition : undefined,
+        expression: kind === 'logic' ? expression : undefined
+      });
+      const [result] = evaluateValidationRules(data, [rule]);
+      if (result.error) throw new Error(result.error);
+      onDataChange(setValidationRules(data, [...rules, rule]));
+      toast({
+        title: "Rule added",
+        description: `${rule.name}: ${result.rows.length} of ${result.checked.toLocaleString()} rows break the rule.`,
+      });
+      setName('');
+      setMin('');
+      setMax('');
+      setAllowed('');
+      setPattern('');
+      setCondition('');
+      setExpression('');
+    } catch (error) {
+      toast({
+        title: "Rule not added",
+        description: error instanceof Error ? error.message : "The rule is not complete.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportValidationRules(rules)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${data.fileName.replace(/\.[^.]+$/, '')}-rules.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseValidationRules(await file.text());
+      // Imported rules replace existing rules of the same name
+      const names = new Set(imported.map(rule => rule.name));
+      const next = setValidationRules(data, [...rules.filter(rule => !names.has(rule.name)), ...imported]);
+      const failed = evaluateValidationRules(next, imported).filter(result => result.error);
+      onDataChange(next);
+      toast({
+        title: "Rules imported",
+        description: `${imported.length} rules read from ${file.name}` +
+          (failed.length > 0 ? `; ${failed.length} could not be checked on this dataset` : ''),
+      });
+    } catch (error) {
+      toast({
+        title: "Rules could not be read",
+        description: error instanceof Error ? error.message : "Please choose a rule set exported from this tool.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-blue-800">
+              <ShieldCheck className="h-5 w-5" />
+              Validation Rules
+            </CardTitle>
+            <CardDescription className="text-blue-600">
+              Check ranges, allowed values, patterns and cross-variable logic on every row; reuse the rule set on the next wave
+            </CardDescription>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <Button variant="outline" size="sm" asChild>
+              <label className="cursor-pointer">
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+                <input type="file" accept=".json" className="hidden" onChange={handleImport} />
+              </label>
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={rules.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {results.length > 0 && (
+          <div className="space-y-2">
+            {results.map(result => (
+              <div key={result.rule.id} className="p-2 border rounded text-sm space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <span className="font-medium">{result.rule.name}</span>
+                    {result.rule.name !== describeRule(result.rule) && (
+                      <span className="font-mono text-xs text-muted-foreground"> · {describeRule(result.rule)}</span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Badge variant="outline">{VALIDATION_RULE_KIND_LABELS[result.rule.kind]}</Badge>
+                    {result.error ? (
+                      <Badge variant="destructive">Not checked</Badge>
+                    ) : result.rows.length > 0 ? (
+                      <Badge variant="destructive">{result.rows.length.toLocaleString()} violations</Badge>
+                    ) : (
+                      <Badge variant="secondary">{result.checked.toLocaleString()} rows pass</Badge>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onDataChange(setValidationRules(data, rules.filter(rule => rule.id !== result.rule.id)))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {result.error && <p className="text-xs text-red-600">{result.error}</p>}
+                {result.rows.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Rows {result.rows.slice(0, ROWS_LISTED).map(row => row + 1).join(', ')}
+                    {result.rows.length > ROWS_LISTED && ` and ${result.rows.length - ROWS_LISTED} more`}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <Select value={kind} onValueChange={(value) => setKind(value as ValidationRuleKind)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(VALIDATION_RULE_KIND_LABELS) as ValidationRuleKind[]).map(option => (
+                <SelectItem key={option} value={option}>{VALIDATION_RULE_KIND_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {kind !== 'logic' && (
+            <Select value={variableName} onValueChange={handleVariableChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Variable to check" />
+              </SelectTrigger>
+              <SelectContent>
+                {variables.map(variable => (
+                  <SelectItem key={variable.name} value={variable.name}>{variable.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Input value={name} placeholder="Rule name (optional)" onChange={(e) => setName(e.target.value)} />
+        </div>
+
+        {kind === 'range' && (
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="rule-min" className="shrink-0">Minimum</Label>
+              <Input id="rule-min" type="number" step="any" value={min} onChange={(e) => setMin(e.target.value)} />
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="rule-max" className="shrink-0">Maximum</Label>
+              <Input id="rule-max" type="number" step="any" value={max} onChange={(e) => setMax(e.target.value)} />
+            </div>
+          </div>
+        )}
+        {kind === 'allowed' && (
+          <Input value={allowed} placeholder="Allowed values, e.g. 1, 2, 3" onChange={(e) => setAllowed(e.target.value)} />
+        )}
+        {kind === 'pattern' && (
+          <Input
+            value={pattern}
+            placeholder="Regular expression the whole answer must match, e.g. [A-Z]{2}\d{4}"
+            className="font-mono"
+            onChange={(e) => setPattern(e.target.value)}
+          />
+        )}
+        {kind === 'logic' && (
+          <div className="space-y-2">
+            <Input
+              value={condition}
+              placeholder='Only where (optional), e.g. employed = "No" or not employed'
+              className="font-mono"
+              onChange={(e) => setCondition(e.target.value)}
+            />
+            <Input
+              value={expression}
+              placeholder="Every row must satisfy, e.g. missing(income_wage)"
+              className="font-mono"
+              onChange={(e) => setExpression(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Written like derived-variable expressions; a yes/no variable can be a condition on its own. Rows where the requirement cannot be judged because of missing values are not counted as violations.
+            </p>
+          </div>
+        )}
+
+        <Button onClick={handleAdd} disabled={kind !== 'logic' && !variableName} className="w-full">
+          <ShieldCheck className="h-4 w-4 mr-1" />
+          Add Rule
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,151 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronDown, ChevronUp, Tags } from 'lucide-react';
+import { formatLabelledValue, setVariableType } from '@/lib/survey/dataset';
+import {
+  MANUAL_RESPONSE_DELIMITERS,
+  RESPONSE_DELIMITERS,
+  VARIABLE_TYPES,
+  VARIABLE_TYPE_LABELS
+} from '@/lib/survey/variable-types';
+import type { ProcessedSurveyData, SurveyVariable, VariableType } from '@/lib/survey/types';
+
+interface VariableTypeEditorProps {
+  data: ProcessedSurveyData;
+  onDataChange: (data: ProcessedSurveyData) => void;
+}
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ';': 'Semicolon (;)',
+  ',': 'Comma (,)',
+  '|': 'Pipe (|)',
+  ' ': 'Space'
+};
+
+const exampleValues = (variable: SurveyVariable) =>
+  [...new Set(variable.values.filter(value => value !== null).map(value => formatLabelledValue(value, variable)))]
+    .slice(0, 3)
+    .join(', ');
+
+export const VariableTypeEditor = ({ data, onDataChange }: VariableTypeEditorProps) => {
+  const changeType = (variable: SurveyVariable, type: VariableType) => {
+    onDataChange(setVariableType(data, variable.name, type));
+  };
+
+  const moveLevel = (variable: SurveyVariable, index: number, offset: number) => {
+    const levels = [...(variable.levels ?? [])];
+    const target = index + offset;
+    if (target < 0 || target >= levels.length) return;
+    [levels[index], levels[target]] = [levels[target], levels[index]];
+    onDataChange(setVariableType(data, variable.name, 'ordinal', { levels }));
+  };
+
+  const changeDelimiter = (variable: SurveyVariable, responseDelimiter: string) => {
+    onDataChange(setVariableType(data, variable.name, 'multi-response', { responseDelimiter }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-blue-800">
+          <Tags className="h-5 w-5" />
+          Variable Types
+        </CardTitle>
+        <CardDescription className="text-blue-600">
+          Types were detected on upload; correct them here before running the analysis
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Variable</TableHead>
+                <TableHead>Example Values</TableHead>
+                <TableHead className="w-48">Type</TableHead>
+                <TableHead>Settings</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.variables.map(variable => (
+                <TableRow key={variable.name}>
+                  <TableCell>
+                    <div className="font-medium">{variable.name}</div>
+                    {variable.label && <div className="text-xs text-muted-foreground">{variable.label}</div>}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground max-w-[16rem] truncate">
+                    {exampleValues(variable)}
+                  </TableCell>
+                  <TableCell>
+                    <Select value={variable.type} onValueChange={(value) => changeType(variable, value as VariableType)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {VARIABLE_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>
+                            {VARIABLE_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    {variable.type === 'ordinal' && (
+                      <div className="space-y-1">
+                        <div className="text-xs text-muted-foreground">Levels, lowest first</div>
+                        {(variable.levels ?? []).map((level, index, levels) => (
+                          <div key={level} className="flex items-center gap-1 text-xs">
+                            <span className="w-5 text-muted-foreground">{index + 1}.</span>
+                            <span className="flex-1 truncate">{formatLabelledValue(level, variable)}</span>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 w-6 p-0"
+                              disabled={index === 0}
+                              onClick={() => moveLevel(variable, index, -1)}
+                            >
+                              <ChevronUp className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 w-6 p-0"
+                              disabled={index === levels.length - 1}
+                              onClick={() => moveLevel(variable, index, 1)}
+                            >
+                              <ChevronDown className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {variable.type === 'multi-response' && (
+                      <Select
+                        value={variable.responseDelimiter}
+                        onValueChange={(value) => changeDelimiter(variable, value)}
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {[...RESPONSE_DELIMITERS, ...MANUAL_RESPONSE_DELIMITERS].map(delimiter => (
+                            <SelectItem key={delimiter} value={delimiter}>
+                              {DELIMITER_LABELS[delimiter]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,237 @@
+import { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Scissors } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  DEFAULT_IWTP_FACTOR,
+  DEFAULT_TRIM_PERCENTILE,
+  TRIM_RULE_LABELS,
+  diagnoseWeights,
+  saveTrimmedWeights,
+  trimWeights,
+  type TrimResult,
+  type WeightSummary
+} from '@/lib/survey/weighting';
+import type { ProcessedSurveyData, TrimRule } from '@/lib/survey/types';
+
+interface WeightDiagnosticsProps {
+  data: ProcessedSurveyData;
+  weightVariable: string;
+  /** Grouping variable whose categories get their own effective sample size. */
+  domainVariable?: string;
+  /** Saves a trimmed weight variable; trimming is offered when given. */
+  onDataChange?: (data: ProcessedSurveyData) => void;
+}
+
+const formatNumber = (value: number, digits = 2) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: digits });
+
+const SummaryBadges = ({ summary }: { summary: WeightSummary }) => (
+  <>
+    <Badge variant="outline">Weights {formatNumber(summary.min)} to {formatNumber(summary.max)}</Badge>
+    <Badge variant="outline">CV {formatNumber(summary.cv, 3)}</Badge>
+    <Badge variant="outline">Design effect {formatNumber(summary.designEffect)}</Badge>
+    <Badge variant="outline">Effective n {formatNumber(summary.effectiveSampleSize, 0)}</Badge>
+  </>
+);
+
+export const WeightDiagnostics = ({ data, weightVariable, domainVariable, onDataChange }: WeightDiagnosticsProps) => {
+  const { toast } = useToast();
+  const [rule, setRule] = useState<TrimRule>('percentile');
+  const [limit, setLimit] = useState('');
+  const [redistribute, setRedistribute] = useState(true);
+  const [name, setName] = useState('');
+  const [result, setResult] = useState<TrimResult | null>(null);
+
+  const diagnostics = useMemo(() => {
+    try {
+      return diagnoseWeights(data, weightVariable, domainVariable);
+    } catch {
+      return null;
+    }
+  }, [data, weightVariable, domainVariable]);
+  if (!diagnostics) return null;
+
+  const { summary, histogram } = diagnostics;
+  const tallest = histogram.reduce((max, bin) => Math.max(max, bin.respondents), 0);
+  const limitPlaceholder = rule === 'cap'
+    ? 'Largest weight to keep'
+    : rule === 'percentile' ? `Percentile, default ${DEFAULT_TRIM_PERCENTILE}` : `Times the median, default ${DEFAULT_IWTP_FACTOR}`;
+
+  const handleTrim = () => {
+    const value = limit.trim() ? Number(limit) : undefined;
+    try {
+      setResult(trimWeights(data, {
+        name: name.trim() || `${weightVariable}_trim`,
+        weight: weightVariable,
+        rule,
+        cap: rule === 'cap' ? value : undefined,
+        percentile: rule === 'percentile' ? value ?? DEFAULT_TRIM_PERCENTILE : undefined,
+        factor: rule === 'iwtp' ? value ?? DEFAULT_IWTP_FACTOR : undefined,
+        redistribute
+      }));
+    } catch (error) {
+      setResult(null);
+      toast({
+        title: "Trimming failed",
+        description: error instanceof Error ? error.message : "The weights could not be trimmed.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = () => {
+    if (!result || !onDataChange) return;
+    const saveAs = name.trim() || result.spec.name;
+    try {
+      onDataChange(saveTrimmedWeights(data, { ...result, spec: { ...result.spec, name: saveAs } }));
+      toast({
+        title: "Trimmed weight saved",
+        description: `${saveAs} can now be chosen as the weight variable.`,
+      });
+      setResult(null);
+    } catch (error) {
+      toast({
+        title: "Weight not saved",
+        description: error instanceof Error ? error.message : "The trimmed weight could not be added.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg bg-muted/20">
+      <div>
+        <h4 className="text-sm font-medium">Weight Diagnostics: {weightVariable}</h4>
+        <p className="text-xs text-muted-foreground">
+          Spread of the weights over {summary.respondents.toLocaleString()} respondents and the precision lost to unequal weighting
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-sm">
+        <SummaryBadges summary={summary} />
+        <Badge variant="outline">Max/min ratio {formatNumber(diagnostics.maxMinRatio, 1)}</Badge>
+        <Badge variant={diagnostics.topShare > 0.05 ? 'destructive' : 'outline'}>
+          Top 1% hold {formatNumber(diagnostics.topShare * 100, 1)}% of the weight
+        </Badge>
+        {diagnostics.unusable > 0 && (
+          <Badge variant="destructive">{diagnostics.unusable} without a positive weight</Badge>
+        )}
+      </div>
+
+      {histogram.length > 0 && (
+        <div>
+          <div className="flex items-end gap-px h-20 border-b">
+            {histogram.map((bin, index) => (
+              <div
+                key={index}
+                className="flex-1 bg-blue-400"
+                style={{ height: `${tallest > 0 ? (bin.respondents / tallest) * 100 : 0}%` }}
+                title={`${formatNumber(bin.from)} to ${formatNumber(bin.to)}: ${bin.respondents} respondents`}
+              />
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {diagnostics.quantiles.map(q => `P${q.percentile} ${formatNumber(q.value)}`).join(' · ')}
+          </p>
+        </div>
+      )}
+
+      {diagnostics.domains.length > 0 && (
+        <div className="max-h-48 overflow-y-auto border rounded bg-background">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{domainVariable}</TableHead>
+                <TableHead className="text-right">Respondents</TableHead>
+                <TableHead className="text-right">Weight total</TableHead>
+                <TableHead className="text-right">CV</TableHead>
+                <TableHead className="text-right">Design effect</TableHead>
+                <TableHead className="text-right">Effective n</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {diagnostics.domains.map(domain => (
+                <TableRow key={domain.key}>
+                  <TableCell>{domain.label}</TableCell>
+                  <TableCell className="text-right">{domain.summary.respondents.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{formatNumber(domain.summary.total, 0)}</TableCell>
+                  <TableCell className="text-right">{formatNumber(domain.summary.cv, 3)}</TableCell>
+                  <TableCell className="text-right">{formatNumber(domain.summary.designEffect)}</TableCell>
+                  <TableCell className="text-right">{formatNumber(domain.summary.effectiveSampleSize, 0)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {onDataChange && (
+        <div className="space-y-3 pt-2 border-t">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <Select value={rule} onValueChange={(value) => { setRule(value as TrimRule); setLimit(''); setResult(null); }}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TRIM_RULE_LABELS) as TrimRule[]).map(option => (
+                  <SelectItem key={option} value={option}>{TRIM_RULE_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              step="any"
+              min={0}
+              value={limit}
+              placeholder={limitPlaceholder}
+              onChange={(e) => { setLimit(e.target.value); setResult(null); }}
+            />
+            <Input value={name} placeholder={`${weightVariable}_trim`} onChange={(e) => setName(e.target.value)} />
+            <Button variant="outline" onClick={handleTrim}>
+              <Scissors className="h-4 w-4 mr-1" />
+              Trim Weights
+            </Button>
+          </div>
+          {rule !== 'iwtp' && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="trim-redistribute"
+                checked={redistribute}
+                onCheckedChange={(checked) => { setRedistribute(checked === true); setResult(null); }}
+              />
+              <Label htmlFor="trim-redistribute" className="text-sm font-normal">
+                Redistribute the trimmed weight over the other respondents to keep the weight total
+              </Label>
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant="secondary">
+                  {result.trimmed} weights cut to {formatNumber(result.cutoff)}
+                  {result.iterations > 1 ? ` over ${result.iterations} iterations` : ''}
+                </Badge>
+                <SummaryBadges summary={result.after} />
+                <Badge variant="outline">Weight total {formatNumber(result.after.total, 0)} (was {formatNumber(result.before.total, 0)})</Badge>
+              </div>
+              {result.warnings.map((warning, index) => (
+                <p key={index} className="text-sm text-amber-700">{warning}</p>
+              ))}
+              <Button onClick={handleSave} className="w-full" disabled={result.trimmed === 0}>
+                Save as {name.trim() || result.spec.name}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,393 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Scale, X } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { isCategoricalType } from '@/lib/survey/variable-types';
+import {
+  CROSS_SEPARATOR,
+  DEFAULT_MAX_ITERATIONS,
+  DEFAULT_MIN_CELL_SIZE,
+  DEFAULT_TOLERANCE,
+  TRIM_RULE_LABELS,
+  marginCategories,
+  rakeWeights,
+  removeWeights,
+  saveWeights,
+  type WeightingResult
+} from '@/lib/survey/weighting';
+import { NONRESPONSE_METHOD_LABELS } from '@/lib/survey/base-weights';
+import type { ProcessedSurveyData, WeightingMargin, WeightingRecord } from '@/lib/survey/types';
+
+interface WeightingPanelProps {
+  data: ProcessedSurveyData;
+  onDataChange: (data: ProcessedSurveyData) => void;
+}
+
+/** A margin being entered: the population totals are kept as typed until raking. */
+interface MarginDraft {
+  variables: string[];
+  targets: Record<string, string>;
+}
+
+/** Control totals are typed as population counts, or as percentages of a population total. */
+type TargetEntry = 'count' | 'percent';
+
+const NONE = '__none__';
+
+const formatNumber = (value: number, digits = 2) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: digits });
+
+const describeRecord = (record: WeightingRecord) => {
+  switch (record.method) {
+    case 'raking':
+      return `raked to ${record.margins.map(margin => margin.variables.join(CROSS_SEPARATOR)).join(', ')}${record.baseWeight ? ` from ${record.baseWeight}` : ''}`;
+    case 'trimming':
+      return `${record.weight} trimmed at ${formatNumber(record.cutoff)} (${TRIM_RULE_LABELS[record.rule]})`;
+    case 'construction':
+      return `built from ${record.stageProbabilities.join(CROSS_SEPARATOR)}, nonresponse by ${NONRESPONSE_METHOD_LABELS[record.nonresponseMethod].toLowerCase()}`;
+  }
+};
+
+export const WeightingPanel = ({ data, onDataChange }: WeightingPanelProps) => {
+  const { toast } = useToast();
+  const [name, setName] = useState('rake_weight');
+  const [baseWeight, setBaseWeight] = useState(NONE);
+  const [margins, setMargins] = useState<MarginDraft[]>([]);
+  const [marginVariable, setMarginVariable] = useState('');
+  const [crossVariable, setCrossVariable] = useState(NONE);
+  const [entry, setEntry] = useState<TargetEntry>('count');
+  const [populationTotal, setPopulationTotal] = useState('');
+  const [maxIterations, setMaxIterations] = useState(String(DEFAULT_MAX_ITERATIONS));
+  const [tolerance, setTolerance] = useState(String(DEFAULT_TOLERANCE));
+  const [minCellSize, setMinCellSize] = useState(String(DEFAULT_MIN_CELL_SIZE));
+  const [result, setResult] = useState<WeightingResult | null>(null);
+
+  const numericVariables = data.variables.filter(variable => variable.type === 'numeric');
+  const categoricalVariables = data.variables.filter(variable => isCategoricalType(variable.type));
+  const records = data.weighting ?? [];
+
+  const handleAddMargin = () => {
+    const variables = crossVariable !== NONE && crossVariable !== marginVariable
+      ? [marginVariable, crossVariable]
+      : [marginVariable];
+    const key = variables.join(CROSS_SEPARATOR);
+    if (margins.some(margin => margin.variables.join(CROSS_SEPARATOR) === key)) {
+      toast({ title: "Margin already added", description: key, variant: "destructive" });
+      return;
+    }
+    setMargins([...margins, { variables, targets: {} }]);
+    setMarginVariable('');
+    setCrossVariable(NONE);
+    setResult(null);
+  };
+
+  const updateTarget = (index: number, key: string, value: string) => {
+    setMargins(margins.map((margin, i) => (i === index ? { ...margin, targets: { ...margin.targets, [key]: value } } : margin)));
+    setResult(null);
+  };
+
+  // Typed totals as population counts; blank cells are left out
+  const toMargins = (): WeightingMargin[] => {
+    const population = Number(populationTotal);
+    if (entry === 'percent' && !(population > 0)) throw new Error('Give the population total the percentages refer to');
+    return margins.map(margin => ({
+      variables: margin.variables,
+      targets: Object.fromEntries(
+        Object.entries(margin.targets)
+          .filter(([, value]) => value.trim() !== '')
+          .map(([key, value]) => [key, entry === 'percent' ? (Number(value) / 100) * population : Number(value)])
+      )
+    }));
+  };
+
+  const handleRake = () => {
+    try {
+      setResult(rakeWeights(data, {
+        name,
+        baseWeight: baseWeight !== NONE ? baseWeight : undefined,
+        margins: toMargins(),
+        maxIterations: Number(maxIterations),
+        tolerance: Number(tolerance),
+        minCellSize: Number(minCellSize) || DEFAULT_MIN_CELL_SIZE
+      }));
+    } catch (error) {
+      setResult(null);
+      toast({
+        title: "Raking failed",
+        description: error instanceof Error ? error.message : "The weights could not be computed.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = () => {
+    if (!result) return;
+    try {
+      onDataChange(saveWeights(data, { ...result, spec: { ...result.spec, name } }));
+      toast({
+        title: "Weight saved",
+        description: `${name.trim()} can now be chosen as the weight variable of estimates.`,
+      });
+      setResult(null);
+    } catch (error) {
+      toast({
+        title: "Weight not saved",
+        description: error instanceof Error ? error.message : "The weight variable could not be added.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-blue-800">
+          <Scale className="h-5 w-5" />
+          Weighting
+        </CardTitle>
+        <CardDescription className="text-blue-600">
+          Rake base weights to population totals for several margins, such as age × sex, region and education, and save the calibrated weight as a new variable
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {records.length > 0 && (
+          <div className="space-y-2">
+            {records.map(record => (
+              <div key={record.name} className="flex items-center justify-between gap-2 p-2 border rounded text-sm">
+                <div className="min-w-0">
+                  <span className="font-medium">{record.name}</span>
+                  <span className="text-muted-foreground">
+                    {` · ${describeRecord(record)}`}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {record.method === 'raking' && (
+                    <Badge variant={record.converged ? 'secondary' : 'destructive'}>
+                      {record.converged ? `Converged in ${record.iterations} iterations` : 'Not converged'}
+                    </Badge>
+                  )}
+                  {record.method === 'trimming' && <Badge variant="secondary">{record.trimmed} weights trimmed</Badge>}
+                  <Button variant="ghost" size="sm" onClick={() => onDataChange(removeWeights(data, record.name))}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="weight-name">New weight variable</Label>
+            <Input id="weight-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>Base weight</Label>
+            <Select value={baseWeight} onValueChange={(value) => { setBaseWeight(value); setResult(null); }}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>None (every respondent starts at 1)</SelectItem>
+                {numericVariables.map(variable => (
+                  <SelectItem key={variable.name} value={variable.name}>{variable.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Population totals entered as</Label>
+            <Select value={entry} onValueChange={(value) => { setEntry(value as TargetEntry); setResult(null); }}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="count">Counts</SelectItem>
+                <SelectItem value="percent">Percentages of a population total</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {entry === 'percent' && (
+            <div className="space-y-1">
+              <Label htmlFor="population-total">Population total</Label>
+              <Input
+                id="population-total"
+                type="number"
+                min={0}
+                value={populationTotal}
+                onChange={(e) => setPopulationTotal(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        {margins.map((margin, index) => {
+          const categories = marginCategories(data, margin.variables);
+          const typed = categories.reduce((sum, category) => sum + (Number(margin.targets[category.key]) || 0), 0);
+          return (
+            <div key={margin.variables.join(CROSS_SEPARATOR)} className="border rounded">
+              <div className="flex items-center justify-between gap-2 p-2 border-b bg-muted/30">
+                <span className="font-medium text-sm">{margin.variables.join(CROSS_SEPARATOR)}</span>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground">
+                    Total {formatNumber(typed)}{entry === 'percent' ? '%' : ''}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => { setMargins(margins.filter((_, i) => i !== index)); setResult(null); }}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="max-h-64 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Category</TableHead>
+                      <TableHead className="text-right">Respondents</TableHead>
+                      <TableHead className="w-40">{entry === 'percent' ? 'Population %' : 'Population total'}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {categories.map(category => (
+                      <TableRow key={category.key}>
+                        <TableCell>{category.label}</TableCell>
+                        <TableCell className="text-right">
+                          {category.respondents === 0
+                            ? <Badge variant="outline" className="text-xs">Empty</Badge>
+                            : category.respondents.toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            step="any"
+                            className="h-8"
+                            value={margin.targets[category.key] ?? ''}
+                            onChange={(e) => updateTarget(index, category.key, e.target.value)}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <Select value={marginVariable} onValueChange={setMarginVariable}>
+            <SelectTrigger>
+              <SelectValue placeholder="Margin variable" />
+            </SelectTrigger>
+            <SelectContent>
+              {categoricalVariables.map(variable => (
+                <SelectItem key={variable.name} value={variable.name}>{variable.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={crossVariable} onValueChange={setCrossVariable}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Not crossed</SelectItem>
+              {categoricalVariables.filter(variable => variable.name !== marginVariable).map(variable => (
+                <SelectItem key={variable.name} value={variable.name}>× {variable.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={handleAddMargin} disabled={!marginVariable}>
+            Add Margin
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="max-iterations" className="shrink-0">Max iterations</Label>
+            <Input id="max-iterations" type="number" min={1} value={maxIterations} onChange={(e) => setMaxIterations(e.target.value)} />
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="tolerance" className="shrink-0">Tolerance</Label>
+            <Input id="tolerance" type="number" step="any" min={0} value={tolerance} onChange={(e) => setTolerance(e.target.value)} />
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="min-cell" className="shrink-0">Collapse cells under</Label>
+            <Input id="min-cell" type="number" min={1} value={minCellSize} onChange={(e) => setMinCellSize(e.target.value)} />
+          </div>
+        </div>
+
+        <Button onClick={handleRake} disabled={margins.length === 0} className="w-full">
+          <Scale className="h-4 w-4 mr-1" />
+          Rake Weights
+        </Button>
+
+        {result && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant={result.converged ? 'secondary' : 'destructive'}>
+                {result.converged
+                  ? `Converged in ${result.iterations} iterations`
+                  : `Not converged after ${result.iterations} iterations`}
+              </Badge>
+              <Badge variant="outline">Largest gap {(result.maxGap * 100).toPrecision(2)}%</Badge>
+              <Badge variant="outline">
+                Weights {formatNumber(result.summary.min)} to {formatNumber(result.summary.max)}
+              </Badge>
+              <Badge variant="outline">Design effect {formatNumber(result.summary.designEffect)}</Badge>
+              <Badge variant="outline">Effective n {formatNumber(result.summary.effectiveSampleSize, 0)}</Badge>
+            </div>
+
+            {result.warnings.map((warning, index) => (
+              <p key={index} className="text-sm text-amber-700">{warning}</p>
+            ))}
+
+            {result.margins.map(margin => (
+              <div key={margin.variables.join(CROSS_SEPARATOR)} className="border rounded">
+                <div className="p-2 border-b bg-muted/30 text-sm font-medium">{margin.variables.join(CROSS_SEPARATOR)}</div>
+                {margin.collapsed.length > 0 && (
+                  <p className="px-2 pt-2 text-xs text-muted-foreground">
+                    Collapsed: {margin.collapsed.map(cell => `${cell.category} (${cell.respondents}) into ${cell.into}`).join('; ')}
+                  </p>
+                )}
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Cell</TableHead>
+                      <TableHead className="text-right">Respondents</TableHead>
+                      <TableHead className="text-right">Target</TableHead>
+                      <TableHead className="text-right">Weighted</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {margin.cells.map(cell => (
+                      <TableRow key={cell.keys.join()}>
+                        <TableCell>{cell.label}</TableCell>
+                        <TableCell className="text-right">{cell.respondents.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{formatNumber(cell.target)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(cell.achieved)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ))}
+
+            <Button onClick={handleSave} className="w-full">
+              Save as {name.trim() || 'weight variable'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
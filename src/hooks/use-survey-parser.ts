@@ -0,0 +1,89 @@
+import * as React from "react"
+
+import type {
+  ParserCommand,
+  ParserResponse,
+  ParserResults,
+} from "@/lib/survey/parser-protocol"
+
+export interface ParseProgress {
+  progress: number
+  stage: string
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+  onProgress?: (progress: ParseProgress) => void
+}
+
+/**
+ * Runs survey file parsing in a dedicated Web Worker. The worker is created
+ * on first use and terminated when the component unmounts.
+ */
+export function useSurveyParser() {
+  const workerRef = React.useRef<Worker | null>(null)
+  const pendingRef = React.useRef(new Map<number, PendingRequest>())
+  const nextIdRef = React.useRef(1)
+
+  React.useEffect(() => {
+    const pending = pendingRef.current
+    return () => {
+      workerRef.current?.terminate()
+      workerRef.current = null
+      pending.forEach(request => request.reject(new Error("Parsing was cancelled")))
+      pending.clear()
+    }
+  }, [])
+
+  const getWorker = React.useCallback(() => {
+    if (workerRef.current) return workerRef.current
+
+    const worker = new Worker(new URL("../lib/survey/parse.worker.ts", import.meta.url), {
+      type: "module",
+    })
+    worker.onmessage = (event: MessageEvent<ParserResponse>) => {
+      const message = event.data
+      const request = pendingRef.current.get(message.id)
+      if (!request) return
+
+      if (message.type === "progress") {
+        request.onProgress?.({ progress: message.progress, stage: message.stage })
+        return
+      }
+
+      pendingRef.current.delete(message.id)
+      if (message.type === "result") request.resolve(message.result)
+      else request.reject(new Error(message.message))
+    }
+    worker.onerror = (event) => {
+      pendingRef.current.forEach(request => request.reject(new Error(event.message || "Parser worker failed")))
+      pendingRef.current.clear()
+      worker.terminate()
+      workerRef.current = null
+    }
+
+    workerRef.current = worker
+    return worker
+  }, [])
+
+  const run = React.useCallback(
+    <T extends ParserCommand>(
+      command: T,
+      onProgress?: (progress: ParseProgress) => void
+    ): Promise<ParserResults[T["type"]]> => {
+      const id = nextIdRef.current++
+      return new Promise((resolve, reject) => {
+        pendingRef.current.set(id, {
+          resolve: resolve as (result: unknown) => void,
+          reject,
+          onProgress,
+        })
+        getWorker().postMessage({ ...command, id })
+      })
+    },
+    [getWorker]
+  )
+
+  return { run }
+}
@@ -0,0 +1,296 @@
+import {
+  applyMissingSchema,
+  buildSurveyDataFromColumns,
+  formatCellValue,
+  isMissingCell,
+  metadataOf
+} from './dataset';
+import { EMPTY_MISSING_SCHEMA, normalizeMissingCode } from './missing';
+import type {
+  CellValue,
+  MissingCodeRule,
+  MissingValueSchema,
+  ProcessedSurveyData,
+  SurveyVariable,
+  VariableMetadata
+} from './types';
+
+/**
+ * Dataset assembly: combining several imported files into the single
+ * dataset the rest of the wizard works on, either by appending waves with
+ * the same questions or by joining linked files on key columns.
+ */
+
+export const SOURCE_COLUMN = 'source_file';
+
+/** A column present in some of the appended files but not all of them. */
+export interface PartialColumn {
+  name: string;
+  missingFrom: string[];
+}
+
+export interface AppendReport {
+  files: Array<{ name: string; rows: number }>;
+  totalRows: number;
+  partialColumns: PartialColumn[];
+  /** Columns whose inferred type differs between files; they are re-profiled on the combined values. */
+  typeConflicts: Array<{ name: string; types: string[] }>;
+}
+
+export type JoinRelationship = 'one-to-one' | 'one-to-many';
+
+export type JoinType = 'left' | 'inner' | 'full';
+
+export interface MergeOptions {
+  leftKeys: string[];
+  rightKeys: string[];
+  relationship: JoinRelationship;
+  join: JoinType;
+}
+
+export interface MergeReport {
+  leftRows: number;
+  rightRows: number;
+  resultRows: number;
+  matchedKeys: number;
+  /** Keys of the first file with no rows in the second, and vice versa. */
+  unmatchedLeft: string[];
+  unmatchedRight: string[];
+  /** Keys that repeat on a side the relationship requires to be unique. */
+  duplicateLeft: string[];
+  duplicateRight: string[];
+  /** Rows skipped for matching because a key column is empty. */
+  missingKeyLeft: number;
+  missingKeyRight: number;
+}
+
+const datasetName = (data: ProcessedSurveyData) =>
+  data.sheetName ? `${data.fileName} (${data.sheetName})` : data.fileName;
+
+const columnKey = (name: string) => name.trim().toLowerCase();
+
+const mergeRules = (rules: MissingCodeRule[], extra: MissingCodeRule[]) => {
+  const byCode = new Map(rules.map(rule => [normalizeMissingCode(rule.code), rule]));
+  extra.forEach(rule => {
+    if (!byCode.has(normalizeMissingCode(rule.code))) byCode.set(normalizeMissingCode(rule.code), rule);
+  });
+  return [...byCode.values()];
+};
+
+const mergeSchemas = (schemas: Array<MissingValueSchema | undefined>): MissingValueSchema | undefined => {
+  const present = schemas.filter((schema): schema is MissingValueSchema => schema !== undefined);
+  if (present.length === 0) return undefined;
+  return present.reduce<MissingValueSchema>(
+    (merged, schema) => {
+      const variables = { ...merged.variables };
+      Object.entries(schema.variables).forEach(([name, rules]) => {
+        variables[name] = mergeRules(variables[name] ?? [], rules);
+      });
+      return { global: mergeRules(merged.global, schema.global), variables };
+    },
+    EMPTY_MISSING_SCHEMA
+  );
+};
+
+/** Metadata for a combined column: the first file's, with value labels pooled from all files. */
+const combineMetadata = (variables: SurveyVariable[]): VariableMetadata => {
+  const [first, ...rest] = variables;
+  const metadata = metadataOf(first);
+  rest.forEach(variable => {
+    metadata.label ??= variable.label;
+    metadata.question ??= variable.question;
+    if (variable.valueLabels) metadata.valueLabels = { ...variable.valueLabels, ...metadata.valueLabels };
+  });
+  return metadata;
+};
+
+const finish = (
+  fileName: string,
+  headers: string[],
+  columns: CellValue[][],
+  metadata: VariableMetadata[],
+  schema: MissingValueSchema | undefined
+): ProcessedSurveyData => {
+  const data = buildSurveyDataFromColumns(fileName, headers, columns, undefined, metadata);
+  return schema ? applyMissingSchema(data, schema) : data;
+};
+
+/**
+ * Stacks the rows of several files. Columns are matched by name without
+ * regard to case or surrounding spaces; a file lacking a column contributes
+ * empty cells. A `source_file` column records which file each row came from.
+ */
+export const appendDatasets = (
+  datasets: ProcessedSurveyData[],
+  includeSource = true
+): { data: ProcessedSurveyData; report: AppendReport } => {
+  if (datasets.length < 2) throw new Error('Select at least two files to append');
+
+  const order: string[] = [];
+  const byKey = new Map<string, { name: string; variables: Array<SurveyVariable | undefined> }>();
+  datasets.forEach((data, fileIndex) => {
+    data.variables.forEach(variable => {
+      // Names differing only in case within one file stay separate columns
+      let key = columnKey(variable.name);
+      while (byKey.get(key)?.variables[fileIndex]) key = `${key}\u0000`;
+      let column = byKey.get(key);
+      if (!column) {
+        column = { name: variable.name, variables: new Array(datasets.length).fill(undefined) };
+        byKey.set(key, column);
+        order.push(key);
+      }
+      column.variables[fileIndex] = variable;
+    });
+  });
+
+  const columns = order.map(key => byKey.get(key)!);
+  const headers = columns.map(column => column.name);
+  const values = columns.map(column =>
+    datasets.flatMap((data, fileIndex) =>
+      column.variables[fileIndex]?.values ?? new Array<CellValue>(data.totalRows).fill(null)
+    )
+  );
+  const metadata = columns.map(column =>
+    combineMetadata(column.variables.filter((variable): variable is SurveyVariable => variable !== undefined))
+  );
+
+  if (includeSource) {
+    headers.push(SOURCE_COLUMN);
+    values.push(datasets.flatMap(data => new Array<CellValue>(data.totalRows).fill(datasetName(data))));
+    metadata.push({ label: 'Source file' });
+  }
+
+  const report: AppendReport = {
+    files: datasets.map(data => ({ name: datasetName(data), rows: data.totalRows })),
+    totalRows: datasets.reduce((sum, data) => sum + data.totalRows, 0),
+    partialColumns: columns
+      .filter(column => column.variables.some(variable => !variable))
+      .map(column => ({
+        name: column.name,
+        missingFrom: datasets.filter((_, index) => !column.variables[index]).map(datasetName)
+      })),
+    typeConflicts: columns
+      .map(column => ({
+        name: column.name,
+        types: [...new Set(column.variables.flatMap(variable => (variable ? [variable.type] : [])))]
+      }))
+      .filter(column => column.types.length > 1)
+  };
+
+  const fileName = `${datasets[0].fileName} + ${datasets.length - 1} more`;
+  const schema = mergeSchemas(datasets.map(data => data.missingSchema));
+  return { data: finish(fileName, headers, values, metadata, schema), report };
+};
+
+const KEY_SEPARATOR = ' | ';
+
+/** Composite key text for each row, or `null` when any key cell is empty. */
+const rowKeys = (data: ProcessedSurveyData, keyNames: string[]): Array<string | null> => {
+  const keyColumns = keyNames.map(name => {
+    const variable = data.variables.find(candidate => candidate.name === name);
+    if (!variable) throw new Error(`Key column "${name}" was not found in ${datasetName(data)}`);
+    return variable.values;
+  });
+  return Array.from({ length: data.totalRows }, (_, row) => {
+    const parts = keyColumns.map(values => values[row]);
+    if (parts.some(value => isMissingCell(value))) return null;
+    return parts.map(value => formatCellValue(value).trim()).join(KEY_SEPARATOR);
+  });
+};
+
+const indexRows = (keys: Array<string | null>) => {
+  const rows = new Map<string, number[]>();
+  keys.forEach((key, row) => {
+    if (key === null) return;
+    const list = rows.get(key);
+    if (list) list.push(row);
+    else rows.set(key, [row]);
+  });
+  return rows;
+};
+
+const duplicatesOf = (rows: Map<string, number[]>) =>
+  [...rows].filter(([, list]) => list.length > 1).map(([key]) => key);
+
+/**
+ * Joins two files on key columns. The first file is the "one" side of a
+ * one-to-many join (e.g. households), and each of its rows is repeated for
+ * every matching row of the second file (e.g. persons). The report lists
+ * unmatched keys and any duplicates that break the declared relationship,
+ * which callers should resolve before using the result.
+ */
+export const mergeDatasets = (
+  left: ProcessedSurveyData,
+  right: ProcessedSurveyData,
+  options: MergeOptions
+): { data: ProcessedSurveyData; report: MergeReport } => {
+  const { leftKeys, rightKeys, relationship, join } = options;
+  if (leftKeys.length === 0 || leftKeys.length !== rightKeys.length) {
+    throw new Error('Choose the same number of key columns in both files');
+  }
+
+  const leftRowKeys = rowKeys(left, leftKeys);
+  const rightRowKeys = rowKeys(right, rightKeys);
+  const leftIndex = indexRows(leftRowKeys);
+  const rightIndex = indexRows(rightRowKeys);
+
+  // Pairs of [left row, right row]; -1 marks the side with no match
+  const pairs: Array<[number, number]> = [];
+  leftRowKeys.forEach((key, leftRow) => {
+    const matches = key === null ? undefined : rightIndex.get(key);
+    if (matches) {
+      matches.forEach(rightRow => pairs.push([leftRow, rightRow]));
+    } else if (join !== 'inner') {
+      pairs.push([leftRow, -1]);
+    }
+  });
+  if (join === 'full') {
+    rightRowKeys.forEach((key, rightRow) => {
+      if (key === null || !leftIndex.has(key)) pairs.push([-1, rightRow]);
+    });
+  }
+
+  const rightKeySet = new Set(rightKeys);
+  const rightVariables = right.variables.filter(variable => !rightKeySet.has(variable.name));
+  const rightKeyFor = new Map(
+    leftKeys.map((name, index) => [name, right.variables.find(variable => variable.name === rightKeys[index])!])
+  );
+
+  const leftColumns = left.variables.map(variable => {
+    // Rows only in the second file take their key values from its key columns
+    const fallback = rightKeyFor.get(variable.name);
+    return pairs.map(([leftRow, rightRow]) =>
+      leftRow >= 0 ? variable.values[leftRow] : fallback ? fallback.values[rightRow] : null
+    );
+  });
+  const rightColumns = rightVariables.map(variable =>
+    pairs.map(([, rightRow]) => (rightRow >= 0 ? variable.values[rightRow] : null))
+  );
+
+  const matched = [...leftIndex.keys()].filter(key => rightIndex.has(key));
+  const report: MergeReport = {
+    leftRows: left.totalRows,
+    rightRows: right.totalRows,
+    resultRows: pairs.length,
+    matchedKeys: matched.length,
+    unmatchedLeft: [...leftIndex.keys()].filter(key => !rightIndex.has(key)),
+    unmatchedRight: [...rightIndex.keys()].filter(key => !leftIndex.has(key)),
+    duplicateLeft: duplicatesOf(leftIndex),
+    duplicateRight: relationship === 'one-to-one' ? duplicatesOf(rightIndex) : [],
+    missingKeyLeft: leftRowKeys.filter(key => key === null).length,
+    missingKeyRight: rightRowKeys.filter(key => key === null).length
+  };
+
+  const data = finish(
+    `${left.fileName} ⋈ ${right.fileName}`,
+    [...left.variables, ...rightVariables].map(variable => variable.name),
+    [...leftColumns, ...rightColumns],
+    [...left.variables, ...rightVariables].map(metadataOf),
+    mergeSchemas([left.missingSchema, right.missingSchema])
+  );
+  return { data, report };
+};
+
+/** True when the merge can be used as is: no key breaks the declared relationship. */
+export const isMergeValid = (report: MergeReport) =>
+  report.duplicateLeft.length === 0 && report.duplicateRight.length === 0;
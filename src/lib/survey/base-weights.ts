@@ -0,0 +1,282 @@
+import { formatCellValue, missingCategoryOf } from './dataset';
+import { formatCsvRow } from './csv';
+import { designMatrix } from './imputation';
+import { dot, logisticRegression } from './matrix';
+import { CROSS_SEPARATOR, storeWeights, summarizeWeights, type WeightSummary } from './weighting';
+import type { BaseWeightSpec, CellValue, NonresponseMethod, ProcessedSurveyData, ResponseStatus, SurveyVariable } from './types';
+
+/**
+ * Base weights built from a sample file rather than delivered with it:
+ * the inverse of each case's inclusion probability over the selection
+ * stages, an adjustment moving the weight of cases with unknown
+ * eligibility onto cases whose eligibility is known, and a nonresponse
+ * adjustment moving the weight of eligible nonrespondents onto respondents.
+ * Every step's weights are kept so the construction can be audited.
+ */
+
+export const RESPONSE_STATUS_LABELS: Record<ResponseStatus, string> = {
+  respondent: 'Respondent',
+  nonrespondent: 'Eligible nonrespondent',
+  ineligible: 'Ineligible',
+  unknown: 'Eligibility unknown'
+};
+
+export const NONRESPONSE_METHOD_LABELS: Record<NonresponseMethod, string> = {
+  classes: 'Weighting classes',
+  propensity: 'Response propensity model'
+};
+
+export const DEFAULT_PROPENSITY_CLASSES = 5;
+
+/** Adjustment factors above this are flagged, since they inflate the variance. */
+const LARGE_FACTOR = 3;
+
+const STATUSES = Object.keys(RESPONSE_STATUS_LABELS) as ResponseStatus[];
+
+export interface WeightStep {
+  label: string;
+  /** One weight per row; null for rows left out of the construction. */
+  weights: Array<number | null>;
+  /** Weight total of each response status after the step. */
+  totals: Record<ResponseStatus, number>;
+  /** Summary of the respondents' weights after the step. */
+  respondents: WeightSummary;
+  /** Adjustment factor of each class the step worked in. */
+  factors: Array<{ cell: string; cases: number; factor: number }>;
+}
+
+export interface BaseWeightResult {
+  spec: BaseWeightSpec;
+  /** Response status of each row; null for rows excluded from the estimates. */
+  status: Array<ResponseStatus | null>;
+  steps: WeightStep[];
+  /** Final weights: the respondents' adjusted weights, null for everyone else. */
+  weights: Array<number | null>;
+  warnings: string[];
+}
+
+const findVariable = (data: ProcessedSurveyData, name: string) => {
+  const variable = data.variables.find(candidate => candidate.name === name);
+  if (!variable) throw new Error(`Variable "${name}" was not found`);
+  return variable;
+};
+
+const numericValue = (value: CellValue): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+const includedRows = (data: ProcessedSurveyData) => {
+  const excluded = new Set(data.excludedRows ?? []);
+  return Array.from({ length: data.totalRows }, (_, row) => row).filter(row => !excluded.has(row));
+};
+
+/** Class of each row from crossed class variables; throws when a row has no answer to one. */
+const classesOf = (data: ProcessedSurveyData, names: string[], rows: number[], purpose: string) => {
+  const variables = names.map(name => findVariable(data, name));
+  const keys = new Map<number, string>();
+  let missing = 0;
+  rows.forEach(row => {
+    const parts: string[] = [];
+    for (const variable of variables) {
+      const value = variable.values[row];
+      if (missingCategoryOf(value, variable) !== null) {
+        missing++;
+        return;
+      }
+      parts.push(formatCellValue(value));
+    }
+    keys.set(row, parts.length > 0 ? parts.join(CROSS_SEPARATOR) : 'All cases');
+  });
+  if (missing > 0) throw new Error(`${missing} cases have no answer to the ${purpose} classes ${names.join(CROSS_SEPARATOR)}`);
+  return keys;
+};
+
+/** Status of each included row from the status codes; throws when a category has no status. */
+const readStatus = (data: ProcessedSurveyData, spec: BaseWeightSpec, rows: number[]) => {
+  const variable = findVariable(data, spec.statusVariable);
+  const unassigned = new Map<string, number>();
+  const status = new Array<ResponseStatus | null>(data.totalRows).fill(null);
+  let missing = 0;
+  rows.forEach(row => {
+    const value = variable.values[row];
+    if (missingCategoryOf(value, variable) !== null) {
+      missing++;
+      return;
+    }
+    const key = formatCellValue(value);
+    const assigned = spec.statusCodes[key];
+    if (assigned) status[row] = assigned;
+    else unassigned.set(key, (unassigned.get(key) ?? 0) + 1);
+  });
+  if (missing > 0) throw new Error(`${missing} cases have no ${spec.statusVariable}; every sampled case needs a response status`);
+  if (unassigned.size > 0) {
+    throw new Error(`Assign a response status to ${[...unassigned].map(([key, count]) => `${key} (${count} cases)`).join(', ')}`);
+  }
+  if (!rows.some(row => status[row] === 'respondent')) throw new Error('No case has the respondent status');
+  return status;
+};
+
+/** Inverse of the product of the stage selection probabilities; throws on values outside (0, 1]. */
+const baseWeightOf = (stages: SurveyVariable[], row: number): number => {
+  let probability = 1;
+  for (const stage of stages) {
+    const value = stage.values[row];
+    const p = missingCategoryOf(value, stage) === null ? numericValue(value) : NaN;
+    if (!(p > 0 && p <= 1)) {
+      throw new Error(`${stage.name} must be a selection probability above 0 and at most 1; row ${row + 1} has ${formatCellValue(value) || 'no value'}`);
+    }
+    probability *= p;
+  }
+  return 1 / probability;
+};
+
+/**
+ * Moves the weight of the giving cases onto the receiving cases of the same
+ * class, so each class keeps its weight total. Throws when a class has
+ * weight to give but no case to receive it.
+ */
+const redistribute = (
+  weights: Float64Array,
+  rows: number[],
+  classOf: (row: number) => string,
+  gives: (row: number) => boolean,
+  receives: (row: number) => boolean,
+  describe: string
+): WeightStep['factors'] => {
+  const totals = new Map<string, { all: number; receiving: number; cases: number }>();
+  rows.forEach(row => {
+    if (!gives(row) && !receives(row)) return;
+    const cell = classOf(row);
+    const entry = totals.get(cell) ?? { all: 0, receiving: 0, cases: 0 };
+    entry.all += weights[row];
+    if (receives(row)) {
+      entry.receiving += weights[row];
+      entry.cases++;
+    }
+    totals.set(cell, entry);
+  });
+  const factors = new Map<string, number>();
+  totals.forEach((entry, cell) => {
+    if (entry.receiving <= 0) throw new Error(`Class ${cell} has ${describe} but no cases to carry their weight; use coarser classes`);
+    factors.set(cell, entry.all / entry.receiving);
+  });
+  rows.forEach(row => {
+    if (receives(row)) weights[row] *= factors.get(classOf(row))!;
+    else if (gives(row)) weights[row] = 0;
+  });
+  return [...totals]
+    .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+    .map(([cell, entry]) => ({ cell, cases: entry.cases, factor: factors.get(cell)! }));
+};
+
+/**
+ * Builds the weights step by step. Rows excluded from the estimates are
+ * left out. Throws with a readable message when a step cannot be done,
+ * e.g. a probability is out of range or a class has no respondents.
+ */
+export const constructBaseWeights = (data: ProcessedSurveyData, spec: BaseWeightSpec): BaseWeightResult => {
+  if (spec.stageProbabilities.length === 0) throw new Error('Choose the selection probability of at least one stage');
+  const rows = includedRows(data);
+  const status = readStatus(data, spec, rows);
+  const warnings: string[] = [];
+  const steps: WeightStep[] = [];
+  const weights = new Float64Array(data.totalRows);
+
+  const record = (label: string, factors: WeightStep['factors']) => {
+    const totals = Object.fromEntries(STATUSES.map(key => [key, 0])) as Record<ResponseStatus, number>;
+    rows.forEach(row => { totals[status[row]!] += weights[row]; });
+    const placed = new Set(rows);
+    steps.push({
+      label,
+      weights: Array.from({ length: data.totalRows }, (_, row) => (placed.has(row) ? weights[row] : null)),
+      totals,
+      respondents: summarizeWeights(rows.filter(row => status[row] === 'respondent').map(row => weights[row])),
+      factors
+    });
+    const large = factors.filter(entry => entry.factor > LARGE_FACTOR);
+    if (large.length > 0) {
+      warnings.push(`${label}: ${large.map(entry => `${entry.cell} (×${entry.factor.toFixed(2)})`).join(', ')} ha${large.length === 1 ? 's a' : 've'} large adjustment factor${large.length === 1 ? '' : 's'}; consider coarser classes`);
+    }
+  };
+
+  const stages = spec.stageProbabilities.map(name => findVariable(data, name));
+  rows.forEach(row => { weights[row] = baseWeightOf(stages, row); });
+  record('Base weight (inverse inclusion probability)', []);
+
+  // Cases of unknown eligibility are assumed eligible at the rate of known cases in their class
+  const unknown = rows.filter(row => status[row] === 'unknown').length;
+  if (unknown > 0) {
+    const classes = classesOf(data, spec.eligibilityClasses, rows, 'eligibility');
+    record('Eligibility-unknown adjustment', redistribute(
+      weights, rows, row => classes.get(row)!,
+      row => status[row] === 'unknown',
+      row => status[row] !== 'unknown',
+      'cases of unknown eligibility'
+    ));
+  }
+
+  const eligible = rows.filter(row => status[row] === 'respondent' || status[row] === 'nonrespondent');
+  const isRespondent = (row: number) => status[row] === 'respondent';
+  const isNonrespondent = (row: number) => status[row] === 'nonrespondent';
+  if (spec.nonresponseMethod === 'classes') {
+    const classes = classesOf(data, spec.nonresponseClasses, eligible, 'nonresponse');
+    record('Nonresponse adjustment (weighting classes)', redistribute(
+      weights, eligible, row => classes.get(row)!, isNonrespondent, isRespondent, 'eligible nonrespondents'
+    ));
+  } else {
+    if (spec.propensityPredictors.length === 0) throw new Error('Choose at least one predictor of response');
+    const design = designMatrix(data, spec.propensityPredictors);
+    const x = eligible.map(design);
+    const coefficients = logisticRegression(x, eligible.map(row => (isRespondent(row) ? 1 : 0)), eligible.map(row => weights[row]));
+    const propensity = new Map(eligible.map((row, i) => [row, 1 / (1 + Math.exp(-dot(x[i], coefficients)))]));
+    const smallest = eligible.filter(isRespondent).reduce((low, row) => Math.min(low, propensity.get(row)!), Infinity);
+    if (smallest < 0.05) {
+      warnings.push(`Some respondents have a response propensity of ${smallest.toFixed(3)}; their weights grow by up to ×${(1 / smallest).toFixed(1)}`);
+    }
+
+    if (spec.propensityClasses > 0) {
+      // Classes of equal size by propensity, adjusted like weighting classes
+      const ordered = [...eligible].sort((a, b) => propensity.get(a)! - propensity.get(b)!);
+      const classOf = new Map(ordered.map((row, i) => [
+        row,
+        `Propensity class ${Math.floor((i * spec.propensityClasses) / ordered.length) + 1}`
+      ]));
+      record(`Nonresponse adjustment (${spec.propensityClasses} propensity classes)`, redistribute(
+        weights, eligible, row => classOf.get(row)!, isNonrespondent, isRespondent, 'eligible nonrespondents'
+      ));
+    } else {
+      // Each respondent's own factor is its inverse propensity, so there are no class factors to list
+      eligible.forEach(row => {
+        weights[row] = isRespondent(row) ? weights[row] / propensity.get(row)! : 0;
+      });
+      record('Nonresponse adjustment (inverse response propensity)', []);
+    }
+  }
+
+  const final = steps[steps.length - 1].weights.map((weight, row) => (status[row] === 'respondent' ? weight : null));
+  return { spec, status, steps, weights: final, warnings };
+};
+
+/** The weight of every case at every step as CSV, for auditing. */
+export const baseWeightAudit = (data: ProcessedSurveyData, result: BaseWeightResult): string => {
+  const stages = result.spec.stageProbabilities.map(name => findVariable(data, name));
+  const header = formatCsvRow(['Row', 'Status', ...stages.map(stage => stage.name), ...result.steps.map(step => step.label), 'Final weight']);
+  const lines = includedRows(data).map(row => formatCsvRow([
+    row + 1,
+    RESPONSE_STATUS_LABELS[result.status[row]!],
+    ...stages.map(stage => formatCellValue(stage.values[row])),
+    ...result.steps.map(step => step.weights[row]),
+    result.weights[row]
+  ]));
+  return [header, ...lines].join('\n');
+};
+
+/** Returns a copy of the dataset with the final weights saved as a numeric variable. */
+export const saveBaseWeights = (data: ProcessedSurveyData, result: BaseWeightResult): ProcessedSurveyData =>
+  storeWeights(data, result.weights, {
+    ...result.spec,
+    method: 'construction',
+    createdAt: new Date().toISOString()
+  }, `Base weight (${result.spec.stageProbabilities.join(' × ')}, ${NONRESPONSE_METHOD_LABELS[result.spec.nonresponseMethod].toLowerCase()})`);
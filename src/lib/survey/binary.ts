@@ -0,0 +1,111 @@
+/**
+ * Sequential reader over an ArrayBuffer, shared by the SPSS and Stata
+ * parsers. Byte order can be switched once it has been detected from the
+ * file header.
+ */
+export interface BinaryReader {
+  offset: number;
+  littleEndian: boolean;
+  readonly length: number;
+  skip: (bytes: number) => void;
+  bytes: (count: number) => Uint8Array;
+  uint8: () => number;
+  int8: () => number;
+  uint16: () => number;
+  int16: () => number;
+  uint32: () => number;
+  int32: () => number;
+  uint64: () => number;
+  float32: () => number;
+  float64: () => number;
+  /** Reads a fixed-width text field, cut at the first NUL and right-trimmed. */
+  text: (count: number, decoder: TextDecoder) => string;
+  /** Consumes an exact ASCII tag such as `<header>`, failing otherwise. */
+  expect: (tag: string) => void;
+}
+
+export const createBinaryReader = (buffer: ArrayBuffer, littleEndian = true): BinaryReader => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  const reader: BinaryReader = {
+    offset: 0,
+    littleEndian,
+    length: buffer.byteLength,
+    skip: count => {
+      reader.offset += count;
+    },
+    bytes: count => {
+      if (reader.offset + count > bytes.length) {
+        throw new Error('Unexpected end of file');
+      }
+      const slice = bytes.subarray(reader.offset, reader.offset + count);
+      reader.offset += count;
+      return slice;
+    },
+    uint8: () => view.getUint8(reader.offset++),
+    int8: () => view.getInt8(reader.offset++),
+    uint16: () => {
+      const value = view.getUint16(reader.offset, reader.littleEndian);
+      reader.offset += 2;
+      return value;
+    },
+    int16: () => {
+      const value = view.getInt16(reader.offset, reader.littleEndian);
+      reader.offset += 2;
+      return value;
+    },
+    uint32: () => {
+      const value = view.getUint32(reader.offset, reader.littleEndian);
+      reader.offset += 4;
+      return value;
+    },
+    int32: () => {
+      const value = view.getInt32(reader.offset, reader.littleEndian);
+      reader.offset += 4;
+      return value;
+    },
+    uint64: () => {
+      const low = view.getUint32(reader.offset + (reader.littleEndian ? 0 : 4), reader.littleEndian);
+      const high = view.getUint32(reader.offset + (reader.littleEndian ? 4 : 0), reader.littleEndian);
+      reader.offset += 8;
+      return high * 2 ** 32 + low;
+    },
+    float32: () => {
+      const value = view.getFloat32(reader.offset, reader.littleEndian);
+      reader.offset += 4;
+      return value;
+    },
+    float64: () => {
+      const value = view.getFloat64(reader.offset, reader.littleEndian);
+      reader.offset += 8;
+      return value;
+    },
+    text: (count, decoder) => decodeText(reader.bytes(count), decoder),
+    expect: tag => {
+      const actual = String.fromCharCode(...reader.bytes(tag.length));
+      if (actual !== tag) {
+        throw new Error(`Malformed file: expected ${tag} at byte ${reader.offset - tag.length}`);
+      }
+    }
+  };
+
+  return reader;
+};
+
+export const decodeText = (raw: Uint8Array, decoder: TextDecoder): string => {
+  const nul = raw.indexOf(0);
+  return decoder.decode(nul === -1 ? raw : raw.subarray(0, nul)).replace(/\s+$/, '');
+};
+
+/** Creates a decoder for a declared encoding, falling back to Windows-1252. */
+export const createDecoder = (encoding: string | undefined): TextDecoder => {
+  if (encoding) {
+    try {
+      return new TextDecoder(encoding);
+    } catch {
+      // Unknown label: fall through to the legacy default
+    }
+  }
+  return new TextDecoder('windows-1252');
+};
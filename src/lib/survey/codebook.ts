@@ -0,0 +1,382 @@
+import { formatCsvRow } from './csv';
+import { applyMissingSchema, formatCellValue, setVariableType } from './dataset';
+import { deriveVariable } from './derive';
+import { EMPTY_MISSING_SCHEMA, normalizeMissingCode } from './missing';
+import type {
+  CellValue,
+  MissingCodeRule,
+  MissingValueSchema,
+  ProcessedSurveyData,
+  VariableType
+} from './types';
+
+/**
+ * A data dictionary entry describing one variable. Codebooks can be
+ * uploaded as JSON, or as CSV/XLSX with one row per variable (value labels
+ * written as `1=Agree; 2=Disagree`) or one row per value label. XLSForm
+ * questionnaires are read into the same entries (see `xlsform.ts`).
+ * Derived variables carry the expression they are computed from.
+ */
+export interface CodebookEntry {
+  name: string;
+  label?: string;
+  type?: VariableType;
+  question?: string;
+  valueLabels?: Record<string, string>;
+  missingCodes?: MissingCodeRule[];
+  levels?: string[];
+  responseDelimiter?: string;
+  relevant?: string;
+  constraint?: string;
+  expression?: string;
+}
+
+const TYPE_ALIASES: Record<string, VariableType> = {
+  numeric: 'numeric',
+  number: 'numeric',
+  scale: 'numeric',
+  continuous: 'numeric',
+  integer: 'numeric',
+  decimal: 'numeric',
+  categorical: 'categorical',
+  nominal: 'categorical',
+  single: 'categorical',
+  select_one: 'categorical',
+  ordinal: 'ordinal',
+  likert: 'ordinal',
+  boolean: 'boolean',
+  binary: 'boolean',
+  'yes/no': 'boolean',
+  date: 'date',
+  datetime: 'datetime',
+  timestamp: 'datetime',
+  identifier: 'identifier',
+  id: 'identifier',
+  text: 'text',
+  'open text': 'text',
+  open: 'text',
+  'multi-response': 'multi-response',
+  multi: 'multi-response',
+  multiple: 'multi-response',
+  select_multiple: 'multi-response'
+};
+
+const CATEGORY_ALIASES: Record<string, MissingCodeRule['category']> = {
+  refused: 'refused',
+  refusal: 'refused',
+  'dont-know': 'dont-know',
+  "don't know": 'dont-know',
+  'dont know': 'dont-know',
+  dk: 'dont-know',
+  'not-applicable': 'not-applicable',
+  'not applicable': 'not-applicable',
+  na: 'not-applicable',
+  'n/a': 'not-applicable',
+  other: 'other'
+};
+
+/** Codebook column names accepted for each field, compared without case, spaces or underscores. */
+const COLUMN_ALIASES: Record<string, string[]> = {
+  name: ['name', 'variable', 'variablename', 'column', 'field'],
+  label: ['label', 'variablelabel', 'description'],
+  type: ['type', 'variabletype', 'measure'],
+  question: ['question', 'questiontext', 'wording'],
+  valueLabels: ['valuelabels', 'values', 'codes'],
+  missingCodes: ['missing', 'missingcodes', 'missingvalues'],
+  levels: ['levels', 'order', 'levelorder'],
+  relevant: ['relevant', 'relevance', 'skiplogic'],
+  constraint: ['constraint', 'validation'],
+  expression: ['expression', 'formula', 'compute', 'calculation'],
+  value: ['value', 'code'],
+  valueLabel: ['valuelabel', 'codelabel']
+};
+
+const normalizeColumn = (header: string) => header.toLowerCase().replace(/[\s_-]+/g, '');
+
+const parseType = (text: string | undefined): VariableType | undefined =>
+  text ? TYPE_ALIASES[text.trim().toLowerCase()] : undefined;
+
+/** Splits `1=Agree; 2=Disagree` (also `|` or line separated, `:` as assignment) into pairs. */
+const parsePairs = (text: string): Array<[string, string]> =>
+  text
+    .split(/[;|\n]/)
+    .map(part => part.trim())
+    .filter(part => part !== '')
+    .map(part => {
+      const match = part.match(/^(.+?)\s*[=:]\s*(.*)$/);
+      return match ? [match[1].trim(), match[2].trim()] : [part, ''];
+    });
+
+const parseMissingCodes = (text: string): MissingCodeRule[] =>
+  parsePairs(text).map(([code, category]) => ({
+    code,
+    category: CATEGORY_ALIASES[category.toLowerCase()] ?? 'other'
+  }));
+
+const cleanEntry = (entry: CodebookEntry): CodebookEntry => {
+  const result: CodebookEntry = { name: entry.name };
+  if (entry.label) result.label = entry.label;
+  if (entry.type) result.type = entry.type;
+  if (entry.question) result.question = entry.question;
+  if (entry.valueLabels && Object.keys(entry.valueLabels).length > 0) result.valueLabels = entry.valueLabels;
+  if (entry.missingCodes?.length) result.missingCodes = entry.missingCodes;
+  if (entry.levels?.length) result.levels = entry.levels;
+  if (entry.responseDelimiter) result.responseDelimiter = entry.responseDelimiter;
+  if (entry.relevant) result.relevant = entry.relevant;
+  if (entry.constraint) result.constraint = entry.constraint;
+  if (entry.expression) result.expression = entry.expression;
+  return result;
+};
+
+const asText = (value: unknown): string | undefined =>
+  value === null || value === undefined || value === '' ? undefined : String(value);
+
+/** Reads a JSON codebook: an array of entries, or an object with a `variables` array. */
+export const parseCodebookJson = (text: string): CodebookEntry[] => {
+  const parsed: unknown = JSON.parse(text);
+  const list = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { variables?: unknown })?.variables;
+  if (!Array.isArray(list)) {
+    throw new Error('A JSON codebook must be an array of variables or have a "variables" array');
+  }
+
+  return list.map((raw: Record<string, unknown>, index) => {
+    const name = asText(raw.name ?? raw.variable);
+    if (!name) throw new Error(`Codebook entry ${index + 1} has no variable name`);
+
+    let valueLabels: Record<string, string> | undefined;
+    if (Array.isArray(raw.valueLabels)) {
+      valueLabels = {};
+      (raw.valueLabels as Array<{ value: unknown; label: unknown }>).forEach(({ value, label }) => {
+        valueLabels![String(value)] = String(label ?? '');
+      });
+    } else if (raw.valueLabels && typeof raw.valueLabels === 'object') {
+      valueLabels = Object.fromEntries(
+        Object.entries(raw.valueLabels as Record<string, unknown>).map(([code, label]) => [code, String(label)])
+      );
+    } else if (typeof raw.valueLabels === 'string') {
+      valueLabels = Object.fromEntries(parsePairs(raw.valueLabels));
+    }
+
+    const rawMissing = raw.missingCodes ?? raw.missing;
+    const missingCodes = Array.isArray(rawMissing)
+      ? rawMissing.map(item =>
+          item && typeof item === 'object'
+            ? {
+                code: String((item as { code: unknown }).code),
+                category: CATEGORY_ALIASES[String((item as { category?: unknown }).category ?? '').toLowerCase()] ?? 'other'
+              }
+            : { code: String(item), category: 'other' as const }
+        )
+      : typeof rawMissing === 'string'
+        ? parseMissingCodes(rawMissing)
+        : undefined;
+
+    return cleanEntry({
+      name,
+      label: asText(raw.label),
+      type: parseType(asText(raw.type)),
+      question: asText(raw.question),
+      valueLabels,
+      missingCodes,
+      levels: Array.isArray(raw.levels) ? raw.levels.map(String) : undefined,
+      responseDelimiter: typeof raw.responseDelimiter === 'string' ? raw.responseDelimiter : undefined,
+      relevant: asText(raw.relevant),
+      constraint: asText(raw.constraint),
+      expression: asText(raw.expression)
+    });
+  });
+};
+
+/**
+ * Reads a tabular codebook (CSV or a worksheet) whose first row holds the
+ * column names. Rows repeating a variable name add to its value labels, so
+ * both one-row-per-variable and one-row-per-code layouts work.
+ */
+export const parseCodebookRows = (rows: CellValue[][]): CodebookEntry[] => {
+  const [header, ...body] = rows;
+  if (!header) throw new Error('The codebook is empty');
+
+  const columns = header.map(cell => normalizeColumn(formatCellValue(cell)));
+  const indexOf = (field: keyof typeof COLUMN_ALIASES) =>
+    columns.findIndex(column => COLUMN_ALIASES[field].includes(column));
+  const index = Object.fromEntries(
+    Object.keys(COLUMN_ALIASES).map(field => [field, indexOf(field)])
+  ) as Record<keyof typeof COLUMN_ALIASES, number>;
+
+  if (index.name === -1) {
+    throw new Error('The codebook needs a "name" or "variable" column');
+  }
+
+  const cell = (row: CellValue[], column: number) =>
+    column === -1 ? undefined : asText(formatCellValue(row[column]).trim());
+
+  const entries = new Map<string, CodebookEntry>();
+  body.forEach(row => {
+    const name = cell(row, index.name);
+    if (!name) return;
+
+    const entry = entries.get(name) ?? { name };
+    entry.label ??= cell(row, index.label);
+    entry.type ??= parseType(cell(row, index.type));
+    entry.question ??= cell(row, index.question);
+    entry.relevant ??= cell(row, index.relevant);
+    entry.constraint ??= cell(row, index.constraint);
+    entry.expression ??= cell(row, index.expression);
+
+    const valueLabels = cell(row, index.valueLabels);
+    const value = cell(row, index.value);
+    if (valueLabels || value !== undefined) {
+      entry.valueLabels = { ...entry.valueLabels };
+      if (valueLabels) Object.assign(entry.valueLabels, Object.fromEntries(parsePairs(valueLabels)));
+      if (value !== undefined) entry.valueLabels[value] = cell(row, index.valueLabel) ?? '';
+    }
+
+    const missing = cell(row, index.missingCodes);
+    if (missing) entry.missingCodes = [...(entry.missingCodes ?? []), ...parseMissingCodes(missing)];
+
+    const levels = cell(row, index.levels);
+    if (levels) entry.levels = levels.split(/[;|]/).map(level => level.trim()).filter(Boolean);
+
+    entries.set(name, entry);
+  });
+
+  return [...entries.values()].map(cleanEntry);
+};
+
+export interface CodebookResult {
+  data: ProcessedSurveyData;
+  matched: number;
+  /** Codebook variables with no column of the same name in the data. */
+  unmatched: string[];
+}
+
+/**
+ * Applies codebook entries to the dataset, matching variable names without
+ * regard to case, or by the last segment of a `group/question` column name
+ * as KoBo and ODK export them. Labels and question text are copied, types
+ * re-profile the variable, and missing codes become per-variable schema rules.
+ * Entries with an expression and no matching column are derived variables:
+ * they are computed once the rest of the codebook has been applied.
+ */
+export const applyCodebook = (data: ProcessedSurveyData, entries: CodebookEntry[]): CodebookResult => {
+  const byName = new Map(data.variables.map(variable => [variable.name.toLowerCase(), variable.name]));
+  const bySegment = new Map<string, string | null>();
+  data.variables.forEach(variable => {
+    const segment = variable.name.split('/').pop()!.toLowerCase();
+    if (segment !== variable.name.toLowerCase()) {
+      bySegment.set(segment, bySegment.has(segment) ? null : variable.name);
+    }
+  });
+  const unmatched: string[] = [];
+  const derived: CodebookEntry[] = [];
+  let matched = 0;
+  let result = data;
+  const schema: MissingValueSchema = {
+    global: [...(data.missingSchema ?? EMPTY_MISSING_SCHEMA).global],
+    variables: { ...(data.missingSchema ?? EMPTY_MISSING_SCHEMA).variables }
+  };
+
+  entries.forEach(entry => {
+    const name = byName.get(entry.name.toLowerCase()) ?? bySegment.get(entry.name.toLowerCase());
+    if (!name) {
+      if (entry.expression) derived.push(entry);
+      else unmatched.push(entry.name);
+      return;
+    }
+    matched++;
+
+    result = {
+      ...result,
+      variables: result.variables.map(variable =>
+        variable.name === name
+          ? {
+              ...variable,
+              label: entry.label ?? variable.label,
+              question: entry.question ?? variable.question,
+              valueLabels: entry.valueLabels ?? variable.valueLabels,
+              relevant: entry.relevant ?? variable.relevant,
+              constraint: entry.constraint ?? variable.constraint
+            }
+          : variable
+      )
+    };
+
+    if (entry.type || entry.levels) {
+      const current = result.variables.find(variable => variable.name === name)!;
+      const type = entry.type ?? (entry.levels ? 'ordinal' : current.type);
+      result = setVariableType(result, name, type, {
+        levels: entry.levels,
+        responseDelimiter: entry.responseDelimiter
+      });
+    }
+
+    if (entry.missingCodes?.length) {
+      const existing = schema.variables[name] ?? [];
+      const codes = new Set(entry.missingCodes.map(rule => normalizeMissingCode(rule.code)));
+      schema.variables[name] = [
+        ...existing.filter(rule => !codes.has(normalizeMissingCode(rule.code))),
+        ...entry.missingCodes
+      ];
+    }
+  });
+
+  result = applyMissingSchema(result, schema);
+  if (derived.length === 0) return { data: result, matched, unmatched };
+
+  // Derived entries may refer to each other, so they are computed in codebook order
+  const computed: CodebookEntry[] = [];
+  derived.forEach(entry => {
+    try {
+      result = deriveVariable(result, { name: entry.name, expression: entry.expression!, label: entry.label });
+      computed.push({ ...entry, expression: undefined });
+    } catch {
+      unmatched.push(entry.name);
+    }
+  });
+  const rest = applyCodebook(result, computed);
+  return { data: rest.data, matched: matched + rest.matched, unmatched };
+};
+
+/** The dictionary as currently inferred and edited, one entry per variable. */
+export const exportCodebook = (data: ProcessedSurveyData): CodebookEntry[] =>
+  data.variables.map(variable =>
+    cleanEntry({
+      name: variable.name,
+      label: variable.label,
+      type: variable.type,
+      question: variable.question,
+      valueLabels: variable.valueLabels,
+      missingCodes: [
+        ...(variable.missingCodes ?? []).map(code => ({ code: String(code), category: 'other' as const })),
+        ...(variable.missingCodeRules ?? [])
+      ],
+      levels: variable.levels,
+      responseDelimiter: variable.type === 'multi-response' ? variable.responseDelimiter : undefined,
+      relevant: variable.relevant,
+      constraint: variable.constraint,
+      expression: variable.expression
+    })
+  );
+
+const formatPairs = (pairs: Array<[string, string]>) => pairs.map(([key, value]) => `${key}=${value}`).join('; ');
+
+export const codebookToCsv = (entries: CodebookEntry[]): string =>
+  [
+    formatCsvRow(['name', 'label', 'type', 'question', 'value_labels', 'missing_codes', 'levels', 'relevant', 'constraint', 'expression']),
+    ...entries.map(entry =>
+      formatCsvRow([
+        entry.name,
+        entry.label,
+        entry.type,
+        entry.question,
+        formatPairs(Object.entries(entry.valueLabels ?? {})),
+        formatPairs((entry.missingCodes ?? []).map(rule => [rule.code, rule.category])),
+        entry.levels?.join('; '),
+        entry.relevant,
+        entry.constraint,
+        entry.expression
+      ])
+    )
+  ].join('\n');
@@ -0,0 +1,234 @@
+/**
+ * Incremental CSV tokenizer. Text can be pushed in arbitrary chunks (for
+ * example straight from a file stream); complete records are handed to
+ * `onRow` as soon as their terminating newline is seen. Quoted fields may
+ * span chunk boundaries and contain delimiters, escaped quotes and newlines.
+ */
+export interface CsvParser {
+  push: (chunk: string) => void;
+  end: () => void;
+}
+
+/** Field separators considered when sniffing a file's dialect. */
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+
+/** An empty quote character disables quoting altogether. */
+export const CSV_QUOTES = ['"', "'", ''] as const;
+
+export const CSV_ENCODINGS = [
+  'utf-8',
+  'windows-1252',
+  'iso-8859-15',
+  'iso-8859-2',
+  'utf-16le',
+  'utf-16be',
+  'macintosh'
+] as const;
+
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+export type CsvQuote = (typeof CSV_QUOTES)[number];
+export type CsvEncoding = (typeof CSV_ENCODINGS)[number];
+
+export interface CsvDialect {
+  delimiter: CsvDelimiter;
+  quote: CsvQuote;
+  encoding: CsvEncoding;
+}
+
+export const createCsvParser = (
+  onRow: (fields: string[]) => void,
+  { delimiter = ',', quote = '"' }: Partial<Pick<CsvDialect, 'delimiter' | 'quote'>> = {}
+): CsvParser => {
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Whether the current field was quoted; quoted fields keep their whitespace.
+  let quoted = false;
+  // A quote seen inside a quoted field: either an escaped quote or the closing one.
+  let pendingQuote = false;
+  let lastWasCarriageReturn = false;
+  let started = false;
+
+  const endField = () => {
+    fields.push(quoted ? field : field.trim());
+    field = '';
+    quoted = false;
+  };
+
+  const endRow = () => {
+    endField();
+    onRow(fields);
+    fields = [];
+  };
+
+  const push = (chunk: string) => {
+    let text = chunk;
+    if (!started) {
+      text = text.replace(/^\uFEFF/, '');
+      started = text.length > 0;
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === quote) {
+          field += quote;
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === quote) pendingQuote = true;
+        else field += char;
+        continue;
+      }
+
+      if (char === '\n' && lastWasCarriageReturn) {
+        lastWasCarriageReturn = false;
+        continue;
+      }
+      lastWasCarriageReturn = char === '\r';
+
+      // A quote opens a quoted field only at its start; inside an unquoted
+      // value such as 12" pipe it is an ordinary character
+      if (quote !== '' && char === quote && !quoted && field.trim() === '') {
+        inQuotes = true;
+        quoted = true;
+        field = '';
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\n' || char === '\r') {
+        endRow();
+      } else if (!quoted || char.trim() !== '') {
+        // Whitespace between a closing quote and the delimiter is padding
+        field += char;
+      }
+    }
+  };
+
+  const end = () => {
+    if (fields.length > 0 || field.length > 0 || quoted) {
+      endRow();
+    }
+    inQuotes = false;
+    quoted = false;
+    pendingQuote = false;
+  };
+
+  return { push, end };
+};
+
+export const parseCsv = (
+  text: string,
+  dialect: Partial<Pick<CsvDialect, 'delimiter' | 'quote'>> = {}
+): string[][] => {
+  const rows: string[][] = [];
+  const parser = createCsvParser(fields => rows.push(fields), dialect);
+  parser.push(text);
+  parser.end();
+  return rows;
+};
+
+/** Formats one CSV record, quoting fields that contain delimiters, quotes or line breaks. */
+export const formatCsvRow = (fields: Array<string | number | null | undefined>): string =>
+  fields
+    .map(field => {
+      const text = field === null || field === undefined ? '' : String(field);
+      return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(',');
+
+/**
+ * Guesses the encoding of the first bytes of a file: a byte order mark wins,
+ * then strict UTF-8, then Windows-1252 which can decode any byte sequence.
+ */
+export const detectEncoding = (sample: Uint8Array): CsvEncoding => {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) return 'utf-8';
+  if (sample[0] === 0xff && sample[1] === 0xfe) return 'utf-16le';
+  if (sample[0] === 0xfe && sample[1] === 0xff) return 'utf-16be';
+
+  try {
+    // Streaming mode tolerates a multi-byte character cut off by the sample end
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+const SNIFF_ROWS = 50;
+
+/**
+ * Picks the quote character that most often wraps whole fields, i.e. appears
+ * right after a delimiter or line start and right before one or a line end.
+ */
+const sniffQuote = (sample: string): CsvQuote => {
+  let best: CsvQuote = '"';
+  let bestCount = 0;
+  for (const quote of ['"', "'"] as const) {
+    const pattern = new RegExp(`(^|[,;\t|])${quote}[^${quote}\r\n]*${quote}(?=[,;\t|]|\r?$)`, 'gm');
+    const count = sample.match(pattern)?.length ?? 0;
+    if (count > bestCount) {
+      best = quote;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+/**
+ * Picks the delimiter that splits the sample rows into the most consistent
+ * number of fields, preferring more fields when consistency ties.
+ */
+const sniffDelimiter = (sample: string, quote: CsvQuote): CsvDelimiter => {
+  // Drop the last line: the sample may end in the middle of a record
+  const lastBreak = Math.max(sample.lastIndexOf('\n'), sample.lastIndexOf('\r'));
+  const text = lastBreak > 0 ? sample.slice(0, lastBreak) : sample;
+
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const rows = parseCsv(text, { delimiter, quote })
+      .filter(row => row.some(field => field !== ''))
+      .slice(0, SNIFF_ROWS);
+    if (rows.length === 0) continue;
+
+    const counts = new Map<number, number>();
+    rows.forEach(row => counts.set(row.length, (counts.get(row.length) ?? 0) + 1));
+    const [fieldCount, frequency] = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+    if (fieldCount < 2) continue;
+
+    const score = (frequency / rows.length) * 100 + Math.min(fieldCount, 99) / 100;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Detects the dialect of a CSV file from its first bytes. Any field given in
+ * `override` is used as-is and the remaining ones are sniffed around it.
+ */
+export const sniffCsvDialect = (
+  sample: Uint8Array,
+  override: Partial<CsvDialect> = {}
+): { dialect: CsvDialect; detected: CsvDialect; text: string } => {
+  const detectedEncoding = detectEncoding(sample);
+  const encoding = override.encoding ?? detectedEncoding;
+  const text = new TextDecoder(encoding).decode(sample, { stream: true }).replace(/^\uFEFF/, '');
+
+  const detectedQuote = sniffQuote(text);
+  const quote = override.quote ?? detectedQuote;
+  const detectedDelimiter = sniffDelimiter(text, quote);
+
+  return {
+    dialect: { delimiter: override.delimiter ?? detectedDelimiter, quote, encoding },
+    detected: { delimiter: detectedDelimiter, quote: detectedQuote, encoding: detectedEncoding },
+    text
+  };
+};
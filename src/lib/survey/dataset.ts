@@ -0,0 +1,564 @@
+import type {
+  AnalysisPayload,
+  CellValue,
+  ImputationRecord,
+  MissingCategory,
+  MissingValueSchema,
+  ProcessedSurveyData,
+  SerializedCellValue,
+  SurveyVariable,
+  TransformationRecord,
+  VariableMetadata,
+  VariableType,
+  VariableTypeDetails
+} from './types';
+import {
+  ISO_DATE,
+  RESPONSE_DELIMITERS,
+  looksLikeIdentifierName,
+  matchLikertScale,
+  parseBooleanCell
+} from './variable-types';
+import { emptyMissingBreakdown, normalizeMissingCode, rulesForVariable } from './missing';
+
+export const isMissingCell = (value: CellValue | undefined): boolean =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+const matchMissingRule = (value: CellValue, metadata: VariableMetadata) => {
+  if (!metadata.missingCodeRules?.length) return undefined;
+  const text = normalizeMissingCode(formatCellValue(value));
+  return metadata.missingCodeRules.find(rule => normalizeMissingCode(rule.code) === text);
+};
+
+/**
+ * True when a cell holds one of the variable's user-missing codes, whether
+ * declared by the data file or configured in the missing-value schema.
+ */
+export const isDeclaredMissing = (value: CellValue | undefined, metadata: VariableMetadata): boolean => {
+  if (value === null || value === undefined || value instanceof Date) return false;
+  if (metadata.missingCodes?.some(code => code === value || String(code) === String(value))) {
+    return true;
+  }
+  if (metadata.missingRange && typeof value === 'number') {
+    return value >= metadata.missingRange.low && value <= metadata.missingRange.high;
+  }
+  return matchMissingRule(value, metadata) !== undefined;
+};
+
+/** Why a cell is missing, or `null` when it holds a valid value. */
+export const missingCategoryOf = (
+  value: CellValue | undefined,
+  metadata: VariableMetadata
+): MissingCategory | null => {
+  if (value === undefined || isMissingCell(value)) return 'system';
+  const rule = matchMissingRule(value, metadata);
+  if (rule) return rule.category;
+  return isDeclaredMissing(value, metadata) ? 'other' : null;
+};
+
+/** Display text for a cell, using the variable's value label when it has one. */
+export const formatLabelledValue = (value: CellValue | undefined, metadata?: VariableMetadata): string => {
+  const text = formatCellValue(value);
+  return metadata?.valueLabels?.[text] ?? text;
+};
+
+/** Display name for a variable: its label when it has one, otherwise the column name. */
+export const formatVariableName = (name: string, metadata?: VariableMetadata): string =>
+  metadata?.label?.trim() || name;
+
+const toNumber = (value: CellValue): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return Number(value);
+  return NaN;
+};
+
+const uniqueKey = (value: CellValue): string =>
+  value instanceof Date ? value.toISOString() : String(value);
+
+/**
+ * Makes header names usable as row keys: blank headers get a positional
+ * name and duplicates get a numeric suffix.
+ */
+export const normalizeHeaders = (headers: CellValue[]): string[] => {
+  const seen = new Map<string, number>();
+  return headers.map((header, index) => {
+    const base = isMissingCell(header) ? `Column ${index + 1}` : formatCellValue(header).trim();
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count + 1}`;
+  });
+};
+
+export const formatCellValue = (value: CellValue | undefined): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.replace('T', ' ').slice(0, 19);
+  }
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value);
+};
+
+/** Formatted observed categories, in order of first appearance. */
+const distinctCategories = (present: CellValue[]): string[] => [
+  ...new Set(present.map(value => formatCellValue(value)))
+];
+
+const compareCategories = (a: string, b: string): number => {
+  const numberA = Number(a);
+  const numberB = Number(b);
+  if (!isNaN(numberA) && !isNaN(numberB)) return numberA - numberB;
+  return a.localeCompare(b);
+};
+
+/**
+ * Default level order for an ordinal variable: a recognised response scale,
+ * else labelled codes followed by any unlabelled ones, in code order.
+ */
+const defaultLevels = (present: CellValue[], metadata: VariableMetadata): string[] => {
+  const observed = distinctCategories(present);
+  const scale = matchLikertScale(observed);
+  if (scale) return scale;
+
+  const labelled = Object.keys(metadata.valueLabels ?? {}).filter(
+    code => !isDeclaredMissing(code, metadata)
+  );
+  return [...new Set([...labelled, ...observed])].sort(compareCategories);
+};
+
+/**
+ * Finds the separator of multi-select answers such as "Email; Phone". The
+ * options behind it must repeat across respondents, which rules out
+ * free-text answers that merely contain commas.
+ */
+const detectResponseDelimiter = (present: CellValue[]): string | undefined => {
+  const strings = present.filter((value): value is string => typeof value === 'string');
+  if (strings.length < present.length * 0.9 || strings.length === 0) return undefined;
+
+  return RESPONSE_DELIMITERS.find(delimiter => {
+    const withDelimiter = strings.filter(value => value.includes(delimiter)).length;
+    if (withDelimiter < strings.length * 0.2) return false;
+
+    const options = strings.flatMap(value =>
+      value.split(delimiter).map(option => option.trim()).filter(option => option !== '')
+    );
+    const distinct = new Set(options).size;
+    return distinct <= 30 && distinct * 2 <= options.length;
+  });
+};
+
+const isTimeOfDaySet = (value: Date) =>
+  value.getUTCHours() !== 0 || value.getUTCMinutes() !== 0 || value.getUTCSeconds() !== 0;
+
+/**
+ * Chooses a variable type and its type-specific details. A declared
+ * measurement level wins; otherwise the observed values are tested from the
+ * most to the least specific type, ending with categorical.
+ */
+const inferType = (
+  name: string,
+  present: CellValue[],
+  numericCount: number,
+  metadata: VariableMetadata
+): VariableTypeDetails & { type: VariableType } => {
+  if (metadata.measure === 'scale') return { type: 'numeric' };
+  if (metadata.measure === 'ordinal') return { type: 'ordinal', levels: defaultLevels(present, metadata) };
+  if (metadata.measure === 'nominal' || present.length === 0) return { type: 'categorical' };
+
+  const categories = distinctCategories(present);
+
+  const isBooleanLike = present.every(value => typeof value === 'boolean' || (
+    typeof value === 'string' && parseBooleanCell(value) !== null && isNaN(Number(value))
+  ));
+  if (isBooleanLike && categories.length <= 2) return { type: 'boolean' };
+
+  if (present.every(value => value instanceof Date || (typeof value === 'string' && ISO_DATE.test(value.trim())))) {
+    const hasTime = present.some(value =>
+      value instanceof Date ? isTimeOfDaySet(value) : /[ T]/.test(value as string)
+    );
+    return { type: hasTime ? 'datetime' : 'date' };
+  }
+
+  const labels = metadata.valueLabels;
+  if (labels && present.every(value => uniqueKey(value) in labels)) {
+    return { type: 'categorical' };
+  }
+
+  const allDistinct = categories.length === present.length && present.length >= 10;
+
+  if (numericCount > present.length * 0.5) {
+    const integers = present.every(value => Number.isInteger(toNumber(value)));
+    if (allDistinct && integers && looksLikeIdentifierName(name)) return { type: 'identifier' };
+    return { type: 'numeric' };
+  }
+
+  const scale = matchLikertScale(categories);
+  if (scale) return { type: 'ordinal', levels: scale };
+
+  const responseDelimiter = detectResponseDelimiter(present);
+  if (responseDelimiter) return { type: 'multi-response', responseDelimiter };
+
+  const texts = present.map(value => formatCellValue(value));
+  const averageLength = texts.reduce((sum, text) => sum + text.length, 0) / texts.length;
+  const mostlyDistinct = categories.length > present.length * 0.8 && present.length >= 10;
+  const wordy = texts.filter(text => /\s/.test(text.trim())).length > texts.length * 0.5;
+  if (present.length >= 5 && (averageLength >= 40 || (mostlyDistinct && wordy))) {
+    return { type: 'text' };
+  }
+
+  if (allDistinct && (looksLikeIdentifierName(name) || !wordy)) return { type: 'identifier' };
+
+  return { type: 'categorical' };
+};
+
+/** Type details to use when a variable is switched to `type` by hand. */
+const detailsForType = (
+  type: VariableType,
+  present: CellValue[],
+  metadata: VariableMetadata,
+  details: VariableTypeDetails
+): VariableTypeDetails => {
+  if (type === 'ordinal') {
+    return { levels: details.levels ?? defaultLevels(present, metadata) };
+  }
+  if (type === 'multi-response') {
+    return { responseDelimiter: details.responseDelimiter ?? detectResponseDelimiter(present) ?? ';' };
+  }
+  return {};
+};
+
+const describeVariable = (
+  name: string,
+  column: CellValue[],
+  metadata: VariableMetadata = {},
+  override?: VariableTypeDetails & { type: VariableType }
+): SurveyVariable => {
+  let missing = 0;
+  let numericCount = 0;
+  const missingBreakdown = emptyMissingBreakdown();
+  const present: CellValue[] = [];
+  const values = column.map(value => (isMissingCell(value) ? null : value));
+
+  values.forEach(value => {
+    const category = missingCategoryOf(value, metadata);
+    if (category) {
+      missing++;
+      missingBreakdown[category]++;
+    } else {
+      present.push(value);
+      if (!isNaN(toNumber(value))) numericCount++;
+    }
+  });
+
+  const { type, ...details } = override
+    ? { type: override.type, ...detailsForType(override.type, present, metadata, override) }
+    : inferType(name, present, numericCount, metadata);
+  const uniqueValues = new Set(present.map(uniqueKey)).size;
+
+  if (type === 'numeric') {
+    const numericValues = present.map(toNumber).filter(v => !isNaN(v));
+    let min = Infinity;
+    let max = -Infinity;
+    let sum = 0;
+    numericValues.forEach(v => {
+      sum += v;
+      if (v < min) min = v;
+      if (v > max) max = v;
+    });
+    return {
+      ...metadata,
+      name,
+      type,
+      values,
+      missing,
+      missingBreakdown,
+      uniqueValues,
+      mean: numericValues.length > 0 ? sum / numericValues.length : 0,
+      min: numericValues.length > 0 ? min : 0,
+      max: numericValues.length > 0 ? max : 0
+    };
+  }
+
+  return {
+    ...metadata,
+    ...details,
+    name,
+    type,
+    values,
+    missing,
+    missingBreakdown,
+    uniqueValues
+  };
+};
+
+/** The descriptive metadata of a variable, without its values or profile. */
+export const metadataOf = ({
+  label,
+  question,
+  valueLabels,
+  missingCodes,
+  missingRange,
+  measure,
+  missingCodeRules,
+  relevant,
+  constraint,
+  platformField,
+  expression
+}: SurveyVariable): VariableMetadata => ({
+  label,
+  question,
+  valueLabels,
+  missingCodes,
+  missingRange,
+  measure,
+  missingCodeRules,
+  relevant,
+  constraint,
+  platformField,
+  expression
+});
+
+/**
+ * Returns a copy of the dataset with one variable re-profiled as `type`,
+ * e.g. after the user corrects an inferred type. Omitted details (ordinal
+ * levels, response delimiter) are derived from the data.
+ */
+export const setVariableType = (
+  data: ProcessedSurveyData,
+  name: string,
+  type: VariableType,
+  details: VariableTypeDetails = {}
+): ProcessedSurveyData => ({
+  ...data,
+  variables: data.variables.map(variable =>
+    variable.name === name
+      ? describeVariable(name, variable.values, metadataOf(variable), { type, ...details })
+      : variable
+  )
+});
+
+/**
+ * Returns a copy of the dataset with `schema` applied: every variable is
+ * re-profiled with its missing-value codes while keeping its current type.
+ */
+export const applyMissingSchema = (
+  data: ProcessedSurveyData,
+  schema: MissingValueSchema
+): ProcessedSurveyData => {
+  const variables = data.variables.map(variable =>
+    describeVariable(
+      variable.name,
+      variable.values,
+      { ...metadataOf(variable), missingCodeRules: rulesForVariable(schema, variable.name) },
+      { type: variable.type, levels: variable.levels, responseDelimiter: variable.responseDelimiter }
+    )
+  );
+  return {
+    ...data,
+    missingSchema: schema,
+    missingValues: variables.reduce((sum, v) => sum + v.missing, 0),
+    variables
+  };
+};
+
+/** The first rows as records keyed by variable name, shown in previews. */
+export const buildSampleData = (variables: SurveyVariable[], totalRows: number) =>
+  Array.from({ length: Math.min(totalRows, 10) }, (_, row) => {
+    const record: Record<string, CellValue> = {};
+    variables.forEach(variable => {
+      record[variable.name] = variable.values[row] ?? '';
+    });
+    return record;
+  });
+
+/**
+ * Returns a copy of the dataset with the cells at `rows` of one variable set
+ * to `values`, re-profiled with its type and details kept.
+ */
+export const replaceCellValues = (
+  data: ProcessedSurveyData,
+  name: string,
+  rows: number[],
+  values: CellValue[]
+): ProcessedSurveyData => {
+  const variable = data.variables.find(candidate => candidate.name === name);
+  if (!variable) return data;
+  const next = [...variable.values];
+  rows.forEach((row, i) => {
+    next[row] = values[i];
+  });
+  const replaced = {
+    ...data,
+    variables: data.variables.map(candidate => (candidate === variable ? { ...candidate, values: next } : candidate))
+  };
+  const profiled = setVariableType(replaced, name, variable.type, {
+    levels: variable.levels,
+    responseDelimiter: variable.responseDelimiter
+  });
+  return {
+    ...profiled,
+    missingValues: profiled.variables.reduce((sum, v) => sum + v.missing, 0),
+    sampleData: buildSampleData(profiled.variables, profiled.totalRows)
+  };
+};
+
+/**
+ * Returns a copy of the dataset with a variable of `values` added at the
+ * end, or in place of the variable of the same name. Its type is inferred
+ * from the values.
+ */
+export const putVariable = (
+  data: ProcessedSurveyData,
+  name: string,
+  values: CellValue[],
+  metadata: VariableMetadata = {}
+): ProcessedSurveyData => {
+  const variable = describeVariable(name, values, metadata);
+  const exists = data.variables.some(candidate => candidate.name === name);
+  const variables = exists
+    ? data.variables.map(candidate => (candidate.name === name ? variable : candidate))
+    : [...data.variables, variable];
+  return {
+    ...data,
+    totalColumns: variables.length,
+    missingValues: variables.reduce((sum, v) => sum + v.missing, 0),
+    variables,
+    sampleData: buildSampleData(variables, data.totalRows)
+  };
+};
+
+/**
+ * Returns a copy of the dataset without the named variable, its imputation,
+ * its outlier treatments and any multi-response set built on it.
+ */
+export const removeVariable = (data: ProcessedSurveyData, name: string): ProcessedSurveyData => {
+  const variables = data.variables.filter(variable => variable.name !== name);
+  return {
+    ...data,
+    totalColumns: variables.length,
+    missingValues: variables.reduce((sum, v) => sum + v.missing, 0),
+    variables,
+    sampleData: buildSampleData(variables, data.totalRows),
+    multiResponseSets: data.multiResponseSets?.filter(set => !set.variables.includes(name)),
+    imputations: data.imputations?.filter(record => record.variable !== name),
+    transformations: data.transformations
+      ?.map(record => ({ ...record, changes: record.changes.filter(change => change.variable !== name) }))
+      .filter(record => record.changes.length > 0)
+  };
+};
+
+/**
+ * Builds the wizard's processed-data shape from column-major values: one
+ * array per header, all of the same length.
+ */
+export const buildSurveyDataFromColumns = (
+  fileName: string,
+  headerRow: CellValue[],
+  columns: CellValue[][],
+  sheetName?: string,
+  metadata: VariableMetadata[] = []
+): ProcessedSurveyData => {
+  const headers = normalizeHeaders(headerRow);
+  const totalRows = columns.reduce((max, column) => Math.max(max, column.length), 0);
+
+  const variables = headers.map((header, column) => {
+    const values = columns[column] || [];
+    while (values.length < totalRows) values.push(null);
+    return describeVariable(header, values, metadata[column]);
+  });
+
+  return {
+    fileName,
+    sheetName,
+    totalRows,
+    totalColumns: headers.length,
+    missingValues: variables.reduce((sum, v) => sum + v.missing, 0),
+    variables,
+    sampleData: buildSampleData(variables, totalRows)
+  };
+};
+
+/**
+ * Builds the wizard's processed-data shape from a header row and the data
+ * rows beneath it. Completely empty rows are dropped.
+ */
+export const buildSurveyData = (
+  fileName: string,
+  headerRow: CellValue[],
+  rows: CellValue[][],
+  sheetName?: string
+): ProcessedSurveyData => {
+  const dataRows = rows.filter(row => row.some(value => !isMissingCell(value)));
+  const columns = headerRow.map((_, column) => dataRows.map(row => row[column] ?? null));
+  return buildSurveyDataFromColumns(fileName, headerRow, columns, sheetName);
+};
+
+const serializeCell = (value: CellValue): SerializedCellValue =>
+  value instanceof Date ? value.toISOString() : value;
+
+const serializeVariable = (
+  variable: SurveyVariable,
+  imputation?: ImputationRecord,
+  transformations: TransformationRecord[] = []
+): AnalysisPayload['variables'][number] => {
+  // Coded missing values travel as stored, tagged with the reason they stand for
+  const missingCategories: Record<string, MissingCategory> = {};
+  if (variable.missing > variable.missingBreakdown.system) {
+    variable.values.forEach(value => {
+      const category = missingCategoryOf(value, variable);
+      if (category && category !== 'system') missingCategories[formatCellValue(value)] = category;
+    });
+  }
+  const treatments = transformations.flatMap(record =>
+    record.changes
+      .filter(change => change.variable === variable.name)
+      .map(change => ({
+        method: record.method,
+        treatment: record.treatment,
+        rows: change.rows,
+        original: change.original.map(serializeCell)
+      }))
+  );
+  return {
+    name: variable.name,
+    type: variable.type,
+    values: variable.values.map(serializeCell),
+    missing: variable.missing,
+    missingCategories: Object.keys(missingCategories).length > 0 ? missingCategories : undefined,
+    label: variable.label,
+    valueLabels: variable.valueLabels,
+    levels: variable.levels,
+    responseDelimiter: variable.responseDelimiter,
+    imputation: imputation && {
+      method: imputation.method,
+      rows: imputation.rows,
+      original: imputation.original.map(serializeCell),
+      draws: imputation.draws?.map(draw => draw.map(serializeCell))
+    },
+    transformations: treatments.length > 0 ? treatments : undefined
+  };
+};
+
+/**
+ * Converts the in-memory dataset into the columnar JSON body expected by the
+ * analyze-survey edge function. Every variable carries all of its rows.
+ */
+export const toAnalysisPayload = (data: ProcessedSurveyData): AnalysisPayload => ({
+  fileName: data.fileName,
+  totalRows: data.totalRows,
+  variables: data.variables.map(variable =>
+    serializeVariable(
+      variable,
+      data.imputations?.find(record => record.variable === variable.name),
+      data.transformations
+    )
+  ),
+  excludedRows: data.excludedRows,
+  sampleData: data.sampleData.map(row => {
+    const record: Record<string, SerializedCellValue> = {};
+    Object.entries(row).forEach(([key, value]) => {
+      record[key] = serializeCell(value);
+    });
+    return record;
+  })
+});
@@ -0,0 +1,106 @@
+import { putVariable, removeVariable } from './dataset';
+import { compileExpression } from './expression';
+import type { ProcessedSurveyData } from './types';
+
+/**
+ * Derived variables: new columns computed from an expression over the
+ * existing ones (see `expression.ts`). The expression is kept with the
+ * variable, so the definition can be shown, edited and exported with the
+ * codebook; the computed values are stored like uploaded data.
+ */
+
+export interface DerivedVariableSpec {
+  name: string;
+  expression: string;
+  label?: string;
+}
+
+/** Whether a variable was computed from an expression rather than uploaded. */
+export const isDerived = (data: ProcessedSurveyData, name: string) =>
+  data.variables.some(variable => variable.name === name && variable.expression !== undefined);
+
+/**
+ * Returns a copy of the dataset with the derived variable added, or
+ * recomputed in place when a derived variable of that name exists.
+ */
+export const deriveVariable = (data: ProcessedSurveyData, spec: DerivedVariableSpec): ProcessedSurveyData => {
+  const name = spec.name.trim();
+  if (!name) throw new Error('Give the new variable a name');
+  const existing = data.variables.find(variable => variable.name === name);
+  if (existing && existing.expression === undefined) {
+    throw new Error(`"${name}" is an uploaded variable; choose another name`);
+  }
+  if (data.multiResponseSets?.some(set => set.name === name && set.layout === 'dummy')) {
+    throw new Error(`"${name}" is the name of a multi-response set; choose another name`);
+  }
+
+  const compiled = compileExpression(spec.expression, data);
+  if (compiled.references.includes(name)) throw new Error(`"${name}" cannot be computed from itself`);
+  const values = Array.from({ length: data.totalRows }, (_, row) => compiled.evaluate(row));
+
+  return putVariable(data, name, values, {
+    label: spec.label?.trim() || undefined,
+    expression: spec.expression.trim()
+  });
+};
+
+/** Returns a copy of the dataset without a derived variable. */
+export const removeDerivedVariable = (data: ProcessedSurveyData, name: string): ProcessedSurveyData => {
+  if (!isDerived(data, name)) throw new Error(`"${name}" is not a derived variable`);
+  const dependent = data.variables.find(variable =>
+    variable.expression !== undefined && variable.name !== name &&
+    compileExpression(variable.expression, data).references.includes(name)
+  );
+  if (dependent) throw new Error(`"${dependent.name}" is computed from "${name}"; remove it first`);
+  return removeVariable(data, name);
+};
+
+const PLAIN_NAME = /^[A-Za-z_][\w.]*$/;
+const RESERVED_WORDS = ['and', 'or', 'not', 'true', 'false', 'missing'];
+
+/** How to write a variable name in an expression: bare when it can be, otherwise in brackets. */
+export const formatVariableReference = (name: string) =>
+  PLAIN_NAME.test(name) && !RESERVED_WORDS.includes(name.toLowerCase()) ? name : `[${name}]`;
+
+const formatLiteral = (value: string) => {
+  const text = value.trim();
+  if (text !== '' && !isNaN(Number(text))) return String(Number(text));
+  return JSON.stringify(text);
+};
+
+export interface RecodeRule {
+  /** Values to match: a list such as `1, 2`, or a range such as `18..34`, `65..` or `..17`. */
+  from: string;
+  to: string;
+}
+
+/** What unmatched values become: unchanged, or missing. */
+export type RecodeFallback = 'copy' | 'missing';
+
+const matchCondition = (reference: string, from: string) => {
+  const range = from.match(/^\s*(-?[\d.]*)\s*\.\.\s*(-?[\d.]*)\s*$/);
+  if (range && (range[1] || range[2])) {
+    const [, low, high] = range;
+    if (low && high) return `inrange(${reference}, ${Number(low)}, ${Number(high)})`;
+    return low ? `${reference} >= ${Number(low)}` : `${reference} <= ${Number(high)}`;
+  }
+  const values = from.split(',').map(value => value.trim()).filter(Boolean);
+  if (values.length === 0) throw new Error('Each recode rule needs the values it matches');
+  return values.length === 1
+    ? `${reference} = ${formatLiteral(values[0])}`
+    : `in(${reference}, ${values.map(formatLiteral).join(', ')})`;
+};
+
+/**
+ * Writes a value-mapping recode as an expression, e.g. age bands from age
+ * or collapsed categories, so it is computed and stored like any other
+ * derived variable.
+ */
+export const buildRecodeExpression = (source: string, rules: RecodeRule[], fallback: RecodeFallback) => {
+  const reference = formatVariableReference(source);
+  const branches = rules
+    .filter(rule => rule.from.trim() !== '')
+    .flatMap(rule => [matchCondition(reference, rule.from), formatLiteral(rule.to)]);
+  if (branches.length === 0) throw new Error('Add at least one recode rule');
+  return `case(${[...branches, fallback === 'copy' ? reference : 'missing'].join(', ')})`;
+};
@@ -0,0 +1,562 @@
+import { formatCellValue, missingCategoryOf } from './dataset';
+import { parseBooleanCell } from './variable-types';
+import type { CellValue, ProcessedSurveyData, SurveyVariable } from './types';
+
+/**
+ * The expression language of derived variables, e.g.
+ * `if(age < 18, "Under 18", "Adult")` or `mean(q1, q2, 6 - q3)`. Variables
+ * are referred to by name, or in brackets when the name has spaces
+ * (`[Overall rating]`). Expressions are parsed into a tree and interpreted
+ * row by row; nothing is passed to `eval`.
+ *
+ * Missing values are `missing`: declared missing codes read as missing,
+ * arithmetic and comparisons with a missing operand are missing, and a
+ * missing condition makes `if` and `case` missing. Row functions such as
+ * `mean()` and `sum()` skip missing arguments.
+ */
+
+export type ExpressionValue = number | string | boolean | Date | null;
+
+type ExpressionNode =
+  | { kind: 'literal'; value: ExpressionValue }
+  | { kind: 'ref'; name: string }
+  | { kind: 'unary'; operator: '-' | 'not'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'name'; value: string }
+  | { type: 'ref'; value: string }
+  | { type: 'symbol'; value: string };
+
+const SYMBOLS = ['==', '!=', '<>', '<=', '>=', '=', '<', '>', '+', '-', '*', '/', '%', '^', '&', '(', ')', ','];
+
+const KEYWORDS: Record<string, ExpressionValue> = { true: true, false: false, missing: null };
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < expression.length) {
+    const rest = expression.slice(position);
+    const space = rest.match(/^\s+/);
+    if (space) {
+      position += space[0].length;
+      continue;
+    }
+
+    const number = rest.match(/^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/);
+    const string = rest.match(/^"((?:[^"\\]|\\.)*)"|^'((?:[^'\\]|\\.)*)'/);
+    const ref = rest.match(/^\[([^\]]+)\]/);
+    const name = rest.match(/^[A-Za-z_][\w.]*/);
+    const symbol = SYMBOLS.find(candidate => rest.startsWith(candidate));
+
+    if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]) });
+      position += number[0].length;
+    } else if (string) {
+      tokens.push({ type: 'string', value: (string[1] ?? string[2]).replace(/\\(.)/g, '$1') });
+      position += string[0].length;
+    } else if (ref) {
+      tokens.push({ type: 'ref', value: ref[1].trim() });
+      position += ref[0].length;
+    } else if (name) {
+      tokens.push({ type: 'name', value: name[0] });
+      position += name[0].length;
+    } else if (symbol) {
+      tokens.push({ type: 'symbol', value: symbol });
+      position += symbol.length;
+    } else {
+      throw new Error(`Unexpected "${rest[0]}" at position ${position + 1}`);
+    }
+  }
+  return tokens;
+};
+
+/** Binary operators from the loosest to the tightest binding; `not` sits between `and` and the comparisons. */
+const PRECEDENCE: string[][] = [
+  ['or'],
+  ['and'],
+  ['=', '==', '!=', '<>', '<', '<=', '>', '>='],
+  ['+', '-', '&'],
+  ['*', '/', '%']
+];
+
+const parse = (expression: string): ExpressionNode => {
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) throw new Error('The expression is empty');
+  let index = 0;
+
+  const isSymbol = (value: string) => tokens[index]?.type === 'symbol' && tokens[index].value === value;
+  const isWord = (value: string) => {
+    const token = tokens[index];
+    return token?.type === 'name' && token.value.toLowerCase() === value;
+  };
+
+  const peekOperator = () => {
+    const token = tokens[index];
+    if (!token) return undefined;
+    if (token.type === 'symbol') return token.value;
+    return token.type === 'name' ? token.value.toLowerCase() : undefined;
+  };
+
+  const expect = (symbol: string) => {
+    if (!isSymbol(symbol)) {
+      const token = tokens[index];
+      throw new Error(`Expected "${symbol}"${token ? ` before "${token.value}"` : ' at the end'}`);
+    }
+    index++;
+  };
+
+  const parseLevel = (level: number): ExpressionNode => {
+    if (level === 2 && isWord('not')) {
+      index++;
+      return { kind: 'unary', operator: 'not', operand: parseLevel(2) };
+    }
+    if (level === PRECEDENCE.length) return parseUnary();
+    let left = parseLevel(level + 1);
+    for (let operator = peekOperator(); operator && PRECEDENCE[level].includes(operator); operator = peekOperator()) {
+      index++;
+      left = { kind: 'binary', operator, left, right: parseLevel(level + 1) };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (isSymbol('-')) {
+      index++;
+      return { kind: 'unary', operator: '-', operand: parseUnary() };
+    }
+    if (isSymbol('+')) {
+      index++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // Powers bind tighter than unary minus and group to the right: -2^2 is -4, 2^3^2 is 2^9
+  const parsePower = (): ExpressionNode => {
+    const base = parsePrimary();
+    if (!isSymbol('^')) return base;
+    index++;
+    return { kind: 'binary', operator: '^', left: base, right: parseUnary() };
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = tokens[index++];
+    if (!token) throw new Error('The expression ends unexpectedly');
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'ref':
+        return { kind: 'ref', name: token.value };
+      case 'name': {
+        if (isSymbol('(')) {
+          index++;
+          const args: ExpressionNode[] = [];
+          if (!isSymbol(')')) {
+            args.push(parseLevel(0));
+            while (isSymbol(',')) {
+              index++;
+              args.push(parseLevel(0));
+            }
+          }
+          expect(')');
+          return { kind: 'call', name: token.value.toLowerCase(), args };
+        }
+        const keyword = token.value.toLowerCase();
+        if (Object.prototype.hasOwnProperty.call(KEYWORDS, keyword)) return { kind: 'literal', value: KEYWORDS[keyword] };
+        return { kind: 'ref', name: token.value };
+      }
+      case 'symbol':
+        if (token.value === '(') {
+          const inner = parseLevel(0);
+          expect(')');
+          return inner;
+        }
+    }
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  const node = parseLevel(0);
+  if (index < tokens.length) throw new Error(`Unexpected "${tokens[index].value}"`);
+  return node;
+};
+
+const toNumber = (value: ExpressionValue): number | null => {
+  if (value === null) return null;
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return null;
+  const number = value.trim() === '' ? NaN : Number(value);
+  return isNaN(number) ? null : number;
+};
+
+const toDate = (value: ExpressionValue): Date | null => {
+  if (value instanceof Date) return value;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/** Yes/no answers read as booleans, numbers as true when non-zero; other text is missing. */
+const toBoolean = (value: ExpressionValue): boolean | null => {
+  if (value === null) return null;
+  if (typeof value === 'boolean') return value;
+  const flag = typeof value === 'string' ? parseBooleanCell(value) : null;
+  if (flag !== null) return flag;
+  const number = toNumber(value);
+  return number === null ? null : number !== 0;
+};
+
+const toText = (value: ExpressionValue): string | null =>
+  value === null ? null : formatCellValue(value);
+
+/** Numbers compare as numbers, dates by time, everything else as text. */
+const compare = (left: ExpressionValue, right: ExpressionValue): number | null => {
+  if (left === null || right === null) return null;
+  // A yes/no answer compares with true/false, 1/0 or yes/no text alike
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    const a = toBoolean(left);
+    const b = toBoolean(right);
+    return a === null || b === null ? null : Number(a) - Number(b);
+  }
+  if (left instanceof Date || right instanceof Date) {
+    const a = toDate(left);
+    const b = toDate(right);
+    return a && b ? a.getTime() - b.getTime() : null;
+  }
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a !== null && b !== null) return a - b;
+  return toText(left)!.localeCompare(toText(right)!);
+};
+
+const MS_PER_DAY = 86400000;
+
+const wholeMonthsBetween = (start: Date, end: Date): number => {
+  if (end < start) return -wholeMonthsBetween(end, start);
+  const months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+  return end.getUTCDate() < start.getUTCDate() ? months - 1 : months;
+};
+
+const numeric = (fn: (x: number) => number) => ([value]: ExpressionValue[]) => {
+  const number = toNumber(value);
+  return number === null ? null : fn(number);
+};
+
+const text = (fn: (s: string, ...rest: ExpressionValue[]) => ExpressionValue) =>
+  ([value, ...rest]: ExpressionValue[]) => {
+    const string = toText(value);
+    return string === null ? null : fn(string, ...rest);
+  };
+
+const dated = (fn: (d: Date) => number) => ([value]: ExpressionValue[]) => {
+  const date = toDate(value);
+  return date === null ? null : fn(date);
+};
+
+const validNumbers = (args: ExpressionValue[]) =>
+  args.map(toNumber).filter((value): value is number => value !== null);
+
+interface FunctionDefinition {
+  /** Fewest and most arguments; `Infinity` for any number. */
+  arity: [number, number];
+  apply: (args: ExpressionValue[]) => ExpressionValue;
+}
+
+const FUNCTIONS: Record<string, FunctionDefinition> = {
+  // Missing values
+  missing: { arity: [1, 1], apply: ([value]) => value === null },
+  valid: { arity: [1, 1], apply: ([value]) => value !== null },
+  coalesce: { arity: [1, Infinity], apply: args => args.find(value => value !== null) ?? null },
+
+  // Conditionals; `if` and `case` are evaluated lazily below
+  in: {
+    arity: [2, Infinity],
+    apply: ([value, ...options]) => (value === null ? null : options.some(option => compare(value, option) === 0))
+  },
+  inrange: {
+    arity: [3, 3],
+    apply: ([value, low, high]) => {
+      const below = compare(value, low);
+      const above = compare(value, high);
+      return below === null || above === null ? null : below >= 0 && above <= 0;
+    }
+  },
+
+  // Row statistics over several variables, skipping missing values
+  sum: { arity: [1, Infinity], apply: args => {
+    const numbers = validNumbers(args);
+    return numbers.length === 0 ? null : numbers.reduce((sum, value) => sum + value, 0);
+  } },
+  mean: { arity: [1, Infinity], apply: args => {
+    const numbers = validNumbers(args);
+    return numbers.length === 0 ? null : numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+  } },
+  min: { arity: [1, Infinity], apply: args => {
+    const numbers = validNumbers(args);
+    return numbers.length === 0 ? null : Math.min(...numbers);
+  } },
+  max: { arity: [1, Infinity], apply: args => {
+    const numbers = validNumbers(args);
+    return numbers.length === 0 ? null : Math.max(...numbers);
+  } },
+  count: { arity: [1, Infinity], apply: args => args.filter(value => value !== null).length },
+
+  // Numbers
+  abs: { arity: [1, 1], apply: numeric(Math.abs) },
+  floor: { arity: [1, 1], apply: numeric(Math.floor) },
+  ceil: { arity: [1, 1], apply: numeric(Math.ceil) },
+  sqrt: { arity: [1, 1], apply: numeric(x => (x < 0 ? NaN : Math.sqrt(x))) },
+  ln: { arity: [1, 1], apply: numeric(x => (x <= 0 ? NaN : Math.log(x))) },
+  exp: { arity: [1, 1], apply: numeric(Math.exp) },
+  round: {
+    arity: [1, 2],
+    apply: ([value, digits]) => {
+      const number = toNumber(value);
+      if (number === null) return null;
+      const factor = 10 ** (toNumber(digits ?? 0) ?? 0);
+      return Math.round(number * factor) / factor;
+    }
+  },
+  number: { arity: [1, 1], apply: ([value]) => toNumber(value) },
+
+  // Text
+  text: { arity: [1, 1], apply: ([value]) => toText(value) },
+  upper: { arity: [1, 1], apply: text(s => s.toUpperCase()) },
+  lower: { arity: [1, 1], apply: text(s => s.toLowerCase()) },
+  trim: { arity: [1, 1], apply: text(s => s.trim()) },
+  length: { arity: [1, 1], apply: text(s => s.length) },
+  substr: {
+    arity: [2, 3],
+    apply: text((s, start, count) => {
+      const from = Math.max(0, (toNumber(start) ?? 1) - 1);
+      return count === undefined ? s.slice(from) : s.slice(from, from + Math.max(0, toNumber(count) ?? 0));
+    })
+  },
+  concat: { arity: [1, Infinity], apply: args => args.map(value => toText(value) ?? '').join('') },
+  contains: { arity: [2, 2], apply: text((s, part) => s.toLowerCase().includes((toText(part) ?? '').toLowerCase())) },
+  startswith: { arity: [2, 2], apply: text((s, part) => s.startsWith(toText(part) ?? '')) },
+  endswith: { arity: [2, 2], apply: text((s, part) => s.endsWith(toText(part) ?? '')) },
+  replace: { arity: [3, 3], apply: text((s, find, by) => s.split(toText(find) ?? '').join(toText(by) ?? '')) },
+
+  // Dates, in UTC like the imported data
+  date: {
+    arity: [1, 3],
+    apply: ([first, month, day]) => {
+      if (month === undefined) return toDate(first);
+      const parts = [first, month, day ?? 1].map(toNumber);
+      if (parts.some(part => part === null)) return null;
+      return new Date(Date.UTC(parts[0]!, parts[1]! - 1, parts[2]!));
+    }
+  },
+  today: {
+    arity: [0, 0],
+    apply: () => {
+      const now = new Date();
+      return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+    }
+  },
+  year: { arity: [1, 1], apply: dated(d => d.getUTCFullYear()) },
+  month: { arity: [1, 1], apply: dated(d => d.getUTCMonth() + 1) },
+  day: { arity: [1, 1], apply: dated(d => d.getUTCDate()) },
+  // ISO weekday: 1 is Monday, 7 is Sunday
+  weekday: { arity: [1, 1], apply: dated(d => ((d.getUTCDay() + 6) % 7) + 1) },
+  datediff: {
+    arity: [2, 3],
+    apply: ([from, to, unit]) => {
+      const start = toDate(from);
+      const end = toDate(to);
+      if (!start || !end) return null;
+      switch ((toText(unit ?? 'days') ?? 'days').toLowerCase()) {
+        case 'days': return Math.floor((end.getTime() - start.getTime()) / MS_PER_DAY);
+        case 'months': return wholeMonthsBetween(start, end);
+        case 'years': return Math.trunc(wholeMonthsBetween(start, end) / 12);
+      }
+      throw new Error('datediff() counts "days", "months" or "years"');
+    }
+  }
+};
+
+/** Names of the supported functions, for help text and autocompletion. */
+export const EXPRESSION_FUNCTIONS = [...Object.keys(FUNCTIONS), 'if', 'case', 'label'].sort();
+
+const arithmetic = (operator: string, left: ExpressionValue, right: ExpressionValue): ExpressionValue => {
+  if (operator === '&') return left === null || right === null ? null : toText(left)! + toText(right)!;
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a === null || b === null) return null;
+  let result: number;
+  switch (operator) {
+    case '+': result = a + b; break;
+    case '-': result = a - b; break;
+    case '*': result = a * b; break;
+    case '/': result = a / b; break;
+    case '%': result = a % b; break;
+    default: result = a ** b;
+  }
+  // Division by zero and similar give missing rather than Infinity or NaN
+  return Number.isFinite(result) ? result : null;
+};
+
+const comparison = (operator: string, left: ExpressionValue, right: ExpressionValue): boolean | null => {
+  const order = compare(left, right);
+  if (order === null) return null;
+  switch (operator) {
+    case '=':
+    case '==': return order === 0;
+    case '!=':
+    case '<>': return order !== 0;
+    case '<': return order < 0;
+    case '<=': return order <= 0;
+    case '>': return order > 0;
+    default: return order >= 0;
+  }
+};
+
+export interface CompiledExpression {
+  /** Value of the expression in a 0-based data row. */
+  evaluate: (row: number) => ExpressionValue;
+  /** Whether the expression holds in a row, or null when it is missing. */
+  test: (row: number) => boolean | null;
+  /** Variables the expression reads. */
+  references: string[];
+}
+
+/**
+ * Parses an expression and checks it against the dataset: every variable
+ * must exist and every function must be known and given a valid number of
+ * arguments. Throws with a readable message otherwise.
+ */
+export const compileExpression = (expression: string, data: ProcessedSurveyData): CompiledExpression => {
+  const root = parse(expression);
+  const byName = new Map(data.variables.map(variable => [variable.name, variable]));
+  const byLowerName = new Map(data.variables.map(variable => [variable.name.toLowerCase(), variable]));
+  const references = new Set<string>();
+
+  const resolve = (name: string): SurveyVariable => {
+    const variable = byName.get(name) ?? byLowerName.get(name.toLowerCase());
+    if (!variable) throw new Error(`There is no variable named "${name}"`);
+    references.add(variable.name);
+    return variable;
+  };
+
+  const readCell = (variable: SurveyVariable, row: number): ExpressionValue => {
+    const value: CellValue | undefined = variable.values[row];
+    if (value === undefined || missingCategoryOf(value, variable) !== null) return null;
+    if (variable.type === 'numeric' && typeof value === 'string') return toNumber(value);
+    // Imported yes/no columns keep their text, e.g. "No", which must not read as true
+    if (variable.type === 'boolean') return parseBooleanCell(value) ?? value;
+    return value;
+  };
+
+  type Evaluator = (row: number) => ExpressionValue;
+
+  const build = (node: ExpressionNode): Evaluator => {
+    switch (node.kind) {
+      case 'literal':
+        return () => node.value;
+      case 'ref': {
+        const variable = resolve(node.name);
+        return row => readCell(variable, row);
+      }
+      case 'unary': {
+        const operand = build(node.operand);
+        if (node.operator === 'not') {
+          return row => {
+            const value = toBoolean(operand(row));
+            return value === null ? null : !value;
+          };
+        }
+        return row => {
+          const value = toNumber(operand(row));
+          return value === null ? null : -value;
+        };
+      }
+      case 'binary': {
+        const left = build(node.left);
+        const right = build(node.right);
+        // `and`/`or` follow three-valued logic: false and missing is false, true or missing is true
+        if (node.operator === 'and') {
+          return row => {
+            const a = toBoolean(left(row));
+            if (a === false) return false;
+            const b = toBoolean(right(row));
+            return b === false ? false : a === null || b === null ? null : true;
+          };
+        }
+        if (node.operator === 'or') {
+          return row => {
+            const a = toBoolean(left(row));
+            if (a === true) return true;
+            const b = toBoolean(right(row));
+            return b === true ? true : a === null || b === null ? null : false;
+          };
+        }
+        if (PRECEDENCE[2].includes(node.operator)) {
+          return row => comparison(node.operator, left(row), right(row));
+        }
+        return row => arithmetic(node.operator, left(row), right(row));
+      }
+      case 'call':
+        return buildCall(node.name, node.args);
+    }
+  };
+
+  const buildCall = (name: string, argNodes: ExpressionNode[]): Evaluator => {
+    if (name === 'label') {
+      const [arg] = argNodes;
+      if (argNodes.length !== 1 || arg.kind !== 'ref') throw new Error('label() takes one variable, e.g. label(region)');
+      const variable = resolve(arg.name);
+      return row => {
+        const value = readCell(variable, row);
+        if (value === null) return null;
+        const code = formatCellValue(value);
+        return variable.valueLabels?.[code] ?? code;
+      };
+    }
+
+    const args = argNodes.map(build);
+    if (name === 'if') {
+      if (args.length !== 3) throw new Error('if() takes a condition, a value when true and a value when false');
+      const [condition, then, otherwise] = args;
+      return row => {
+        const holds = toBoolean(condition(row));
+        return holds === null ? null : holds ? then(row) : otherwise(row);
+      };
+    }
+    if (name === 'case') {
+      if (args.length < 2) throw new Error('case() takes pairs of a condition and a value, then an optional default');
+      return row => {
+        for (let i = 0; i + 1 < args.length; i += 2) {
+          const holds = toBoolean(args[i](row));
+          if (holds === null) return null;
+          if (holds) return args[i + 1](row);
+        }
+        return args.length % 2 === 1 ? args[args.length - 1](row) : null;
+      };
+    }
+
+    // Own keys only, so names such as constructor or toString are not functions
+    const definition = Object.prototype.hasOwnProperty.call(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+    if (!definition) throw new Error(`The function ${name}() is not supported`);
+    const [fewest, most] = definition.arity;
+    if (args.length < fewest || args.length > most) {
+      const expected = fewest === most ? `${fewest}` : most === Infinity ? `at least ${fewest}` : `${fewest} to ${most}`;
+      throw new Error(`${name}() takes ${expected} argument${expected === '1' ? '' : 's'}`);
+    }
+    return row => definition.apply(args.map(arg => arg(row)));
+  };
+
+  const evaluate = build(root);
+  return { evaluate, test: row => toBoolean(evaluate(row)), references: [...references] };
+};
+
+/** Evaluates an expression on every row of the dataset. */
+export const evaluateExpression = (expression: string, data: ProcessedSurveyData): ExpressionValue[] => {
+  const { evaluate } = compileExpression(expression, data);
+  return Array.from({ length: data.totalRows }, (_, row) => evaluate(row));
+};
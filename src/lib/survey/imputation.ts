@@ -0,0 +1,337 @@
+import { formatCellValue, missingCategoryOf, replaceCellValues } from './dataset';
+import { dot, leastSquares } from './matrix';
+import { trimmedCells } from './outliers';
+import { normalDeviate, pickRandom, seededRandom, type RandomSource } from './random';
+import type {
+  CellValue,
+  ImputationMethod,
+  ImputationRecord,
+  ImputationSpec,
+  ProcessedSurveyData,
+  SurveyVariable
+} from './types';
+
+/**
+ * Imputation of missing values. Each run replaces the missing cells of one
+ * variable and keeps an `ImputationRecord` flagging those cells with their
+ * original values, so the analysis can recompute estimates with and without
+ * them. Multiple imputation also keeps every completed dataset's values for
+ * pooling with Rubin's rules.
+ */
+
+export const IMPUTATION_METHOD_LABELS: Record<ImputationMethod, string> = {
+  mean: 'Mean',
+  median: 'Median',
+  mode: 'Mode (most frequent value)',
+  'hot-deck': 'Hot-deck within classes',
+  knn: 'k-nearest neighbours',
+  regression: 'Regression',
+  multiple: 'Multiple imputation'
+};
+
+/** Methods that need a numeric variable to impute. */
+export const NUMERIC_ONLY_METHODS: ImputationMethod[] = ['mean', 'median', 'regression'];
+
+export const DEFAULT_NEIGHBOURS = 5;
+export const DEFAULT_IMPUTATIONS = 5;
+const DEFAULT_SEED = 20240601;
+
+/** Donors compared with each recipient by k-NN; larger pools are sampled down to keep imputation responsive. */
+const MAX_NEIGHBOUR_DONORS = 5000;
+
+const numericValue = (value: CellValue): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+const findVariable = (data: ProcessedSurveyData, name: string): SurveyVariable => {
+  const variable = data.variables.find(candidate => candidate.name === name);
+  if (!variable) throw new Error(`Variable "${name}" was not found`);
+  return variable;
+};
+
+// Skipped questions are not applicable rather than unknown, so they are never imputed
+const isImputable = (value: CellValue, variable: SurveyVariable) => {
+  const category = missingCategoryOf(value, variable);
+  return category !== null && category !== 'not-applicable';
+};
+
+/**
+ * Rows whose value can be imputed: missing for any reason other than not
+ * applicable, and not trimmed as an outlier.
+ */
+export const imputableRows = (variable: SurveyVariable, trimmed: Set<number> = new Set()): number[] =>
+  variable.values.flatMap((value, row) => (isImputable(value, variable) && !trimmed.has(row) ? [row] : []));
+
+const observedRows = (variable: SurveyVariable): number[] =>
+  variable.values.flatMap((value, row) => (missingCategoryOf(value, variable) === null ? [row] : []));
+
+const mostFrequent = (values: CellValue[]): CellValue => {
+  const counts = new Map<string, { value: CellValue; count: number }>();
+  values.forEach(value => {
+    const key = formatCellValue(value);
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { value, count: 1 });
+  });
+  let best: { value: CellValue; count: number } | undefined;
+  counts.forEach(entry => {
+    if (!best || entry.count > best.count) best = entry;
+  });
+  return best ? best.value : null;
+};
+
+const median = (numbers: number[]) => {
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const requireNumeric = (variable: SurveyVariable, method: ImputationMethod) => {
+  if (variable.type !== 'numeric') {
+    throw new Error(`${IMPUTATION_METHOD_LABELS[method]} imputation needs a numeric variable; "${variable.name}" is ${variable.type}`);
+  }
+};
+
+const hotDeck = (
+  data: ProcessedSurveyData,
+  variable: SurveyVariable,
+  rows: number[],
+  classVariables: string[],
+  random: RandomSource
+): CellValue[] => {
+  const classes = classVariables.map(name => findVariable(data, name));
+  const classKey = (row: number) => classes.map(cls => formatCellValue(cls.values[row])).join('\u0001');
+  const donors = observedRows(variable);
+  const donorsByClass = new Map<string, number[]>();
+  donors.forEach(row => {
+    const key = classKey(row);
+    const members = donorsByClass.get(key);
+    if (members) members.push(row);
+    else donorsByClass.set(key, [row]);
+  });
+  // A recipient whose class has no donors borrows from the whole sample
+  return rows.map(row => variable.values[pickRandom(donorsByClass.get(classKey(row)) ?? donors, random)]);
+};
+
+/** Distance on the predictors: standardized differences for numbers, 0/1 mismatch for categories. */
+const neighbourDistance = (data: ProcessedSurveyData, predictors: string[]) => {
+  const features = predictors.map(name => {
+    const variable = findVariable(data, name);
+    if (variable.type === 'numeric') {
+      const numbers = observedRows(variable).map(row => numericValue(variable.values[row])).filter(v => !isNaN(v));
+      const mean = numbers.reduce((sum, v) => sum + v, 0) / Math.max(numbers.length, 1);
+      const sd = Math.sqrt(numbers.reduce((sum, v) => sum + (v - mean) ** 2, 0) / Math.max(numbers.length - 1, 1)) || 1;
+      return variable.values.map(value =>
+        missingCategoryOf(value, variable) === null ? (numericValue(value) - mean) / sd : NaN
+      );
+    }
+    return variable.values.map(value =>
+      missingCategoryOf(value, variable) === null ? formatCellValue(value) : null
+    );
+  });
+
+  // Averaged over the predictors both rows answered
+  return (a: number, b: number) => {
+    let total = 0;
+    let used = 0;
+    features.forEach(feature => {
+      const x = feature[a];
+      const y = feature[b];
+      if (x === null || y === null || (typeof x === 'number' && isNaN(x)) || (typeof y === 'number' && isNaN(y))) return;
+      total += typeof x === 'number' ? (x - (y as number)) ** 2 : x === y ? 0 : 1;
+      used++;
+    });
+    return used === 0 ? Infinity : Math.sqrt(total / used);
+  };
+};
+
+const nearestDonors = (
+  distance: (a: number, b: number) => number,
+  row: number,
+  donors: number[],
+  k: number
+) =>
+  donors
+    .map(donor => ({ donor, distance: distance(row, donor) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, k)
+    .map(entry => entry.donor);
+
+const sampleDonors = (donors: number[], random: RandomSource) => {
+  if (donors.length <= MAX_NEIGHBOUR_DONORS) return donors;
+  return Array.from({ length: MAX_NEIGHBOUR_DONORS }, () => pickRandom(donors, random));
+};
+
+const nearestNeighbours = (
+  data: ProcessedSurveyData,
+  variable: SurveyVariable,
+  rows: number[],
+  predictors: string[],
+  k: number,
+  random: RandomSource
+): CellValue[] => {
+  const distance = neighbourDistance(data, predictors);
+  const donors = sampleDonors(observedRows(variable), random);
+  return rows.map(row => {
+    const values = nearestDonors(distance, row, donors, k).map(donor => variable.values[donor]);
+    if (variable.type !== 'numeric') return mostFrequent(values);
+    const numbers = values.map(numericValue).filter(v => !isNaN(v));
+    return numbers.reduce((sum, v) => sum + v, 0) / numbers.length;
+  });
+};
+
+/**
+ * Design-matrix rows for the predictors: an intercept, numeric predictors
+ * (missing cells set to the mean) and one indicator per category beyond
+ * the first for the others. Also used for response-propensity models.
+ */
+export const designMatrix = (data: ProcessedSurveyData, predictors: string[]) => {
+  const columns: Array<(row: number) => number> = [() => 1];
+  predictors.forEach(name => {
+    const variable = findVariable(data, name);
+    const observed = observedRows(variable);
+    if (variable.type === 'numeric') {
+      const numbers = observed.map(row => numericValue(variable.values[row])).filter(v => !isNaN(v));
+      const mean = numbers.reduce((sum, v) => sum + v, 0) / Math.max(numbers.length, 1);
+      columns.push(row => {
+        const value = numericValue(variable.values[row]);
+        return missingCategoryOf(variable.values[row], variable) === null && !isNaN(value) ? value : mean;
+      });
+      return;
+    }
+    const categories = [...new Set(observed.map(row => formatCellValue(variable.values[row])))];
+    categories.slice(1).forEach(category => {
+      columns.push(row => (formatCellValue(variable.values[row]) === category ? 1 : 0));
+    });
+  });
+  return (row: number) => columns.map(column => column(row));
+};
+
+const fitRegression = (variable: SurveyVariable, design: (row: number) => number[], fitRows: number[]) => {
+  const x = fitRows.map(design);
+  const y = fitRows.map(row => numericValue(variable.values[row]));
+  const coefficients = leastSquares(x, y);
+  const residuals = x.map((row, i) => y[i] - dot(row, coefficients));
+  const df = Math.max(fitRows.length - coefficients.length, 1);
+  const sigma = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / df);
+  return { coefficients, sigma };
+};
+
+const numericObservedRows = (variable: SurveyVariable) =>
+  observedRows(variable).filter(row => !isNaN(numericValue(variable.values[row])));
+
+const bootstrap = (rows: number[], random: RandomSource) =>
+  rows.map(() => pickRandom(rows, random));
+
+/**
+ * Proper multiple imputation: each completed dataset refits the model on a
+ * bootstrap sample of the observed rows. Numeric variables get the
+ * regression prediction plus a normal residual; others a donor drawn from
+ * the nearest neighbours (or the whole sample without predictors).
+ */
+const multipleImputation = (
+  data: ProcessedSurveyData,
+  variable: SurveyVariable,
+  rows: number[],
+  predictors: string[],
+  k: number,
+  imputations: number,
+  random: RandomSource
+): CellValue[][] =>
+  Array.from({ length: imputations }, () => {
+    if (variable.type === 'numeric') {
+      const design = designMatrix(data, predictors);
+      const { coefficients, sigma } = fitRegression(variable, design, bootstrap(numericObservedRows(variable), random));
+      return rows.map(row => dot(design(row), coefficients) + sigma * normalDeviate(random));
+    }
+    const donors = bootstrap(observedRows(variable), random);
+    if (predictors.length === 0) return rows.map(() => variable.values[pickRandom(donors, random)]);
+    const distance = neighbourDistance(data, predictors);
+    const pool = sampleDonors(donors, random);
+    return rows.map(row => variable.values[pickRandom(nearestDonors(distance, row, pool, k), random)]);
+  });
+
+const imputeValues = (
+  data: ProcessedSurveyData,
+  variable: SurveyVariable,
+  rows: number[],
+  spec: ImputationSpec
+): { values: CellValue[]; draws?: CellValue[][] } => {
+  const random = seededRandom(spec.seed ?? DEFAULT_SEED);
+  const predictors = (spec.predictors ?? []).filter(name => name !== variable.name);
+  const k = Math.max(1, spec.neighbours ?? DEFAULT_NEIGHBOURS);
+
+  switch (spec.method) {
+    case 'mean': {
+      requireNumeric(variable, spec.method);
+      const numbers = numericObservedRows(variable).map(row => numericValue(variable.values[row]));
+      const mean = numbers.reduce((sum, v) => sum + v, 0) / numbers.length;
+      return { values: rows.map(() => mean) };
+    }
+    case 'median': {
+      requireNumeric(variable, spec.method);
+      const value = median(numericObservedRows(variable).map(row => numericValue(variable.values[row])));
+      return { values: rows.map(() => value) };
+    }
+    case 'mode': {
+      const value = mostFrequent(observedRows(variable).map(row => variable.values[row]));
+      return { values: rows.map(() => value) };
+    }
+    case 'hot-deck':
+      return { values: hotDeck(data, variable, rows, spec.classVariables ?? [], random) };
+    case 'knn':
+      if (predictors.length === 0) throw new Error('Choose at least one predictor for k-nearest-neighbour imputation');
+      return { values: nearestNeighbours(data, variable, rows, predictors, k, random) };
+    case 'regression': {
+      requireNumeric(variable, spec.method);
+      if (predictors.length === 0) throw new Error('Choose at least one predictor for regression imputation');
+      const design = designMatrix(data, predictors);
+      const { coefficients } = fitRegression(variable, design, numericObservedRows(variable));
+      return { values: rows.map(row => dot(design(row), coefficients)) };
+    }
+    case 'multiple': {
+      const draws = multipleImputation(
+        data, variable, rows, predictors, k, Math.max(2, spec.imputations ?? DEFAULT_IMPUTATIONS), random
+      );
+      return { values: draws[0], draws };
+    }
+  }
+};
+
+/** Returns a copy of the dataset with the imputed cells of `variable` restored to their original values. */
+export const removeImputation = (data: ProcessedSurveyData, variableName: string): ProcessedSurveyData => {
+  const record = data.imputations?.find(candidate => candidate.variable === variableName);
+  if (!record) return data;
+  const restored = replaceCellValues(data, variableName, record.rows, record.original);
+  return { ...restored, imputations: data.imputations!.filter(candidate => candidate !== record) };
+};
+
+/**
+ * Returns a copy of the dataset with the missing values of `spec.variable`
+ * imputed and recorded. Imputing a variable again replaces its earlier
+ * imputation.
+ */
+export const imputeVariable = (data: ProcessedSurveyData, spec: ImputationSpec): ProcessedSurveyData => {
+  const base = removeImputation(data, spec.variable);
+  const variable = findVariable(base, spec.variable);
+  const rows = imputableRows(variable, trimmedCells(base).get(variable.name));
+  if (rows.length === 0) throw new Error(`"${variable.name}" has no missing values to impute`);
+  if (observedRows(variable).length === 0) throw new Error(`"${variable.name}" has no observed values to impute from`);
+
+  const { values, draws } = imputeValues(base, variable, rows, spec);
+  const record: ImputationRecord = {
+    ...spec,
+    rows,
+    original: rows.map(row => variable.values[row]),
+    ...(draws ? { draws } : {})
+  };
+  const imputed = replaceCellValues(base, variable.name, rows, values);
+  return { ...imputed, imputations: [...(base.imputations ?? []), record] };
+};
+
+/** Imputed rows of each variable, for flagging cells in previews. */
+export const imputedCells = (data: ProcessedSurveyData): Map<string, Set<number>> =>
+  new Map((data.imputations ?? []).map(record => [record.variable, new Set(record.rows)]));
@@ -0,0 +1,93 @@
+/**
+ * Small dense linear algebra for model fitting on the client: solving the
+ * normal equations of (weighted) least squares, and logistic regression
+ * built on them.
+ */
+
+/**
+ * Solves `A x = b` by Gaussian elimination with partial pivoting. Columns
+ * with no usable pivot (collinear predictors) get a coefficient of 0.
+ */
+export const solveLinearSystem = (matrix: number[][], vector: number[]): number[] => {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+  const pivotColumns: number[] = [];
+  let row = 0;
+
+  for (let column = 0; column < n && row < n; column++) {
+    let best = row;
+    for (let candidate = row + 1; candidate < n; candidate++) {
+      if (Math.abs(a[candidate][column]) > Math.abs(a[best][column])) best = candidate;
+    }
+    if (Math.abs(a[best][column]) < 1e-10) continue;
+    [a[row], a[best]] = [a[best], a[row]];
+
+    for (let other = 0; other < n; other++) {
+      if (other === row) continue;
+      const factor = a[other][column] / a[row][column];
+      if (factor === 0) continue;
+      for (let k = column; k <= n; k++) a[other][k] -= factor * a[row][k];
+    }
+    pivotColumns.push(column);
+    row++;
+  }
+
+  const solution = new Array<number>(n).fill(0);
+  pivotColumns.forEach((column, index) => {
+    solution[column] = a[index][n] / a[index][column];
+  });
+  return solution;
+};
+
+/** Coefficients minimizing the (weighted) squared error of `design · b` against `response`. */
+export const leastSquares = (design: number[][], response: number[], weights?: number[]): number[] => {
+  const p = design[0]?.length ?? 0;
+  const xtx = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+  const xty = new Array<number>(p).fill(0);
+  design.forEach((x, i) => {
+    const w = weights ? weights[i] : 1;
+    for (let j = 0; j < p; j++) {
+      xty[j] += w * x[j] * response[i];
+      for (let k = j; k < p; k++) xtx[j][k] += w * x[j] * x[k];
+    }
+  });
+  for (let j = 0; j < p; j++) {
+    for (let k = 0; k < j; k++) xtx[j][k] = xtx[k][j];
+  }
+  return solveLinearSystem(xtx, xty);
+};
+
+/**
+ * Coefficients of a (weighted) logistic regression of a 0/1 response, by
+ * iteratively reweighted least squares.
+ */
+export const logisticRegression = (
+  design: number[][],
+  response: number[],
+  weights?: number[],
+  maxIterations = 25
+): number[] => {
+  let coefficients = new Array<number>(design[0]?.length ?? 0).fill(0);
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const eta = design.map(x => dot(x, coefficients));
+    const p = eta.map(value => 1 / (1 + Math.exp(-value)));
+    const variance = p.map(value => Math.max(value * (1 - value), 1e-10));
+    const working = eta.map((value, i) => value + (response[i] - p[i]) / variance[i]);
+    const next = leastSquares(design, working, variance.map((value, i) => value * (weights ? weights[i] : 1)));
+    const change = next.reduce((max, value, j) => Math.max(max, Math.abs(value - coefficients[j])), 0);
+    coefficients = next;
+    if (change < 1e-8) break;
+  }
+  return coefficients;
+};
+
+/** Inverse of a square matrix, column by column; collinear directions get zeros. */
+export const invertMatrix = (matrix: number[][]): number[][] => {
+  const n = matrix.length;
+  const columns = Array.from({ length: n }, (_, j) =>
+    solveLinearSystem(matrix, Array.from({ length: n }, (_, i) => (i === j ? 1 : 0)))
+  );
+  return Array.from({ length: n }, (_, i) => columns.map(column => column[i]));
+};
+
+export const dot = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
@@ -0,0 +1,57 @@
+import type { MissingCategory, MissingCodeRule, MissingValueSchema } from './types';
+
+export const MISSING_CATEGORY_LABELS: Record<MissingCategory, string> = {
+  system: 'System missing',
+  refused: 'Refused',
+  'dont-know': "Don't know",
+  'not-applicable': 'Not applicable',
+  other: 'Other code'
+};
+
+/** Categories a code can be assigned to; `system` is reserved for empty cells. */
+export const MISSING_CODE_CATEGORIES = (Object.keys(MISSING_CATEGORY_LABELS) as MissingCategory[]).filter(
+  (category): category is MissingCodeRule['category'] => category !== 'system'
+);
+
+export const EMPTY_MISSING_SCHEMA: MissingValueSchema = { global: [], variables: {} };
+
+/** Codes commonly used by survey platforms, offered as a starting point. */
+export const SUGGESTED_MISSING_CODES: MissingCodeRule[] = [
+  { code: '-99', category: 'refused' },
+  { code: '-98', category: 'dont-know' },
+  { code: '-97', category: 'not-applicable' },
+  { code: 'Refused', category: 'refused' },
+  { code: "Don't know", category: 'dont-know' },
+  { code: 'DK', category: 'dont-know' },
+  { code: 'N/A', category: 'not-applicable' }
+];
+
+export const emptyMissingBreakdown = (): Record<MissingCategory, number> => ({
+  system: 0,
+  refused: 0,
+  'dont-know': 0,
+  'not-applicable': 0,
+  other: 0
+});
+
+/** Codes are compared as trimmed, case-insensitive text so -99 matches "-99". */
+export const normalizeMissingCode = (code: string): string => code.trim().toLowerCase();
+
+/**
+ * Rules in effect for one variable: the global ones, with per-variable rules
+ * replacing any global rule for the same code.
+ */
+export const rulesForVariable = (schema: MissingValueSchema, name: string): MissingCodeRule[] => {
+  const rules = new Map<string, MissingCodeRule>();
+  [...schema.global, ...(schema.variables[name] ?? [])].forEach(rule => {
+    rules.set(normalizeMissingCode(rule.code), rule);
+  });
+  return [...rules.values()];
+};
+
+/** Short summary such as "4 system missing, 2 refused", skipping empty categories. */
+export const formatMissingBreakdown = (breakdown: Partial<Record<MissingCategory, number>>): string =>
+  (Object.keys(MISSING_CATEGORY_LABELS) as MissingCategory[])
+    .filter(category => (breakdown[category] ?? 0) > 0)
+    .map(category => `${breakdown[category]} ${MISSING_CATEGORY_LABELS[category].toLowerCase()}`)
+    .join(', ');
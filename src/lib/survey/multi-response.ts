@@ -0,0 +1,97 @@
+import { formatCellValue, isMissingCell, setVariableType } from './dataset';
+import type { AnalysisPayload, CellValue, MultiResponseSet, ProcessedSurveyData, SurveyVariable } from './types';
+
+const UNSELECTED = new Set(['0', 'false', 'no', 'n', 'not selected', 'unchecked']);
+
+/** Whether a dummy-column cell marks its option as chosen. */
+export const isOptionSelected = (value: CellValue, selectedValue?: string): boolean => {
+  if (isMissingCell(value)) return false;
+  const text = formatCellValue(value).trim();
+  if (selectedValue !== undefined && selectedValue !== '') return text.toLowerCase() === selectedValue.trim().toLowerCase();
+  return !UNSELECTED.has(text.toLowerCase());
+};
+
+/** Splits a trailing option code from a column name, e.g. `Q5_3` into `Q5` and `3`. */
+const OPTION_SUFFIX = /^(.+?)[_.#-](\w+)$/;
+
+// Dummy columns hold at most two distinct answers, such as 0/1, Yes/No or the option text and blanks
+const looksLikeDummy = (variable: SurveyVariable) =>
+  variable.uniqueValues <= 2 &&
+  variable.values.some(value => !isMissingCell(value)) &&
+  (variable.type === 'boolean' || variable.type === 'categorical' || variable.type === 'numeric') &&
+  variable.values.every(value =>
+    isMissingCell(value) || typeof value === 'boolean' || typeof value === 'string' || value === 0 || value === 1
+  );
+
+/**
+ * Candidate dummy-column sets: groups of two or more columns
+ * sharing a prefix (Q5_1, Q5_2, ...) whose cells look like selected/not
+ * selected flags. Columns already in a set are skipped.
+ */
+export const suggestDummySets = (data: ProcessedSurveyData): MultiResponseSet[] => {
+  const used = new Set((data.multiResponseSets ?? []).flatMap(set => set.variables));
+  const groups = new Map<string, string[]>();
+  data.variables.forEach(variable => {
+    const match = variable.name.match(OPTION_SUFFIX);
+    if (!match || used.has(variable.name) || !looksLikeDummy(variable)) return;
+    groups.set(match[1], [...(groups.get(match[1]) ?? []), variable.name]);
+  });
+
+  const taken = new Set(data.variables.map(variable => variable.name));
+  return [...groups]
+    .filter(([, names]) => names.length > 1)
+    .map(([prefix, names]) => ({
+      name: taken.has(prefix) ? `${prefix}_set` : prefix,
+      layout: 'dummy' as const,
+      variables: names
+    }));
+};
+
+/**
+ * Returns a copy of the dataset with `sets` as its multi-response sets.
+ * The variable of a delimited set is switched to the multi-response type so
+ * it is no longer profiled as a high-cardinality categorical.
+ */
+export const setMultiResponseSets = (data: ProcessedSurveyData, sets: MultiResponseSet[]): ProcessedSurveyData => {
+  let result: ProcessedSurveyData = { ...data, multiResponseSets: sets };
+  sets.forEach(set => {
+    if (set.layout !== 'delimited') return;
+    const variable = result.variables.find(candidate => candidate.name === set.variables[0]);
+    if (variable && (variable.type !== 'multi-response' || variable.responseDelimiter !== set.delimiter)) {
+      result = setVariableType(result, variable.name, 'multi-response', { responseDelimiter: set.delimiter });
+    }
+  });
+  return result;
+};
+
+/** Display label for each option of a set, keyed as the analysis reports options. */
+export const multiResponseOptionLabels = (data: ProcessedSurveyData, set: MultiResponseSet): Record<string, string> => {
+  const variables = set.variables
+    .map(name => data.variables.find(variable => variable.name === name))
+    .filter((variable): variable is SurveyVariable => variable !== undefined);
+
+  if (set.layout === 'delimited') return { ...variables[0]?.valueLabels };
+
+  // Dummy columns usually carry the option text as their variable label
+  return Object.fromEntries(variables.map(variable => [variable.name, variable.label || variable.name]));
+};
+
+/**
+ * Sets sent to the analysis: the defined ones plus an implicit delimited set
+ * for each multi-response variable that no set covers.
+ */
+export const toMultiResponsePayload = (data: ProcessedSurveyData): AnalysisPayload['multiResponseSets'] => {
+  const defined = data.multiResponseSets ?? [];
+  const covered = new Set(defined.flatMap(set => (set.layout === 'delimited' ? set.variables : [])));
+  const implicit: MultiResponseSet[] = data.variables
+    .filter(variable => variable.type === 'multi-response' && !covered.has(variable.name))
+    .map(variable => ({
+      name: variable.name,
+      label: variable.label,
+      layout: 'delimited',
+      variables: [variable.name],
+      delimiter: variable.responseDelimiter
+    }));
+  const sets = [...defined, ...implicit];
+  return sets.length > 0 ? sets.map(set => ({ ...set, optionLabels: multiResponseOptionLabels(data, set) })) : undefined;
+};
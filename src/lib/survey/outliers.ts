@@ -0,0 +1,351 @@
+import { missingCategoryOf, replaceCellValues } from './dataset';
+import { dot, invertMatrix } from './matrix';
+import type {
+  CellValue,
+  OutlierMethod,
+  OutlierSpec,
+  OutlierTreatment,
+  ProcessedSurveyData,
+  SurveyVariable,
+  TransformationRecord
+} from './types';
+
+/**
+ * Outlier detection and treatment for numeric variables. Detection only
+ * reports flagged rows for review; a treatment changes the flagged cells and
+ * appends a `TransformationRecord` to the dataset's transformation log, so
+ * the analysis knows which values were altered and the change can be undone.
+ */
+
+export const OUTLIER_METHOD_LABELS: Record<OutlierMethod, string> = {
+  iqr: 'IQR fences',
+  'z-score': 'z-score',
+  'robust-z': 'Robust z-score (median/MAD)',
+  mahalanobis: 'Mahalanobis distance (multivariate)'
+};
+
+export const OUTLIER_TREATMENT_LABELS: Record<OutlierTreatment, string> = {
+  winsorize: 'Winsorize to the nearest unflagged value',
+  trim: 'Trim (drop from the analysis)',
+  cap: 'Cap at percentile',
+  'set-missing': 'Set to missing (can be imputed)'
+};
+
+/** Past participles for reports, e.g. "4 values winsorized". */
+export const TREATED_VALUE_LABELS: Record<OutlierTreatment, string> = {
+  winsorize: 'winsorized',
+  trim: 'trimmed',
+  cap: 'capped',
+  'set-missing': 'set to missing'
+};
+
+/** Short description of a logged treatment's effect on one variable, e.g. "4 outliers winsorized". */
+export const describeTreatment = (treatment: OutlierTreatment, cells: number) =>
+  `${cells} outlier${cells === 1 ? '' : 's'} ${TREATED_VALUE_LABELS[treatment]}`;
+
+/** Conventional cut-offs: 1.5 × IQR, |z| > 3, |robust z| > 3.5 and the 99.9% chi-square quantile. */
+export const DEFAULT_OUTLIER_THRESHOLDS: Record<OutlierMethod, number> = {
+  iqr: 1.5,
+  'z-score': 3,
+  'robust-z': 3.5,
+  mahalanobis: 0.999
+};
+
+export const DEFAULT_CAP_PERCENTILE = 99;
+
+/** Treatments that apply to the flagged rows of a multivariate check; the others need a single variable's tails. */
+export const MULTIVARIATE_TREATMENTS: OutlierTreatment[] = ['trim', 'set-missing'];
+
+export interface OutlierFlag {
+  /** 0-based data row. */
+  row: number;
+  /** Distance past the centre in the method's units: IQRs beyond the quartile, |z|, or squared Mahalanobis distance. */
+  score: number;
+  /** Univariate methods: the tail the value lies in. */
+  side?: 'low' | 'high';
+}
+
+export interface OutlierReport {
+  spec: OutlierSpec;
+  flags: OutlierFlag[];
+  /** Rows with a value for every variable checked. */
+  checked: number;
+  /** Univariate methods: values outside these bounds are flagged. */
+  fences?: [number, number];
+  /** Mahalanobis: squared distances above this are flagged. */
+  cutoff?: number;
+}
+
+const numericValue = (value: CellValue): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+const findNumericVariable = (data: ProcessedSurveyData, name: string): SurveyVariable => {
+  const variable = data.variables.find(candidate => candidate.name === name);
+  if (!variable) throw new Error(`Variable "${name}" was not found`);
+  if (variable.type !== 'numeric') throw new Error(`Outliers can only be checked on numeric variables; "${name}" is ${variable.type}`);
+  return variable;
+};
+
+/** Rows with a usable number, with coded missing values left out. */
+const observedNumbers = (variable: SurveyVariable) => {
+  const rows: number[] = [];
+  const values: number[] = [];
+  variable.values.forEach((value, row) => {
+    if (missingCategoryOf(value, variable) !== null) return;
+    const number = numericValue(value);
+    if (Number.isFinite(number)) {
+      rows.push(row);
+      values.push(number);
+    }
+  });
+  return { rows, values };
+};
+
+/** Quantile of sorted numbers with linear interpolation between order statistics. */
+const quantile = (sorted: number[], p: number) => {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+/** Inverse standard normal distribution function (Acklam's rational approximation). */
+const normalQuantile = (p: number) => {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const tail = (q: number) =>
+    (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+    ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  if (p < 0.02425) return tail(Math.sqrt(-2 * Math.log(p)));
+  if (p > 1 - 0.02425) return -tail(Math.sqrt(-2 * Math.log(1 - p)));
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+/** Chi-square quantile by the Wilson-Hilferty approximation. */
+const chiSquareQuantile = (p: number, degrees: number) => {
+  const h = 2 / (9 * degrees);
+  return degrees * Math.pow(1 - h + normalQuantile(p) * Math.sqrt(h), 3);
+};
+
+const univariateFences = (method: OutlierMethod, sorted: number[], threshold: number, name: string) => {
+  const noSpread = new Error(`"${name}" has no spread to measure outliers against; try another method`);
+  switch (method) {
+    case 'iqr': {
+      const q1 = quantile(sorted, 0.25);
+      const q3 = quantile(sorted, 0.75);
+      const iqr = q3 - q1;
+      if (iqr === 0) throw noSpread;
+      return {
+        fences: [q1 - threshold * iqr, q3 + threshold * iqr] as [number, number],
+        score: (x: number) => (x > q3 ? (x - q3) / iqr : x < q1 ? (q1 - x) / iqr : 0)
+      };
+    }
+    case 'z-score': {
+      const mean = sorted.reduce((sum, x) => sum + x, 0) / sorted.length;
+      const sd = Math.sqrt(sorted.reduce((sum, x) => sum + (x - mean) ** 2, 0) / (sorted.length - 1));
+      if (!(sd > 0)) throw noSpread;
+      return {
+        fences: [mean - threshold * sd, mean + threshold * sd] as [number, number],
+        score: (x: number) => Math.abs(x - mean) / sd
+      };
+    }
+    default: {
+      // MAD scaled to estimate the standard deviation of normal data
+      const median = quantile(sorted, 0.5);
+      const deviations = sorted.map(x => Math.abs(x - median)).sort((a, b) => a - b);
+      const scale = quantile(deviations, 0.5) / 0.6745;
+      if (scale === 0) throw noSpread;
+      return {
+        fences: [median - threshold * scale, median + threshold * scale] as [number, number],
+        score: (x: number) => Math.abs(x - median) / scale
+      };
+    }
+  }
+};
+
+const detectMahalanobis = (data: ProcessedSurveyData, spec: OutlierSpec): OutlierReport => {
+  if (spec.variables.length < 2) throw new Error('Mahalanobis distance needs at least two variables');
+  const variables = spec.variables.map(name => findNumericVariable(data, name));
+  const observed = variables.map(variable => {
+    const { rows, values } = observedNumbers(variable);
+    return new Map(rows.map((row, i) => [row, values[i]]));
+  });
+  // Only rows answered on every variable have a distance
+  const rows = [...observed[0].keys()].filter(row => observed.every(values => values.has(row)));
+  const p = variables.length;
+  if (rows.length <= p) throw new Error('Too few rows answer every variable to estimate their covariance');
+
+  const points = rows.map(row => observed.map(values => values.get(row)!));
+  const means = variables.map((_, j) => points.reduce((sum, point) => sum + point[j], 0) / points.length);
+  const covariance = variables.map((_, j) =>
+    variables.map((_, k) =>
+      points.reduce((sum, point) => sum + (point[j] - means[j]) * (point[k] - means[k]), 0) / (points.length - 1)
+    )
+  );
+  const inverse = invertMatrix(covariance);
+  const cutoff = chiSquareQuantile(spec.threshold, p);
+
+  const flags: OutlierFlag[] = [];
+  points.forEach((point, i) => {
+    const centred = point.map((x, j) => x - means[j]);
+    const distance = dot(centred, inverse.map(row => dot(row, centred)));
+    if (distance > cutoff) flags.push({ row: rows[i], score: distance });
+  });
+  return { spec, flags, checked: rows.length, cutoff };
+};
+
+/**
+ * Flags outlying rows. IQR, z and robust-z check one variable against
+ * fences around its centre; Mahalanobis distance checks the joint values of
+ * several variables against a chi-square cut-off. Missing values are skipped.
+ */
+export const detectOutliers = (data: ProcessedSurveyData, spec: OutlierSpec): OutlierReport => {
+  if (spec.method === 'mahalanobis') return detectMahalanobis(data, spec);
+
+  const variable = findNumericVariable(data, spec.variables[0]);
+  const { rows, values } = observedNumbers(variable);
+  if (values.length < 3) throw new Error(`"${variable.name}" has too few values to check for outliers`);
+  const { fences, score } = univariateFences(
+    spec.method, [...values].sort((a, b) => a - b), spec.threshold, variable.name
+  );
+
+  const flags: OutlierFlag[] = [];
+  values.forEach((value, i) => {
+    if (value < fences[0]) flags.push({ row: rows[i], score: score(value), side: 'low' });
+    else if (value > fences[1]) flags.push({ row: rows[i], score: score(value), side: 'high' });
+  });
+  return { spec: { ...spec, variables: [variable.name] }, flags, checked: values.length, fences };
+};
+
+/** Replacement values for the flagged cells of one variable. */
+const treatedValues = (
+  variable: SurveyVariable,
+  flags: OutlierFlag[],
+  treatment: OutlierTreatment,
+  percentile: number
+): CellValue[] => {
+  if (treatment === 'trim' || treatment === 'set-missing') return flags.map(() => null);
+
+  const { rows, values } = observedNumbers(variable);
+  if (treatment === 'cap') {
+    const sorted = [...values].sort((a, b) => a - b);
+    const upper = quantile(sorted, percentile / 100);
+    const lower = quantile(sorted, 1 - percentile / 100);
+    return flags.map(flag => {
+      const value = numericValue(variable.values[flag.row]);
+      return flag.side === 'low' ? Math.max(value, lower) : Math.min(value, upper);
+    });
+  }
+
+  // Winsorizing pulls each value in to the most extreme value left unflagged
+  const flagged = new Set(flags.map(flag => flag.row));
+  const kept = values.filter((_, i) => !flagged.has(rows[i]));
+  if (kept.length === 0) throw new Error(`Every value of "${variable.name}" is flagged; nothing is left to winsorize to`);
+  let lowest = Infinity;
+  let highest = -Infinity;
+  for (const value of kept) {
+    if (value < lowest) lowest = value;
+    if (value > highest) highest = value;
+  }
+  return flags.map(flag => (flag.side === 'low' ? lowest : highest));
+};
+
+/**
+ * Returns a copy of the dataset with a treatment applied to the flagged
+ * rows of `report` (or the chosen subset of them) and logged. Multivariate
+ * flags can only be trimmed or set to missing, on every variable checked.
+ */
+export const treatOutliers = (
+  data: ProcessedSurveyData,
+  report: OutlierReport,
+  treatment: OutlierTreatment,
+  options: { rows?: number[]; percentile?: number } = {}
+): ProcessedSurveyData => {
+  const { spec } = report;
+  if (spec.method === 'mahalanobis' && !MULTIVARIATE_TREATMENTS.includes(treatment)) {
+    throw new Error('Rows flagged by Mahalanobis distance can only be trimmed or set to missing');
+  }
+  const selected = options.rows ? new Set(options.rows) : null;
+  const flags = report.flags.filter(flag => !selected || selected.has(flag.row));
+  if (flags.length === 0) throw new Error('No flagged rows are selected');
+  const percentile = options.percentile ?? DEFAULT_CAP_PERCENTILE;
+
+  let next = data;
+  const changes: TransformationRecord['changes'] = [];
+  spec.variables.forEach(name => {
+    const variable = findNumericVariable(next, name);
+    const rows = flags.map(flag => flag.row);
+    const original = rows.map(row => variable.values[row]);
+    const treated = treatedValues(variable, flags, treatment, percentile);
+    const changed = rows.flatMap((row, i) => (original[i] === treated[i] ? [] : [i]));
+    if (changed.length === 0) return;
+    changes.push({
+      variable: name,
+      rows: changed.map(i => rows[i]),
+      original: changed.map(i => original[i]),
+      treated: changed.map(i => treated[i])
+    });
+    next = replaceCellValues(next, name, changed.map(i => rows[i]), changed.map(i => treated[i]));
+  });
+  if (changes.length === 0) throw new Error('The treatment leaves every selected value unchanged');
+
+  const record: TransformationRecord = {
+    kind: 'outlier-treatment',
+    method: spec.method,
+    threshold: spec.threshold,
+    treatment,
+    ...(treatment === 'cap' ? { percentile } : {}),
+    appliedAt: new Date().toISOString(),
+    changes
+  };
+  return { ...next, transformations: [...(data.transformations ?? []), record] };
+};
+
+/**
+ * Returns a copy of the dataset with the most recent treatment undone.
+ * Earlier treatments can only be undone in reverse order, since a later one
+ * may have changed the same cells.
+ */
+export const undoLastTransformation = (data: ProcessedSurveyData): ProcessedSurveyData => {
+  const log = data.transformations ?? [];
+  const record = log[log.length - 1];
+  if (!record) return data;
+  const imputed = record.changes.find(change =>
+    data.imputations?.some(imputation => imputation.variable === change.variable)
+  );
+  if (imputed) throw new Error(`Remove the imputation of "${imputed.variable}" before undoing this treatment`);
+
+  const restored = record.changes.reduce(
+    (next, change) => replaceCellValues(next, change.variable, change.rows, change.original),
+    data
+  );
+  return { ...restored, transformations: log.slice(0, -1) };
+};
+
+const changedCells = (records: TransformationRecord[]) => {
+  const cells = new Map<string, Set<number>>();
+  records.forEach(record =>
+    record.changes.forEach(change => {
+      const rows = cells.get(change.variable) ?? new Set<number>();
+      change.rows.forEach(row => rows.add(row));
+      cells.set(change.variable, rows);
+    })
+  );
+  return cells;
+};
+
+/** Cells changed by any treatment, keyed by variable, for flagging cells in previews. */
+export const treatedCells = (data: ProcessedSurveyData): Map<string, Set<number>> =>
+  changedCells(data.transformations ?? []);
+
+/** Cells dropped by trimming; they stay missing rather than being imputed. */
+export const trimmedCells = (data: ProcessedSurveyData): Map<string, Set<number>> =>
+  changedCells((data.transformations ?? []).filter(record => record.treatment === 'trim'));
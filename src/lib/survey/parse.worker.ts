@@ -0,0 +1,226 @@
+import { parseCodebookJson, parseCodebookRows } from './codebook';
+import { createCsvParser, parseCsv, sniffCsvDialect, type CsvDialect } from './csv';
+import { buildSurveyDataFromColumns, isMissingCell } from './dataset';
+import {
+  MAX_HEADER_ROWS,
+  buildPlatformSurveyData,
+  platformLayout,
+  type ImportProfile,
+  type PlatformLayout
+} from './platforms';
+import { readSpss } from './spss';
+import { readStata } from './stata';
+import { isXlsForm, parseXlsForm } from './xlsform';
+import { readWorkbook, type Workbook } from './xlsx';
+import type { CellValue } from './types';
+import type { ParserRequest, ParserResponse } from './parser-protocol';
+
+/**
+ * Parses survey files off the main thread. Each request carries an id that
+ * is echoed back on its progress, result and error messages. An opened
+ * workbook stays in worker memory so sheets can be previewed and imported
+ * without sending the file again.
+ */
+
+let workbook: Workbook | null = null;
+let workbookName = '';
+const sheetCache = new Map<string, CellValue[][]>();
+
+const post = (message: ParserResponse) => self.postMessage(message);
+
+const progressReporter = (id: number) => {
+  let last = -1;
+  return (progress: number, stage: string) => {
+    const rounded = Math.floor(progress);
+    if (rounded === last) return;
+    last = rounded;
+    post({ id, type: 'progress', progress: rounded, stage });
+  };
+};
+
+/** Bytes read from the start of a CSV file to detect its dialect. */
+const SNIFF_BYTES = 64 * 1024;
+
+const sniffCsvFile = async (file: File, override: Partial<CsvDialect>, previewRows: number) => {
+  const sample = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  const { dialect, detected, text } = sniffCsvDialect(sample, override);
+  const rows = parseCsv(text, dialect).filter(row => row.some(field => field !== ''));
+  // A truncated sample may end mid-record, so only show complete rows
+  const complete = file.size > SNIFF_BYTES ? rows.slice(0, -1) : rows;
+  return { dialect, detected, rows: complete.slice(0, previewRows) };
+};
+
+const parseCsvFile = async (
+  file: File,
+  dialect: CsvDialect,
+  profile: ImportProfile,
+  report: (progress: number, stage: string) => void
+) => {
+  // Leading rows are held back until the profile has decided how many are headers
+  const leading: string[][] = [];
+  let layout: PlatformLayout | null = null;
+  const columns: CellValue[][] = [];
+
+  const pushRow = (fields: string[]) => {
+    for (let column = 0; column < columns.length; column++) {
+      columns[column].push(fields[column] ?? null);
+    }
+  };
+
+  const resolveLayout = () => {
+    layout = platformLayout(profile.platform, leading);
+    layout.headers.forEach(() => columns.push([]));
+    leading.slice(layout.headerRows).forEach(pushRow);
+  };
+
+  const parser = createCsvParser(fields => {
+    if (fields.every(field => field === '')) return;
+    if (layout) {
+      pushRow(fields);
+      return;
+    }
+    leading.push(fields);
+    if (leading.length === MAX_HEADER_ROWS) resolveLayout();
+  }, dialect);
+
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder(dialect.encoding);
+  let loaded = 0;
+  report(0, 'Reading file');
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    loaded += value.byteLength;
+    parser.push(decoder.decode(value, { stream: true }));
+    report((loaded / Math.max(file.size, 1)) * 90, 'Reading file');
+  }
+  parser.push(decoder.decode());
+  parser.end();
+  if (!layout && leading.length > 0) resolveLayout();
+
+  if (!layout || columns[0]?.length === 0) {
+    throw new Error('CSV file must have at least a header and one data row');
+  }
+
+  report(90, 'Profiling variables');
+  return buildPlatformSurveyData(file.name, layout, columns, profile.platformColumns);
+};
+
+/**
+ * Codebooks are small, so they are read whole. XLSX codebooks use their
+ * first sheet, unless the workbook is an XLSForm questionnaire.
+ */
+const parseCodebookFile = async (file: File) => {
+  if (/\.json$/i.test(file.name)) {
+    return parseCodebookJson(await file.text());
+  }
+  if (/\.xlsx$/i.test(file.name)) {
+    const book = readWorkbook(await file.arrayBuffer());
+    if (isXlsForm(book.sheetNames)) return parseXlsForm(book);
+    return parseCodebookRows(book.readSheet(book.sheetNames[0]));
+  }
+  const { dialect } = sniffCsvDialect(new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer()));
+  const text = new TextDecoder(dialect.encoding).decode(await file.arrayBuffer());
+  return parseCodebookRows(parseCsv(text, dialect).filter(row => row.some(field => field !== '')));
+};
+
+const readCachedSheet = (sheetName: string) => {
+  if (!workbook) throw new Error('No workbook is open');
+  let rows = sheetCache.get(sheetName);
+  if (!rows) {
+    rows = workbook.readSheet(sheetName);
+    sheetCache.set(sheetName, rows);
+  }
+  return rows;
+};
+
+const handleRequest = async (request: ParserRequest) => {
+  const report = progressReporter(request.id);
+
+  switch (request.type) {
+    case 'sniff-csv':
+      return sniffCsvFile(request.file, request.override, request.previewRows);
+
+    case 'parse-csv':
+      return parseCsvFile(request.file, request.dialect, request.profile, report);
+
+    case 'parse-statistical': {
+      report(0, 'Reading file');
+      const buffer = await request.file.arrayBuffer();
+      report(30, 'Decoding records');
+      const table = request.format === 'spss' ? readSpss(buffer) : readStata(buffer);
+      if (table.columns.length === 0 || table.columns[0].length === 0) {
+        throw new Error('The file does not contain any cases');
+      }
+      report(80, 'Profiling variables');
+      return buildSurveyDataFromColumns(
+        request.file.name,
+        table.headers,
+        table.columns,
+        undefined,
+        table.metadata
+      );
+    }
+
+    case 'open-workbook': {
+      report(0, 'Reading file');
+      const buffer = await request.file.arrayBuffer();
+      report(40, 'Unpacking workbook');
+      workbook = readWorkbook(buffer);
+      workbookName = request.file.name;
+      sheetCache.clear();
+      report(100, 'Workbook ready');
+      return { sheetNames: workbook.sheetNames };
+    }
+
+    case 'read-sheet': {
+      const rows = readCachedSheet(request.sheetName);
+      return { rows: rows.slice(0, request.previewRows), rowCount: rows.length };
+    }
+
+    case 'import-sheet': {
+      const rows = readCachedSheet(request.sheetName);
+      const headerIndex = request.headerRow - 1;
+      const layout = platformLayout(
+        request.profile.platform,
+        rows.slice(headerIndex, headerIndex + MAX_HEADER_ROWS)
+      );
+      if (headerIndex < 0 || headerIndex + layout.headerRows >= rows.length) {
+        throw new Error('The header rows must be followed by at least one data row');
+      }
+      report(50, 'Profiling variables');
+      const dataRows = rows
+        .slice(headerIndex + layout.headerRows)
+        .filter(row => row.some(value => !isMissingCell(value)));
+      if (dataRows.length === 0) {
+        throw new Error('The selected sheet has no data below the header rows');
+      }
+      const columns = layout.headers.map((_, column) => dataRows.map(row => row[column] ?? null));
+      return buildPlatformSurveyData(
+        workbookName,
+        layout,
+        columns,
+        request.profile.platformColumns,
+        request.sheetName
+      );
+    }
+
+    case 'parse-codebook':
+      return parseCodebookFile(request.file);
+  }
+};
+
+self.onmessage = async (event: MessageEvent<ParserRequest>) => {
+  const request = event.data;
+  try {
+    const result = await handleRequest(request);
+    post({ id: request.id, type: 'result', result });
+  } catch (error) {
+    post({
+      id: request.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Failed to parse file'
+    });
+  }
+};
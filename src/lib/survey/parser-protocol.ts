@@ -0,0 +1,47 @@
+import type { CodebookEntry } from './codebook';
+import type { CsvDialect } from './csv';
+import type { ImportProfile } from './platforms';
+import type { CellValue, ProcessedSurveyData } from './types';
+
+/** Messages exchanged between the UI thread and `parse.worker.ts`. */
+
+export type ParserRequest =
+  | { id: number; type: 'sniff-csv'; file: File; override: Partial<CsvDialect>; previewRows: number }
+  | { id: number; type: 'parse-csv'; file: File; dialect: CsvDialect; profile: ImportProfile }
+  | { id: number; type: 'parse-statistical'; file: File; format: 'spss' | 'stata' }
+  | { id: number; type: 'open-workbook'; file: File }
+  | { id: number; type: 'read-sheet'; sheetName: string; previewRows: number }
+  | { id: number; type: 'import-sheet'; sheetName: string; headerRow: number; profile: ImportProfile }
+  | { id: number; type: 'parse-codebook'; file: File };
+
+export type ParserResponse =
+  | { id: number; type: 'progress'; progress: number; stage: string }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string };
+
+export interface SheetPreview {
+  rows: CellValue[][];
+  rowCount: number;
+}
+
+export interface CsvPreview {
+  /** The dialect to import with: detected values with any overrides applied. */
+  dialect: CsvDialect;
+  detected: CsvDialect;
+  rows: string[][];
+}
+
+export interface ParserResults {
+  'sniff-csv': CsvPreview;
+  'parse-csv': ProcessedSurveyData;
+  'parse-statistical': ProcessedSurveyData;
+  'open-workbook': { sheetNames: string[] };
+  'read-sheet': SheetPreview;
+  'import-sheet': ProcessedSurveyData;
+  'parse-codebook': CodebookEntry[];
+}
+
+/** Distributes `Omit` over each member of a union. */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export type ParserCommand = DistributiveOmit<ParserRequest, 'id'>;
@@ -0,0 +1,218 @@
+import { buildSurveyDataFromColumns, formatCellValue, isMissingCell } from './dataset';
+import type { CellValue, ProcessedSurveyData, VariableMetadata } from './types';
+
+/**
+ * Import profiles for exports from online survey platforms. These files put
+ * question text and option names in extra header rows beneath the column
+ * names and add columns the platform records about each response (IP
+ * address, location, timestamps) that are not survey questions.
+ */
+
+export type SurveyPlatform = 'generic' | 'qualtrics' | 'surveymonkey' | 'google-forms';
+
+/** What to do with columns the platform adds about each response. */
+export type PlatformColumnHandling = 'drop' | 'flag' | 'keep';
+
+export interface ImportProfile {
+  platform: SurveyPlatform;
+  platformColumns: PlatformColumnHandling;
+}
+
+export const SURVEY_PLATFORM_LABELS: Record<SurveyPlatform, string> = {
+  generic: 'Plain table (one header row)',
+  qualtrics: 'Qualtrics',
+  surveymonkey: 'SurveyMonkey',
+  'google-forms': 'Google Forms'
+};
+
+export const PLATFORM_COLUMN_LABELS: Record<PlatformColumnHandling, string> = {
+  drop: 'Drop platform columns',
+  flag: 'Keep and flag platform columns',
+  keep: 'Keep as ordinary variables'
+};
+
+export const DEFAULT_IMPORT_PROFILE: ImportProfile = { platform: 'generic', platformColumns: 'drop' };
+
+/** The most header rows any profile uses; enough leading rows to lay out a file. */
+export const MAX_HEADER_ROWS = 3;
+
+export interface PlatformLayout {
+  /** Rows at the top of the file that are headers rather than responses. */
+  headerRows: number;
+  headers: string[];
+  metadata: VariableMetadata[];
+  /** Indexes of the columns the platform adds about each response. */
+  platformColumns: number[];
+}
+
+const headerKey = (value: CellValue | undefined) =>
+  isMissingCell(value ?? null) ? '' : formatCellValue(value).trim().toLowerCase();
+
+const QUALTRICS_COLUMNS = new Set([
+  'startdate', 'enddate', 'status', 'ipaddress', 'progress', 'duration (in seconds)', 'finished',
+  'recordeddate', 'recipientlastname', 'recipientfirstname', 'recipientemail', 'externalreference',
+  'externaldatareference', 'locationlatitude', 'locationlongitude', 'distributionchannel', 'userlanguage'
+]);
+
+const SURVEYMONKEY_COLUMNS = new Set([
+  'collector id', 'start date', 'end date', 'ip address', 'email address', 'first name', 'last name'
+]);
+
+const GOOGLE_FORMS_COLUMNS = new Set(['timestamp', 'email address', 'score']);
+
+const isPlatformColumn = (platform: SurveyPlatform, key: string) => {
+  switch (platform) {
+    case 'qualtrics':
+      // Q_RecaptchaScore, Q_TotalDuration and other Q_ fields are system data
+      return QUALTRICS_COLUMNS.has(key) || key.startsWith('q_');
+    case 'surveymonkey':
+      return SURVEYMONKEY_COLUMNS.has(key) || key.startsWith('custom data');
+    case 'google-forms':
+      return GOOGLE_FORMS_COLUMNS.has(key);
+    default:
+      return false;
+  }
+};
+
+const isQualtricsImportRow = (row: CellValue[] | undefined) =>
+  (row ?? []).some(value => typeof value === 'string' && value.trim().startsWith('{"ImportId"'));
+
+/** Guesses the platform a file was exported from by its leading rows. */
+export const detectSurveyPlatform = (rows: CellValue[][]): SurveyPlatform => {
+  const first = (rows[0] ?? []).map(headerKey);
+  if (
+    isQualtricsImportRow(rows[2]) ||
+    first.includes('responseid') ||
+    (first.includes('startdate') && first.includes('enddate'))
+  ) {
+    return 'qualtrics';
+  }
+  if (first.includes('respondent id') && first.includes('collector id')) return 'surveymonkey';
+  if (first[0] === 'timestamp') return 'google-forms';
+  return 'generic';
+};
+
+const cellText = (row: CellValue[] | undefined, column: number) => {
+  const value = row?.[column] ?? null;
+  return isMissingCell(value) ? '' : formatCellValue(value).trim();
+};
+
+const platformColumnsOf = (platform: SurveyPlatform, headers: string[]) =>
+  headers.flatMap((header, index) => (isPlatformColumn(platform, header.toLowerCase()) ? [index] : []));
+
+// Row 1 holds the column names, row 2 the question text and, in newer
+// exports, row 3 a JSON ImportId for each column
+const qualtricsLayout = (rows: CellValue[][]): PlatformLayout => {
+  const headers = (rows[0] ?? []).map((_, column) => cellText(rows[0], column));
+  const metadata = headers.map((header, column) => {
+    const text = cellText(rows[1], column);
+    return text && text !== header ? { label: text } : {};
+  });
+  return {
+    headerRows: isQualtricsImportRow(rows[2]) ? 3 : 2,
+    headers,
+    metadata,
+    platformColumns: platformColumnsOf('qualtrics', headers)
+  };
+};
+
+// Row 1 holds the question, written once above all of its option columns,
+// and row 2 the option ("Response" for single-answer questions)
+const surveyMonkeyLayout = (rows: CellValue[][]): PlatformLayout => {
+  const width = Math.max(rows[0]?.length ?? 0, rows[1]?.length ?? 0);
+  const headers: string[] = [];
+  const metadata: VariableMetadata[] = [];
+  const platformColumns: number[] = [];
+  let question = '';
+  let questionNumber = 0;
+  let optionNumber = 0;
+
+  for (let column = 0; column < width; column++) {
+    const top = cellText(rows[0], column);
+    const option = cellText(rows[1], column);
+
+    if (top && (isPlatformColumn('surveymonkey', top.toLowerCase()) || top.toLowerCase() === 'respondent id')) {
+      question = '';
+      if (top.toLowerCase() !== 'respondent id') platformColumns.push(column);
+      headers.push(top);
+      metadata.push({});
+      continue;
+    }
+
+    if (top) {
+      question = top;
+      questionNumber++;
+      optionNumber = 0;
+    }
+    optionNumber++;
+    const multiple = optionNumber > 1 || (top !== '' && column + 1 < width && !cellText(rows[0], column + 1));
+    const generic = !option || (!multiple && /^(open-ended )?response$/i.test(option));
+    headers.push(multiple ? `Q${questionNumber}_${optionNumber}` : `Q${questionNumber}`);
+    metadata.push(question ? { label: generic ? question : `${question} - ${option}` } : {});
+  }
+  return { headerRows: 2, headers, metadata, platformColumns };
+};
+
+// One header row whose cells are the full question text
+const googleFormsLayout = (rows: CellValue[][]): PlatformLayout => {
+  const texts = (rows[0] ?? []).map((_, column) => cellText(rows[0], column));
+  const platformColumns = platformColumnsOf('google-forms', texts);
+  let questionNumber = 0;
+  const headers = texts.map((text, column) =>
+    platformColumns.includes(column) ? text : `Q${++questionNumber}`
+  );
+  return {
+    headerRows: 1,
+    headers,
+    metadata: texts.map((text, column) => (platformColumns.includes(column) || !text ? {} : { label: text })),
+    platformColumns
+  };
+};
+
+/** Reads the header rows at the top of a file as laid out by `platform`. */
+export const platformLayout = (platform: SurveyPlatform, leadingRows: CellValue[][]): PlatformLayout => {
+  switch (platform) {
+    case 'qualtrics':
+      return qualtricsLayout(leadingRows);
+    case 'surveymonkey':
+      return surveyMonkeyLayout(leadingRows);
+    case 'google-forms':
+      return googleFormsLayout(leadingRows);
+    default:
+      return {
+        headerRows: 1,
+        headers: (leadingRows[0] ?? []).map(value => (isMissingCell(value) ? '' : formatCellValue(value))),
+        metadata: [],
+        platformColumns: []
+      };
+  }
+};
+
+/**
+ * Builds the processed dataset from the columns below a platform layout's
+ * header rows, dropping or flagging the platform's own columns.
+ */
+export const buildPlatformSurveyData = (
+  fileName: string,
+  layout: PlatformLayout,
+  columns: CellValue[][],
+  handling: PlatformColumnHandling,
+  sheetName?: string
+): ProcessedSurveyData => {
+  const platformColumns = new Set(handling === 'keep' ? [] : layout.platformColumns);
+  const kept = layout.headers.flatMap((_, column) =>
+    handling === 'drop' && platformColumns.has(column) ? [] : [column]
+  );
+  if (kept.length === 0) throw new Error('The file has no survey questions besides platform columns');
+
+  return buildSurveyDataFromColumns(
+    fileName,
+    kept.map(column => layout.headers[column]),
+    kept.map(column => columns[column] ?? []),
+    sheetName,
+    kept.map(column => ({
+      ...layout.metadata[column],
+      ...(platformColumns.has(column) ? { platformField: true } : {})
+    }))
+  );
+};
@@ -0,0 +1,30 @@
+/**
+ * Seeded pseudo-random numbers, so that randomized procedures (hot-deck
+ * donors, multiple-imputation draws) give the same result when repeated
+ * with the same seed.
+ */
+
+export type RandomSource = () => number;
+
+/** Uniform numbers in [0, 1) from the mulberry32 generator. */
+export const seededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** A standard normal deviate (Box-Muller). */
+export const normalDeviate = (random: RandomSource): number => {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+/** A uniformly chosen element of a non-empty list. */
+export const pickRandom = <T>(items: T[], random: RandomSource): T =>
+  items[Math.floor(random() * items.length)];
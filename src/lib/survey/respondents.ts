@@ -0,0 +1,298 @@
+import { formatCellValue, missingCategoryOf } from './dataset';
+import type {
+  CellValue,
+  ProcessedSurveyData,
+  RespondentCheck,
+  RespondentCheckOptions,
+  RespondentFlag,
+  SurveyVariable
+} from './types';
+
+/**
+ * Respondent-level quality checks for online panels: duplicate completes,
+ * repeated respondent IDs, straight-lining, speeders and gibberish open
+ * ends. Checks only flag rows; the rows chosen for exclusion are kept on the
+ * dataset as `excludedRows` and left out of parameter estimates.
+ */
+
+export const RESPONDENT_CHECK_LABELS: Record<RespondentCheck, string> = {
+  duplicate: 'Duplicate',
+  'near-duplicate': 'Near-duplicate',
+  'repeated-id': 'Repeated ID',
+  'straight-lining': 'Straight-lining',
+  speeder: 'Speeder',
+  gibberish: 'Gibberish'
+};
+
+export const DEFAULT_SPEEDER_FRACTION = 0.5;
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.95;
+
+/** Rows with fewer answers than this are not compared for duplicates, and grids need this many items. */
+const MIN_ANSWERS = 3;
+
+const ID_NAME = /^(response|respondent|resp|participant|panel(ist)?|user|case)?[\s_.-]*id$/i;
+const DURATION_NAME = /duration|seconds|loi|time[\s_.-]*taken|length[\s_.-]*of[\s_.-]*interview/i;
+
+const isAnswered = (value: CellValue, variable: SurveyVariable) => missingCategoryOf(value, variable) === null;
+
+const numericValue = (value: CellValue): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+/**
+ * Groups of variables that look like the items of one grid question:
+ * three or more scale variables whose names differ only in a trailing
+ * number or letter, e.g. `q5_1`, `q5_2`, `q5_3`.
+ */
+export const suggestGridGroups = (data: ProcessedSurveyData): string[][] => {
+  const groups = new Map<string, string[]>();
+  data.variables
+    .filter(variable => variable.type === 'numeric' || variable.type === 'ordinal' || variable.type === 'categorical')
+    .forEach(variable => {
+      const match = variable.name.match(/^(.*?)[\s_.-]?(\d+|[a-z])$/i);
+      if (!match || !match[1]) return;
+      groups.set(match[1], [...(groups.get(match[1]) ?? []), variable.name]);
+    });
+  return [...groups.values()].filter(group => group.length >= MIN_ANSWERS);
+};
+
+/** Starting options: the ID and duration columns found by name or type, and every open-ended variable. */
+export const suggestRespondentCheckOptions = (data: ProcessedSurveyData): RespondentCheckOptions => ({
+  idVariable: (
+    data.variables.find(variable => variable.type === 'identifier' && ID_NAME.test(variable.name)) ??
+    data.variables.find(variable => ID_NAME.test(variable.name)) ??
+    data.variables.find(variable => variable.type === 'identifier')
+  )?.name,
+  durationVariable: data.variables.find(variable => variable.type === 'numeric' && DURATION_NAME.test(variable.name))?.name,
+  speederFraction: DEFAULT_SPEEDER_FRACTION,
+  gridVariables: [],
+  similarityThreshold: DEFAULT_SIMILARITY_THRESHOLD,
+  openEndVariables: data.variables.filter(variable => variable.type === 'text').map(variable => variable.name)
+});
+
+const KEYBOARD_RUNS = ['qwert', 'werty', 'asdf', 'sdfg', 'dfgh', 'fghj', 'ghjk', 'hjkl', 'zxcv', 'xcvb', 'uiop', 'yuio'];
+
+/**
+ * Why an open-ended answer looks like gibberish, or null. Only answers
+ * written in the Latin alphabet are judged; short answers such as "no" and
+ * answers in other scripts are never flagged.
+ */
+export const gibberishReason = (text: string): string | null => {
+  const answer = text.trim().toLowerCase();
+  if (answer.length < MIN_ANSWERS) return null;
+  if (!/[\p{L}\d]/u.test(answer)) return 'has no letters or digits';
+  if (!/[a-z]/.test(answer)) return null;
+  if (/(.)\1{3,}/.test(answer)) return 'repeats one character';
+  if (KEYBOARD_RUNS.some(run => answer.includes(run) || answer.includes([...run].reverse().join('')))) {
+    return 'looks like keyboard mashing';
+  }
+
+  const words = answer.match(/[a-z]+/g) ?? [];
+  if (words.some(word => word.length >= 6 && !/[aeiouy]/.test(word))) return 'has words without vowels';
+  if (words.some(word => /[^aeiouy]{6,}/.test(word))) return 'has long runs of consonants';
+
+  const letters = words.join('');
+  if (letters.length >= 8 && new Set(letters).size / letters.length < 0.25) return 'repeats a few letters';
+  return null;
+};
+
+const findVariable = (data: ProcessedSurveyData, name: string) => {
+  const variable = data.variables.find(candidate => candidate.name === name);
+  if (!variable) throw new Error(`Variable "${name}" was not found`);
+  return variable;
+};
+
+const median = (sorted: number[]) => {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+/**
+ * Duplicate and near-duplicate completes. Each row is compared with the
+ * earlier rows and flagged against the first one it matches, so one copy of
+ * every duplicated response stays unflagged. Near-duplicates are found by
+ * splitting the answers into one more block than the number of differences
+ * allowed: two rows that close must agree on at least one whole block, so
+ * only rows sharing a block are compared. Blocks with no answers are not
+ * used to pair rows.
+ */
+const findDuplicates = (
+  data: ProcessedSurveyData,
+  options: RespondentCheckOptions,
+  flag: (row: number, check: RespondentCheck, detail: string) => void
+) => {
+  const compared = data.variables.filter(variable =>
+    variable.name !== options.idVariable &&
+    variable.name !== options.durationVariable &&
+    variable.type !== 'identifier' &&
+    variable.type !== 'date' &&
+    variable.type !== 'datetime' &&
+    !variable.platformField &&
+    variable.expression === undefined
+  );
+  if (compared.length === 0) return;
+
+  // Answers as text, with null for missing
+  const cells = Array.from({ length: data.totalRows }, (_, row) =>
+    compared.map(variable => {
+      const value = variable.values[row];
+      return isAnswered(value, variable) ? formatCellValue(value) : null;
+    })
+  );
+  const answered = cells.map(row => row.filter(cell => cell !== null).length);
+
+  const firstOf = new Map<string, number>();
+  const duplicated = new Set<number>();
+  cells.forEach((row, index) => {
+    if (answered[index] < MIN_ANSWERS) return;
+    const key = JSON.stringify(row);
+    const first = firstOf.get(key);
+    if (first === undefined) {
+      firstOf.set(key, index);
+    } else {
+      duplicated.add(index);
+      flag(index, 'duplicate', `Same answers as row ${first + 1}`);
+    }
+  });
+
+  const threshold = options.similarityThreshold;
+  if (threshold >= 1) return;
+  const allowed = Math.floor((1 - threshold) * compared.length);
+  const blockCount = Math.min(allowed + 1, compared.length);
+
+  const similarity = (a: number, b: number) => {
+    let shared = 0;
+    let matches = 0;
+    for (let column = 0; column < compared.length; column++) {
+      const left = cells[a][column];
+      const right = cells[b][column];
+      if (left === null && right === null) continue;
+      shared++;
+      if (left === right) matches++;
+    }
+    return shared === 0 ? 0 : matches / shared;
+  };
+
+  const best = new Map<number, { row: number; similarity: number }>();
+  for (let block = 0; block < blockCount; block++) {
+    const start = Math.floor((block * compared.length) / blockCount);
+    const end = Math.floor(((block + 1) * compared.length) / blockCount);
+    const buckets = new Map<string, number[]>();
+    cells.forEach((row, index) => {
+      if (answered[index] < MIN_ANSWERS || duplicated.has(index)) return;
+      const answers = row.slice(start, end);
+      if (answers.every(cell => cell === null)) return;
+      const key = JSON.stringify(answers);
+      const earlier = buckets.get(key);
+      if (earlier) {
+        earlier.forEach(other => {
+          if (best.get(index)?.row === other) return;
+          const score = similarity(other, index);
+          const current = best.get(index);
+          if (score >= threshold && (!current || score > current.similarity || (score === current.similarity && other < current.row))) {
+            best.set(index, { row: other, similarity: score });
+          }
+        });
+        earlier.push(index);
+      } else {
+        buckets.set(key, [index]);
+      }
+    });
+  }
+
+  best.forEach(({ row, similarity: score }, index) => {
+    flag(index, 'near-duplicate', `${Math.floor(score * 100)}% of answers match row ${row + 1}`);
+  });
+};
+
+/**
+ * Runs every check the options allow and returns the flagged respondents in
+ * row order. Checks that need a variable (ID, duration, grid, open ends) are
+ * skipped when none is chosen.
+ */
+export const checkRespondents = (data: ProcessedSurveyData, options: RespondentCheckOptions): RespondentFlag[] => {
+  if (!(options.speederFraction > 0 && options.speederFraction <= 1)) {
+    throw new Error('The speeder cut-off must be a fraction of the median between 0 and 1');
+  }
+  if (!(options.similarityThreshold > 0 && options.similarityThreshold <= 1)) {
+    throw new Error('The near-duplicate threshold must be a share between 0 and 1');
+  }
+
+  const flags = new Map<number, RespondentFlag>();
+  const flag = (row: number, check: RespondentCheck, detail: string) => {
+    const entry = flags.get(row) ?? { row, reasons: [] };
+    entry.reasons.push({ check, detail });
+    flags.set(row, entry);
+  };
+
+  findDuplicates(data, options, flag);
+
+  if (options.idVariable) {
+    const variable = findVariable(data, options.idVariable);
+    const firstOf = new Map<string, number>();
+    variable.values.forEach((value, row) => {
+      if (!isAnswered(value, variable)) return;
+      const id = formatCellValue(value).trim();
+      const first = firstOf.get(id);
+      if (first === undefined) firstOf.set(id, row);
+      else flag(row, 'repeated-id', `ID "${id}" also on row ${first + 1}`);
+    });
+  }
+
+  if (options.durationVariable) {
+    const variable = findVariable(data, options.durationVariable);
+    const durations = variable.values.map(value => (isAnswered(value, variable) ? numericValue(value) : NaN));
+    const valid = durations.filter(duration => Number.isFinite(duration) && duration > 0).sort((a, b) => a - b);
+    if (valid.length > 0) {
+      const typical = median(valid);
+      const cutoff = typical * options.speederFraction;
+      durations.forEach((duration, row) => {
+        if (Number.isFinite(duration) && duration < cutoff) {
+          flag(
+            row,
+            'speeder',
+            `Took ${formatNumber(duration)}, ${Math.round((duration / typical) * 100)}% of the median (${formatNumber(typical)})`
+          );
+        }
+      });
+    }
+  }
+
+  if (options.gridVariables.length >= MIN_ANSWERS) {
+    const items = options.gridVariables.map(name => findVariable(data, name));
+    for (let row = 0; row < data.totalRows; row++) {
+      const answers = items
+        .filter(variable => isAnswered(variable.values[row], variable))
+        .map(variable => formatCellValue(variable.values[row]));
+      if (answers.length >= MIN_ANSWERS && answers.every(answer => answer === answers[0])) {
+        flag(row, 'straight-lining', `Same answer (${answers[0]}) to all ${answers.length} grid items`);
+      }
+    }
+  }
+
+  options.openEndVariables.forEach(name => {
+    const variable = findVariable(data, name);
+    variable.values.forEach((value, row) => {
+      if (typeof value !== 'string' || !isAnswered(value, variable)) return;
+      const reason = gibberishReason(value);
+      if (reason) {
+        const excerpt = value.trim().length > 30 ? `${value.trim().slice(0, 30)}…` : value.trim();
+        flag(row, 'gibberish', `${name}: "${excerpt}" ${reason}`);
+      }
+    });
+  });
+
+  return [...flags.values()].sort((a, b) => a.row - b.row);
+};
+
+/** Returns a copy of the dataset with these rows left out of estimates; an empty list clears the exclusions. */
+export const setExcludedRows = (data: ProcessedSurveyData, rows: number[]): ProcessedSurveyData => {
+  const excluded = [...new Set(rows)]
+    .filter(row => Number.isInteger(row) && row >= 0 && row < data.totalRows)
+    .sort((a, b) => a - b);
+  return { ...data, excludedRows: excluded.length > 0 ? excluded : undefined };
+};
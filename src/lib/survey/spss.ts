@@ -0,0 +1,430 @@
+import { unzlibSync } from 'fflate';
+import { createBinaryReader, createDecoder, decodeText, type BinaryReader } from './binary';
+import type { CellValue, ImportedTable, VariableMetadata } from './types';
+
+/**
+ * Reader for SPSS system files (.sav, including zlib-compressed .zsav).
+ * Keeps variable labels, value labels, declared missing values and the
+ * measurement level; date-formatted numerics are returned as Dates.
+ */
+
+const SYSMIS = -Number.MAX_VALUE;
+// Seconds between the SPSS epoch (1582-10-14) and 1970-01-01.
+const SPSS_EPOCH_OFFSET = 12219379200;
+// Format type codes for DATE, DATETIME, ADATE, JDATE, QYR, MOYR, WKYR, EDATE, SDATE, YMDHMS.
+const DATE_FORMATS = new Set([20, 22, 23, 24, 28, 29, 30, 38, 39, 85]);
+
+const CODE_PAGES: Record<number, string> = {
+  437: 'ibm437',
+  850: 'ibm850',
+  874: 'windows-874',
+  932: 'shift_jis',
+  936: 'gbk',
+  949: 'euc-kr',
+  950: 'big5',
+  1250: 'windows-1250',
+  1251: 'windows-1251',
+  1252: 'windows-1252',
+  1253: 'windows-1253',
+  1254: 'windows-1254',
+  1255: 'windows-1255',
+  1256: 'windows-1256',
+  1257: 'windows-1257',
+  1258: 'windows-1258',
+  20127: 'us-ascii',
+  28591: 'iso-8859-1',
+  28605: 'iso-8859-15',
+  65001: 'utf-8'
+};
+
+interface RawVariable {
+  shortName: string;
+  name: string;
+  /** 0 for numeric, otherwise the string width in bytes. */
+  width: number;
+  /** Index of the variable's first 8-byte element within a case. */
+  element: number;
+  formatType: number;
+  labelBytes?: Uint8Array;
+  missingRaw: Uint8Array[];
+  missingCount: number;
+  metadata: VariableMetadata;
+}
+
+interface ValueLabelSet {
+  entries: Array<{ raw: Uint8Array; label: Uint8Array }>;
+  elements: number[];
+}
+
+const readFixed = (reader: BinaryReader, count: number) => reader.bytes(count).slice();
+
+const numberFromRaw = (raw: Uint8Array, littleEndian: boolean) =>
+  new DataView(raw.buffer, raw.byteOffset, 8).getFloat64(0, littleEndian);
+
+/**
+ * Decodes the bytecode-compressed case stream into raw 8-byte elements.
+ * Yields `null` for system-missing and a number or 8-byte slice otherwise.
+ */
+const createBytecodeSource = (reader: BinaryReader, bias: number) => {
+  const commands: number[] = [];
+  let finished = false;
+
+  return (): number | Uint8Array | null | undefined => {
+    for (;;) {
+      if (finished) return undefined;
+      if (commands.length === 0) {
+        if (reader.offset + 8 > reader.length) {
+          finished = true;
+          return undefined;
+        }
+        commands.push(...reader.bytes(8));
+      }
+      const code = commands.shift()!;
+      switch (code) {
+        case 0:
+          continue;
+        case 252:
+          finished = true;
+          return undefined;
+        case 253:
+          return reader.bytes(8);
+        case 254:
+          return new Uint8Array(8).fill(0x20);
+        case 255:
+          return null;
+        default:
+          return code - bias;
+      }
+    }
+  };
+};
+
+const createRawSource = (reader: BinaryReader) => () => {
+  if (reader.offset + 8 > reader.length) return undefined;
+  return reader.bytes(8) as number | Uint8Array | null;
+};
+
+/** Inflates the ZLIB data blocks of a .zsav file into one buffer. */
+const inflateZsav = (reader: BinaryReader): ArrayBuffer => {
+  reader.uint64(); // zheader offset
+  const trailerOffset = reader.uint64();
+  reader.uint64(); // trailer length
+
+  reader.offset = trailerOffset;
+  reader.skip(8 + 8 + 4); // bias, zero, block size
+  const blockCount = reader.int32();
+  const blocks: Array<{ offset: number; size: number; compressedSize: number }> = [];
+  for (let i = 0; i < blockCount; i++) {
+    reader.uint64(); // uncompressed offset
+    const offset = reader.uint64();
+    const size = reader.int32();
+    const compressedSize = reader.int32();
+    blocks.push({ offset, size, compressedSize });
+  }
+
+  const total = blocks.reduce((sum, block) => sum + block.size, 0);
+  const output = new Uint8Array(total);
+  let position = 0;
+  blocks.forEach(block => {
+    reader.offset = block.offset;
+    const inflated = unzlibSync(reader.bytes(block.compressedSize));
+    output.set(inflated, position);
+    position += inflated.length;
+  });
+  return output.buffer;
+};
+
+export const readSpss = (buffer: ArrayBuffer): ImportedTable => {
+  const reader = createBinaryReader(buffer);
+  const magic = String.fromCharCode(...reader.bytes(4));
+  if (magic !== '$FL2' && magic !== '$FL3') {
+    throw new Error('The file is not an SPSS system file');
+  }
+
+  reader.skip(60); // product name
+  const layoutOffset = reader.offset;
+  let layout = reader.int32();
+  if (layout !== 2 && layout !== 3) {
+    reader.littleEndian = false;
+    reader.offset = layoutOffset;
+    layout = reader.int32();
+    if (layout !== 2 && layout !== 3) throw new Error('Unrecognised SPSS byte order');
+  }
+  reader.int32(); // nominal case size
+  const compression = reader.int32();
+  reader.int32(); // weight index
+  const caseCount = reader.int32();
+  const bias = reader.float64();
+  reader.skip(9 + 8); // creation date and time
+  const fileLabelBytes = readFixed(reader, 64);
+  reader.skip(3);
+
+  const variables: RawVariable[] = [];
+  const labelSets: ValueLabelSet[] = [];
+  const longNames = new Map<string, string>();
+  const veryLongWidths = new Map<string, number>();
+  const longStringLabels: Array<{ name: string; entries: Array<{ value: Uint8Array; label: Uint8Array }> }> = [];
+  let measures: number[] = [];
+  let encoding: string | undefined;
+  let elementCount = 0;
+
+  dictionary: for (;;) {
+    const recordType = reader.int32();
+    switch (recordType) {
+      case 2: {
+        const type = reader.int32();
+        const hasLabel = reader.int32();
+        const missingCount = reader.int32();
+        const printFormat = reader.int32();
+        reader.int32(); // write format
+        const shortName = readFixed(reader, 8);
+        let labelBytes: Uint8Array | undefined;
+        if (hasLabel) {
+          const length = reader.int32();
+          labelBytes = readFixed(reader, length);
+          reader.skip((4 - (length % 4)) % 4);
+        }
+        const missingRaw: Uint8Array[] = [];
+        for (let i = 0; i < Math.abs(missingCount); i++) missingRaw.push(readFixed(reader, 8));
+
+        if (type !== -1) {
+          const name = String.fromCharCode(...shortName).replace(/\s+$/, '');
+          variables.push({
+            shortName: name,
+            name,
+            width: type,
+            element: elementCount,
+            formatType: (printFormat >> 16) & 0xff,
+            labelBytes,
+            missingRaw,
+            missingCount,
+            metadata: {}
+          });
+        }
+        elementCount++;
+        break;
+      }
+      case 3: {
+        const count = reader.int32();
+        const entries: ValueLabelSet['entries'] = [];
+        for (let i = 0; i < count; i++) {
+          const raw = readFixed(reader, 8);
+          const length = reader.uint8();
+          const label = readFixed(reader, length);
+          reader.skip((8 - ((length + 1) % 8)) % 8);
+          entries.push({ raw, label });
+        }
+        if (reader.int32() !== 4) throw new Error('Malformed SPSS value label record');
+        const varCount = reader.int32();
+        const elements: number[] = [];
+        for (let i = 0; i < varCount; i++) elements.push(reader.int32() - 1);
+        labelSets.push({ entries, elements });
+        break;
+      }
+      case 6: {
+        const lines = reader.int32();
+        reader.skip(lines * 80);
+        break;
+      }
+      case 7: {
+        const subtype = reader.int32();
+        const size = reader.int32();
+        const count = reader.int32();
+        const start = reader.offset;
+        const body = reader.bytes(size * count);
+        const ascii = () => new TextDecoder('utf-8').decode(body);
+
+        if (subtype === 3 && count >= 8) {
+          reader.offset = start + 7 * 4;
+          encoding = encoding ?? CODE_PAGES[reader.int32()];
+          reader.offset = start + size * count;
+        } else if (subtype === 11) {
+          reader.offset = start;
+          measures = [];
+          for (let i = 0; i < count; i += 3) {
+            measures.push(reader.int32());
+            reader.skip(8);
+          }
+        } else if (subtype === 13) {
+          ascii().split('\t').forEach(pair => {
+            const [shortName, longName] = pair.split('=');
+            if (shortName && longName) longNames.set(shortName, longName);
+          });
+        } else if (subtype === 14) {
+          ascii().split(/[\t\0]+/).forEach(pair => {
+            const [shortName, width] = pair.split('=');
+            if (shortName && width) veryLongWidths.set(shortName, parseInt(width, 10));
+          });
+        } else if (subtype === 20) {
+          encoding = ascii().replace(/\0+$/, '');
+        } else if (subtype === 21) {
+          reader.offset = start;
+          while (reader.offset < start + size * count) {
+            const name = new TextDecoder().decode(reader.bytes(reader.int32()));
+            reader.int32(); // variable width
+            const labelCount = reader.int32();
+            const entries: Array<{ value: Uint8Array; label: Uint8Array }> = [];
+            for (let i = 0; i < labelCount; i++) {
+              const value = readFixed(reader, reader.int32());
+              const label = readFixed(reader, reader.int32());
+              entries.push({ value, label });
+            }
+            longStringLabels.push({ name, entries });
+          }
+        }
+        reader.offset = start + size * count;
+        break;
+      }
+      case 999:
+        reader.int32();
+        break dictionary;
+      default:
+        throw new Error(`Unsupported SPSS record type ${recordType}`);
+    }
+  }
+
+  const decoder = createDecoder(encoding);
+  const textOf = (raw: Uint8Array) => decodeText(raw, decoder);
+
+  // Measurement levels are listed per dictionary variable, before segments are folded
+  variables.forEach((variable, index) => {
+    const measure = measures[index];
+    if (measure === 1) variable.metadata.measure = 'nominal';
+    else if (measure === 2) variable.metadata.measure = 'ordinal';
+    else if (measure === 3) variable.metadata.measure = 'scale';
+  });
+
+  // Very long strings are stored as consecutive 255-byte segments; fold the
+  // extra segments into the first one.
+  const segmentsOf = new Map<RawVariable, RawVariable[]>();
+  const merged: RawVariable[] = [];
+  for (let i = 0; i < variables.length; i++) {
+    const variable = variables[i];
+    const trueWidth = veryLongWidths.get(variable.shortName);
+    if (trueWidth && trueWidth > 255) {
+      const segmentCount = Math.ceil(trueWidth / 252);
+      segmentsOf.set(variable, variables.slice(i, i + segmentCount));
+      variable.width = trueWidth;
+      i += segmentCount - 1;
+    }
+    merged.push(variable);
+  }
+
+  merged.forEach(variable => {
+    variable.name = longNames.get(variable.shortName) ?? variable.shortName;
+    const metadata = variable.metadata;
+    if (variable.labelBytes) metadata.label = textOf(variable.labelBytes);
+
+    if (variable.missingCount !== 0) {
+      const decoded = variable.missingRaw.map(raw =>
+        variable.width === 0 ? numberFromRaw(raw, reader.littleEndian) : textOf(raw)
+      );
+      if (variable.missingCount < 0) {
+        metadata.missingRange = { low: decoded[0] as number, high: decoded[1] as number };
+        if (variable.missingCount === -3) metadata.missingCodes = [decoded[2]];
+      } else {
+        metadata.missingCodes = decoded;
+      }
+    }
+  });
+
+  labelSets.forEach(set => {
+    set.elements.forEach(element => {
+      const variable = merged.find(v => v.element === element);
+      if (!variable) return;
+      const labels = variable.metadata.valueLabels ?? {};
+      set.entries.forEach(({ raw, label }) => {
+        const key = variable.width === 0
+          ? String(numberFromRaw(raw, reader.littleEndian))
+          : textOf(raw);
+        labels[key] = textOf(label);
+      });
+      variable.metadata.valueLabels = labels;
+    });
+  });
+
+  longStringLabels.forEach(({ name, entries }) => {
+    const variable = merged.find(v => v.name === name || v.shortName === name);
+    if (!variable) return;
+    const labels = variable.metadata.valueLabels ?? {};
+    entries.forEach(({ value, label }) => {
+      labels[textOf(value)] = textOf(label);
+    });
+    variable.metadata.valueLabels = labels;
+  });
+
+  // Case data
+  let dataReader = reader;
+  if (compression === 2) {
+    dataReader = createBinaryReader(inflateZsav(reader), reader.littleEndian);
+  }
+  const next = compression === 0 ? createRawSource(dataReader) : createBytecodeSource(dataReader, bias);
+
+  const columns: CellValue[][] = merged.map(() => []);
+  const elementsPerVariable = merged.map(variable => {
+    const segments = segmentsOf.get(variable);
+    if (segments) return segments.map(segment => Math.ceil(segment.width / 8));
+    return [variable.width === 0 ? 1 : Math.ceil(variable.width / 8)];
+  });
+
+  const readCase = (): boolean => {
+    for (let v = 0; v < merged.length; v++) {
+      const variable = merged[v];
+      if (variable.width === 0) {
+        const element = next();
+        if (element === undefined) {
+          if (v === 0) return false;
+          throw new Error('SPSS file ends in the middle of a case');
+        }
+        let value: number | null;
+        if (element === null) value = null;
+        else if (typeof element === 'number') value = element;
+        else value = numberFromRaw(element, dataReader.littleEndian);
+        if (value === SYSMIS || value === null) {
+          columns[v].push(null);
+        } else if (DATE_FORMATS.has(variable.formatType)) {
+          columns[v].push(new Date((value - SPSS_EPOCH_OFFSET) * 1000));
+        } else {
+          columns[v].push(value);
+        }
+        continue;
+      }
+
+      const chunks: Uint8Array[] = [];
+      for (const segmentElements of elementsPerVariable[v]) {
+        const segment = new Uint8Array(segmentElements * 8);
+        for (let e = 0; e < segmentElements; e++) {
+          const element = next();
+          if (element === undefined) {
+            if (v === 0 && chunks.length === 0 && e === 0) return false;
+            throw new Error('SPSS file ends in the middle of a case');
+          }
+          if (element instanceof Uint8Array) segment.set(element, e * 8);
+          else segment.fill(0x20, e * 8, e * 8 + 8);
+        }
+        chunks.push(segmentsOf.has(variable) ? segment.subarray(0, 252) : segment);
+      }
+      const joined = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+      let position = 0;
+      chunks.forEach(chunk => {
+        joined.set(chunk, position);
+        position += chunk.length;
+      });
+      const text = textOf(joined.subarray(0, variable.width));
+      columns[v].push(text === '' ? null : text);
+    }
+    return true;
+  };
+
+  const expected = caseCount >= 0 ? caseCount : Infinity;
+  for (let row = 0; row < expected; row++) {
+    if (!readCase()) break;
+  }
+
+  return {
+    headers: merged.map(variable => variable.name),
+    columns,
+    metadata: merged.map(variable => variable.metadata),
+    fileLabel: textOf(fileLabelBytes) || undefined
+  };
+};
@@ -0,0 +1,353 @@
+import { createBinaryReader, createDecoder, decodeText, type BinaryReader } from './binary';
+import type { CellValue, ImportedTable, VariableMetadata } from './types';
+
+/**
+ * Reader for Stata datasets (.dta), formats 113–115 (Stata 8–13) and
+ * 117–119 (Stata 13+). Variable labels and value labels are kept; extended
+ * missing values (.a–.z) are returned as their literal codes (".a") and
+ * declared as missing so refusals and don't-knows stay distinguishable.
+ */
+
+// Days between 1960-01-01 (Stata's epoch) and 1970-01-01.
+const STATA_EPOCH_DAYS = 3653;
+const MS_PER_DAY = 86400000;
+
+type NumericKind = 'byte' | 'int' | 'long' | 'float' | 'double';
+
+interface ColumnSpec {
+  kind: NumericKind | 'str' | 'strL';
+  width: number;
+}
+
+interface FormatSpec {
+  nameLength: number;
+  formatLength: number;
+  labelNameLength: number;
+  variableLabelLength: number;
+}
+
+const FORMATS: Record<number, FormatSpec> = {
+  113: { nameLength: 33, formatLength: 12, labelNameLength: 33, variableLabelLength: 81 },
+  114: { nameLength: 33, formatLength: 49, labelNameLength: 33, variableLabelLength: 81 },
+  115: { nameLength: 33, formatLength: 49, labelNameLength: 33, variableLabelLength: 81 },
+  117: { nameLength: 33, formatLength: 49, labelNameLength: 33, variableLabelLength: 81 },
+  118: { nameLength: 129, formatLength: 57, labelNameLength: 129, variableLabelLength: 321 },
+  119: { nameLength: 129, formatLength: 57, labelNameLength: 129, variableLabelLength: 321 }
+};
+
+const MISSING_LETTERS = '.abcdefghijklmnopqrstuvwxyz';
+
+/** Stata's smallest missing value for each storage type ("."); larger ones are .a–.z. */
+const MISSING_BASE: Record<NumericKind, number> = {
+  byte: 101,
+  int: 32741,
+  long: 2147483621,
+  float: 2 ** 127,
+  double: 2 ** 1023
+};
+
+/**
+ * Maps a raw stored number to a cell: ordinary values pass through, system
+ * missing becomes null and extended missing becomes ".a" … ".z".
+ */
+const decodeNumeric = (value: number, kind: NumericKind): number | string | null => {
+  const base = MISSING_BASE[kind];
+  if (value < base) return value;
+  let index: number;
+  if (kind === 'float' || kind === 'double') {
+    // .a–.z sit in consecutive steps of base * 2^-12 above the system missing value
+    index = Math.round((value - base) / (base * 2 ** -12));
+  } else {
+    index = value - base;
+  }
+  return index <= 0 ? null : `.${MISSING_LETTERS[index] ?? ''}`;
+};
+
+const readNumeric = (reader: BinaryReader, kind: NumericKind): number => {
+  switch (kind) {
+    case 'byte':
+      return reader.int8();
+    case 'int':
+      return reader.int16();
+    case 'long':
+      return reader.int32();
+    case 'float':
+      return reader.float32();
+    case 'double':
+      return reader.float64();
+  }
+};
+
+const legacyColumnSpec = (code: number): ColumnSpec => {
+  switch (code) {
+    case 251: return { kind: 'byte', width: 1 };
+    case 252: return { kind: 'int', width: 2 };
+    case 253: return { kind: 'long', width: 4 };
+    case 254: return { kind: 'float', width: 4 };
+    case 255: return { kind: 'double', width: 8 };
+    default: return { kind: 'str', width: code };
+  }
+};
+
+const modernColumnSpec = (code: number): ColumnSpec => {
+  switch (code) {
+    case 65530: return { kind: 'byte', width: 1 };
+    case 65529: return { kind: 'int', width: 2 };
+    case 65528: return { kind: 'long', width: 4 };
+    case 65527: return { kind: 'float', width: 4 };
+    case 65526: return { kind: 'double', width: 8 };
+    case 32768: return { kind: 'strL', width: 8 };
+    default: return { kind: 'str', width: code };
+  }
+};
+
+const dateConverter = (format: string): ((value: number) => Date) | null => {
+  if (/^%-?td/.test(format) || /^%-?d/.test(format)) {
+    return value => new Date((value - STATA_EPOCH_DAYS) * MS_PER_DAY);
+  }
+  if (/^%-?t[cC]/.test(format)) {
+    return value => new Date(value - STATA_EPOCH_DAYS * MS_PER_DAY);
+  }
+  return null;
+};
+
+interface Dictionary {
+  columns: ColumnSpec[];
+  names: string[];
+  formats: string[];
+  labelNames: string[];
+  variableLabels: string[];
+}
+
+const readValueLabelTable = (
+  reader: BinaryReader,
+  length: number,
+  decoder: TextDecoder
+): Record<string, string> => {
+  const start = reader.offset;
+  const count = reader.int32();
+  const textLength = reader.int32();
+  const offsets: number[] = [];
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) offsets.push(reader.int32());
+  for (let i = 0; i < count; i++) values.push(reader.int32());
+  const text = reader.bytes(textLength);
+  reader.offset = start + length;
+
+  const labels: Record<string, string> = {};
+  values.forEach((value, i) => {
+    const decoded = decodeNumeric(value, 'long');
+    const key = decoded === null ? '.' : String(decoded);
+    labels[key] = decodeText(text.subarray(offsets[i]), decoder);
+  });
+  return labels;
+};
+
+const buildTable = (
+  dictionary: Dictionary,
+  rows: CellValue[][],
+  labelTables: Map<string, Record<string, string>>,
+  fileLabel: string
+): ImportedTable => {
+  const metadata: VariableMetadata[] = dictionary.names.map((_, i) => {
+    const meta: VariableMetadata = {};
+    if (dictionary.variableLabels[i]) meta.label = dictionary.variableLabels[i];
+    const labels = labelTables.get(dictionary.labelNames[i]);
+    if (dictionary.labelNames[i] && labels) meta.valueLabels = { ...labels };
+
+    const column = dictionary.columns[i];
+    if (column.kind !== 'str' && column.kind !== 'strL') {
+      const seen = new Set<string>();
+      rows[i].forEach(value => {
+        if (typeof value === 'string') seen.add(value);
+      });
+      if (seen.size > 0) meta.missingCodes = [...seen].sort();
+    }
+    return meta;
+  });
+
+  return {
+    headers: dictionary.names,
+    columns: rows,
+    metadata,
+    fileLabel: fileLabel || undefined
+  };
+};
+
+const readRows = (
+  reader: BinaryReader,
+  dictionary: Dictionary,
+  rowCount: number,
+  decoder: TextDecoder,
+  readStrL: (reader: BinaryReader) => [number, number]
+) => {
+  const converters = dictionary.formats.map(dateConverter);
+  const columns: CellValue[][] = dictionary.columns.map(() => []);
+  const strLRefs: Array<{ column: number; row: number; key: string }> = [];
+
+  for (let row = 0; row < rowCount; row++) {
+    dictionary.columns.forEach((column, c) => {
+      if (column.kind === 'str') {
+        const text = reader.text(column.width, decoder);
+        columns[c].push(text === '' ? null : text);
+      } else if (column.kind === 'strL') {
+        const [v, o] = readStrL(reader);
+        if (v === 0 && o === 0) {
+          columns[c].push(null);
+        } else {
+          strLRefs.push({ column: c, row, key: `${v}:${o}` });
+          columns[c].push(null);
+        }
+      } else {
+        const decoded = decodeNumeric(readNumeric(reader, column.kind), column.kind);
+        const convert = converters[c];
+        columns[c].push(typeof decoded === 'number' && convert ? convert(decoded) : decoded);
+      }
+    });
+  }
+
+  return { columns, strLRefs };
+};
+
+const readLegacy = (reader: BinaryReader, release: number): ImportedTable => {
+  const spec = FORMATS[release];
+  const decoder = createDecoder('windows-1252');
+  reader.littleEndian = reader.uint8() === 2;
+  reader.skip(2); // file type, unused
+  const variableCount = reader.uint16();
+  const rowCount = reader.int32();
+  const fileLabel = reader.text(81, decoder);
+  reader.skip(18); // timestamp
+
+  const columns = Array.from({ length: variableCount }, () => legacyColumnSpec(reader.uint8()));
+  const names = Array.from({ length: variableCount }, () => reader.text(spec.nameLength, decoder));
+  reader.skip(2 * (variableCount + 1)); // sort order
+  const formats = Array.from({ length: variableCount }, () => reader.text(spec.formatLength, decoder));
+  const labelNames = Array.from({ length: variableCount }, () => reader.text(spec.labelNameLength, decoder));
+  const variableLabels = Array.from({ length: variableCount }, () => reader.text(spec.variableLabelLength, decoder));
+
+  // Expansion fields
+  for (;;) {
+    const type = reader.uint8();
+    const length = reader.int32();
+    if (type === 0 && length === 0) break;
+    reader.skip(length);
+  }
+
+  const dictionary: Dictionary = { columns, names, formats, labelNames, variableLabels };
+  const rows = readRows(reader, dictionary, rowCount, decoder, () => [0, 0]).columns;
+
+  const labelTables = new Map<string, Record<string, string>>();
+  while (reader.offset + 4 <= reader.length) {
+    const length = reader.int32();
+    const name = reader.text(spec.labelNameLength, decoder);
+    reader.skip(3);
+    labelTables.set(name, readValueLabelTable(reader, length, decoder));
+  }
+
+  return buildTable(dictionary, rows, labelTables, fileLabel);
+};
+
+const readModern = (reader: BinaryReader): ImportedTable => {
+  reader.expect('<stata_dta><header><release>');
+  const release = parseInt(String.fromCharCode(...reader.bytes(3)), 10);
+  const spec = FORMATS[release];
+  if (!spec) throw new Error(`Unsupported Stata release ${release}`);
+  reader.expect('</release><byteorder>');
+  reader.littleEndian = String.fromCharCode(...reader.bytes(3)) === 'LSF';
+  reader.expect('</byteorder><K>');
+  const variableCount = release === 119 ? reader.uint32() : reader.uint16();
+  reader.expect('</K><N>');
+  const rowCount = release === 117 ? reader.uint32() : reader.uint64();
+  reader.expect('</N><label>');
+
+  const decoder = createDecoder(release >= 118 ? 'utf-8' : 'windows-1252');
+  const fileLabel = reader.text(release === 117 ? reader.uint8() : reader.uint16(), decoder);
+  reader.expect('</label><timestamp>');
+  reader.skip(reader.uint8());
+  reader.expect('</timestamp></header><map>');
+  reader.skip(14 * 8);
+  reader.expect('</map><variable_types>');
+  const columns = Array.from({ length: variableCount }, () => modernColumnSpec(reader.uint16()));
+  reader.expect('</variable_types><varnames>');
+  const names = Array.from({ length: variableCount }, () => reader.text(spec.nameLength, decoder));
+  reader.expect('</varnames><sortlist>');
+  reader.skip((variableCount + 1) * (release === 119 ? 4 : 2));
+  reader.expect('</sortlist><formats>');
+  const formats = Array.from({ length: variableCount }, () => reader.text(spec.formatLength, decoder));
+  reader.expect('</formats><value_label_names>');
+  const labelNames = Array.from({ length: variableCount }, () => reader.text(spec.labelNameLength, decoder));
+  reader.expect('</value_label_names><variable_labels>');
+  const variableLabels = Array.from({ length: variableCount }, () => reader.text(spec.variableLabelLength, decoder));
+  reader.expect('</variable_labels><characteristics>');
+
+  while (String.fromCharCode(...reader.bytes(4)) === '<ch>') {
+    reader.skip(reader.uint32());
+    reader.expect('</ch>');
+  }
+  reader.offset -= 4;
+  reader.expect('</characteristics><data>');
+
+  const dictionary: Dictionary = { columns, names, formats, labelNames, variableLabels };
+  const readStrL = (r: BinaryReader): [number, number] => {
+    if (release === 117) return [r.uint32(), r.uint32()];
+    // 118 stores v in the first 2 bytes and o in the next 6 (119: 3 and 5),
+    // each in the file's byte order
+    const vBytes = release === 119 ? 3 : 2;
+    const raw = r.bytes(8);
+    const readUnsigned = (from: number, to: number) => {
+      let value = 0;
+      for (let i = 0; i < to - from; i++) {
+        const byte = r.littleEndian ? raw[from + i] : raw[to - 1 - i];
+        value += byte * 2 ** (8 * i);
+      }
+      return value;
+    };
+    const v = readUnsigned(0, vBytes);
+    const o = readUnsigned(vBytes, 8);
+    return [v, o];
+  };
+  const { columns: rows, strLRefs } = readRows(reader, dictionary, rowCount, decoder, readStrL);
+  reader.expect('</data><strls>');
+
+  const strLs = new Map<string, string>();
+  while (String.fromCharCode(...reader.bytes(3)) === 'GSO') {
+    const v = reader.uint32();
+    const o = release === 117 ? reader.uint32() : reader.uint64();
+    const type = reader.uint8();
+    const length = reader.uint32();
+    const raw = reader.bytes(length);
+    // Type 130 is NUL-terminated text; 129 is binary and kept as-is
+    strLs.set(`${v}:${o}`, type === 130 ? decodeText(raw, decoder) : decoder.decode(raw));
+  }
+  reader.offset -= 3;
+  reader.expect('</strls><value_labels>');
+  strLRefs.forEach(({ column, row, key }) => {
+    const text = strLs.get(key);
+    rows[column][row] = text ? text : null;
+  });
+
+  const labelTables = new Map<string, Record<string, string>>();
+  while (String.fromCharCode(...reader.bytes(5)) === '<lbl>') {
+    const length = reader.int32();
+    const name = reader.text(spec.labelNameLength, decoder);
+    reader.skip(3);
+    labelTables.set(name, readValueLabelTable(reader, length, decoder));
+    reader.expect('</lbl>');
+  }
+
+  return buildTable(dictionary, rows, labelTables, fileLabel);
+};
+
+export const readStata = (buffer: ArrayBuffer): ImportedTable => {
+  const reader = createBinaryReader(buffer);
+  if (buffer.byteLength > 0 && new Uint8Array(buffer)[0] === 0x3c) {
+    return readModern(reader);
+  }
+
+  const release = reader.uint8();
+  if (!FORMATS[release] || release >= 117) {
+    throw new Error(`Unsupported Stata file format (release ${release})`);
+  }
+  return readLegacy(reader, release);
+};
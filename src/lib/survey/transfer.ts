@@ -0,0 +1,143 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toAnalysisPayload } from './dataset';
+import { toMultiResponsePayload } from './multi-response';
+import { validationRuleChecks } from './validation';
+import { skipLogicRuleChecks } from './xlsform';
+import type { AnalysisPayload, ProcessedSurveyData } from './types';
+
+/**
+ * Small datasets are posted to analyze-survey inline. Larger ones are split
+ * into gzip-compressed parts of whole variables, uploaded to Storage, and the
+ * edge function receives a manifest of the parts instead of the data.
+ *
+ * Parts live under `datasets/<user id>/`, which is all Storage lets a caller
+ * write and all analyze-survey will read for that caller. Visitors without an
+ * account get an anonymous session. The edge function deletes the parts once
+ * it has read them, so every request uploads its own copy.
+ */
+
+export const DATASET_BUCKET = 'survey-uploads';
+
+const INLINE_LIMIT_BYTES = 4 * 1024 * 1024;
+const PART_TARGET_BYTES = 16 * 1024 * 1024;
+
+export interface DatasetReference {
+  bucket: string;
+  parts: string[];
+  fileName: string;
+  totalRows: number;
+  multiResponseSets?: AnalysisPayload['multiResponseSets'];
+  excludedRows?: number[];
+  ruleChecks?: AnalysisPayload['ruleChecks'];
+  sampleData: AnalysisPayload['sampleData'];
+}
+
+export type AnalysisDataBody = { data: AnalysisPayload } | { dataRef: DatasetReference };
+
+const gzip = async (text: string): Promise<Blob> => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(stream).blob();
+};
+
+const currentUserId = async (): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (session) return session.user.id;
+  const { data, error } = await supabase.auth.signInAnonymously();
+  if (error || !data.user) {
+    throw new Error(`Could not start a session for the dataset upload: ${error?.message ?? 'no user returned'}`);
+  }
+  return data.user.id;
+};
+
+const uploadParts = async (
+  payload: AnalysisPayload,
+  serialized: string[],
+  onProgress?: (progress: number) => void
+): Promise<DatasetReference> => {
+  // Group whole variables into parts so no part exceeds the target size.
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let currentSize = 0;
+  serialized.forEach(json => {
+    if (current.length > 0 && currentSize + json.length > PART_TARGET_BYTES) {
+      groups.push(current);
+      current = [];
+      currentSize = 0;
+    }
+    current.push(json);
+    currentSize += json.length;
+  });
+  if (current.length > 0) groups.push(current);
+
+  const prefix = `datasets/${await currentUserId()}/${crypto.randomUUID()}`;
+  const parts: string[] = [];
+  for (let i = 0; i < groups.length; i++) {
+    const path = `${prefix}/part-${String(i).padStart(4, '0')}.json.gz`;
+    const body = await gzip(`{"variables":[${groups[i].join(',')}]}`);
+    const { error } = await supabase.storage
+      .from(DATASET_BUCKET)
+      .upload(path, body, { contentType: 'application/gzip', upsert: false });
+    if (error) throw new Error(`Dataset upload failed: ${error.message}`);
+    parts.push(path);
+    onProgress?.(Math.round(((i + 1) / groups.length) * 100));
+  }
+
+  return {
+    bucket: DATASET_BUCKET,
+    parts,
+    fileName: payload.fileName,
+    totalRows: payload.totalRows,
+    multiResponseSets: payload.multiResponseSets,
+    excludedRows: payload.excludedRows,
+    ruleChecks: payload.ruleChecks,
+    sampleData: payload.sampleData
+  };
+};
+
+interface PreparedPayload {
+  payload: AnalysisPayload;
+  serialized: string[];
+  size: number;
+}
+
+const preparedPayloads = new WeakMap<ProcessedSurveyData, PreparedPayload>();
+
+const preparePayload = (data: ProcessedSurveyData): PreparedPayload => {
+  const cached = preparedPayloads.get(data);
+  if (cached) return cached;
+
+  const payload = {
+    ...toAnalysisPayload(data),
+    multiResponseSets: toMultiResponsePayload(data),
+    ruleChecks: [...skipLogicRuleChecks(data), ...validationRuleChecks(data)]
+  };
+  const serialized = payload.variables.map(variable => JSON.stringify(variable));
+  const size = serialized.reduce((total, json) => total + json.length, 0);
+  const prepared = { payload, serialized, size };
+  preparedPayloads.set(data, prepared);
+  return prepared;
+};
+
+/**
+ * Returns the `data`/`dataRef` part of an analyze-survey request body. The
+ * payload is built once per dataset, but large datasets are uploaded afresh
+ * for each request because analyze-survey deletes the parts after reading
+ * them. Pass the body to `releaseAnalysisData` once the request has settled.
+ */
+export const prepareAnalysisData = async (
+  data: ProcessedSurveyData,
+  onProgress?: (progress: number) => void
+): Promise<AnalysisDataBody> => {
+  const { payload, serialized, size } = preparePayload(data);
+  if (size < INLINE_LIMIT_BYTES) return { data: payload };
+  return { dataRef: await uploadParts(payload, serialized, onProgress) };
+};
+
+/**
+ * Removes any uploaded parts of a request body. analyze-survey normally does
+ * this itself; this covers requests that failed before it read them.
+ */
+export const releaseAnalysisData = async (body: AnalysisDataBody): Promise<void> => {
+  if (!('dataRef' in body)) return;
+  await supabase.storage.from(body.dataRef.bucket).remove(body.dataRef.parts);
+};
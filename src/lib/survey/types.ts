@@ -0,0 +1,424 @@
+export type CellValue = string | number | boolean | Date | null;
+
+/** A cell value as it travels over JSON: dates become ISO strings. */
+export type SerializedCellValue = string | number | boolean | null;
+
+/**
+ * Why a value is missing. `system` is an empty cell; the others are survey
+ * codes such as -99 or "DK". Codes declared by a data file without a
+ * stated reason count as `other`.
+ */
+export type MissingCategory = 'system' | 'refused' | 'dont-know' | 'not-applicable' | 'other';
+
+export interface MissingCodeRule {
+  code: string;
+  category: Exclude<MissingCategory, 'system'>;
+}
+
+/**
+ * User-configured missing-value codes. Global rules apply to every variable;
+ * per-variable rules are added on top and win for the same code.
+ */
+export interface MissingValueSchema {
+  global: MissingCodeRule[];
+  variables: Record<string, MissingCodeRule[]>;
+}
+
+/**
+ * Descriptive metadata carried by statistical file formats (SPSS, Stata)
+ * alongside the data.
+ */
+export interface VariableMetadata {
+  label?: string;
+  /** Full question wording, typically from a codebook. */
+  question?: string;
+  /** Labels keyed by the stored code, e.g. `{ "5": "Strongly agree" }`. */
+  valueLabels?: Record<string, string>;
+  /** Declared user-missing codes; cells holding them count as missing. */
+  missingCodes?: Array<string | number>;
+  /** Declared user-missing range (inclusive). */
+  missingRange?: { low: number; high: number };
+  measure?: 'nominal' | 'ordinal' | 'scale';
+  /** Missing-value codes from the schema that apply to this variable. */
+  missingCodeRules?: MissingCodeRule[];
+  /** XLSForm skip condition: the question is only asked when this expression holds. */
+  relevant?: string;
+  /** XLSForm validation expression every answer (`.`) must satisfy. */
+  constraint?: string;
+  /** Recorded by the survey platform about the response (IP address, timestamps), not asked of the respondent. */
+  platformField?: boolean;
+  /** Derived variables: the expression their values are computed from. */
+  expression?: string;
+}
+
+/**
+ * How a variable is analysed. `ordinal` carries its level order, and
+ * `multi-response` holds several selected options per cell.
+ */
+export type VariableType =
+  | 'numeric'
+  | 'categorical'
+  | 'ordinal'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'identifier'
+  | 'text'
+  | 'multi-response';
+
+/** Settings that only apply to some variable types. */
+export interface VariableTypeDetails {
+  /** Ordinal levels from lowest to highest, as formatted stored values. */
+  levels?: string[];
+  /** Separator between selected options in a multi-response cell. */
+  responseDelimiter?: string;
+}
+
+export interface SurveyVariable extends VariableMetadata, VariableTypeDetails {
+  name: string;
+  type: VariableType;
+  /**
+   * One entry per data row, in row order. `null` marks a system-missing
+   * cell; declared missing codes are kept as stored.
+   */
+  values: CellValue[];
+  missing: number;
+  /** `missing` split by reason. */
+  missingBreakdown: Record<MissingCategory, number>;
+  uniqueValues: number;
+  mean?: number;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * A select-all-that-apply question. A `delimited` set reads the selected
+ * options from one cell of its single variable; a `dummy` set has one
+ * variable per option, marked as chosen by `selectedValue` (or, when that is
+ * unset, by any answer other than 0, false or no).
+ */
+export interface MultiResponseSet {
+  name: string;
+  label?: string;
+  layout: 'delimited' | 'dummy';
+  variables: string[];
+  /** Separator between options in a delimited cell. */
+  delimiter?: string;
+  selectedValue?: string;
+}
+
+export type ImputationMethod = 'mean' | 'median' | 'mode' | 'hot-deck' | 'knn' | 'regression' | 'multiple';
+
+/** How to fill the missing values of one variable. */
+export interface ImputationSpec {
+  variable: string;
+  method: ImputationMethod;
+  /** Hot-deck: donors are drawn from rows in the same class of these variables. */
+  classVariables?: string[];
+  /** k-nearest-neighbour, regression and multiple imputation: variables the missing values are predicted from. */
+  predictors?: string[];
+  /** Donors averaged by k-nearest-neighbour imputation. */
+  neighbours?: number;
+  /** Completed datasets drawn by multiple imputation. */
+  imputations?: number;
+  seed?: number;
+}
+
+/**
+ * An imputation applied to a variable. `rows` flags the imputed cells, so
+ * estimates can be recomputed from `original` without the imputed values.
+ */
+export interface ImputationRecord extends ImputationSpec {
+  /** 0-based rows whose cell was imputed. */
+  rows: number[];
+  /** The cells' values before imputation, in the order of `rows`. */
+  original: CellValue[];
+  /** Multiple imputation: the values of each completed dataset, in the order of `rows`. The first is written into the data. */
+  draws?: CellValue[][];
+}
+
+export type OutlierMethod = 'iqr' | 'z-score' | 'robust-z' | 'mahalanobis';
+
+/**
+ * What happens to flagged values: pulled in to the nearest unflagged value,
+ * dropped from the analysis, capped at a percentile, or set to missing so
+ * they can be imputed.
+ */
+export type OutlierTreatment = 'winsorize' | 'trim' | 'cap' | 'set-missing';
+
+/** How to look for outliers: one variable, or several at once for Mahalanobis distance. */
+export interface OutlierSpec {
+  method: OutlierMethod;
+  variables: string[];
+  /** IQR multiplier, z cut-off, or the chi-square probability of the Mahalanobis cut-off. */
+  threshold: number;
+}
+
+/** One entry of the transformation log: a treatment and every cell it changed. */
+export interface TransformationRecord {
+  kind: 'outlier-treatment';
+  method: OutlierMethod;
+  threshold: number;
+  treatment: OutlierTreatment;
+  /** Cap: values are capped at this percentile (and the low tail at 100 minus it). */
+  percentile?: number;
+  appliedAt: string;
+  changes: Array<{
+    variable: string;
+    /** 0-based rows whose cell was changed. */
+    rows: number[];
+    /** The cells' values before the treatment, in the order of `rows`. */
+    original: CellValue[];
+    treated: CellValue[];
+  }>;
+}
+
+/** Respondent-level quality checks run before weighting. */
+export type RespondentCheck = 'duplicate' | 'near-duplicate' | 'repeated-id' | 'straight-lining' | 'speeder' | 'gibberish';
+
+export interface RespondentCheckOptions {
+  idVariable?: string;
+  /** Interview length, in seconds or minutes. */
+  durationVariable?: string;
+  /** Completes faster than this fraction of the median duration are speeders. */
+  speederFraction: number;
+  /** Items of a grid question answered on the same scale. */
+  gridVariables: string[];
+  /** Share of answers two rows must have in common to count as near-duplicates. */
+  similarityThreshold: number;
+  openEndVariables: string[];
+}
+
+/** A respondent flagged by one or more checks, with a readable reason for each. */
+export interface RespondentFlag {
+  row: number;
+  reasons: Array<{ check: RespondentCheck; detail: string }>;
+}
+
+export type ValidationRuleKind = 'range' | 'allowed' | 'pattern' | 'logic';
+
+/**
+ * A user-defined data rule. Range, allowed-set and pattern rules check the
+ * answers of one variable; logic rules check each row with an expression in
+ * the derived-variable language, optionally only where a condition holds.
+ */
+export interface ValidationRule {
+  id: string;
+  name: string;
+  kind: ValidationRuleKind;
+  variable?: string;
+  min?: number;
+  max?: number;
+  allowed?: string[];
+  /** Regular expression the whole answer must match. */
+  pattern?: string;
+  /** Logic rules: rows where this holds must satisfy `expression`. */
+  condition?: string;
+  expression?: string;
+}
+
+/**
+ * Population control totals for one weighting margin. Several variables are
+ * crossed into cells, e.g. age group × sex.
+ */
+export interface WeightingMargin {
+  variables: string[];
+  /**
+   * Population total of each category, keyed by the formatted value, or by
+   * the formatted values joined with " × " when variables are crossed.
+   */
+  targets: Record<string, number>;
+}
+
+/** Raking (iterative proportional fitting) of base weights to population margins. */
+export interface RakingSpec {
+  /** Name of the weight variable to create. */
+  name: string;
+  /** Starting weights; every respondent starts at 1 when unset. */
+  baseWeight?: string;
+  margins: WeightingMargin[];
+  maxIterations: number;
+  /** Largest relative gap between a weighted category total and its target that counts as converged. */
+  tolerance: number;
+  /** Categories with fewer respondents are collapsed into the next category of their margin. */
+  minCellSize: number;
+}
+
+/**
+ * Calibration estimators applied to the estimation weights: post-stratification
+ * to population cell counts, linear (GREG) calibration, and calibration with
+ * the ratio of calibrated to initial weight bounded by truncation or a logit
+ * distance.
+ */
+export type CalibrationMethod = 'poststratification' | 'linear' | 'truncated' | 'logit';
+
+/** Population totals an estimate's weights are calibrated to. */
+export interface CalibrationSpec {
+  method: CalibrationMethod;
+  /** Categorical auxiliaries; post-stratification takes one, crossed for cells. */
+  margins: WeightingMargin[];
+  /** Population totals of continuous auxiliaries, by variable name. */
+  totals?: Record<string, number>;
+  /** Population size, calibrated to when no categorical auxiliary is given. */
+  populationSize?: number;
+  /** Bounds on the ratio of calibrated to initial weight, for truncated and logit calibration. */
+  lower?: number;
+  upper?: number;
+}
+
+/**
+ * How extreme weights are trimmed: to a fixed cap, to a percentile of the
+ * weights, or by iterative trimming (IWTP) to a multiple of the median with
+ * the excess spread over the other weights until none exceeds the cap.
+ */
+export type TrimRule = 'cap' | 'percentile' | 'iwtp';
+
+export interface TrimSpec {
+  /** Name of the trimmed weight variable to create. */
+  name: string;
+  /** Weight variable to trim. */
+  weight: string;
+  rule: TrimRule;
+  /** Largest weight kept, for a fixed cap. */
+  cap?: number;
+  /** Percentile of the weights trimmed to, e.g. 99. */
+  percentile?: number;
+  /** Multiple of the median weight trimmed to, for IWTP. */
+  factor?: number;
+  /** Spread the trimmed excess over the untrimmed weights so the weight total is kept; IWTP always does. */
+  redistribute: boolean;
+}
+
+/** Final disposition of a sampled case, as needed for weight adjustments. */
+export type ResponseStatus = 'respondent' | 'nonrespondent' | 'ineligible' | 'unknown';
+
+/** How nonresponse is adjusted: within weighting classes, or by a response-propensity model. */
+export type NonresponseMethod = 'classes' | 'propensity';
+
+/**
+ * Construction of base weights for a sample file with selection
+ * probabilities and response status: inverse inclusion probabilities,
+ * an eligibility-unknown adjustment, then a nonresponse adjustment.
+ */
+export interface BaseWeightSpec {
+  /** Name of the weight variable to create. */
+  name: string;
+  /** Selection probability of each stage; the inclusion probability is their product. */
+  stageProbabilities: string[];
+  statusVariable: string;
+  /** Response status of each category of the status variable, keyed by the formatted value. */
+  statusCodes: Record<string, ResponseStatus>;
+  /** Crossed into classes for the eligibility-unknown adjustment; one class when empty. */
+  eligibilityClasses: string[];
+  nonresponseMethod: NonresponseMethod;
+  /** Crossed into weighting classes for the nonresponse adjustment. */
+  nonresponseClasses: string[];
+  /** Predictors of the response-propensity model. */
+  propensityPredictors: string[];
+  /** Number of classes of similar propensity to adjust within; 0 divides by each case's propensity. */
+  propensityClasses: number;
+}
+
+/** How a weight variable was computed, kept with the dataset so the weights can be reviewed and recomputed. */
+export interface RakingRecord extends RakingSpec {
+  method: 'raking';
+  iterations: number;
+  converged: boolean;
+  createdAt: string;
+}
+
+export interface TrimmingRecord extends TrimSpec {
+  method: 'trimming';
+  /** Weight the largest weights were cut to, in the last iteration for IWTP. */
+  cutoff: number;
+  /** Respondents whose weight was cut. */
+  trimmed: number;
+  createdAt: string;
+}
+
+export interface ConstructionRecord extends BaseWeightSpec {
+  method: 'construction';
+  createdAt: string;
+}
+
+export type WeightingRecord = RakingRecord | TrimmingRecord | ConstructionRecord;
+
+/**
+ * A data rule checked on the client, sent with the data so the analysis can
+ * score validity (does a value fit its variable) and consistency (do
+ * answers agree with each other).
+ */
+export interface RuleCheck {
+  rule: string;
+  source: 'skip-logic' | 'constraint' | 'validation';
+  dimension: 'validity' | 'consistency';
+  variables: string[];
+  /** 0-based rows that break the rule. */
+  rows: number[];
+}
+
+export interface ProcessedSurveyData {
+  fileName: string;
+  sheetName?: string;
+  totalRows: number;
+  totalColumns: number;
+  missingValues: number;
+  missingSchema?: MissingValueSchema;
+  multiResponseSets?: MultiResponseSet[];
+  imputations?: ImputationRecord[];
+  /** Outlier treatments in the order applied. */
+  transformations?: TransformationRecord[];
+  /** 0-based rows of respondents left out of estimates, e.g. low-quality completes. */
+  excludedRows?: number[];
+  validationRules?: ValidationRule[];
+  /** Weight variables computed in the app, in the order created. */
+  weighting?: WeightingRecord[];
+  variables: SurveyVariable[];
+  sampleData: Array<Record<string, CellValue>>;
+}
+
+/** Body of the `data` field sent to the analyze-survey edge function. */
+export interface AnalysisPayload {
+  fileName: string;
+  totalRows: number;
+  variables: Array<{
+    name: string;
+    type: SurveyVariable['type'];
+    values: SerializedCellValue[];
+    missing: number;
+    label?: string;
+    valueLabels?: Record<string, string>;
+    levels?: string[];
+    responseDelimiter?: string;
+    /** Reason for each coded missing value present, keyed by the value as text. */
+    missingCategories?: Record<string, MissingCategory>;
+    /** Imputed cells of this variable, with their original values and any multiple-imputation draws. */
+    imputation?: {
+      method: ImputationMethod;
+      rows: number[];
+      original: SerializedCellValue[];
+      draws?: SerializedCellValue[][];
+    };
+    /** Outlier treatments that changed cells of this variable, in the order applied. */
+    transformations?: Array<{
+      method: OutlierMethod;
+      treatment: OutlierTreatment;
+      rows: number[];
+      original: SerializedCellValue[];
+    }>;
+  }>;
+  /** Multi-response sets, with the display label of each option. */
+  multiResponseSets?: Array<MultiResponseSet & { optionLabels: Record<string, string> }>;
+  /** 0-based rows that parameter estimates leave out. */
+  excludedRows?: number[];
+  ruleChecks?: RuleCheck[];
+  sampleData: Array<Record<string, SerializedCellValue>>;
+}
+
+/** Column-major result of reading a statistical data file. */
+export interface ImportedTable {
+  headers: string[];
+  columns: CellValue[][];
+  metadata: VariableMetadata[];
+  fileLabel?: string;
+}
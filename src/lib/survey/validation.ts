@@ -0,0 +1,204 @@
+import { formatCellValue, missingCategoryOf } from './dataset';
+import { compileExpression } from './expression';
+import type { CellValue, ProcessedSurveyData, RuleCheck, ValidationRule, ValidationRuleKind } from './types';
+
+/**
+ * User-defined validation rules, e.g. `age` from 15 to 99 or "employed = No
+ * implies income_wage is missing", where a yes/no variable can also be the
+ * condition itself (`not employed`). The rule set is kept on the dataset,
+ * checked against every row, sent with the data for quality scoring, and can
+ * be exported as JSON and imported into the next wave.
+ */
+
+export const VALIDATION_RULE_KIND_LABELS: Record<ValidationRuleKind, string> = {
+  range: 'Range',
+  allowed: 'Allowed values',
+  pattern: 'Pattern (regular expression)',
+  logic: 'Cross-variable logic'
+};
+
+export interface ValidationResult {
+  rule: ValidationRule;
+  /** 0-based rows that break the rule. */
+  rows: number[];
+  /** Rows the rule applied to: answered rows, or rows where a logic rule's condition holds. */
+  checked: number;
+  /** Variables the rule reads. */
+  variables: string[];
+  /** Set when the rule could not be checked, e.g. its variable is not in this dataset. */
+  error?: string;
+}
+
+const KINDS = Object.keys(VALIDATION_RULE_KIND_LABELS) as ValidationRuleKind[];
+
+/** Short readable form of a rule, e.g. "15 ≤ age ≤ 99". */
+export const describeRule = (rule: ValidationRule): string => {
+  switch (rule.kind) {
+    case 'range':
+      if (rule.min !== undefined && rule.max !== undefined) return `${rule.min} ≤ ${rule.variable} ≤ ${rule.max}`;
+      return rule.min !== undefined ? `${rule.variable} ≥ ${rule.min}` : `${rule.variable} ≤ ${rule.max}`;
+    case 'allowed':
+      return `${rule.variable} in {${(rule.allowed ?? []).join(', ')}}`;
+    case 'pattern':
+      return `${rule.variable} matches /${rule.pattern}/`;
+    default:
+      return rule.condition ? `if ${rule.condition} then ${rule.expression}` : rule.expression ?? '';
+  }
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Checks that a rule is complete and well formed, and returns it with an
+ * ID. Throws with a readable message otherwise. Variables are not looked up
+ * here, so a rule set can be prepared for a wave that is not loaded yet.
+ */
+export const createValidationRule = (draft: Omit<ValidationRule, 'id'> & { id?: string }): ValidationRule => {
+  if (!KINDS.includes(draft.kind)) throw new Error(`Unknown rule kind "${draft.kind}"`);
+  const rule: ValidationRule = { id: draft.id ?? crypto.randomUUID(), name: draft.name?.trim() ?? '', kind: draft.kind };
+
+  if (draft.kind === 'logic') {
+    if (!draft.expression?.trim()) throw new Error('A logic rule needs an expression every row must satisfy');
+    rule.expression = draft.expression.trim();
+    if (draft.condition?.trim()) rule.condition = draft.condition.trim();
+  } else {
+    if (!draft.variable) throw new Error('Choose the variable the rule checks');
+    rule.variable = draft.variable;
+  }
+
+  if (draft.kind === 'range') {
+    if (draft.min !== undefined && !isNumber(draft.min)) throw new Error('The minimum must be a number');
+    if (draft.max !== undefined && !isNumber(draft.max)) throw new Error('The maximum must be a number');
+    if (draft.min === undefined && draft.max === undefined) throw new Error('Give a minimum, a maximum or both');
+    if (draft.min !== undefined && draft.max !== undefined && draft.min > draft.max) {
+      throw new Error('The minimum is larger than the maximum');
+    }
+    if (draft.min !== undefined) rule.min = draft.min;
+    if (draft.max !== undefined) rule.max = draft.max;
+  }
+  if (draft.kind === 'allowed') {
+    const allowed = (draft.allowed ?? []).map(value => String(value).trim()).filter(Boolean);
+    if (allowed.length === 0) throw new Error('List the allowed values');
+    rule.allowed = [...new Set(allowed)];
+  }
+  if (draft.kind === 'pattern') {
+    if (!draft.pattern) throw new Error('Give the pattern answers must match');
+    try {
+      new RegExp(draft.pattern);
+    } catch {
+      throw new Error(`"${draft.pattern}" is not a valid regular expression`);
+    }
+    rule.pattern = draft.pattern;
+  }
+
+  rule.name ||= describeRule(rule);
+  return rule;
+};
+
+const numericValue = (value: CellValue): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+const checkRule = (data: ProcessedSurveyData, rule: ValidationRule): ValidationResult => {
+  const rows: number[] = [];
+  let checked = 0;
+
+  try {
+    if (rule.kind === 'logic') {
+      const requirement = compileExpression(rule.expression ?? '', data);
+      const condition = rule.condition ? compileExpression(rule.condition, data) : null;
+      for (let row = 0; row < data.totalRows; row++) {
+        if (condition && condition.test(row) !== true) continue;
+        checked++;
+        // A requirement that cannot be judged because of missing values is not a violation
+        if (requirement.test(row) === false) rows.push(row);
+      }
+      const variables = [...new Set([...(condition?.references ?? []), ...requirement.references])];
+      return { rule, rows, checked, variables };
+    }
+
+    const variable = data.variables.find(candidate => candidate.name === rule.variable);
+    if (!variable) throw new Error(`Variable "${rule.variable}" was not found`);
+    const pattern = rule.kind === 'pattern' ? new RegExp(`^(?:${rule.pattern})$`) : null;
+    const allowed = new Set(rule.allowed ?? []);
+
+    variable.values.forEach((value, row) => {
+      // Missing values, including declared missing codes, are not checked
+      if (missingCategoryOf(value, variable) !== null) return;
+      checked++;
+      let valid: boolean;
+      if (rule.kind === 'range') {
+        const number = numericValue(value);
+        valid = Number.isFinite(number) &&
+          (rule.min === undefined || number >= rule.min) &&
+          (rule.max === undefined || number <= rule.max);
+      } else if (rule.kind === 'allowed') {
+        valid = allowed.has(formatCellValue(value).trim());
+      } else {
+        valid = pattern!.test(formatCellValue(value));
+      }
+      if (!valid) rows.push(row);
+    });
+    return { rule, rows, checked, variables: [variable.name] };
+  } catch (error) {
+    return {
+      rule,
+      rows: [],
+      checked: 0,
+      variables: rule.variable ? [rule.variable] : [],
+      error: error instanceof Error ? error.message : 'The rule could not be checked'
+    };
+  }
+};
+
+/** Checks every row against each rule, by default the dataset's own rule set. */
+export const evaluateValidationRules = (
+  data: ProcessedSurveyData,
+  rules: ValidationRule[] = data.validationRules ?? []
+): ValidationResult[] => rules.map(rule => checkRule(data, rule));
+
+/** Returns a copy of the dataset with this rule set. */
+export const setValidationRules = (data: ProcessedSurveyData, rules: ValidationRule[]): ProcessedSurveyData => ({
+  ...data,
+  validationRules: rules.length > 0 ? rules : undefined
+});
+
+/**
+ * Rule outcomes in the form sent for quality scoring: single-variable rules
+ * are about validity, cross-variable logic about consistency. Rules that
+ * could not be checked are left out.
+ */
+export const validationRuleChecks = (data: ProcessedSurveyData): RuleCheck[] =>
+  evaluateValidationRules(data)
+    .filter(result => !result.error)
+    .map(result => ({
+      rule: result.rule.name,
+      source: 'validation' as const,
+      dimension: result.rule.kind === 'logic' ? 'consistency' as const : 'validity' as const,
+      variables: result.variables,
+      rows: result.rows
+    }));
+
+/** The rule set as JSON, for reuse on the next wave. */
+export const exportValidationRules = (rules: ValidationRule[]): string =>
+  JSON.stringify({ validationRules: rules.map(({ id, ...rule }) => rule) }, null, 2);
+
+/** Reads an exported rule set: `{ validationRules: [...] }` or a bare array. Each rule gets a new ID. */
+export const parseValidationRules = (text: string): ValidationRule[] => {
+  const parsed: unknown = JSON.parse(text);
+  const list = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { validationRules?: unknown })?.validationRules;
+  if (!Array.isArray(list)) {
+    throw new Error('A rule set must be an array of rules or have a "validationRules" array');
+  }
+  return list.map((raw: Omit<ValidationRule, 'id'>, index) => {
+    try {
+      return createValidationRule({ ...raw, id: undefined });
+    } catch (error) {
+      throw new Error(`Rule ${index + 1}: ${error instanceof Error ? error.message : 'not a valid rule'}`);
+    }
+  });
+};
@@ -0,0 +1,111 @@
+import type { CellValue, VariableType } from './types';
+
+export const VARIABLE_TYPE_LABELS: Record<VariableType, string> = {
+  numeric: 'Numeric',
+  categorical: 'Categorical',
+  ordinal: 'Ordinal',
+  boolean: 'Boolean',
+  date: 'Date',
+  datetime: 'Date & time',
+  identifier: 'Identifier',
+  text: 'Open text',
+  'multi-response': 'Multi-response'
+};
+
+export const VARIABLE_TYPES = Object.keys(VARIABLE_TYPE_LABELS) as VariableType[];
+
+/** Types whose values are a small set of categories that can be counted and grouped by. */
+export const isCategoricalType = (type: VariableType): boolean =>
+  type === 'categorical' || type === 'ordinal' || type === 'boolean';
+
+/**
+ * Response scales recognised as ordinal, each listed from lowest to highest.
+ * Entries sharing a rank (e.g. "neutral") are grouped in an inner array.
+ */
+const LIKERT_SCALES: Array<Array<string | string[]>> = [
+  [
+    'strongly disagree',
+    'disagree',
+    'somewhat disagree',
+    ['neither agree nor disagree', 'neutral'],
+    'somewhat agree',
+    'agree',
+    'strongly agree'
+  ],
+  [
+    'very dissatisfied',
+    'dissatisfied',
+    'somewhat dissatisfied',
+    ['neither satisfied nor dissatisfied', 'neutral'],
+    'somewhat satisfied',
+    'satisfied',
+    'very satisfied'
+  ],
+  ['never', 'rarely', 'sometimes', 'often', 'usually', 'always'],
+  ['very poor', 'poor', 'fair', ['average', 'neutral'], 'good', 'very good', 'excellent'],
+  [
+    'very unlikely',
+    'unlikely',
+    'somewhat unlikely',
+    ['neither likely nor unlikely', 'neutral'],
+    'somewhat likely',
+    'likely',
+    'very likely'
+  ],
+  [
+    'not at all important',
+    'slightly important',
+    'moderately important',
+    'very important',
+    'extremely important'
+  ]
+];
+
+/**
+ * Orders the given categories along a known response scale, or returns
+ * `null` when they don't all belong to the same one.
+ */
+export const matchLikertScale = (categories: string[]): string[] | null => {
+  if (categories.length < 2) return null;
+
+  for (const scale of LIKERT_SCALES) {
+    const rank = new Map<string, number>();
+    scale.forEach((entry, index) => {
+      (Array.isArray(entry) ? entry : [entry]).forEach(text => rank.set(text, index));
+    });
+    if (categories.every(category => rank.has(category.trim().toLowerCase()))) {
+      return [...categories].sort(
+        (a, b) => rank.get(a.trim().toLowerCase())! - rank.get(b.trim().toLowerCase())!
+      );
+    }
+  }
+  return null;
+};
+
+const TRUE_TOKENS = new Set(['true', 'yes', 'y', 't', '1']);
+const FALSE_TOKENS = new Set(['false', 'no', 'n', 'f', '0']);
+
+/** Reads a cell as a boolean, or `null` when it isn't a recognised yes/no value. */
+export const parseBooleanCell = (value: CellValue): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value === 1 ? true : value === 0 ? false : null;
+  if (typeof value !== 'string') return null;
+  const token = value.trim().toLowerCase();
+  if (TRUE_TOKENS.has(token)) return true;
+  if (FALSE_TOKENS.has(token)) return false;
+  return null;
+};
+
+const IDENTIFIER_NAME = /(^|[^a-z])(id|uuid|guid)([^a-z]|$)|respondent|responseid|record_?no/i;
+
+/** True for column names that usually hold respondent or record identifiers. */
+export const looksLikeIdentifierName = (name: string): boolean =>
+  IDENTIFIER_NAME.test(name) || /[a-z](Id|ID)$/.test(name);
+
+export const ISO_DATE = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/** Separators tried, in order, when looking for multi-response cells. */
+export const RESPONSE_DELIMITERS = [';', ',', '|'] as const;
+
+/** Separators that can be chosen but are never detected, such as the space ODK puts between options. */
+export const MANUAL_RESPONSE_DELIMITERS = [' '] as const;
@@ -0,0 +1,618 @@
+import { formatCellValue, formatLabelledValue, missingCategoryOf, putVariable, removeVariable } from './dataset';
+import type {
+  CalibrationMethod,
+  CellValue,
+  ProcessedSurveyData,
+  RakingSpec,
+  SurveyVariable,
+  TrimRule,
+  TrimSpec,
+  WeightingRecord
+} from './types';
+
+/**
+ * Calibration of survey weights to population control totals. Raking
+ * adjusts base weights to each margin in turn (iterative proportional
+ * fitting) until the weighted sample matches every margin; the result is
+ * saved as a new numeric variable that estimates can be weighted by.
+ * Respondents excluded from the estimates are left out of the calibration
+ * and get no weight. Any weight variable can be diagnosed for its spread and
+ * trimmed into a new variable. Post-stratification and linear or bounded calibration
+ * are applied when estimating instead, so their variances can account for
+ * the calibration.
+ */
+
+export const DEFAULT_MAX_ITERATIONS = 50;
+export const DEFAULT_TOLERANCE = 1e-6;
+export const DEFAULT_MIN_CELL_SIZE = 1;
+export const DEFAULT_TRIM_PERCENTILE = 99;
+/** IWTP caps weights at this multiple of the median weight by default. */
+export const DEFAULT_IWTP_FACTOR = 3.5;
+const TRIM_MAX_ITERATIONS = 50;
+const HISTOGRAM_BINS = 20;
+
+export const TRIM_RULE_LABELS: Record<TrimRule, string> = {
+  cap: 'Fixed cap',
+  percentile: 'Percentile cap',
+  iwtp: 'Iterative trimming (IWTP)'
+};
+
+export const CALIBRATION_METHOD_LABELS: Record<CalibrationMethod, string> = {
+  poststratification: 'Post-stratification',
+  linear: 'Linear (GREG)',
+  truncated: 'Truncated linear',
+  logit: 'Logit (bounded)'
+};
+
+/** Joins the values of crossed margin variables into one category key. */
+export const CROSS_SEPARATOR = ' × ';
+
+export interface MarginCategory {
+  key: string;
+  /** Display text, from value labels where the variables have them. */
+  label: string;
+  respondents: number;
+}
+
+export interface MarginFit {
+  variables: string[];
+  /** Cells after collapsing, with the categories each one covers. */
+  cells: Array<{
+    keys: string[];
+    label: string;
+    target: number;
+    achieved: number;
+    respondents: number;
+  }>;
+  /** Categories merged into a neighbour because they had too few respondents. */
+  collapsed: Array<{ category: string; into: string; respondents: number }>;
+  /** Respondents with no answer to a margin variable; their weights follow the other margins. */
+  unplaced: number;
+}
+
+export interface WeightSummary {
+  respondents: number;
+  total: number;
+  min: number;
+  max: number;
+  mean: number;
+  /** Coefficient of variation of the weights. */
+  cv: number;
+  /** Kish's design effect due to unequal weighting, 1 + CV². */
+  designEffect: number;
+  effectiveSampleSize: number;
+}
+
+export interface WeightingResult {
+  spec: RakingSpec;
+  /** One weight per row; null for excluded respondents and rows without a base weight. */
+  weights: Array<number | null>;
+  iterations: number;
+  converged: boolean;
+  /** Largest relative gap between a weighted cell total and its target. */
+  maxGap: number;
+  margins: MarginFit[];
+  summary: WeightSummary;
+  warnings: string[];
+}
+
+export interface WeightDiagnostics {
+  summary: WeightSummary;
+  /** Largest over smallest weight. */
+  maxMinRatio: number;
+  /** Share of the weight total held by the 1% of respondents with the largest weights. */
+  topShare: number;
+  quantiles: Array<{ percentile: number; value: number }>;
+  histogram: Array<{ from: number; to: number; respondents: number }>;
+  /** Respondents with a missing, zero or negative weight, left out of the diagnostics. */
+  unusable: number;
+  /** Weights within each category of a domain variable; empty without one. */
+  domains: Array<{ key: string; label: string; summary: WeightSummary }>;
+}
+
+export interface TrimResult {
+  spec: TrimSpec;
+  /** One weight per row; null where the original weight was not usable. */
+  weights: Array<number | null>;
+  /** Weight the largest weights were cut to, in the last iteration for IWTP. */
+  cutoff: number;
+  /** Respondents whose weight was cut. */
+  trimmed: number;
+  iterations: number;
+  before: WeightSummary;
+  after: WeightSummary;
+  warnings: string[];
+}
+
+const findVariable = (data: ProcessedSurveyData, name: string) => {
+  const variable = data.variables.find(candidate => candidate.name === name);
+  if (!variable) throw new Error(`Variable "${name}" was not found`);
+  return variable;
+};
+
+const numericValue = (value: CellValue): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+/** Answer categories of a variable, including value-labelled codes nobody chose, in scale order. */
+const categoriesOf = (variable: SurveyVariable): string[] => {
+  const present = new Set<string>();
+  variable.values.forEach(value => {
+    if (missingCategoryOf(value, variable) === null) present.add(formatCellValue(value));
+  });
+  Object.keys(variable.valueLabels ?? {}).forEach(code => {
+    if (missingCategoryOf(code, variable) === null) present.add(code);
+  });
+  const categories = [...present];
+  if (variable.levels) {
+    const rank = (category: string) => {
+      const index = variable.levels!.indexOf(category);
+      return index === -1 ? Infinity : index;
+    };
+    return categories.sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+  }
+  if (categories.every(category => category.trim() !== '' && !isNaN(Number(category)))) {
+    return categories.sort((a, b) => Number(a) - Number(b));
+  }
+  return categories.sort((a, b) => a.localeCompare(b));
+};
+
+/** Category key of a row in a margin, or null when it has no answer to one of the variables. */
+const rowKey = (variables: SurveyVariable[], row: number): string | null => {
+  const parts: string[] = [];
+  for (const variable of variables) {
+    const value = variable.values[row];
+    if (missingCategoryOf(value, variable) !== null) return null;
+    parts.push(formatCellValue(value));
+  }
+  return parts.join(CROSS_SEPARATOR);
+};
+
+const includedRows = (data: ProcessedSurveyData) => {
+  const excluded = new Set(data.excludedRows ?? []);
+  return Array.from({ length: data.totalRows }, (_, row) => row).filter(row => !excluded.has(row));
+};
+
+/**
+ * The cells of a margin: every category of the variable, or every
+ * combination when variables are crossed, with the respondents in each.
+ * Cells with no respondents are listed too, since the population has them.
+ */
+export const marginCategories = (data: ProcessedSurveyData, names: string[]): MarginCategory[] => {
+  const variables = names.map(name => findVariable(data, name));
+  const counts = new Map<string, number>();
+  includedRows(data).forEach(row => {
+    const key = rowKey(variables, row);
+    if (key !== null) counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  let cells: Array<{ key: string[]; label: string[] }> = [{ key: [], label: [] }];
+  variables.forEach(variable => {
+    cells = cells.flatMap(cell => categoriesOf(variable).map(category => ({
+      key: [...cell.key, category],
+      label: [...cell.label, formatLabelledValue(category, variable)]
+    })));
+  });
+  return cells.map(cell => {
+    const key = cell.key.join(CROSS_SEPARATOR);
+    return { key, label: cell.label.join(CROSS_SEPARATOR), respondents: counts.get(key) ?? 0 };
+  });
+};
+
+/** Spread of a set of weights, with the precision lost to unequal weighting. */
+export const summarizeWeights = (weights: Array<number | null>): WeightSummary => {
+  const valid = weights.filter((weight): weight is number => weight !== null && Number.isFinite(weight));
+  const n = valid.length;
+  if (n === 0) {
+    return { respondents: 0, total: 0, min: 0, max: 0, mean: 0, cv: 0, designEffect: 1, effectiveSampleSize: 0 };
+  }
+  const total = valid.reduce((sum, weight) => sum + weight, 0);
+  const mean = total / n;
+  const variance = valid.reduce((sum, weight) => sum + Math.pow(weight - mean, 2), 0) / n;
+  const cv = mean > 0 ? Math.sqrt(variance) / mean : 0;
+  const sumOfSquares = valid.reduce((sum, weight) => sum + weight * weight, 0);
+  return {
+    respondents: n,
+    total,
+    min: valid.reduce((lo, weight) => Math.min(lo, weight), Infinity),
+    max: valid.reduce((hi, weight) => Math.max(hi, weight), -Infinity),
+    mean,
+    cv,
+    designEffect: 1 + cv * cv,
+    effectiveSampleSize: sumOfSquares > 0 ? (total * total) / sumOfSquares : 0
+  };
+};
+
+/** Value at a percentile (0 to 100) of sorted values, interpolating between neighbours. */
+const quantile = (sorted: number[], percentile: number) => {
+  if (sorted.length === 0) return 0;
+  const position = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+/** Included rows with a positive weight, and the weight of every row (NaN when unusable). */
+const readWeights = (data: ProcessedSurveyData, name: string) => {
+  const variable = findVariable(data, name);
+  const values = variable.values.map(value =>
+    missingCategoryOf(value, variable) === null ? numericValue(value) : NaN
+  );
+  const included = includedRows(data);
+  const rows = included.filter(row => Number.isFinite(values[row]) && values[row] > 0);
+  return { values, rows, unusable: included.length - rows.length };
+};
+
+/**
+ * Spread of a weight variable over the respondents included in estimates:
+ * summary, quantiles, histogram, the weight share of the top 1%, and the
+ * same summary within each category of an optional domain variable.
+ */
+export const diagnoseWeights = (data: ProcessedSurveyData, weight: string, domain?: string): WeightDiagnostics => {
+  const { values, rows, unusable } = readWeights(data, weight);
+  const weights = rows.map(row => values[row]);
+  const summary = summarizeWeights(weights);
+  const sorted = [...weights].sort((a, b) => a - b);
+
+  const top = sorted.slice(sorted.length - Math.ceil(sorted.length * 0.01));
+  const topShare = summary.total > 0 ? top.reduce((sum, w) => sum + w, 0) / summary.total : 0;
+
+  const width = (summary.max - summary.min) / HISTOGRAM_BINS;
+  const histogram = weights.length === 0 ? [] : Array.from({ length: width > 0 ? HISTOGRAM_BINS : 1 }, (_, bin) => ({
+    from: summary.min + bin * width,
+    to: width > 0 ? summary.min + (bin + 1) * width : summary.max,
+    respondents: 0
+  }));
+  weights.forEach(w => {
+    const bin = width > 0 ? Math.min(HISTOGRAM_BINS - 1, Math.floor((w - summary.min) / width)) : 0;
+    histogram[bin].respondents++;
+  });
+
+  let domains: WeightDiagnostics['domains'] = [];
+  if (domain) {
+    const variable = findVariable(data, domain);
+    const byKey = new Map<string, number[]>();
+    rows.forEach(row => {
+      const key = rowKey([variable], row);
+      if (key === null) return;
+      const list = byKey.get(key);
+      if (list) list.push(values[row]);
+      else byKey.set(key, [values[row]]);
+    });
+    domains = marginCategories(data, [domain])
+      .filter(category => byKey.has(category.key))
+      .map(category => ({ key: category.key, label: category.label, summary: summarizeWeights(byKey.get(category.key)!) }));
+  }
+
+  return {
+    summary,
+    maxMinRatio: summary.min > 0 ? summary.max / summary.min : 0,
+    topShare,
+    quantiles: [1, 5, 25, 50, 75, 95, 99].map(percentile => ({ percentile, value: quantile(sorted, percentile) })),
+    histogram,
+    unusable,
+    domains
+  };
+};
+
+/**
+ * Cuts weights above a cutoff down to it. With redistribution, the weight
+ * cut off is spread over the untrimmed weights in proportion to their size,
+ * repeating while that lifts others above the cutoff, so the weight total is
+ * kept. IWTP sets the cutoff at a multiple of the median weight and
+ * recomputes it after every redistribution.
+ */
+export const trimWeights = (data: ProcessedSurveyData, spec: TrimSpec): TrimResult => {
+  const { values, rows, unusable } = readWeights(data, spec.weight);
+  if (rows.length === 0) throw new Error(`${spec.weight} has no positive weights`);
+  const warnings: string[] = [];
+  if (unusable > 0) warnings.push(`${unusable} respondents have no positive weight and are left without one`);
+
+  const weights = new Float64Array(data.totalRows);
+  rows.forEach(row => { weights[row] = values[row]; });
+  const before = summarizeWeights(rows.map(row => weights[row]));
+  const redistribute = spec.redistribute || spec.rule === 'iwtp';
+
+  let fixedCutoff = NaN;
+  if (spec.rule === 'cap') {
+    if (!(spec.cap! > 0)) throw new Error('The cap must be a positive weight');
+    fixedCutoff = spec.cap!;
+  } else if (spec.rule === 'percentile') {
+    if (!(spec.percentile! > 0 && spec.percentile! < 100)) throw new Error('The percentile must be between 0 and 100');
+    fixedCutoff = quantile(rows.map(row => weights[row]).sort((a, b) => a - b), spec.percentile!);
+  } else if (!(spec.factor! > 1)) {
+    throw new Error('The IWTP factor must be larger than 1');
+  }
+  if (redistribute && fixedCutoff * rows.length < before.total) {
+    throw new Error(`A cap of ${fixedCutoff.toLocaleString()} cannot keep the weight total of ${before.total.toLocaleString()}; raise the cap or trim without redistribution`);
+  }
+
+  const trimmedRows = new Set<number>();
+  let cutoff = fixedCutoff;
+  let iterations = 0;
+  let converged = false;
+  while (iterations < TRIM_MAX_ITERATIONS) {
+    if (spec.rule === 'iwtp') {
+      cutoff = spec.factor! * quantile(rows.map(row => weights[row]).sort((a, b) => a - b), 50);
+    }
+    // A small tolerance keeps weights redistributed up to the cutoff from being trimmed again
+    const over = rows.filter(row => weights[row] > cutoff * (1 + 1e-9));
+    if (over.length === 0) {
+      converged = true;
+      break;
+    }
+    iterations++;
+    let excess = 0;
+    over.forEach(row => {
+      excess += weights[row] - cutoff;
+      weights[row] = cutoff;
+      trimmedRows.add(row);
+    });
+    if (!redistribute) {
+      converged = true;
+      break;
+    }
+    const receiving = rows.filter(row => weights[row] < cutoff);
+    const receivingTotal = receiving.reduce((sum, row) => sum + weights[row], 0);
+    if (!(receivingTotal > 0)) throw new Error('Every weight is at the cap, so the trimmed weight cannot be redistributed');
+    receiving.forEach(row => { weights[row] *= 1 + excess / receivingTotal; });
+  }
+  if (!converged) {
+    warnings.push(`Trimming did not settle in ${TRIM_MAX_ITERATIONS} iterations; some weights are still above ${cutoff.toLocaleString()}`);
+  }
+  if (trimmedRows.size === 0) warnings.push(`No weight is above ${cutoff.toLocaleString()}, so nothing was trimmed`);
+
+  const placed = new Set(rows);
+  const result = Array.from({ length: data.totalRows }, (_, row) => (placed.has(row) ? weights[row] : null));
+  return {
+    spec,
+    weights: result,
+    cutoff,
+    trimmed: trimmedRows.size,
+    iterations,
+    before,
+    after: summarizeWeights(result),
+    warnings
+  };
+};
+
+interface MarginCells {
+  variables: string[];
+  /** Cell of each row, -1 when the row is not placed in the margin. */
+  cellOf: Int32Array;
+  cells: MarginFit['cells'];
+  collapsed: MarginFit['collapsed'];
+  unplaced: number;
+}
+
+/**
+ * Places the rows in the cells of a margin, collapsing cells with fewer
+ * respondents than the minimum into the next cell (or the previous one for
+ * the last cell), so no target is left without respondents to carry it.
+ */
+const buildMarginCells = (
+  data: ProcessedSurveyData,
+  rows: number[],
+  margin: RakingSpec['margins'][number],
+  minCellSize: number
+): MarginCells => {
+  const variables = margin.variables.map(name => findVariable(data, name));
+  const name = margin.variables.join(CROSS_SEPARATOR);
+  const labels = new Map(marginCategories(data, margin.variables).map(category => [category.key, category.label]));
+
+  const keyOf = new Map<number, string>();
+  const counts = new Map<string, number>();
+  rows.forEach(row => {
+    const key = rowKey(variables, row);
+    if (key === null) return;
+    keyOf.set(row, key);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  const untargeted = [...counts.keys()].filter(key => margin.targets[key] === undefined);
+  if (untargeted.length > 0) {
+    throw new Error(`${name}: ${untargeted.map(key => labels.get(key) ?? key).join(', ')} ha${untargeted.length === 1 ? 's' : 've'} respondents but no population total`);
+  }
+  Object.entries(margin.targets).forEach(([key, target]) => {
+    if (!(Number.isFinite(target) && target >= 0)) {
+      throw new Error(`${name}: the total for ${labels.get(key) ?? key} must be a number of at least 0`);
+    }
+  });
+
+  const groups = Object.entries(margin.targets).map(([key, target]) => ({
+    keys: [key],
+    target,
+    respondents: counts.get(key) ?? 0
+  }));
+  const collapsed: MarginFit['collapsed'] = [];
+  const minimum = Math.max(1, minCellSize);
+  for (;;) {
+    const index = groups.findIndex(group => group.respondents < minimum);
+    if (index === -1 || groups.length === 1) break;
+    const group = groups[index];
+    const neighbour = index + 1 < groups.length ? index + 1 : index - 1;
+    const into = groups[neighbour];
+    group.keys.forEach(key => collapsed.push({
+      category: labels.get(key) ?? key,
+      into: into.keys.map(other => labels.get(other) ?? other).join(' + '),
+      respondents: counts.get(key) ?? 0
+    }));
+    into.keys = neighbour > index ? [...group.keys, ...into.keys] : [...into.keys, ...group.keys];
+    into.target += group.target;
+    into.respondents += group.respondents;
+    groups.splice(index, 1);
+  }
+  if (groups.every(group => group.respondents === 0)) throw new Error(`${name}: no respondents answered the margin variables`);
+
+  const groupOf = new Map<string, number>();
+  groups.forEach((group, index) => group.keys.forEach(key => groupOf.set(key, index)));
+  const cellOf = new Int32Array(data.totalRows).fill(-1);
+  keyOf.forEach((key, row) => { cellOf[row] = groupOf.get(key)!; });
+
+  return {
+    variables: margin.variables,
+    cellOf,
+    cells: groups.map(group => ({
+      keys: group.keys,
+      label: group.keys.map(key => labels.get(key) ?? key).join(' + '),
+      target: group.target,
+      achieved: 0,
+      respondents: group.respondents
+    })),
+    collapsed,
+    unplaced: rows.length - keyOf.size
+  };
+};
+
+const relativeGap = (achieved: number, target: number) =>
+  target > 0 ? Math.abs(achieved - target) / target : achieved > 0 ? 1 : 0;
+
+/**
+ * Rakes the base weights to the margins' population totals: each pass
+ * scales the weights of every cell of one margin to its target, margin by
+ * margin, until no weighted cell total is further from its target than the
+ * tolerance or the iteration limit is reached. Throws when a margin cannot
+ * be used, e.g. respondents fall in a category with no population total.
+ */
+export const rakeWeights = (data: ProcessedSurveyData, spec: RakingSpec): WeightingResult => {
+  if (spec.margins.length === 0) throw new Error('Add at least one margin with population totals');
+  if (!(spec.maxIterations >= 1)) throw new Error('Allow at least one iteration');
+  if (!(spec.tolerance > 0)) throw new Error('The tolerance must be a positive number');
+
+  const warnings: string[] = [];
+  const base = spec.baseWeight ? readWeights(data, spec.baseWeight) : null;
+  const rows = base ? base.rows : includedRows(data);
+  if (base && base.unusable > 0) {
+    warnings.push(`${base.unusable} respondents have no positive base weight and get no weight`);
+  }
+  if (rows.length === 0) throw new Error('No respondents to weight');
+
+  const margins = spec.margins.map(margin => buildMarginCells(data, rows, margin, spec.minCellSize));
+  const totals = margins.map(margin => margin.cells.reduce((sum, cell) => sum + cell.target, 0));
+  const largest = Math.max(...totals);
+  if (totals.some(total => Math.abs(total - largest) > largest * 1e-3)) {
+    warnings.push(`The margins add up to different population totals (${totals.map(total => total.toLocaleString()).join(', ')}), so they cannot all be met`);
+  }
+  margins.forEach(margin => {
+    if (margin.unplaced > 0) {
+      warnings.push(`${margin.unplaced} respondents have no answer to ${margin.variables.join(CROSS_SEPARATOR)} and are not adjusted to that margin`);
+    }
+  });
+
+  const weights = new Float64Array(data.totalRows);
+  rows.forEach(row => { weights[row] = base ? base.values[row] : 1; });
+
+  const cellTotals = (margin: MarginCells) => {
+    const sums = margin.cells.map(() => 0);
+    rows.forEach(row => {
+      const cell = margin.cellOf[row];
+      if (cell >= 0) sums[cell] += weights[row];
+    });
+    return sums;
+  };
+  const largestGap = () => margins.reduce((gap, margin) => {
+    const sums = cellTotals(margin);
+    return margin.cells.reduce((worst, cell, index) => Math.max(worst, relativeGap(sums[index], cell.target)), gap);
+  }, 0);
+
+  let iterations = 0;
+  let maxGap = largestGap();
+  while (maxGap > spec.tolerance && iterations < spec.maxIterations) {
+    iterations++;
+    margins.forEach(margin => {
+      const factors = cellTotals(margin).map((sum, index) => (sum > 0 ? margin.cells[index].target / sum : 1));
+      rows.forEach(row => {
+        const cell = margin.cellOf[row];
+        if (cell >= 0) weights[row] *= factors[cell];
+      });
+    });
+    maxGap = largestGap();
+  }
+  const converged = maxGap <= spec.tolerance;
+  if (!converged) {
+    warnings.push(`Raking did not converge in ${spec.maxIterations} iterations; the largest gap to a target is ${(maxGap * 100).toFixed(2)}%`);
+  }
+
+  const placed = new Set(rows);
+  const result = Array.from({ length: data.totalRows }, (_, row) => (placed.has(row) ? weights[row] : null));
+  return {
+    spec,
+    weights: result,
+    iterations,
+    converged,
+    maxGap,
+    margins: margins.map(margin => {
+      const sums = cellTotals(margin);
+      return {
+        variables: margin.variables,
+        cells: margin.cells.map((cell, index) => ({ ...cell, achieved: sums[index] })),
+        collapsed: margin.collapsed,
+        unplaced: margin.unplaced
+      };
+    }),
+    summary: summarizeWeights(result),
+    warnings
+  };
+};
+
+/** Whether a variable holds weights computed in the app. */
+export const isComputedWeight = (data: ProcessedSurveyData, name: string) =>
+  data.weighting?.some(record => record.name === name) ?? false;
+
+/**
+ * Returns a copy of the dataset with computed weights saved as a numeric
+ * variable under the record's name, with the record kept so the weights can
+ * be reviewed. Replaces an earlier computed weight of the same name but
+ * never an uploaded variable.
+ */
+export const storeWeights = (
+  data: ProcessedSurveyData,
+  weights: Array<number | null>,
+  record: WeightingRecord,
+  label: string
+): ProcessedSurveyData => {
+  const name = record.name.trim();
+  if (!name) throw new Error('Give the weight variable a name');
+  if (data.variables.some(variable => variable.name === name) && !isComputedWeight(data, name)) {
+    throw new Error(`"${name}" is an uploaded variable; choose another name`);
+  }
+  const next = putVariable(data, name, weights, { label, measure: 'scale' });
+  return {
+    ...next,
+    weighting: [...(data.weighting ?? []).filter(other => other.name !== name), { ...record, name }]
+  };
+};
+
+/**
+ * Returns a copy of the dataset with the weights saved as a numeric
+ * variable, replacing an earlier computed weight of the same name.
+ */
+export const saveWeights = (data: ProcessedSurveyData, result: WeightingResult): ProcessedSurveyData =>
+  storeWeights(data, result.weights, {
+    ...result.spec,
+    method: 'raking',
+    iterations: result.iterations,
+    converged: result.converged,
+    createdAt: new Date().toISOString()
+  }, `Raked weight (${result.spec.margins.map(margin => margin.variables.join(CROSS_SEPARATOR)).join(', ')})`);
+
+/** Returns a copy of the dataset with trimmed weights saved as a numeric variable. */
+export const saveTrimmedWeights = (data: ProcessedSurveyData, result: TrimResult): ProcessedSurveyData => {
+  if (result.spec.name.trim() === result.spec.weight) throw new Error('Save the trimmed weight under a new name');
+  return storeWeights(data, result.weights, {
+    ...result.spec,
+    method: 'trimming',
+    cutoff: result.cutoff,
+    trimmed: result.trimmed,
+    createdAt: new Date().toISOString()
+  }, `Trimmed weight (${result.spec.weight}, ${TRIM_RULE_LABELS[result.spec.rule]} at ${result.cutoff.toPrecision(4)})`);
+};
+
+/** Returns a copy of the dataset without a computed weight variable. */
+export const removeWeights = (data: ProcessedSurveyData, name: string): ProcessedSurveyData => {
+  if (!isComputedWeight(data, name)) throw new Error(`"${name}" is not a computed weight`);
+  const remaining = (data.weighting ?? []).filter(record => record.name !== name);
+  return { ...removeVariable(data, name), weighting: remaining.length > 0 ? remaining : undefined };
+};
@@ -0,0 +1,219 @@
+import type { CodebookEntry } from './codebook';
+import { formatCellValue, isMissingCell, missingCategoryOf } from './dataset';
+import { isXPathTrue, parseXPath } from './xpath';
+import type { Workbook } from './xlsx';
+import type { CellValue, ProcessedSurveyData, RuleCheck, SurveyVariable, VariableType } from './types';
+
+/**
+ * XLSForm questionnaires (KoBo, ODK, SurveyCTO). The `survey` sheet lists
+ * one question per row with its type, name, label and skip logic; the
+ * `choices` sheet lists the options of each select list. The form is read
+ * into codebook entries so it is applied like any other data dictionary.
+ */
+
+/** ODK stores the options chosen in a select_multiple answer separated by spaces. */
+export const XLSFORM_RESPONSE_DELIMITER = ' ';
+
+const QUESTION_TYPES: Record<string, VariableType> = {
+  integer: 'numeric',
+  decimal: 'numeric',
+  range: 'numeric',
+  select_one: 'categorical',
+  select_multiple: 'multi-response',
+  text: 'text',
+  date: 'date',
+  today: 'date',
+  datetime: 'datetime',
+  start: 'datetime',
+  end: 'datetime',
+  deviceid: 'identifier'
+};
+
+const GROUP_START = /^begin[ _](group|repeat)$/;
+const GROUP_END = /^end[ _](group|repeat)$/;
+
+const findSheet = (book: Workbook, name: string) =>
+  book.sheetNames.find(sheetName => sheetName.trim().toLowerCase() === name);
+
+/** Whether a workbook is an XLSForm rather than a tabular codebook. */
+export const isXlsForm = (sheetNames: string[]) =>
+  sheetNames.some(name => name.trim().toLowerCase() === 'survey');
+
+const cellText = (value: CellValue | undefined) =>
+  value === undefined || isMissingCell(value) ? '' : formatCellValue(value).trim();
+
+/** Reads a sheet into records keyed by lower-cased header, using the first language of translated columns. */
+const readRecords = (rows: CellValue[][]) => {
+  const [header = [], ...body] = rows;
+  const columns = header.map(cell => cellText(cell).toLowerCase());
+  const indexOf = (name: string) => {
+    const exact = columns.indexOf(name);
+    return exact !== -1 ? exact : columns.findIndex(column => column.startsWith(`${name}::`));
+  };
+  return (field: string) => {
+    const column = indexOf(field);
+    return body.map(row => (column === -1 ? '' : cellText(row[column])));
+  };
+};
+
+const joinConditions = (conditions: string[]) =>
+  conditions.length === 1 ? conditions[0] : conditions.map(condition => `(${condition})`).join(' and ');
+
+/**
+ * Reads the survey and choices sheets. Each question becomes an entry with
+ * its type, label as question text, choice labels as value labels and its
+ * `relevant` condition combined with those of the groups around it.
+ */
+export const parseXlsForm = (book: Workbook): CodebookEntry[] => {
+  const surveySheet = findSheet(book, 'survey');
+  if (!surveySheet) throw new Error('An XLSForm needs a "survey" sheet');
+
+  const choices = new Map<string, Record<string, string>>();
+  const choicesSheet = findSheet(book, 'choices');
+  if (choicesSheet) {
+    const column = readRecords(book.readSheet(choicesSheet));
+    const listNames = column('list_name');
+    const listNamesSpaced = column('list name');
+    const names = column('name');
+    const labels = column('label');
+    names.forEach((name, row) => {
+      const list = listNames[row] || listNamesSpaced[row];
+      if (!list || !name) return;
+      choices.set(list, { ...choices.get(list), [name]: labels[row] || name });
+    });
+  }
+
+  const column = readRecords(book.readSheet(surveySheet));
+  const types = column('type');
+  const names = column('name');
+  const labels = column('label');
+  const relevants = column('relevant');
+  const constraints = column('constraint');
+
+  const entries: CodebookEntry[] = [];
+  const groupConditions: string[] = [];
+  types.forEach((type, row) => {
+    const normalized = type.toLowerCase().replace(/\s+/g, ' ');
+    if (GROUP_START.test(normalized)) {
+      groupConditions.push(relevants[row]);
+      return;
+    }
+    if (GROUP_END.test(normalized)) {
+      groupConditions.pop();
+      return;
+    }
+    // Notes display text and hold no answers
+    const [base = '', list] = normalized.split(' ');
+    if (!names[row] || base === 'note') return;
+
+    const conditions = [...groupConditions, relevants[row]].filter(Boolean);
+    const entry: CodebookEntry = { name: names[row] };
+    if (QUESTION_TYPES[base]) entry.type = QUESTION_TYPES[base];
+    if (labels[row]) entry.question = labels[row];
+    if (list && choices.has(list)) entry.valueLabels = choices.get(list);
+    if (base === 'select_multiple') entry.responseDelimiter = XLSFORM_RESPONSE_DELIMITER;
+    if (conditions.length > 0) entry.relevant = joinConditions(conditions);
+    if (constraints[row]) entry.constraint = constraints[row];
+    entries.push(entry);
+  });
+
+  if (entries.length === 0) throw new Error('The XLSForm survey sheet has no questions');
+  return entries;
+};
+
+export interface SkipLogicIssue {
+  variable: string;
+  /** `relevant`: answered although the question should have been skipped; `constraint`: answer fails its constraint. */
+  kind: 'relevant' | 'constraint';
+  expression: string;
+  /** 1-based data rows with the problem. */
+  rows: number[];
+  /** Set when the expression could not be checked. */
+  error?: string;
+}
+
+/**
+ * Finds variables that refer to `${name}` the way ODK exports name
+ * columns: exactly, without regard to case, or by the last segment of a
+ * `group/question` path.
+ */
+const variableResolver = (data: ProcessedSurveyData) => {
+  const exact = new Map(data.variables.map(variable => [variable.name, variable]));
+  const lower = new Map(data.variables.map(variable => [variable.name.toLowerCase(), variable]));
+  const bySegment = new Map<string, SurveyVariable | null>();
+  data.variables.forEach(variable => {
+    const segment = variable.name.split('/').pop()!.toLowerCase();
+    bySegment.set(segment, bySegment.has(segment) ? null : variable);
+  });
+  return (name: string) =>
+    exact.get(name) ?? lower.get(name.toLowerCase()) ?? bySegment.get(name.toLowerCase()) ?? undefined;
+};
+
+// Not-applicable codes are how a skipped question is meant to be recorded
+const isAnswered = (value: CellValue, variable: SurveyVariable) => {
+  const category = missingCategoryOf(value, variable);
+  return category !== 'system' && category !== 'not-applicable';
+};
+
+/**
+ * Checks every row against the form's skip logic: questions answered when
+ * their `relevant` condition is false, and answers that fail their
+ * `constraint`. Expressions that cannot be parsed are reported with an
+ * error instead of rows.
+ */
+export const findSkipLogicIssues = (data: ProcessedSurveyData): SkipLogicIssue[] => {
+  const resolve = variableResolver(data);
+  const issues: SkipLogicIssue[] = [];
+
+  data.variables.forEach(variable => {
+    const rules = [
+      { kind: 'relevant' as const, expression: variable.relevant },
+      { kind: 'constraint' as const, expression: variable.constraint }
+    ];
+    rules.forEach(({ kind, expression }) => {
+      if (!expression) return;
+      try {
+        const node = parseXPath(expression);
+        const rows: number[] = [];
+        variable.values.forEach((value, row) => {
+          if (!isAnswered(value, variable)) return;
+          // A constraint only applies to real answers, not to declared missing codes
+          if (kind === 'constraint' && missingCategoryOf(value, variable) !== null) return;
+          const context = { value: (name: string) => resolve(name)?.values[row], self: value };
+          if (!isXPathTrue(node, context)) rows.push(row + 1);
+        });
+        if (rows.length > 0) issues.push({ variable: variable.name, kind, expression, rows });
+      } catch (error) {
+        issues.push({
+          variable: variable.name,
+          kind,
+          expression,
+          rows: [],
+          error: error instanceof Error ? error.message : 'The expression could not be evaluated'
+        });
+      }
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * Skip-logic issues in the form sent for quality scoring: answers given
+ * although the question should have been skipped break consistency, and
+ * answers failing their constraint break validity.
+ */
+export const skipLogicRuleChecks = (data: ProcessedSurveyData): RuleCheck[] =>
+  findSkipLogicIssues(data)
+    .filter(issue => !issue.error)
+    .map(issue => ({
+      rule: `${issue.variable} ${issue.kind}: ${issue.expression}`,
+      source: issue.kind === 'relevant' ? 'skip-logic' as const : 'constraint' as const,
+      dimension: issue.kind === 'relevant' ? 'consistency' as const : 'validity' as const,
+      variables: [issue.variable],
+      rows: issue.rows.map(row => row - 1)
+    }));
+
+/** Whether any variable carries skip logic or a constraint to check. */
+export const hasSkipLogic = (data: ProcessedSurveyData) =>
+  data.variables.some(variable => variable.relevant || variable.constraint);
@@ -0,0 +1,250 @@
+import { strFromU8, unzipSync } from 'fflate';
+import type { CellValue } from './types';
+
+/**
+ * Minimal reader for Office Open XML workbooks (.xlsx). Only the parts needed
+ * to recover cell values are read: the workbook manifest, shared strings,
+ * number formats (to tell dates from plain numbers) and the worksheets.
+ */
+
+export interface Workbook {
+  sheetNames: string[];
+  readSheet: (name: string) => CellValue[][];
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+};
+
+const decodeXml = (text: string): string =>
+  text
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+      if (entity[0] === '#') {
+        const code = entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+        return String.fromCodePoint(code);
+      }
+      return XML_ENTITIES[entity] ?? match;
+    })
+    // OOXML escapes control characters as _xHHHH_
+    .replace(/_x([0-9a-f]{4})_/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    attributes[match[1]] = decodeXml(match[2] ?? match[3]);
+  }
+  return attributes;
+};
+
+interface XmlElement {
+  attributes: Record<string, string>;
+  body: string;
+}
+
+/** Collects every `<tag>` element (with or without a namespace prefix). */
+const findElements = (xml: string, tag: string): XmlElement[] => {
+  const pattern = new RegExp(
+    `<(?:[\\w-]+:)?${tag}(\\s[^>]*?)?(?:\\/>|>([\\s\\S]*?)<\\/(?:[\\w-]+:)?${tag}>)`,
+    'g'
+  );
+  const elements: XmlElement[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml))) {
+    elements.push({ attributes: parseAttributes(match[1] || ''), body: match[2] || '' });
+  }
+  return elements;
+};
+
+/** Concatenates the text runs of a string item, skipping phonetic hints. */
+const readRichText = (xml: string): string =>
+  findElements(xml.replace(/<(?:[\w-]+:)?rPh\b[\s\S]*?<\/(?:[\w-]+:)?rPh>/g, ''), 't')
+    .map(t => decodeXml(t.body))
+    .join('');
+
+const BUILTIN_DATE_FORMATS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36,
+  45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58, 71, 72, 73, 74, 75, 76, 77, 78, 79, 80, 81
+]);
+
+const isDateFormatCode = (code: string): boolean => {
+  const stripped = code
+    .replace(/"[^"]*"/g, '')
+    .replace(/\\./g, '')
+    .replace(/\[(?!h\]|hh\]|m\]|mm\]|s\]|ss\])[^\]]*\]/gi, '');
+  if (/^general$/i.test(stripped.trim())) return false;
+  return /[dmyhs]/i.test(stripped);
+};
+
+const readDateStyles = (stylesXml: string | undefined): boolean[] => {
+  if (!stylesXml) return [];
+  const customFormats = new Map<number, string>();
+  findElements(stylesXml, 'numFmt').forEach(({ attributes }) => {
+    customFormats.set(Number(attributes.numFmtId), attributes.formatCode || '');
+  });
+
+  const cellXfs = findElements(stylesXml, 'cellXfs')[0];
+  if (!cellXfs) return [];
+  return findElements(cellXfs.body, 'xf').map(({ attributes }) => {
+    const id = Number(attributes.numFmtId || 0);
+    if (customFormats.has(id)) return isDateFormatCode(customFormats.get(id)!);
+    return BUILTIN_DATE_FORMATS.has(id);
+  });
+};
+
+const MS_PER_DAY = 86400000;
+// Serial 25569 is 1970-01-01 in the 1900 date system.
+const EPOCH_OFFSET_1900 = 25569;
+// The 1904 date system starts 1462 days later.
+const EPOCH_OFFSET_1904 = EPOCH_OFFSET_1900 - 1462;
+
+const serialToDate = (serial: number, date1904: boolean): Date => {
+  let offset = date1904 ? EPOCH_OFFSET_1904 : EPOCH_OFFSET_1900;
+  // Excel treats 1900 as a leap year, so serials before 1900-03-01 are a day ahead.
+  if (!date1904 && serial < 61) offset -= 1;
+  return new Date(Math.round((serial - offset) * MS_PER_DAY));
+};
+
+const columnIndex = (reference: string): number => {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || '';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+// The relationships namespace prefix is usually r: but is not fixed.
+const relationshipId = (attributes: Record<string, string>): string => {
+  const key = Object.keys(attributes).find(name => name === 'id' || name.endsWith(':id'));
+  return key ? attributes[key] : '';
+};
+
+const resolveTarget = (target: string): string => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = `xl/${target}`.split('/');
+  const resolved: string[] = [];
+  parts.forEach(part => {
+    if (part === '..') resolved.pop();
+    else if (part !== '.') resolved.push(part);
+  });
+  return resolved.join('/');
+};
+
+export const readWorkbook = (buffer: ArrayBuffer): Workbook => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(buffer), {
+      filter: file => file.name.startsWith('xl/')
+    });
+  } catch {
+    throw new Error('The file is not a valid XLSX workbook');
+  }
+
+  const readText = (path: string): string | undefined =>
+    files[path] ? strFromU8(files[path]) : undefined;
+
+  const workbookXml = readText('xl/workbook.xml');
+  const relsXml = readText('xl/_rels/workbook.xml.rels');
+  if (!workbookXml || !relsXml) {
+    throw new Error('The file is not a valid XLSX workbook');
+  }
+
+  const date1904 = findElements(workbookXml, 'workbookPr')
+    .some(({ attributes }) => attributes.date1904 === '1' || attributes.date1904 === 'true');
+
+  const targets = new Map<string, string>();
+  findElements(relsXml, 'Relationship').forEach(({ attributes }) => {
+    targets.set(attributes.Id, resolveTarget(attributes.Target));
+  });
+
+  const sheets = findElements(workbookXml, 'sheet')
+    .filter(({ attributes }) => attributes.state !== 'veryHidden')
+    .map(({ attributes }) => ({
+      name: attributes.name,
+      path: targets.get(relationshipId(attributes)) || ''
+    }))
+    .filter(sheet => files[sheet.path]);
+
+  const sharedStringsXml = readText('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml
+    ? findElements(sharedStringsXml, 'si').map(si => readRichText(si.body))
+    : [];
+  const dateStyles = readDateStyles(readText('xl/styles.xml'));
+
+  const readCell = (attributes: Record<string, string>, body: string): CellValue => {
+    const type = attributes.t || 'n';
+    if (type === 'inlineStr') {
+      const inline = findElements(body, 'is')[0];
+      return inline ? readRichText(inline.body) : null;
+    }
+
+    const raw = findElements(body, 'v')[0];
+    if (!raw) return null;
+    const text = decodeXml(raw.body);
+
+    switch (type) {
+      case 's':
+        return sharedStrings[Number(text)] ?? null;
+      case 'str':
+        return text;
+      case 'b':
+        return text === '1' || text === 'true';
+      case 'e':
+        return null;
+      case 'd': {
+        const date = new Date(text);
+        return isNaN(date.getTime()) ? text : date;
+      }
+      default: {
+        const value = Number(text);
+        if (isNaN(value)) return text;
+        return dateStyles[Number(attributes.s || 0)] ? serialToDate(value, date1904) : value;
+      }
+    }
+  };
+
+  const readSheet = (name: string): CellValue[][] => {
+    const sheet = sheets.find(s => s.name === name);
+    if (!sheet) throw new Error(`Sheet "${name}" not found in workbook`);
+    const sheetData = findElements(readText(sheet.path) || '', 'sheetData')[0];
+    if (!sheetData) return [];
+
+    const rows: CellValue[][] = [];
+    let nextRow = 0;
+    findElements(sheetData.body, 'row').forEach(({ attributes, body }) => {
+      const rowIndex = attributes.r ? Number(attributes.r) - 1 : nextRow;
+      nextRow = rowIndex + 1;
+
+      const cells: CellValue[] = [];
+      let nextColumn = 0;
+      findElements(body, 'c').forEach(cell => {
+        const column = cell.attributes.r ? columnIndex(cell.attributes.r) : nextColumn;
+        nextColumn = column + 1;
+        cells[column] = readCell(cell.attributes, cell.body);
+      });
+
+      for (let i = 0; i < cells.length; i++) {
+        if (cells[i] === undefined) cells[i] = null;
+      }
+      rows[rowIndex] = cells;
+    });
+
+    for (let i = 0; i < rows.length; i++) {
+      if (!rows[i]) rows[i] = [];
+    }
+    return rows;
+  };
+
+  return {
+    sheetNames: sheets.map(sheet => sheet.name),
+    readSheet
+  };
+};
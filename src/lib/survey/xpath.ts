@@ -0,0 +1,275 @@
+import { formatCellValue, isMissingCell } from './dataset';
+import type { CellValue } from './types';
+
+/**
+ * Evaluator for the subset of ODK XPath used in XLSForm `relevant` and
+ * `constraint` columns: `${name}` references, `.` for the answer being
+ * checked, comparisons, arithmetic, `and`/`or` and the common functions
+ * such as `selected()` and `count-selected()`. Expressions are parsed into a
+ * tree and interpreted; nothing is passed to `eval`.
+ */
+
+export type XPathValue = string | number | boolean;
+
+export type XPathNode =
+  | { kind: 'literal'; value: string | number }
+  | { kind: 'ref'; name: string }
+  | { kind: 'self' }
+  | { kind: 'negate'; operand: XPathNode }
+  | { kind: 'binary'; operator: string; left: XPathNode; right: XPathNode }
+  | { kind: 'call'; name: string; args: XPathNode[] };
+
+export interface XPathContext {
+  /** The answer to the question named `name` in the current row. */
+  value: (name: string) => CellValue | undefined;
+  /** The answer being checked by a constraint. */
+  self?: CellValue;
+}
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'ref'; value: string }
+  | { type: 'name'; value: string }
+  | { type: 'symbol'; value: string };
+
+const SYMBOLS = ['!=', '<=', '>=', '=', '<', '>', '+', '-', '*', '(', ')', ',', '.'];
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < expression.length) {
+    const rest = expression.slice(position);
+    const space = rest.match(/^\s+/);
+    if (space) {
+      position += space[0].length;
+      continue;
+    }
+
+    const ref = rest.match(/^\$\{\s*([^}\s]+)\s*\}/);
+    const number = rest.match(/^(\d+(\.\d*)?|\.\d+)/);
+    const string = rest.match(/^'([^']*)'|^"([^"]*)"/);
+    const name = rest.match(/^[A-Za-z_][\w:-]*/);
+    const symbol = SYMBOLS.find(candidate => rest.startsWith(candidate));
+
+    if (ref) {
+      tokens.push({ type: 'ref', value: ref[1] });
+      position += ref[0].length;
+    } else if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]) });
+      position += number[0].length;
+    } else if (string) {
+      tokens.push({ type: 'string', value: string[1] ?? string[2] });
+      position += string[0].length;
+    } else if (name) {
+      tokens.push({ type: 'name', value: name[0] });
+      position += name[0].length;
+    } else if (symbol) {
+      tokens.push({ type: 'symbol', value: symbol });
+      position += symbol.length;
+    } else {
+      throw new Error(`Unexpected "${rest[0]}" at position ${position + 1}`);
+    }
+  }
+  return tokens;
+};
+
+/** Binary operators from the loosest to the tightest binding. */
+const PRECEDENCE: string[][] = [['or'], ['and'], ['=', '!='], ['<', '<=', '>', '>='], ['+', '-'], ['*', 'div', 'mod']];
+
+/** Parses an expression, throwing on syntax errors. */
+export const parseXPath = (expression: string): XPathNode => {
+  const tokens = tokenize(expression);
+  let index = 0;
+
+  const peekOperator = () => {
+    const token = tokens[index];
+    return token && (token.type === 'symbol' || token.type === 'name') ? token.value : undefined;
+  };
+
+  const expect = (symbol: string) => {
+    const token = tokens[index];
+    if (!token || token.type !== 'symbol' || token.value !== symbol) {
+      throw new Error(`Expected "${symbol}"${token ? ` before "${token.value}"` : ' at the end'}`);
+    }
+    index++;
+  };
+
+  const parseLevel = (level: number): XPathNode => {
+    if (level === PRECEDENCE.length) return parseUnary();
+    let left = parseLevel(level + 1);
+    for (let operator = peekOperator(); operator && PRECEDENCE[level].includes(operator); operator = peekOperator()) {
+      index++;
+      left = { kind: 'binary', operator, left, right: parseLevel(level + 1) };
+    }
+    return left;
+  };
+
+  const parseUnary = (): XPathNode => {
+    const token = tokens[index];
+    if (token?.type === 'symbol' && token.value === '-') {
+      index++;
+      return { kind: 'negate', operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): XPathNode => {
+    const token = tokens[index++];
+    if (!token) throw new Error('The expression ends unexpectedly');
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'ref':
+        return { kind: 'ref', name: token.value };
+      case 'name': {
+        expect('(');
+        const args: XPathNode[] = [];
+        if (tokens[index]?.type !== 'symbol' || tokens[index].value !== ')') {
+          args.push(parseLevel(0));
+          while (tokens[index]?.type === 'symbol' && tokens[index].value === ',') {
+            index++;
+            args.push(parseLevel(0));
+          }
+        }
+        expect(')');
+        return { kind: 'call', name: token.value, args };
+      }
+      case 'symbol':
+        if (token.value === '.') return { kind: 'self' };
+        if (token.value === '(') {
+          const inner = parseLevel(0);
+          expect(')');
+          return inner;
+        }
+    }
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  const node = parseLevel(0);
+  if (index < tokens.length) throw new Error(`Unexpected "${tokens[index].value}"`);
+  return node;
+};
+
+/** Question names an expression refers to with `${name}`. */
+export const referencedNames = (node: XPathNode): string[] => {
+  switch (node.kind) {
+    case 'ref':
+      return [node.name];
+    case 'negate':
+      return referencedNames(node.operand);
+    case 'binary':
+      return [...referencedNames(node.left), ...referencedNames(node.right)];
+    case 'call':
+      return node.args.flatMap(referencedNames);
+    default:
+      return [];
+  }
+};
+
+// Unanswered questions read as the empty string, as they do in ODK
+const fromCell = (value: CellValue | undefined): XPathValue => {
+  if (value === undefined || isMissingCell(value)) return '';
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  return formatCellValue(value);
+};
+
+const toNumber = (value: XPathValue): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value.trim() === '' ? NaN : Number(value);
+};
+
+const toBoolean = (value: XPathValue): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0 && !isNaN(value);
+  return value !== '';
+};
+
+const toText = (value: XPathValue): string => {
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  return String(value);
+};
+
+const selections = (value: XPathValue) => toText(value).split(/\s+/).filter(Boolean);
+
+const equals = (left: XPathValue, right: XPathValue): boolean => {
+  if (typeof left === 'boolean' || typeof right === 'boolean') return toBoolean(left) === toBoolean(right);
+  if (typeof left === 'number' || typeof right === 'number') return toNumber(left) === toNumber(right);
+  return left === right;
+};
+
+const FUNCTIONS: Record<string, (args: XPathValue[]) => XPathValue> = {
+  'true': () => true,
+  'false': () => false,
+  not: ([value]) => !toBoolean(value),
+  boolean: ([value]) => toBoolean(value),
+  number: ([value]) => toNumber(value),
+  int: ([value]) => Math.trunc(toNumber(value)),
+  string: ([value]) => toText(value),
+  'string-length': ([value]) => toText(value).length,
+  concat: args => args.map(toText).join(''),
+  contains: ([text, part]) => toText(text).includes(toText(part)),
+  'starts-with': ([text, part]) => toText(text).startsWith(toText(part)),
+  'ends-with': ([text, part]) => toText(text).endsWith(toText(part)),
+  regex: ([text, pattern]) => new RegExp(toText(pattern)).test(toText(text)),
+  selected: ([list, option]) => selections(list).includes(toText(option)),
+  'count-selected': ([list]) => selections(list).length,
+  coalesce: ([first, second]) => (toText(first) !== '' ? first : second),
+  'if': ([condition, then, otherwise]) => (toBoolean(condition) ? then : otherwise),
+  round: ([value, digits]) => {
+    const factor = 10 ** (digits === undefined ? 0 : toNumber(digits));
+    return Math.round(toNumber(value) * factor) / factor;
+  }
+};
+
+const applyOperator = (operator: string, left: XPathValue, right: XPathValue): XPathValue => {
+  switch (operator) {
+    case '=': return equals(left, right);
+    case '!=': return !equals(left, right);
+    case '<': return toNumber(left) < toNumber(right);
+    case '<=': return toNumber(left) <= toNumber(right);
+    case '>': return toNumber(left) > toNumber(right);
+    case '>=': return toNumber(left) >= toNumber(right);
+    case '+': return toNumber(left) + toNumber(right);
+    case '-': return toNumber(left) - toNumber(right);
+    case '*': return toNumber(left) * toNumber(right);
+    case 'div': return toNumber(left) / toNumber(right);
+    case 'mod': return toNumber(left) % toNumber(right);
+  }
+  throw new Error(`Unsupported operator "${operator}"`);
+};
+
+/** Evaluates a parsed expression; unsupported functions throw. */
+export const evaluateXPath = (node: XPathNode, context: XPathContext): XPathValue => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'ref':
+      return fromCell(context.value(node.name));
+    case 'self':
+      return fromCell(context.self);
+    case 'negate':
+      return -toNumber(evaluateXPath(node.operand, context));
+    case 'binary':
+      // `and`/`or` short-circuit like XPath
+      if (node.operator === 'and') {
+        return toBoolean(evaluateXPath(node.left, context)) && toBoolean(evaluateXPath(node.right, context));
+      }
+      if (node.operator === 'or') {
+        return toBoolean(evaluateXPath(node.left, context)) || toBoolean(evaluateXPath(node.right, context));
+      }
+      return applyOperator(node.operator, evaluateXPath(node.left, context), evaluateXPath(node.right, context));
+    case 'call': {
+      // Own keys only, so names such as constructor or toString are not functions
+      const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined;
+      if (!fn) throw new Error(`The function ${node.name}() is not supported`);
+      return fn(node.args.map(arg => evaluateXPath(arg, context)));
+    }
+  }
+};
+
+/** Evaluates an expression to a boolean, as ODK does for relevance and constraints. */
+export const isXPathTrue = (node: XPathNode, context: XPathContext): boolean =>
+  toBoolean(evaluateXPath(node, context));
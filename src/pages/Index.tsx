@@ -6,15 +6,16 @@ import { ResultsDashboard } from '@/components/survey/ResultsDashboard';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ChartBar, Upload, Database, FileText } from 'lucide-react';
+import type { ProcessedSurveyData } from '@/lib/survey/types';
 
 const Index = () => {
   const [currentStep, setCurrentStep] = useState<'upload' | 'preview' | 'results'>('upload');
-  const [uploadedData, setUploadedData] = useState<any>(null);
+  const [uploadedData, setUploadedData] = useState<ProcessedSurveyData | null>(null);
   const [analysisGoal, setAnalysisGoal] = useState<string>('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
 
-  const handleFileProcessed = (data: any) => {
+  const handleFileProcessed = (data: ProcessedSurveyData) => {
     setUploadedData(data);
     setCurrentStep('preview');
   };
@@ -122,7 +123,7 @@ const Index = () => {
                 </CardContent>
               </Card>
               
-              <DataPreview data={uploadedData} onStartAnalysis={handleStartAnalysis} />
+              <DataPreview data={uploadedData} onDataChange={setUploadedData} onStartAnalysis={handleStartAnalysis} />
             </div>
           )}
 
@@ -169,7 +170,7 @@ const Index = () => {
                     </CardContent>
                   </Card>
                   
-                  <DataPreview data={uploadedData} onStartAnalysis={handleStartAnalysis} />
+                  <DataPreview data={uploadedData} onDataChange={setUploadedData} onStartAnalysis={handleStartAnalysis} />
                 </div>
               ) : (
                 <div>
@@ -199,7 +200,7 @@ const Index = () => {
                     </div>
                   </div>
                   
-                  <ResultsDashboard data={uploadedData} />
+                  <ResultsDashboard data={uploadedData} onDataChange={setUploadedData} />
                 </div>
               )}
             </div>
@@ -1,37 +1,288 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+type CellValue = string | number | boolean | null;
+
+type MissingCategory = 'system' | 'refused' | 'dont-know' | 'not-applicable' | 'other';
+
+type VariableType =
+  | 'numeric'
+  | 'categorical'
+  | 'ordinal'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'identifier'
+  | 'text'
+  | 'multi-response';
+
+// Columnar dataset: each variable holds one value per row (null = missing),
+// and all value arrays share the same row order.
 interface SurveyData {
   variables: Array<{
     name: string;
-    type: 'numeric' | 'categorical';
-    values: any[];
+    type: VariableType;
+    values: CellValue[];
     missing: number;
+    label?: string;
+    valueLabels?: Record<string, string>;
+    // Ordinal levels from lowest to highest
+    levels?: string[];
+    // Separator between the selected options of a multi-response cell
+    responseDelimiter?: string;
+    // Coded missing values (e.g. -99, "DK") keyed by their text, with the reason each stands for
+    missingCategories?: Record<string, MissingCategory>;
+    // Imputed cells: their rows, the values they held before and, for
+    // multiple imputation, the values of each completed dataset
+    imputation?: {
+      method: string;
+      rows: number[];
+      original: CellValue[];
+      draws?: CellValue[][];
+    };
+    // Outlier treatments that changed cells, in the order applied
+    transformations?: Array<{
+      method: string;
+      treatment: string;
+      rows: number[];
+      original: CellValue[];
+    }>;
   }>;
-  sampleData: any[];
+  multiResponseSets?: MultiResponseSet[];
+  // Rows of respondents left out of parameter estimates (quality exclusions)
+  excludedRows?: number[];
+  // Rules checked by the client (skip logic, constraints, validation rules) with the rows that break them
+  ruleChecks?: RuleCheck[];
+  sampleData: Record<string, CellValue>[];
   totalRows: number;
   analysisGoal?: string;
 }
 
+// Select-all-that-apply question: one delimited cell, or one dummy column per option
+interface MultiResponseSet {
+  name: string;
+  label?: string;
+  layout: 'delimited' | 'dummy';
+  variables: string[];
+  delimiter?: string;
+  // Dummy cell value meaning "selected"; when unset any answer but 0/false/no counts
+  selectedValue?: string;
+  optionLabels?: Record<string, string>;
+}
+
+// Manifest for datasets too large to post inline: the client uploads
+// gzip-compressed parts (each a subset of whole variables) to Storage.
+interface DatasetReference {
+  bucket: string;
+  parts: string[];
+  fileName: string;
+  totalRows: number;
+  multiResponseSets?: MultiResponseSet[];
+  excludedRows?: number[];
+  ruleChecks?: RuleCheck[];
+  sampleData: Record<string, CellValue>[];
+}
+
+interface RuleCheck {
+  rule: string;
+  source: string;
+  dimension: 'validity' | 'consistency';
+  variables: string[];
+  // 0-based rows that break the rule
+  rows: number[];
+}
+
+type QualityDimensionName = 'completeness' | 'validity' | 'consistency';
+
+interface QualityCheck {
+  name: string;
+  // 0-100
+  score: number;
+  detail: string;
+}
+
+interface QualityReport {
+  overall: number;
+  dimensions: Record<QualityDimensionName, { score: number; weight: number; checks: QualityCheck[] }>;
+  variables: Array<{
+    name: string;
+    score: number;
+    completeness: number;
+    validity: number;
+    consistency: number;
+    issues: string[];
+  }>;
+}
+
+const DATASET_BUCKET = 'survey-uploads';
+
+// One entry of the estimation log sent by the client
+interface EstimationParameter {
+  estimatingParameter: string;
+  baseParameter: string;
+  aggregationType: string;
+  weightVariable?: string;
+  missingTreatment?: 'exclude' | 'include-codes';
+  // Estimate with the imputed values, without them, or both
+  imputationTreatment?: 'include' | 'exclude' | 'compare';
+  // Sample design: strata, primary sampling units (clusters) and finite population correction.
+  // The FPC holds either the sampling fraction or the number of PSUs in the stratum's population.
+  strataVariable?: string;
+  clusterVariable?: string;
+  fpcVariable?: string;
+  // Replicate weights shipped with the data, used instead of design variables.
+  // The scale defaults to the method's; JKn needs one scale factor per replicate.
+  replicateWeights?: string[];
+  replicateMethod?: ReplicateMethod;
+  replicateScale?: number;
+  replicateScales?: number[];
+  fayCoefficient?: number;
+  // Calibration of the weights to population totals; the uncalibrated
+  // estimates are returned alongside for comparison
+  calibration?: CalibrationSpec;
+}
+
+type ReplicateMethod = 'JK1' | 'JKn' | 'BRR' | 'Fay' | 'bootstrap';
+
+type CalibrationMethod = 'poststratification' | 'linear' | 'truncated' | 'logit';
+
+// Population totals the weights are calibrated to. Categorical auxiliaries
+// are given per category, crossed variables joined with " × "; continuous
+// auxiliaries by their population total. Post-stratification takes a single
+// categorical auxiliary. Truncated and logit calibration keep the ratio of
+// calibrated to initial weights between the bounds, with the initial weights
+// first scaled to the population size.
+interface CalibrationSpec {
+  method: CalibrationMethod;
+  margins: Array<{ variables: string[]; targets: Record<string, number> }>;
+  totals?: Record<string, number>;
+  // Population size, calibrated as an intercept when no categorical auxiliary is given
+  populationSize?: number;
+  lower?: number;
+  upper?: number;
+}
+
 interface ParameterEstimate {
   estimatingParameter: string;
   baseParameter: string;
   aggregationType: string;
   weightVariable?: string;
+  // Option of a multi-response set that the proportions refer to
+  option?: string;
+  optionLabel?: string;
   groups: Array<{
     group: string;
     estimate: number;
+    // Readable form of the estimate when it is not a plain number (ordinal level, date)
+    estimateLabel?: string;
     marginOfError: number;
     confidenceInterval: [number, number];
     sampleSize: number;
     weightedN: number;
+    // Responses in the group left out of the estimate, by missing reason
+    excluded: Record<MissingCategory, number>;
+    // Design variance over the variance of a simple random sample of the same size
+    designEffect?: number;
   }>;
+  // Declared sample design behind the design-based variances
+  design?: {
+    strataVariable?: string;
+    clusterVariable?: string;
+    fpcVariable?: string;
+    strata: number;
+    clusters: number;
+    degreesOfFreedom: number;
+    // Strata with one PSU, whose variance is centred on the overall PSU mean
+    singletonStrata: number;
+  };
+  // Replicate weights behind the variances
+  replicates?: {
+    method: ReplicateMethod;
+    count: number;
+    scale: number;
+    fayCoefficient?: number;
+  };
+  // Calibration behind the estimate; uncalibrated estimates are flagged for comparison
+  calibration?: {
+    applied: boolean;
+    method: CalibrationMethod;
+    auxiliaries: string[];
+    iterations?: number;
+    // Smallest and largest ratio of calibrated to initial weight
+    gRange?: [number, number];
+  };
+  // Whether imputed cells were used; multiple imputations are pooled with Rubin's rules
+  imputation?: {
+    treatment: 'included' | 'excluded';
+    imputedCells: number;
+    draws?: number;
+  };
+  // Outlier treatments applied to the variables behind the estimate
+  transformations?: TreatmentSummary[];
+  // Respondents left out by the quality exclusions
+  excludedRespondents?: number;
+  // Respondents left out for lack of a positive weight
+  unweightedRespondents?: number;
+}
+
+interface TreatmentSummary {
+  variable: string;
+  method: string;
+  treatment: string;
+  cells: number;
+}
+
+// Rows placed in the sample design: each row's stratum and PSU as indices,
+// with PSUs numbered across strata so a PSU ID reused in two strata counts twice
+interface SampleDesign {
+  psuOf: number[];
+  psuStratum: number[];
+  psusInStratum: number[];
+  // Sampling fraction of each stratum, 0 without a finite population correction
+  samplingFraction: number[];
+}
+
+// Replicate weight columns with the factors of
+// V = scale * sum over replicates of rscale_r (estimate_r - estimate)^2
+interface ReplicateDesign {
+  method: ReplicateMethod;
+  weights: number[][];
+  scale: number;
+  rscales: number[];
+  fayCoefficient?: number;
+}
+
+// Calibrated weights with the auxiliary values of each row, kept for the
+// regression residuals that carry the calibration into the variance
+interface Calibration {
+  spec: CalibrationSpec;
+  auxiliaries: string[];
+  x: number[][];
+  targets: number[];
+  weights: number[];
+  // Ratio of calibrated to initial weight of each row
+  g: number[];
+  // Population size the initial weights are scaled to, when the totals imply one
+  populationSize?: number;
+  // Inverse of the weighted cross-products of the auxiliaries, sum of w x x'
+  inverse: number[][];
+  iterations: number;
+}
+
+// Point estimate of a group with its margin of error; quantiles carry their
+// own, possibly asymmetric, interval
+interface GroupResult {
+  estimate: number;
+  marginOfError: number;
+  designEffect?: number;
+  interval?: [number, number];
 }
 
 serve(async (req) => {
@@ -40,26 +291,31 @@ serve(async (req) => {
   }
 
   try {
-    const { data, parameters }: { data: SurveyData; parameters?: any[] } = await req.json();
+    const body: { data?: SurveyData; dataRef?: DatasetReference; parameters?: EstimationParameter[] } = await req.json();
+    const data = body.dataRef ? await loadDatasetReference(body.dataRef, req) : body.data;
+    const parameters = body.parameters;
     
     console.log('Analyzing survey data with', data?.variables?.length || 0, 'variables');
     
     if (!data || !data.variables || !Array.isArray(data.variables)) {
       throw new Error('Invalid data structure: missing or invalid variables array');
     }
+    validateColumns(data);
     
     // Perform comprehensive statistical analysis
     const statisticalAnalysis = performStatisticalAnalysis(data);
     const parameterEstimates = parameters ? computeParameterEstimates(data, parameters) : [];
     const insights = await generateAIInsights(data, statisticalAnalysis);
     const visualizations = generateVisualizationData(data, statisticalAnalysis);
+    const quality = assessDataQuality(data);
     
     const results = {
       statisticalAnalysis,
       parameterEstimates,
       insights,
       visualizations,
-      qualityScore: calculateQualityScore(data),
+      qualityScore: quality.overall,
+      qualityReport: quality,
       executiveSummary: generateExecutiveSummary(data, statisticalAnalysis, insights)
     };
 
@@ -79,141 +335,636 @@ serve(async (req) => {
   }
 });
 
+// Parts are only accepted from the caller's own datasets/<user id>/ folder,
+// and are deleted once read: each upload serves a single request.
+async function loadDatasetReference(ref: DatasetReference, req: Request): Promise<SurveyData> {
+  if (ref.bucket !== DATASET_BUCKET || !Array.isArray(ref.parts) || ref.parts.length === 0) {
+    throw new Error('Invalid dataset reference');
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+  if (!user) {
+    throw new Error('Invalid dataset reference: the caller is not signed in');
+  }
+  const prefix = `datasets/${user.id}/`;
+  if (ref.parts.some(path => typeof path !== 'string' || !path.startsWith(prefix) || path.includes('..'))) {
+    throw new Error('Invalid dataset reference: part belongs to another caller');
+  }
+
+  const variables: SurveyData['variables'] = [];
+  try {
+    for (const path of ref.parts) {
+      const { data: blob, error } = await supabase.storage.from(ref.bucket).download(path);
+      if (error || !blob) {
+        throw new Error(`Failed to load dataset part ${path}: ${error?.message ?? 'not found'}`);
+      }
+      const part = await new Response(
+        blob.stream().pipeThrough(new DecompressionStream('gzip'))
+      ).json();
+      variables.push(...part.variables);
+    }
+  } finally {
+    const { error } = await supabase.storage.from(ref.bucket).remove(ref.parts);
+    if (error) console.error('Failed to delete dataset parts:', error.message);
+  }
+
+  console.log('Loaded', ref.parts.length, 'dataset parts from storage');
+
+  return {
+    variables,
+    multiResponseSets: ref.multiResponseSets,
+    excludedRows: ref.excludedRows,
+    ruleChecks: ref.ruleChecks,
+    sampleData: ref.sampleData || [],
+    totalRows: ref.totalRows
+  };
+}
+
+function validateColumns(data: SurveyData) {
+  data.variables.forEach(variable => {
+    if (!Array.isArray(variable.values)) {
+      throw new Error(`Invalid data structure: variable "${variable.name}" has no values array`);
+    }
+    if (variable.values.length !== data.totalRows) {
+      throw new Error(
+        `Invalid data structure: variable "${variable.name}" has ${variable.values.length} values for ${data.totalRows} rows`
+      );
+    }
+    variable.missing = variable.values.filter(v => getMissingCategory(variable, v) !== null).length;
+  });
+}
+
 function performStatisticalAnalysis(data: SurveyData) {
   const analysis: any = {};
   
   data.variables.forEach(variable => {
-    const validValues = variable.values.filter(v => v !== null && v !== undefined && v !== '');
+    // Multi-response variables are summarised with the sets below
+    if (variable.type === 'multi-response') return;
+
+    const validValues = variable.values.filter(v => getMissingCategory(variable, v) === null);
+    const missingBreakdown = countMissingCategories(variable, variable.values);
     
     if (variable.type === 'numeric') {
-      const numericValues = validValues.map(v => parseFloat(v)).filter(v => !isNaN(v));
+      const numericValues = validValues.map(v => toNumber(v)).filter(v => !isNaN(v));
       
       if (numericValues.length > 0) {
         numericValues.sort((a, b) => a - b);
         
         analysis[variable.name] = {
           type: 'numeric',
+          label: variable.label,
           count: numericValues.length,
           missing: variable.missing,
+          missingBreakdown,
           mean: numericValues.reduce((sum, val) => sum + val, 0) / numericValues.length,
           median: getPercentile(numericValues, 0.5),
           q1: getPercentile(numericValues, 0.25),
           q3: getPercentile(numericValues, 0.75),
-          min: Math.min(...numericValues),
-          max: Math.max(...numericValues),
+          min: numericValues[0],
+          max: numericValues[numericValues.length - 1],
           std: calculateStandardDeviation(numericValues),
           skewness: calculateSkewness(numericValues),
-          kurtosis: calculateKurtosis(numericValues)
+          kurtosis: calculateKurtosis(numericValues),
+          transformations: summarizeTreatments(variable)
         };
       }
+    } else if (variable.type === 'date' || variable.type === 'datetime') {
+      const times = validValues.map(v => toTimestamp(v)).filter(v => !isNaN(v)).sort((a, b) => a - b);
+      analysis[variable.name] = {
+        type: 'date',
+        variableType: variable.type,
+        label: variable.label,
+        count: times.length,
+        missing: variable.missing,
+        missingBreakdown,
+        earliest: times.length > 0 ? new Date(times[0]).toISOString() : undefined,
+        latest: times.length > 0 ? new Date(times[times.length - 1]).toISOString() : undefined,
+        median: times.length > 0 ? new Date(getPercentile(times, 0.5)).toISOString() : undefined
+      };
+    } else if (variable.type === 'identifier' || variable.type === 'text') {
+      const texts = validValues.map(v => String(v));
+      analysis[variable.name] = {
+        type: variable.type,
+        variableType: variable.type,
+        label: variable.label,
+        count: texts.length,
+        missing: variable.missing,
+        missingBreakdown,
+        unique: new Set(texts).size,
+        averageLength: texts.length > 0 ? texts.reduce((sum, text) => sum + text.length, 0) / texts.length : 0
+      };
     } else {
       const valueCounts: { [key: string]: number } = {};
       validValues.forEach(val => {
-        const key = String(val);
+        const key = categoryKey(variable, val);
         valueCounts[key] = (valueCounts[key] || 0) + 1;
       });
       
       const sortedCounts = Object.entries(valueCounts).sort((a, b) => b[1] - a[1]);
       
+      const mode = sortedCounts[0]?.[0];
+
+      // Ordinal variables report every level in scale order plus the median level
+      const orderedCounts = variable.type === 'ordinal' && variable.levels
+        ? variable.levels.filter(level => level in valueCounts).map(level => [level, valueCounts[level]] as [string, number])
+        : null;
+      const medianLevel = orderedCounts ? getMedianLevel(orderedCounts) : undefined;
+      
       analysis[variable.name] = {
         type: 'categorical',
+        variableType: variable.type,
+        label: variable.label,
         count: validValues.length,
         missing: variable.missing,
+        missingBreakdown,
         unique: Object.keys(valueCounts).length,
-        mode: sortedCounts[0]?.[0],
+        mode,
+        modeLabel: mode !== undefined ? variable.valueLabels?.[mode] ?? mode : undefined,
+        valueLabels: variable.valueLabels,
         modeCount: sortedCounts[0]?.[1] || 0,
         valueCounts,
-        topValues: sortedCounts.slice(0, 5)
+        levels: variable.levels,
+        medianLevel,
+        medianLevelLabel: medianLevel !== undefined ? variable.valueLabels?.[medianLevel] ?? medianLevel : undefined,
+        topValues: orderedCounts ?? sortedCounts.slice(0, 5)
       };
     }
   });
+
+  getMultiResponseSets(data).forEach(set => {
+    analysis[set.name] = analyzeMultiResponseSet(data, set);
+  });
   
   return analysis;
 }
 
-function computeParameterEstimates(data: SurveyData, parameters: any[]): ParameterEstimate[] {
-  return parameters.map(param => {
-    const estimatingVar = data.variables.find(v => v.name === param.estimatingParameter);
-    const baseVar = param.baseParameter !== 'None' ? 
-      data.variables.find(v => v.name === param.baseParameter) : null;
-    const weightVar = param.weightVariable && param.weightVariable !== 'none' ? 
-      data.variables.find(v => v.name === param.weightVariable) : null;
+// Percentages of respondents can add up to more than 100%, since each
+// respondent may choose several options; percentages of responses add up to 100%.
+function analyzeMultiResponseSet(data: SurveyData, set: MultiResponseSet) {
+  const { answered, selections, missingReasons } = readMultiResponseSet(data, set);
+  const missingBreakdown = countMissingReasons(missingReasons);
+  const respondents = answered.filter(Boolean).length;
+  const optionCounts: { [key: string]: number } = {};
+  selections.forEach((options, row) => {
+    if (!answered[row]) return;
+    options.forEach(option => {
+      optionCounts[option] = (optionCounts[option] || 0) + 1;
+    });
+  });
+  const totalResponses = Object.values(optionCounts).reduce((sum, count) => sum + count, 0);
+  const optionOrder = set.layout === 'dummy' ? set.variables : Object.keys(optionCounts);
+  const options = optionOrder.map(option => ({
+    option,
+    label: set.optionLabels?.[option] ?? option,
+    count: optionCounts[option] || 0,
+    percentOfRespondents: respondents > 0 ? ((optionCounts[option] || 0) / respondents) * 100 : 0,
+    percentOfResponses: totalResponses > 0 ? ((optionCounts[option] || 0) / totalResponses) * 100 : 0
+  }));
+  if (set.layout === 'delimited') options.sort((a, b) => b.count - a.count);
 
-    if (!estimatingVar) return null;
+  return {
+    type: 'multi-response',
+    variableType: 'multi-response',
+    layout: set.layout,
+    label: set.label,
+    variables: set.variables,
+    count: respondents,
+    missing: data.totalRows - respondents,
+    missingBreakdown,
+    respondents,
+    totalResponses,
+    optionCounts,
+    options,
+    topOptions: options.slice(0, 10).map(option => [option.label, option.count])
+  };
+}
 
-    const groups = baseVar ? 
-      [...new Set(baseVar.values.filter(v => v !== null && v !== ''))].map(String) : 
-      ['Overall'];
+// Each parameter is estimated with the imputed values, without them (the
+// imputed cells restored to missing), or both for comparison. Respondents
+// excluded by the quality checks are left out of every estimate.
+function computeParameterEstimates(allData: SurveyData, parameters: EstimationParameter[]): ParameterEstimate[] {
+  const excludedRespondents = new Set(
+    (allData.excludedRows ?? []).filter(row => Number.isInteger(row) && row >= 0 && row < allData.totalRows)
+  ).size;
+  const respondentData = excludedRespondents > 0 ? withoutRows(allData, new Set(allData.excludedRows)) : allData;
+  const multiResponseSets = getMultiResponseSets(respondentData);
 
-    const groupEstimates = groups.map(group => {
-      let indices: number[] = [];
-      
-      if (baseVar && group !== 'Overall') {
-        indices = baseVar.values
-          .map((val, idx) => String(val) === group ? idx : -1)
-          .filter(idx => idx !== -1);
-      } else {
-        indices = Array.from({ length: estimatingVar.values.length }, (_, i) => i);
+  return parameters.flatMap(param => {
+    // Rows without a positive weight take no part: computed weights are left
+    // empty for nonrespondents, ineligible cases and rows raking or trimming
+    // could not place, and counting them at weight 1 would undo the adjustments
+    const weightVar = findWeightVariable(respondentData, param);
+    const weightless = new Set(weightVar
+      ? weightVar.values.flatMap((value, row) => (hasWeight(weightVar, value) ? [] : [row]))
+      : []);
+    const data = weightless.size > 0 ? withoutRows(respondentData, weightless) : respondentData;
+    const involved = [param.estimatingParameter, param.baseParameter, param.weightVariable]
+      .concat(multiResponseSets.find(set => set.name === param.estimatingParameter)?.variables ?? []);
+    const involvedVars = data.variables.filter(v => involved.includes(v.name));
+    const transformations = involvedVars.flatMap(v => summarizeTreatments(v) ?? []);
+    const tagged = (estimates: ParameterEstimate[]) => estimates.map(estimate => ({
+      ...estimate,
+      ...(transformations.length > 0 ? { transformations } : {}),
+      ...(excludedRespondents > 0 ? { excludedRespondents } : {}),
+      ...(weightless.size > 0 ? { unweightedRespondents: weightless.size } : {})
+    }));
+
+    const imputed = involvedVars.filter(v => v.imputation);
+    if (imputed.length === 0) return tagged(estimateParameter(data, param, multiResponseSets));
+
+    const imputedCells = imputed.reduce((sum, v) => sum + v.imputation!.rows.length, 0);
+    const treatments = param.imputationTreatment === 'compare'
+      ? ['include', 'exclude']
+      : [param.imputationTreatment === 'exclude' ? 'exclude' : 'include'];
+
+    return tagged(treatments.flatMap(treatment => {
+      if (treatment === 'exclude') {
+        return estimateParameter(completedData(data, 'original'), param, multiResponseSets)
+          .map(estimate => ({ ...estimate, imputation: { treatment: 'excluded' as const, imputedCells } }));
       }
+      const draws = Math.max(...imputed.map(v => v.imputation!.draws?.length ?? 1));
+      if (draws < 2) {
+        return estimateParameter(data, param, multiResponseSets)
+          .map(estimate => ({ ...estimate, imputation: { treatment: 'included' as const, imputedCells } }));
+      }
+      const runs = Array.from({ length: draws }, (_, draw) =>
+        estimateParameter(completedData(data, draw), param, multiResponseSets)
+      );
+      return poolImputedEstimates(runs)
+        .map(estimate => ({ ...estimate, imputation: { treatment: 'included' as const, imputedCells, draws } }));
+    }));
+  });
+}
 
-      const groupValues = indices
-        .map(idx => estimatingVar.values[idx])
-        .filter(v => v !== null && v !== undefined && v !== '');
-      
-      const weights = weightVar ? 
-        indices.map(idx => parseFloat(weightVar.values[idx]) || 1) : 
-        new Array(indices.length).fill(1);
+// Copy of the data without some rows, with the row numbers of imputed and
+// treated cells renumbered to match
+function withoutRows(data: SurveyData, excluded: Set<number>): SurveyData {
+  const newRow: number[] = [];
+  let kept = 0;
+  for (let row = 0; row < data.totalRows; row++) {
+    newRow.push(excluded.has(row) ? -1 : kept++);
+  }
+  const keep = <T>(rows: number[], values: T[]) => {
+    const indices = rows.map((_, i) => i).filter(i => newRow[rows[i]] >= 0);
+    return { rows: indices.map(i => newRow[rows[i]]), values: indices.map(i => values[i]) };
+  };
 
-      let estimate = 0;
-      let marginOfError = 0;
-      
-      if (param.aggregationType === 'Mean' && estimatingVar.type === 'numeric') {
-        const numericValues = groupValues.map(v => parseFloat(v)).filter(v => !isNaN(v));
-        const validWeights = weights.slice(0, numericValues.length);
-        estimate = calculateWeightedMean(numericValues, validWeights);
-        marginOfError = calculateMarginOfError(numericValues, validWeights);
-      } else if (param.aggregationType === 'Sum' && estimatingVar.type === 'numeric') {
-        const numericValues = groupValues.map(v => parseFloat(v)).filter(v => !isNaN(v));
-        estimate = numericValues.reduce((sum, val) => sum + val, 0);
-        marginOfError = Math.sqrt(numericValues.length) * calculateStandardDeviation(numericValues) / Math.sqrt(numericValues.length);
-      } else if (param.aggregationType === 'Proportion') {
-        const targetValue = estimatingVar.type === 'categorical' ? 
-          groupValues[0] : 1; // For categorical, use most common value
-        const successes = groupValues.filter(v => v === targetValue).length;
-        estimate = successes / groupValues.length;
-        marginOfError = 1.96 * Math.sqrt((estimate * (1 - estimate)) / groupValues.length);
-      } else if (param.aggregationType === 'Count') {
-        estimate = groupValues.length;
-        marginOfError = Math.sqrt(estimate);
-      } else if (param.aggregationType === 'Median' && estimatingVar.type === 'numeric') {
-        const numericValues = groupValues.map(v => parseFloat(v)).filter(v => !isNaN(v));
-        estimate = getPercentile(numericValues.sort((a, b) => a - b), 0.5);
-        marginOfError = 1.57 * calculateStandardDeviation(numericValues) / Math.sqrt(numericValues.length);
+  return {
+    ...data,
+    totalRows: kept,
+    excludedRows: undefined,
+    variables: data.variables.map(variable => {
+      const values = variable.values.filter((_, row) => newRow[row] >= 0);
+      let imputation = variable.imputation;
+      if (imputation) {
+        const { rows, values: original } = keep(imputation.rows, imputation.original);
+        const draws = imputation.draws?.map(draw => keep(imputation!.rows, draw).values);
+        imputation = rows.length > 0 ? { ...imputation, rows, original, draws } : undefined;
+      }
+      const transformations = variable.transformations
+        ?.map(t => {
+          const { rows, values: original } = keep(t.rows, t.original);
+          return { ...t, rows, original };
+        })
+        .filter(t => t.rows.length > 0);
+      return {
+        ...variable,
+        values,
+        missing: values.filter(v => getMissingCategory(variable, v) !== null).length,
+        imputation,
+        transformations: transformations?.length ? transformations : undefined
+      };
+    })
+  };
+}
+
+// Cells changed by each outlier treatment of a variable
+function summarizeTreatments(variable: SurveyData['variables'][number]): TreatmentSummary[] | undefined {
+  if (!variable.transformations?.length) return undefined;
+  return variable.transformations.map(t => ({
+    variable: variable.name,
+    method: t.method,
+    treatment: t.treatment,
+    cells: t.rows.length
+  }));
+}
+
+// Copy of the data with every imputed cell set from one completed dataset,
+// or restored to the value it held before imputation
+function completedData(data: SurveyData, draw: number | 'original'): SurveyData {
+  return {
+    ...data,
+    variables: data.variables.map(variable => {
+      const imputation = variable.imputation;
+      if (!imputation) return variable;
+      const source = draw === 'original'
+        ? imputation.original
+        : imputation.draws?.length ? imputation.draws[draw % imputation.draws.length] : null;
+      if (!source) return variable;
+      const values = [...variable.values];
+      imputation.rows.forEach((row, i) => {
+        values[row] = source[i];
+      });
+      return { ...variable, values };
+    })
+  };
+}
+
+// Rubin's rules: the pooled estimate is the mean over the completed datasets
+// and its variance adds the between-imputation variance to the average
+// within-imputation variance, T = W + (1 + 1/m) B. Median intervals keep
+// their Woodruff shape: the average distance to each end is widened by the
+// ratio of the pooled to the average within-imputation standard error.
+function poolImputedEstimates(runs: ParameterEstimate[][]): ParameterEstimate[] {
+  const m = runs.length;
+  return runs[0].map(first => {
+    const matching = runs.map(run => run.find(estimate =>
+      estimate.option === first.option && estimate.calibration?.applied === first.calibration?.applied
+    ) ?? first);
+    return {
+      ...first,
+      groups: first.groups.map(group => {
+        const estimates = matching.map(run => run.groups.find(g => g.group === group.group) ?? group);
+        const mean = estimates.reduce((sum, g) => sum + g.estimate, 0) / m;
+        const within = estimates.reduce((sum, g) => sum + Math.pow(g.marginOfError / 1.96, 2), 0) / m;
+        const between = estimates.reduce((sum, g) => sum + Math.pow(g.estimate - mean, 2), 0) / (m - 1);
+        const total = within + (1 + 1 / m) * between;
+        if (first.aggregationType === 'Median' && within > 0) {
+          const widening = Math.sqrt(total / within);
+          const below = estimates.reduce((sum, g) => sum + g.estimate - g.confidenceInterval[0], 0) / m;
+          const above = estimates.reduce((sum, g) => sum + g.confidenceInterval[1] - g.estimate, 0) / m;
+          const confidenceInterval: [number, number] = [mean - widening * below, mean + widening * above];
+          return {
+            ...group,
+            estimate: mean,
+            marginOfError: (confidenceInterval[1] - confidenceInterval[0]) / 2,
+            confidenceInterval
+          };
+        }
+        const marginOfError = 1.96 * Math.sqrt(total);
+        return {
+          ...group,
+          estimate: mean,
+          marginOfError,
+          confidenceInterval: boundedInterval(mean, marginOfError, first.aggregationType)
+        };
+      })
+    };
+  });
+}
+
+// Estimates of one log entry. Calibrated estimates follow the same
+// estimates with the initial weights, which are estimated the same
+// design-based way so the two can be compared side by side.
+function estimateParameter(data: SurveyData, param: EstimationParameter, multiResponseSets: MultiResponseSet[]): ParameterEstimate[] {
+  if (!param.calibration) return estimateWithWeights(data, param, multiResponseSets, true);
+  const { method } = param.calibration;
+  const uncalibrated = estimateWithWeights(data, param, multiResponseSets, false);
+  const calibrated = estimateWithWeights(data, param, multiResponseSets, true);
+  return uncalibrated.flatMap((estimate, i) => [
+    { ...estimate, calibration: { applied: false, method, auxiliaries: calibrated[i].calibration!.auxiliaries } },
+    calibrated[i]
+  ]);
+}
+
+// Weighted estimates of one log entry with the initial or the calibrated
+// weights. Every statistic is weighted over the same rows it is computed
+// on: sums and counts estimate population totals, medians are weighted
+// quantiles, and proportions cover every category. Without a declared
+// design or replicate weights the variances are those of a simple random
+// sample with these weights.
+function estimateWithWeights(
+  data: SurveyData,
+  param: EstimationParameter,
+  multiResponseSets: MultiResponseSet[],
+  calibrate: boolean
+): ParameterEstimate[] {
+  const baseVar = param.baseParameter !== 'None' ? 
+    data.variables.find(v => v.name === param.baseParameter) : null;
+  const weightVar = findWeightVariable(data, param);
+
+  const groups = baseVar ? 
+    [...new Set(baseVar.values.filter(v => getMissingCategory(baseVar, v) === null))].map(String) : 
+    ['Overall'];
+  const groupRows = groups.map(group => ({
+    group,
+    rows: Array.from({ length: data.totalRows }, (_, row) => row)
+      .filter(row => !baseVar || String(baseVar.values[row]) === group)
+  }));
+  // Rows without a positive weight were dropped before estimation
+  const baseWeightOf = (row: number) => weightVar ? toNumber(weightVar.values[row]) : 1;
+  const calibration = calibrate ? readCalibration(data, param, baseWeightOf) : null;
+  const weightOf = calibration ? (row: number) => calibration.weights[row] : baseWeightOf;
+  const uncalibratedReplicates = readReplicateDesign(data, param, weightVar);
+  const replicates = uncalibratedReplicates && calibration
+    ? calibrateReplicates(uncalibratedReplicates, calibration)
+    : uncalibratedReplicates;
+  const design = replicates ? null : readSampleDesign(data, param);
+  const designSummary = design ? describeSampleDesign(design, param) : undefined;
+  const replicateSummary = replicates ? describeReplicateDesign(replicates) : undefined;
+  const calibrationSummary = calibration ? describeCalibration(calibration) : undefined;
+  const linearizationDesign = design ?? simpleRandomDesign(data.totalRows);
+  // Design effects are reported against a declared design, and for
+  // calibrated estimates and the uncalibrated ones they are compared with
+  const reportDesignEffect = Boolean(design || param.calibration);
+  const estimateOver = (rows: number[], valueOf: (row: number) => number, statistic: 'mean' | 'total'): GroupResult => {
+    if (replicates) return replicateEstimate(replicates, rows, valueOf, weightOf, statistic);
+    const { designEffect, ...result } = linearizedEstimate(linearizationDesign, rows, valueOf, weightOf, statistic, calibration);
+    return reportDesignEffect && designEffect !== undefined ? { ...result, designEffect } : result;
+  };
+  // Woodruff interval: the share of the weight at or below the quantile is
+  // a mean, whose confidence interval maps back through the weighted
+  // distribution function to an interval for the quantile
+  const quantileOver = (rows: number[], valueOf: (row: number) => number, p: number): GroupResult => {
+    if (rows.length === 0) return { estimate: 0, marginOfError: 0 };
+    const values = rows.map(valueOf);
+    const weights = rows.map(weightOf);
+    const estimate = weightedQuantile(values, weights, p);
+    const { marginOfError: spread } = estimateOver(rows, row => (valueOf(row) <= estimate ? 1 : 0), 'mean');
+    const interval: [number, number] = [
+      weightedQuantile(values, weights, Math.max(0, p - spread)),
+      weightedQuantile(values, weights, Math.min(1, p + spread))
+    ];
+    return { estimate, marginOfError: (interval[1] - interval[0]) / 2, interval };
+  };
+  const summaries = {
+    ...(designSummary ? { design: designSummary } : {}),
+    ...(replicateSummary ? { replicates: replicateSummary } : {}),
+    ...(calibrationSummary ? { calibration: calibrationSummary } : {})
+  };
+
+  const multiResponseSet = multiResponseSets.find(set => set.name === param.estimatingParameter);
+  if (multiResponseSet && param.aggregationType === 'Proportion') {
+    return estimateMultiResponseProportions(data, multiResponseSet, param, groupRows, weightOf, estimateOver)
+      .map(estimate => ({ ...estimate, ...summaries }));
+  }
+
+  const estimatingVar = data.variables.find(v => v.name === param.estimatingParameter);
+  if (!estimatingVar) return [];
+  // Coded answers such as "Don't know" can be reported as categories in their own right
+  const includeCodes = param.missingTreatment === 'include-codes' &&
+    ['categorical', 'ordinal', 'boolean'].includes(estimatingVar.type);
+  const isIncluded = (value: CellValue) => {
+    const category = getMissingCategory(estimatingVar, value);
+    return category === null || (includeCodes && category !== 'system');
+  };
+  const numberAt = (row: number) => toNumber(estimatingVar.values[row]);
+  const keyAt = (row: number) => categoryKey(estimatingVar, estimatingVar.values[row]);
+
+  const estimateGroup = ({ group, rows }: { group: string; rows: number[] }, category?: string) => {
+    const includedRows = rows.filter(row => isIncluded(estimatingVar.values[row]));
+    const excluded = countMissingCategories(
+      estimatingVar, rows.map(row => estimatingVar.values[row]).filter(v => !isIncluded(v))
+    );
+    // Rows the estimate is computed over, whose weights make up the weighted n
+    let used = includedRows;
+    let result: GroupResult = { estimate: 0, marginOfError: 0 };
+    let estimateLabel: string | undefined;
+
+    if (category !== undefined) {
+      result = estimateOver(includedRows, row => (keyAt(row) === category ? 1 : 0), 'mean');
+    } else if (param.aggregationType === 'Count') {
+      // Weighted count of the valid responses, which estimates the population size
+      result = estimateOver(includedRows, () => 1, 'total');
+    } else if (estimatingVar.type === 'numeric' && ['Mean', 'Sum', 'Median'].includes(param.aggregationType)) {
+      used = includedRows.filter(row => !isNaN(numberAt(row)));
+      result = param.aggregationType === 'Median'
+        ? quantileOver(used, numberAt, 0.5)
+        : estimateOver(used, numberAt, param.aggregationType === 'Mean' ? 'mean' : 'total');
+    } else if (param.aggregationType === 'Median' && estimatingVar.type === 'ordinal') {
+      // Median of the 1-based level ranks, reported with the level it falls on
+      const levels = estimatingVar.levels || [];
+      const rankAt = (row: number) => levels.indexOf(keyAt(row)) + 1;
+      used = includedRows.filter(row => rankAt(row) > 0);
+      result = quantileOver(used, rankAt, 0.5);
+      const level = levels[Math.round(result.estimate) - 1];
+      estimateLabel = level !== undefined ? estimatingVar.valueLabels?.[level] ?? level : undefined;
+    } else if (param.aggregationType === 'Median' && (estimatingVar.type === 'date' || estimatingVar.type === 'datetime')) {
+      const timeAt = (row: number) => toTimestamp(estimatingVar.values[row]);
+      used = includedRows.filter(row => !isNaN(timeAt(row)));
+      result = quantileOver(used, timeAt, 0.5);
+      if (used.length > 0) {
+        const iso = new Date(result.estimate).toISOString();
+        estimateLabel = estimatingVar.type === 'date' ? iso.slice(0, 10) : iso;
       }
+    }
+
+    const { estimate, marginOfError, designEffect, interval } = result;
+    return {
+      group,
+      estimate,
+      estimateLabel,
+      marginOfError,
+      confidenceInterval: interval ?? boundedInterval(estimate, marginOfError, param.aggregationType),
+      sampleSize: used.length,
+      weightedN: used.reduce((sum, row) => sum + weightOf(row), 0),
+      excluded,
+      ...(designEffect !== undefined ? { designEffect } : {})
+    };
+  };
 
-      const weightedN = weights.reduce((sum, w) => sum + w, 0);
+  const described = {
+    estimatingParameter: param.estimatingParameter,
+    baseParameter: param.baseParameter,
+    aggregationType: param.aggregationType,
+    weightVariable: param.weightVariable,
+    missingTreatment: includeCodes ? 'include-codes' : 'exclude',
+    ...summaries
+  };
+  if (param.aggregationType !== 'Proportion') {
+    return [{ ...described, groups: groupRows.map(rows => estimateGroup(rows)) }];
+  }
+
+  // One estimate per category, the weighted share of the group's valid responses
+  const included = Array.from({ length: data.totalRows }, (_, row) => row)
+    .filter(row => isIncluded(estimatingVar.values[row]));
+  return orderCategories(estimatingVar, [...new Set(included.map(keyAt))]).map(category => ({
+    ...described,
+    option: category,
+    optionLabel: estimatingVar.valueLabels?.[category] ?? category,
+    groups: groupRows.map(rows => estimateGroup(rows, category))
+  }));
+}
 
+// Whether a weight cell holds a usable weight: a positive number that is not a declared missing code
+function hasWeight(weightVar: SurveyData['variables'][number], value: CellValue): boolean {
+  const weight = toNumber(value);
+  return getMissingCategory(weightVar, value) === null && Number.isFinite(weight) && weight > 0;
+}
+
+// Symmetric confidence interval kept within the range of the statistic:
+// proportions lie between 0 and 1 and counts are never negative, while
+// means and totals, e.g. of differences or scores, may be negative
+function boundedInterval(estimate: number, marginOfError: number, aggregationType: string): [number, number] {
+  const lowest = aggregationType === 'Proportion' || aggregationType === 'Count' ? 0 : -Infinity;
+  const highest = aggregationType === 'Proportion' ? 1 : Infinity;
+  return [Math.max(lowest, estimate - marginOfError), Math.min(highest, estimate + marginOfError)];
+}
+
+// Weight variable of a log entry, or null for unweighted estimates
+function findWeightVariable(data: SurveyData, param: EstimationParameter) {
+  if (!param.weightVariable || param.weightVariable === 'none') return null;
+  return data.variables.find(v => v.name === param.weightVariable) ?? null;
+}
+
+// Categories in scale order for ordinal variables, numeric order for
+// numeric codes, and alphabetical order otherwise
+function orderCategories(variable: SurveyData['variables'][number], categories: string[]): string[] {
+  const levels = variable.type === 'ordinal' ? variable.levels ?? [] : [];
+  const rank = (category: string) => {
+    const index = levels.indexOf(category);
+    return index === -1 ? Infinity : index;
+  };
+  const numeric = categories.every(category => category.trim() !== '' && !isNaN(Number(category)));
+  return categories.sort((a, b) =>
+    rank(a) - rank(b) || (numeric ? Number(a) - Number(b) : a.localeCompare(b))
+  );
+}
+
+// One estimate per option: the weighted share of the set's respondents who chose it
+function estimateMultiResponseProportions(
+  data: SurveyData,
+  set: MultiResponseSet,
+  param: Pick<ParameterEstimate, 'estimatingParameter' | 'baseParameter' | 'aggregationType' | 'weightVariable'>,
+  groupRows: Array<{ group: string; rows: number[] }>,
+  weightOf: (row: number) => number,
+  estimateOver: (rows: number[], valueOf: (row: number) => number, statistic: 'mean' | 'total') => GroupResult
+): ParameterEstimate[] {
+  const { answered, selections, missingReasons } = readMultiResponseSet(data, set);
+  const options = set.layout === 'dummy'
+    ? set.variables
+    : [...new Set(selections.flat())].sort();
+
+  return options.map(option => ({
+    estimatingParameter: param.estimatingParameter,
+    baseParameter: param.baseParameter,
+    aggregationType: param.aggregationType,
+    weightVariable: param.weightVariable,
+    option,
+    optionLabel: set.optionLabels?.[option] ?? option,
+    groups: groupRows.map(({ group, rows }) => {
+      const respondents = rows.filter(row => answered[row]);
+      const { estimate, marginOfError, designEffect } = estimateOver(
+        respondents, row => (selections[row].includes(option) ? 1 : 0), 'mean'
+      );
       return {
         group,
         estimate,
         marginOfError,
-        confidenceInterval: [
-          Math.max(0, estimate - marginOfError),
-          estimate + marginOfError
-        ] as [number, number],
-        sampleSize: groupValues.length,
-        weightedN
+        confidenceInterval: boundedInterval(estimate, marginOfError, param.aggregationType),
+        sampleSize: respondents.length,
+        weightedN: respondents.reduce((sum, row) => sum + weightOf(row), 0),
+        excluded: countMissingReasons(rows.map(row => missingReasons[row])),
+        ...(designEffect !== undefined ? { designEffect } : {})
       };
-    });
-
-    return {
-      estimatingParameter: param.estimatingParameter,
-      baseParameter: param.baseParameter,
-      aggregationType: param.aggregationType,
-      weightVariable: param.weightVariable,
-      groups: groupEstimates
-    };
-  }).filter(Boolean) as ParameterEstimate[];
+    })
+  }));
 }
 
 async function generateAIInsights(data: SurveyData, analysis: any) {
@@ -233,6 +984,27 @@ async function generateAIInsights(data: SurveyData, analysis: any) {
     });
   }
 
+  const imputedVars = data.variables.filter(v => v.imputation && v.imputation.rows.length > 0);
+  if (imputedVars.length > 0) {
+    const imputedCells = imputedVars.reduce((sum, v) => sum + v.imputation!.rows.length, 0);
+    insights.push({
+      category: 'Data Quality',
+      finding: `${imputedCells} imputed values across ${imputedVars.length} variable${imputedVars.length === 1 ? '' : 's'} (${imputedVars.map(v => v.name).join(', ')}). Compare estimates with and without them to judge their influence.`,
+      significance: 'medium',
+      type: 'pattern'
+    });
+  }
+
+  const excludedRows = data.excludedRows?.length ?? 0;
+  if (excludedRows > 0) {
+    insights.push({
+      category: 'Data Quality',
+      finding: `${excludedRows} of ${data.totalRows} respondents (${(excludedRows / data.totalRows * 100).toFixed(1)}%) were excluded by the respondent quality checks and are left out of the parameter estimates.`,
+      significance: excludedRows / data.totalRows > 0.1 ? 'high' : 'medium',
+      type: 'pattern'
+    });
+  }
+
   // Distribution Insights
   const numericVars = Object.entries(analysis).filter(([_, varAnalysis]: [string, any]) => 
     varAnalysis.type === 'numeric');
@@ -248,9 +1020,12 @@ async function generateAIInsights(data: SurveyData, analysis: any) {
     }
     
     if (varAnalysis.kurtosis > 3) {
+      const treatments: TreatmentSummary[] = varAnalysis.transformations ?? [];
       insights.push({
         category: 'Outlier Detection',
-        finding: `${varName} exhibits high kurtosis (${varAnalysis.kurtosis.toFixed(2)}), indicating potential outliers affecting the distribution.`,
+        finding: treatments.length > 0
+          ? `${varName} still exhibits high kurtosis (${varAnalysis.kurtosis.toFixed(2)}) after outlier treatment (${treatments.map(t => `${t.treatment}, ${t.cells} values`).join('; ')}).`
+          : `${varName} exhibits high kurtosis (${varAnalysis.kurtosis.toFixed(2)}), indicating potential outliers affecting the distribution. Review them with the outlier check before estimating.`,
         significance: 'medium',
         type: 'anomaly'
       });
@@ -305,7 +1080,8 @@ function generateVisualizationData(data: SurveyData, analysis: any) {
       const variable = data.variables.find(v => v.name === varName);
       if (variable) {
         const values = variable.values
-          .map(v => parseFloat(v))
+          .filter(v => getMissingCategory(variable, v) === null)
+          .map(v => toNumber(v))
           .filter(v => !isNaN(v));
         
         visualizations[varName] = {
@@ -314,11 +1090,12 @@ function generateVisualizationData(data: SurveyData, analysis: any) {
           stats: varAnalysis
         };
       }
-    } else {
+    } else if (varAnalysis.type === 'categorical') {
       visualizations[varName] = {
         type: 'bar',
-        data: varAnalysis.topValues.map(([label, count]: [string, number]) => ({
-          label,
+        data: varAnalysis.topValues.map(([value, count]: [string, number]) => ({
+          label: varAnalysis.valueLabels?.[value] ?? value,
+          value,
           count,
           percentage: (count / varAnalysis.count * 100).toFixed(1)
         })),
@@ -331,6 +1108,130 @@ function generateVisualizationData(data: SurveyData, analysis: any) {
 }
 
 // Utility functions
+function toNumber(value: CellValue | undefined): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return parseFloat(value);
+  return NaN;
+}
+
+// Why a value is missing, or null when it is a valid response
+function getMissingCategory(variable: SurveyData['variables'][number], value: CellValue | undefined): MissingCategory | null {
+  if (value === null || value === undefined || (typeof value === 'string' && value.trim() === '')) return 'system';
+  if (!variable.missingCategories) return null;
+  return variable.missingCategories[String(value)] ??
+    variable.missingCategories[typeof value === 'boolean' ? String(value).toUpperCase() : String(value).trim()] ??
+    null;
+}
+
+function countMissingCategories(variable: SurveyData['variables'][number], values: CellValue[]): Record<MissingCategory, number> {
+  const counts: Record<MissingCategory, number> = { system: 0, refused: 0, 'dont-know': 0, 'not-applicable': 0, other: 0 };
+  values.forEach(value => {
+    const category = getMissingCategory(variable, value);
+    if (category) counts[category]++;
+  });
+  return counts;
+}
+
+// Sets sent by the client, plus one for any multi-response variable they don't cover
+function getMultiResponseSets(data: SurveyData): MultiResponseSet[] {
+  const sets = (data.multiResponseSets || []).filter(set =>
+    set.variables.length > 0 && set.variables.every(name => data.variables.some(v => v.name === name))
+  );
+  const covered = new Set(sets.flatMap(set => set.layout === 'delimited' ? set.variables : []));
+  data.variables
+    .filter(v => v.type === 'multi-response' && !covered.has(v.name))
+    .forEach(v => sets.push({
+      name: v.name,
+      label: v.label,
+      layout: 'delimited',
+      variables: [v.name],
+      delimiter: v.responseDelimiter,
+      optionLabels: v.valueLabels
+    }));
+  return sets;
+}
+
+function isOptionSelected(value: CellValue, selectedValue?: string): boolean {
+  if (value === null || (typeof value === 'string' && value.trim() === '')) return false;
+  const text = String(value).trim().toLowerCase();
+  if (selectedValue) return text === selectedValue.trim().toLowerCase();
+  return !['0', 'false', 'no', 'n', 'not selected', 'unchecked'].includes(text);
+}
+
+// Per row: whether the question was answered and which options were chosen.
+// A dummy-column set counts as answered when any of its columns holds a valid value.
+function readMultiResponseSet(data: SurveyData, set: MultiResponseSet) {
+  const variables = set.variables.map(name => data.variables.find(v => v.name === name)!);
+  const answered: boolean[] = [];
+  const selections: string[][] = [];
+  // Why each unanswered row is missing, null for answered rows
+  const missingReasons: Array<MissingCategory | null> = [];
+
+  for (let row = 0; row < data.totalRows; row++) {
+    if (set.layout === 'delimited') {
+      const variable = variables[0];
+      const value = variable.values[row];
+      const category = getMissingCategory(variable, value);
+      answered.push(category === null);
+      missingReasons.push(category);
+      selections.push(category === null
+        ? [...new Set(String(value).split(set.delimiter || variable.responseDelimiter || ';').map(option => option.trim()).filter(Boolean))]
+        : []);
+    } else {
+      const valid = variables.filter(variable => getMissingCategory(variable, variable.values[row]) === null);
+      answered.push(valid.length > 0);
+      missingReasons.push(valid.length > 0 ? null : getMissingCategory(variables[0], variables[0].values[row]) ?? 'system');
+      selections.push(valid.filter(variable => isOptionSelected(variable.values[row], set.selectedValue)).map(variable => variable.name));
+    }
+  }
+
+  return { answered, selections, missingReasons };
+}
+
+function countMissingReasons(reasons: Array<MissingCategory | null>): Record<MissingCategory, number> {
+  const counts: Record<MissingCategory, number> = { system: 0, refused: 0, 'dont-know': 0, 'not-applicable': 0, other: 0 };
+  reasons.forEach(reason => {
+    if (reason) counts[reason]++;
+  });
+  return counts;
+}
+
+function toBoolean(value: CellValue | undefined): boolean | null {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value === 1 ? true : value === 0 ? false : null;
+  if (typeof value !== 'string') return null;
+  const token = value.trim().toLowerCase();
+  if (['true', 'yes', 'y', 't', '1'].includes(token)) return true;
+  if (['false', 'no', 'n', 'f', '0'].includes(token)) return false;
+  return null;
+}
+
+function toTimestamp(value: CellValue | undefined): number {
+  if (typeof value === 'string') return Date.parse(value);
+  if (typeof value === 'number') return value;
+  return NaN;
+}
+
+// Key under which a categorical value is counted; booleans collapse yes/no spellings
+function categoryKey(variable: SurveyData['variables'][number], value: CellValue): string {
+  if (variable.type === 'boolean') {
+    const flag = toBoolean(value);
+    if (flag !== null) return flag ? 'TRUE' : 'FALSE';
+  }
+  return String(value);
+}
+
+// Level holding the middle response when counts are listed in level order
+function getMedianLevel(orderedCounts: Array<[string, number]>): string | undefined {
+  const total = orderedCounts.reduce((sum, [, count]) => sum + count, 0);
+  let cumulative = 0;
+  for (const [level, count] of orderedCounts) {
+    cumulative += count;
+    if (cumulative >= total / 2) return level;
+  }
+  return undefined;
+}
+
 function getPercentile(sortedArray: number[], percentile: number): number {
   const index = (sortedArray.length - 1) * percentile;
   const lower = Math.floor(index);
@@ -374,24 +1275,557 @@ function calculateKurtosis(values: number[]): number {
   return (n * (n + 1) / ((n - 1) * (n - 2) * (n - 3))) * kurtosisSum - (3 * Math.pow(n - 1, 2) / ((n - 2) * (n - 3)));
 }
 
-function calculateWeightedMean(values: number[], weights: number[]): number {
-  const weightedSum = values.reduce((sum, val, idx) => sum + val * weights[idx], 0);
-  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
-  return weightedSum / totalWeight;
+// Places every row in the declared sample design, or returns null when no
+// design variable is declared. Without strata the sample is one stratum;
+// without clusters every row is its own PSU.
+function readSampleDesign(data: SurveyData, param: EstimationParameter): SampleDesign | null {
+  if (!param.strataVariable && !param.clusterVariable && !param.fpcVariable) return null;
+
+  const findDesignVariable = (name?: string) => {
+    if (!name) return null;
+    const variable = data.variables.find(v => v.name === name);
+    if (!variable) throw new Error(`Design variable "${name}" was not found`);
+    const missing = variable.values.filter(v => getMissingCategory(variable, v) !== null).length;
+    if (missing > 0) throw new Error(`Design variable "${name}" is missing on ${missing} rows`);
+    return variable;
+  };
+  const strataVar = findDesignVariable(param.strataVariable);
+  const clusterVar = findDesignVariable(param.clusterVariable);
+  const fpcVar = findDesignVariable(param.fpcVariable);
+
+  const strataIndex = new Map<string, number>();
+  const psuIndex = new Map<string, number>();
+  const psuOf: number[] = [];
+  const psuStratum: number[] = [];
+  const fpcOf: number[] = [];
+  for (let row = 0; row < data.totalRows; row++) {
+    const stratumKey = strataVar ? String(strataVar.values[row]) : '';
+    if (!strataIndex.has(stratumKey)) strataIndex.set(stratumKey, strataIndex.size);
+    const stratum = strataIndex.get(stratumKey)!;
+    // PSU IDs are nested in strata
+    const psuKey = `${stratum}\u0000${clusterVar ? String(clusterVar.values[row]) : row}`;
+    if (!psuIndex.has(psuKey)) {
+      psuIndex.set(psuKey, psuIndex.size);
+      psuStratum.push(stratum);
+    }
+    psuOf.push(psuIndex.get(psuKey)!);
+
+    if (fpcVar) {
+      const fpc = toNumber(fpcVar.values[row]);
+      if (!(fpc > 0)) throw new Error(`The finite population correction must be positive (row ${row + 1})`);
+      if (fpcOf[stratum] === undefined) fpcOf[stratum] = fpc;
+      else if (fpcOf[stratum] !== fpc) {
+        throw new Error(`The finite population correction varies within stratum "${stratumKey}"`);
+      }
+    }
+  }
+
+  const strataNames = [...strataIndex.keys()];
+  const psusInStratum = strataNames.map(() => 0);
+  psuStratum.forEach(stratum => { psusInStratum[stratum]++; });
+  // A correction up to 1 is the sampling fraction; above 1 it is the number of PSUs in the population
+  const samplingFraction = psusInStratum.map((sampled, stratum) => {
+    const fpc = fpcOf[stratum];
+    if (fpc === undefined) return 0;
+    if (fpc <= 1) return fpc;
+    if (fpc < sampled) {
+      throw new Error(`Stratum "${strataNames[stratum]}" has ${sampled} PSUs in the sample but ${fpc} in the population`);
+    }
+    return sampled / fpc;
+  });
+
+  return { psuOf, psuStratum, psusInStratum, samplingFraction };
+}
+
+function describeSampleDesign(design: SampleDesign, param: EstimationParameter): NonNullable<ParameterEstimate['design']> {
+  return {
+    strataVariable: param.strataVariable,
+    clusterVariable: param.clusterVariable,
+    fpcVariable: param.fpcVariable,
+    strata: design.psusInStratum.length,
+    clusters: design.psuStratum.length,
+    degreesOfFreedom: design.psuStratum.length - design.psusInStratum.length,
+    singletonStrata: design.psusInStratum.filter(count => count === 1).length
+  };
+}
+
+// Reads the replicate weight columns, or returns null when none are declared.
+// Missing replicate weights count as zero, as for units dropped from a replicate.
+function readReplicateDesign(
+  data: SurveyData,
+  param: EstimationParameter,
+  weightVar: SurveyData['variables'][number] | null | undefined
+): ReplicateDesign | null {
+  if (!param.replicateWeights?.length) return null;
+  if (!weightVar) throw new Error('Replicate weights need the full-sample weight as the weight variable');
+  const count = param.replicateWeights.length;
+  if (count < 2) throw new Error('At least two replicate weights are needed');
+
+  const weights = param.replicateWeights.map(name => {
+    const variable = data.variables.find(v => v.name === name);
+    if (!variable) throw new Error(`Replicate weight "${name}" was not found`);
+    return variable.values.map(value => {
+      const weight = toNumber(value);
+      return Number.isFinite(weight) ? weight : 0;
+    });
+  });
+
+  const method = param.replicateMethod ?? 'JK1';
+  const fayCoefficient = method === 'Fay' ? param.fayCoefficient ?? 0.5 : undefined;
+  if (fayCoefficient !== undefined && !(fayCoefficient >= 0 && fayCoefficient < 1)) {
+    throw new Error("Fay's coefficient must be at least 0 and below 1");
+  }
+  const defaultScale: Record<ReplicateMethod, number> = {
+    JK1: (count - 1) / count,
+    JKn: 1,
+    BRR: 1 / count,
+    Fay: 1 / (count * Math.pow(1 - (fayCoefficient ?? 0), 2)),
+    bootstrap: 1 / (count - 1)
+  };
+  const scale = param.replicateScale ?? defaultScale[method];
+  if (!(scale > 0)) throw new Error('The replicate scale must be positive');
+
+  const given = param.replicateScales ?? [];
+  if (method === 'JKn' && given.length === 0) {
+    throw new Error('JKn replicate weights need the scale factor (n_h - 1) / n_h of each replicate');
+  }
+  if (given.length > 1 && given.length !== count) {
+    throw new Error(`Give one replicate scale factor or ${count}, not ${given.length}`);
+  }
+  const rscales = Array.from({ length: count }, (_, r) => given.length > 1 ? given[r] : given[0] ?? 1);
+  if (rscales.some(factor => !(factor > 0))) throw new Error('Replicate scale factors must be positive');
+
+  return { method, weights, scale, rscales, fayCoefficient };
+}
+
+function describeReplicateDesign(replicates: ReplicateDesign): NonNullable<ParameterEstimate['replicates']> {
+  return {
+    method: replicates.method,
+    count: replicates.weights.length,
+    scale: replicates.scale,
+    ...(replicates.fayCoefficient !== undefined ? { fayCoefficient: replicates.fayCoefficient } : {})
+  };
+}
+
+// Weighted mean or total of some values
+function weightedStatistic(values: number[], weights: number[], statistic: 'mean' | 'total'): number {
+  const total = values.reduce((sum, y, i) => sum + weights[i] * y, 0);
+  if (statistic === 'total') return total;
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  return totalWeight > 0 ? total / totalWeight : 0;
+}
+
+// Weighted quantile: the smallest value whose cumulative weight reaches the
+// share p of the total, averaged with the next value when it lands exactly
+// on it. Only positive weights count.
+function weightedQuantile(values: number[], weights: number[], p: number): number {
+  const order = values.map((_, i) => i).filter(i => weights[i] > 0).sort((a, b) => values[a] - values[b]);
+  if (order.length === 0) return 0;
+  const totalWeight = order.reduce((sum, i) => sum + weights[i], 0);
+  const target = p * totalWeight;
+  let cumulative = 0;
+  for (let k = 0; k < order.length; k++) {
+    cumulative += weights[order[k]];
+    if (Math.abs(cumulative - target) <= 1e-9 * totalWeight && k + 1 < order.length) {
+      return (values[order[k]] + values[order[k + 1]]) / 2;
+    }
+    if (cumulative >= target) return values[order[k]];
+  }
+  return values[order[order.length - 1]];
+}
+
+// Estimate over some rows with the full-sample weights, and its variance
+// from the spread of the same estimate under each replicate weight
+function replicateEstimate(
+  replicates: ReplicateDesign,
+  rows: number[],
+  valueOf: (row: number) => number,
+  weightOf: (row: number) => number,
+  statistic: 'mean' | 'total'
+): { estimate: number; marginOfError: number } {
+  if (rows.length === 0) return { estimate: 0, marginOfError: 0 };
+  const values = rows.map(valueOf);
+  const estimate = weightedStatistic(values, rows.map(weightOf), statistic);
+  const variance = replicates.scale * replicates.weights.reduce((sum, replicate, r) => {
+    const replicateValue = weightedStatistic(values, rows.map(row => replicate[row]), statistic);
+    return sum + replicates.rscales[r] * Math.pow(replicateValue - estimate, 2);
+  }, 0);
+  return { estimate, marginOfError: 1.96 * Math.sqrt(variance) };
+}
+
+// Ultimate-cluster variance of an estimated total whose rows contribute the
+// given weighted scores: PSU totals are compared within each stratum,
+// V = sum over strata of (1 - f_h) n_h / (n_h - 1) sum_i (z_hi - mean z_h)^2.
+// A stratum with a single PSU is centred on the mean over all PSUs instead.
+function designVariance(design: SampleDesign, rows: number[], scores: number[]): number {
+  const psuTotals = design.psuStratum.map(() => 0);
+  rows.forEach((row, i) => { psuTotals[design.psuOf[row]] += scores[i]; });
+
+  const strataTotals = design.psusInStratum.map(() => 0);
+  psuTotals.forEach((total, psu) => { strataTotals[design.psuStratum[psu]] += total; });
+  const overallMean = psuTotals.reduce((sum, total) => sum + total, 0) / psuTotals.length;
+
+  return psuTotals.reduce((variance, total, psu) => {
+    const stratum = design.psuStratum[psu];
+    const n = design.psusInStratum[stratum];
+    const centre = n > 1 ? strataTotals[stratum] / n : overallMean;
+    const scale = n > 1 ? n / (n - 1) : 1;
+    return variance + (1 - design.samplingFraction[stratum]) * scale * Math.pow(total - centre, 2);
+  }, 0);
+}
+
+// Design of a simple random sample: one stratum, every row its own PSU
+function simpleRandomDesign(rows: number): SampleDesign {
+  return {
+    psuOf: Array.from({ length: rows }, (_, row) => row),
+    psuStratum: new Array(rows).fill(0),
+    psusInStratum: [rows],
+    samplingFraction: [0]
+  };
+}
+
+// Weighted mean or total over some rows with its Taylor-linearized design
+// variance. Rows outside the group score zero but still count in the
+// design, so group estimates are treated as domains of the full sample.
+// The design effect compares with a simple random sample with replacement.
+// Calibrated weights contribute their regression residuals instead.
+function linearizedEstimate(
+  design: SampleDesign,
+  rows: number[],
+  valueOf: (row: number) => number,
+  weightOf: (row: number) => number,
+  statistic: 'mean' | 'total',
+  calibration?: Calibration | null
+): { estimate: number; marginOfError: number; designEffect?: number } {
+  const n = rows.length;
+  const weights = rows.map(weightOf);
+  const values = rows.map(valueOf);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (n === 0 || totalWeight <= 0) return { estimate: 0, marginOfError: 0 };
+
+  const total = values.reduce((sum, y, i) => sum + weights[i] * y, 0);
+  const estimate = statistic === 'mean' ? total / totalWeight : total;
+  const scores = statistic === 'mean'
+    ? values.map((y, i) => weights[i] * (y - estimate) / totalWeight)
+    : values.map((y, i) => weights[i] * y);
+  const residuals = calibration ? calibratedScores(calibration, rows, scores) : { rows, scores };
+  const variance = designVariance(design, residuals.rows, residuals.scores);
+
+  let srsVariance = 0;
+  if (statistic === 'mean') {
+    if (n > 1) srsVariance = values.reduce((sum, y, i) => sum + weights[i] * Math.pow(y - estimate, 2), 0) / totalWeight / (n - 1);
+  } else {
+    // A total is estimated over the whole sample, with zero outside the rows
+    const sampleSize = design.psuOf.length;
+    let sampleWeight = 0;
+    for (let row = 0; row < sampleSize; row++) sampleWeight += weightOf(row);
+    const sumOfSquares = values.reduce((sum, y, i) => sum + weights[i] * y * y, 0) - (total * total) / sampleWeight;
+    if (sampleSize > 1) srsVariance = (sampleWeight * sumOfSquares) / (sampleSize - 1);
+  }
+
+  return {
+    estimate,
+    marginOfError: 1.96 * Math.sqrt(variance),
+    ...(srsVariance > 0 ? { designEffect: variance / srsVariance } : {})
+  };
+}
+
+// Builds the auxiliary values of each row and calibrates the weights to the
+// population totals, or returns null when no calibration is asked for. The
+// first categorical auxiliary gets an indicator per category; later ones
+// drop their last category, whose total already follows from the first.
+function readCalibration(
+  data: SurveyData,
+  param: EstimationParameter,
+  weightOf: (row: number) => number
+): Calibration | null {
+  const spec = param.calibration;
+  if (!spec) return null;
+  const totals = Object.entries(spec.totals ?? {});
+  if (spec.method === 'poststratification' && (spec.margins.length !== 1 || totals.length > 0)) {
+    throw new Error('Post-stratification needs exactly one categorical auxiliary and no continuous totals');
+  }
+  const { lower, upper } = calibrationBounds(spec);
+
+  const findAuxiliary = (name: string) => {
+    const variable = data.variables.find(v => v.name === name);
+    if (!variable) throw new Error(`Calibration variable "${name}" was not found`);
+    return variable;
+  };
+  const columns: Array<{ total: number; valueOf: (row: number) => number }> = [];
+  let populationTotal = 0;
+
+  spec.margins.forEach((margin, index) => {
+    const variables = margin.variables.map(findAuxiliary);
+    const name = margin.variables.join(' × ');
+    const keyOf = Array.from({ length: data.totalRows }, (_, row) => {
+      const parts = variables.map(v => {
+        const value = v.values[row];
+        if (getMissingCategory(v, value) !== null) return null;
+        return typeof value === 'boolean' ? String(value).toUpperCase() : String(value);
+      });
+      return parts.includes(null) ? null : parts.join(' × ');
+    });
+    const missing = keyOf.filter(key => key === null).length;
+    if (missing > 0) throw new Error(`Calibration variable ${name} is missing on ${missing} rows`);
+
+    const respondents = new Set(keyOf as string[]);
+    const unknown = [...respondents].find(key => margin.targets[key] === undefined);
+    if (unknown !== undefined) throw new Error(`${name}: category "${unknown}" has respondents but no population total`);
+    const categories = Object.keys(margin.targets).filter(key => {
+      const target = margin.targets[key];
+      if (!(target >= 0)) throw new Error(`${name}: the population total of "${key}" must be zero or more`);
+      if (respondents.has(key)) return true;
+      if (target > 0) {
+        throw new Error(`${name}: category "${key}" has a population total but no respondents; combine it with a neighbouring category`);
+      }
+      return false;
+    });
+    // Later margins drop a category whose total the first margin implies,
+    // so every margin has to describe the same population total
+    const marginTotal = categories.reduce((sum, key) => sum + margin.targets[key], 0);
+    if (index === 0) {
+      populationTotal = marginTotal;
+    } else if (Math.abs(marginTotal - populationTotal) > populationTotal * 1e-3) {
+      throw new Error(
+        `${name}: the population totals add up to ${marginTotal.toLocaleString()}, but ${spec.margins[0].variables.join(' × ')} adds up to ${populationTotal.toLocaleString()}; every margin must describe the same population`
+      );
+    }
+    (index === 0 ? categories : categories.slice(0, -1)).forEach(key => columns.push({
+      total: margin.targets[key],
+      valueOf: row => keyOf[row] === key ? 1 : 0
+    }));
+  });
+
+  totals.forEach(([name, total]) => {
+    const variable = findAuxiliary(name);
+    const values = variable.values.map(v => getMissingCategory(variable, v) === null ? toNumber(v) : NaN);
+    const missing = values.filter(v => !Number.isFinite(v)).length;
+    if (missing > 0) throw new Error(`Calibration variable "${name}" is missing on ${missing} rows`);
+    if (!Number.isFinite(total)) throw new Error(`The population total of "${name}" must be a number`);
+    columns.push({ total, valueOf: row => values[row] });
+  });
+
+  // Without a categorical auxiliary the weights sum to the population size when it is given
+  if (spec.margins.length === 0 && spec.populationSize !== undefined) {
+    if (!(spec.populationSize > 0)) throw new Error('The population size must be positive');
+    columns.unshift({ total: spec.populationSize, valueOf: () => 1 });
+  }
+  if (columns.length === 0) throw new Error('Calibration needs at least one auxiliary total');
+
+  const x = Array.from({ length: data.totalRows }, (_, row) => columns.map(column => column.valueOf(row)));
+  const targets = columns.map(column => column.total);
+  const populationSize = spec.margins.length > 0
+    ? Object.values(spec.margins[0].targets).reduce((sum, target) => sum + target, 0)
+    : spec.populationSize;
+  const base = scaledToPopulation(Array.from({ length: data.totalRows }, (_, row) => weightOf(row)), populationSize);
+  const { g, iterations } = calibrateWeights(x, base, targets, spec.method, lower, upper);
+  const weights = base.map((w, row) => w * g[row]);
+  const inverse = invertMatrix(crossProducts(x, weights));
+  if (!inverse) throw new Error('The calibration auxiliaries are collinear');
+
+  return {
+    spec,
+    auxiliaries: spec.margins.map(margin => margin.variables.join(' × ')).concat(totals.map(([name]) => name)),
+    x,
+    targets,
+    weights,
+    g,
+    populationSize,
+    inverse,
+    iterations
+  };
+}
+
+// Weights scaled to sum to the population size, so the weight ratio bounds
+// compare with weights on the population scale
+function scaledToPopulation(weights: number[], populationSize: number | undefined): number[] {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (!populationSize || !(total > 0)) return weights;
+  return weights.map(w => w * populationSize / total);
+}
+
+function describeCalibration(calibration: Calibration): NonNullable<ParameterEstimate['calibration']> {
+  return {
+    applied: true,
+    method: calibration.spec.method,
+    auxiliaries: calibration.auxiliaries,
+    iterations: calibration.iterations,
+    gRange: [
+      calibration.g.reduce((lo, g) => Math.min(lo, g), Infinity),
+      calibration.g.reduce((hi, g) => Math.max(hi, g), -Infinity)
+    ]
+  };
+}
+
+// Bounds on the weight ratio g; truncated and logit calibration need both
+function calibrationBounds(spec: CalibrationSpec): { lower: number; upper: number } {
+  if (spec.method !== 'truncated' && spec.method !== 'logit') return { lower: -Infinity, upper: Infinity };
+  const { lower, upper } = spec;
+  if (lower === undefined || upper === undefined) {
+    throw new Error('Truncated and logit calibration need lower and upper bounds on the weight ratio');
+  }
+  if (!(lower >= 0 && lower < 1 && upper > 1)) {
+    throw new Error('The weight ratio bounds must satisfy 0 ≤ lower < 1 < upper');
+  }
+  return { lower, upper };
+}
+
+// Ratio g = F(u) of calibrated to initial weight for u = x'λ, with its
+// derivative. The logit distance of Deville and Särndal keeps g strictly
+// within the bounds; the truncated linear distance clamps it.
+function calibrationDistance(method: CalibrationMethod, lower: number, upper: number) {
+  if (method === 'truncated') {
+    return {
+      g: (u: number) => Math.min(upper, Math.max(lower, 1 + u)),
+      slope: (u: number) => (1 + u > lower && 1 + u < upper ? 1 : 0)
+    };
+  }
+  if (method === 'logit') {
+    const a = (upper - lower) / ((1 - lower) * (upper - 1));
+    return {
+      g: (u: number) => {
+        const e = Math.exp(a * u);
+        if (!Number.isFinite(e)) return upper;
+        return (lower * (upper - 1) + upper * (1 - lower) * e) / ((upper - 1) + (1 - lower) * e);
+      },
+      slope: (u: number) => {
+        const e = Math.exp(a * u);
+        if (!Number.isFinite(e)) return 0;
+        return a * e * (upper - 1) * (1 - lower) * (upper - lower) / Math.pow((upper - 1) + (1 - lower) * e, 2);
+      }
+    };
+  }
+  return { g: (u: number) => 1 + u, slope: () => 1 };
+}
+
+const CALIBRATION_MAX_ITERATIONS = 100;
+
+// Solves sum of d F(x'λ) x = T for λ by Newton's method. Linear calibration,
+// and post-stratification as its special case on cell indicators, solves in
+// one step; the bounded distances take a few more.
+function calibrateWeights(
+  x: number[][],
+  base: number[],
+  targets: number[],
+  method: CalibrationMethod,
+  lower: number,
+  upper: number
+): { g: number[]; iterations: number } {
+  const distance = calibrationDistance(method, lower, upper);
+  let lambda = targets.map(() => 0);
+  for (let iteration = 0; iteration <= CALIBRATION_MAX_ITERATIONS; iteration++) {
+    const u = x.map(row => dot(row, lambda));
+    const g = u.map(distance.g);
+    const achieved = targets.map(() => 0);
+    x.forEach((row, i) => row.forEach((value, j) => { achieved[j] += base[i] * g[i] * value; }));
+    const gaps = targets.map((target, j) => target - achieved[j]);
+    if (gaps.every((gap, j) => Math.abs(gap) <= 1e-8 * Math.max(1, Math.abs(targets[j])))) {
+      return { g, iterations: iteration };
+    }
+
+    const step = solveLinearSystem(crossProducts(x, base.map((d, i) => d * distance.slope(u[i]))), gaps);
+    if (!step) {
+      throw new Error(method === 'truncated' || method === 'logit'
+        ? 'The calibration totals cannot be met within the weight ratio bounds'
+        : 'The calibration auxiliaries are collinear');
+    }
+    lambda = lambda.map((value, j) => value + step[j]);
+  }
+  throw new Error(`Calibration did not converge in ${CALIBRATION_MAX_ITERATIONS} iterations; widen the weight ratio bounds`);
 }
 
-function calculateMarginOfError(values: number[], weights: number[]): number {
-  const weightedMean = calculateWeightedMean(values, weights);
-  const weightedVariance = values.reduce((sum, val, idx) => 
-    sum + weights[idx] * Math.pow(val - weightedMean, 2), 0) / weights.reduce((sum, w) => sum + w, 0);
-  const effectiveSampleSize = Math.pow(weights.reduce((sum, w) => sum + w, 0), 2) / 
-    weights.reduce((sum, w) => sum + w * w, 0);
-  return 1.96 * Math.sqrt(weightedVariance / effectiveSampleSize);
+// Replicate weights calibrated to the same totals, so the replicate variance
+// reflects the calibration
+function calibrateReplicates(replicates: ReplicateDesign, calibration: Calibration): ReplicateDesign {
+  const { lower, upper } = calibrationBounds(calibration.spec);
+  return {
+    ...replicates,
+    weights: replicates.weights.map((replicate, r) => {
+      const weights = scaledToPopulation(replicate, calibration.populationSize);
+      try {
+        const { g } = calibrateWeights(calibration.x, weights, calibration.targets, calibration.spec.method, lower, upper);
+        return weights.map((w, row) => w * g[row]);
+      } catch (error) {
+        throw new Error(`Replicate ${r + 1}: ${error instanceof Error ? error.message : 'calibration failed'}`);
+      }
+    })
+  };
+}
+
+// Scores of a calibrated estimate replaced by their residuals from the
+// weighted regression on the auxiliaries, e = s - w x'B with
+// B = (sum of w x x')^-1 sum of x s. Every row gets a residual, since the
+// calibration involves the whole sample.
+function calibratedScores(
+  calibration: Calibration,
+  rows: number[],
+  scores: number[]
+): { rows: number[]; scores: number[] } {
+  const { x, weights, inverse } = calibration;
+  const own = new Array(x.length).fill(0);
+  const xs = inverse.map(() => 0);
+  rows.forEach((row, i) => {
+    own[row] += scores[i];
+    x[row].forEach((value, j) => { xs[j] += value * scores[i]; });
+  });
+  const coefficients = inverse.map(row => dot(row, xs));
+  return {
+    rows: x.map((_, row) => row),
+    scores: own.map((score, row) => score - weights[row] * dot(x[row], coefficients))
+  };
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+// Weighted cross-products sum of w x x'
+function crossProducts(x: number[][], weights: number[]): number[][] {
+  const k = x[0]?.length ?? 0;
+  const products = Array.from({ length: k }, () => new Array(k).fill(0));
+  x.forEach((row, i) => {
+    if (weights[i] === 0) return;
+    for (let j = 0; j < k; j++) {
+      if (row[j] === 0) continue;
+      for (let l = 0; l < k; l++) products[j][l] += weights[i] * row[j] * row[l];
+    }
+  });
+  return products;
+}
+
+// Gaussian elimination with partial pivoting; null when the matrix is singular
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+  const scale = matrix.reduce((max, row) => row.reduce((m, v) => Math.max(m, Math.abs(v)), max), 0);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (!(Math.abs(a[pivot][col]) > 1e-12 * scale)) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = a[row][col] / a[col][col];
+      if (factor === 0) continue;
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  return a.map((row, i) => row[n] / row[i]);
+}
+
+function invertMatrix(matrix: number[][]): number[][] | null {
+  const columns = matrix.map((_, j) => solveLinearSystem(matrix, matrix.map((__, i) => (i === j ? 1 : 0))));
+  if (columns.some(column => column === null)) return null;
+  return matrix.map((_, i) => columns.map(column => column![i]));
 }
 
 function generateHistogramData(values: number[], bins: number) {
-  const min = Math.min(...values);
-  const max = Math.max(...values);
+  // Avoid spreading into Math.min/max, which overflows the stack on large surveys
+  const min = values.reduce((lo, val) => Math.min(lo, val), Infinity);
+  const max = values.reduce((hi, val) => Math.max(hi, val), -Infinity);
   const binWidth = (max - min) / bins;
   
   const histogram = Array(bins).fill(0).map((_, i) => ({
@@ -408,16 +1842,219 @@ function generateHistogramData(values: number[], bins: number) {
   return histogram;
 }
 
-function calculateQualityScore(data: SurveyData): number {
-  const totalCells = data.totalRows * data.variables.length;
-  const missingCells = data.variables.reduce((sum, v) => sum + v.missing, 0);
-  const completeness = ((totalCells - missingCells) / totalCells) * 100;
-  
-  // Additional quality factors
-  const consistencyScore = 95; // Would need more complex analysis
-  const validityScore = 90;    // Would need domain validation
-  
-  return Math.round((completeness * 0.4 + consistencyScore * 0.3 + validityScore * 0.3));
+const QUALITY_WEIGHTS: Record<QualityDimensionName, number> = { completeness: 0.4, validity: 0.3, consistency: 0.3 };
+
+// Why an answer does not fit its variable's type or coded domain, or null
+function invalidReason(variable: SurveyData['variables'][number], value: CellValue): string | null {
+  switch (variable.type) {
+    case 'numeric':
+      return typeof value === 'number' || (typeof value === 'string' && Number.isFinite(Number(value.trim())))
+        ? null
+        : 'not numeric';
+    case 'date':
+    case 'datetime':
+      return isNaN(toTimestamp(value)) ? 'not a valid date' : null;
+    case 'boolean':
+      return toBoolean(value) === null ? 'not yes/no' : null;
+    case 'ordinal':
+      if (variable.levels?.length) return variable.levels.includes(String(value)) ? null : 'off the scale';
+      return variable.valueLabels && !(String(value) in variable.valueLabels) ? 'without a value label' : null;
+    case 'categorical':
+      return variable.valueLabels && Object.keys(variable.valueLabels).length > 0 && !(String(value) in variable.valueLabels)
+        ? 'without a value label'
+        : null;
+    default:
+      return null;
+  }
+}
+
+function countOf(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? (part / whole) * 100 : 100;
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 10) / 10;
+}
+
+function meanScore(checks: QualityCheck[]): number {
+  return checks.length > 0 ? checks.reduce((sum, check) => sum + check.score, 0) / checks.length : 100;
+}
+
+// Data quality on three dimensions, each scored 0-100 from concrete checks:
+// completeness from item and unit nonresponse, validity from type, coded
+// domain and constraint conformance, and consistency from duplicate
+// responses, repeated IDs and cross-field (skip logic) rules. Answers coded
+// not applicable count as correctly skipped rather than missing.
+function assessDataQuality(data: SurveyData): QualityReport {
+  const rows = data.totalRows;
+  const ruleChecks = (data.ruleChecks ?? []).map(check => ({
+    ...check,
+    rows: [...new Set(check.rows)].filter(row => Number.isInteger(row) && row >= 0 && row < rows)
+  }));
+  const substantive = data.variables.filter(v => v.type !== 'identifier');
+
+  const perVariable = substantive.map(variable => {
+    let answered = 0;
+    let notApplicable = 0;
+    const invalid: Record<string, number> = {};
+    variable.values.forEach(value => {
+      const category = getMissingCategory(variable, value);
+      if (category === 'not-applicable') notApplicable++;
+      if (category !== null) return;
+      answered++;
+      const reason = invalidReason(variable, value);
+      if (reason) invalid[reason] = (invalid[reason] ?? 0) + 1;
+    });
+    return { variable, answered, applicable: rows - notApplicable, invalid };
+  });
+
+  // Completeness
+  const applicableCells = perVariable.reduce((sum, v) => sum + v.applicable, 0);
+  const answeredCells = perVariable.reduce((sum, v) => sum + v.answered, 0);
+  let unitNonresponse = 0;
+  for (let row = 0; row < rows; row++) {
+    let applicable = 0;
+    let answered = 0;
+    substantive.forEach(variable => {
+      const category = getMissingCategory(variable, variable.values[row]);
+      if (category === 'not-applicable') return;
+      applicable++;
+      if (category === null) answered++;
+    });
+    if (applicable > 0 && answered < applicable / 2) unitNonresponse++;
+  }
+  const completenessChecks: QualityCheck[] = [
+    {
+      name: 'Item response',
+      score: roundScore(percent(answeredCells, applicableCells)),
+      detail: `${applicableCells - answeredCells} of ${applicableCells} applicable answers missing`
+    },
+    {
+      name: 'Unit response',
+      score: roundScore(percent(rows - unitNonresponse, rows)),
+      detail: `${unitNonresponse} of ${countOf(rows, 'respondent')} answered fewer than half of their questions`
+    }
+  ];
+
+  // Validity
+  const checkedValues = perVariable.reduce((sum, v) => sum + v.answered, 0);
+  const invalidValues = perVariable.reduce((sum, v) => sum + Object.values(v.invalid).reduce((a, b) => a + b, 0), 0);
+  const validityRules = ruleChecks.filter(check => check.dimension === 'validity');
+  const consistencyRules = ruleChecks.filter(check => check.dimension === 'consistency');
+  const rowsBreaking = (checks: RuleCheck[]) => new Set(checks.flatMap(check => check.rows)).size;
+
+  const validityChecks: QualityCheck[] = [
+    {
+      name: 'Type and domain',
+      score: roundScore(percent(checkedValues - invalidValues, checkedValues)),
+      detail: `${invalidValues} of ${checkedValues} answers do not fit their variable's type or codes`
+    }
+  ];
+  if (validityRules.length > 0) {
+    const breaking = rowsBreaking(validityRules);
+    validityChecks.push({
+      name: 'Constraints and rules',
+      score: roundScore(percent(rows - breaking, rows)),
+      detail: `${countOf(breaking, 'respondent')} with answers failing ${validityRules.length === 1 ? 'the constraint or validation rule' : `any of ${validityRules.length} constraints or validation rules`}`
+    });
+  }
+
+  // Consistency
+  const seen = new Set<string>();
+  let duplicates = 0;
+  for (let row = 0; row < rows; row++) {
+    const answers = substantive.map(v => getMissingCategory(v, v.values[row]) === null ? String(v.values[row]) : null);
+    if (answers.every(answer => answer === null)) continue;
+    const key = JSON.stringify(answers);
+    if (seen.has(key)) duplicates++;
+    else seen.add(key);
+  }
+  const consistencyChecks: QualityCheck[] = [
+    {
+      name: 'Duplicate responses',
+      score: roundScore(percent(rows - duplicates, rows)),
+      detail: `${countOf(duplicates, 'response')} exactly repeating an earlier one`
+    }
+  ];
+  const repeatedIds = new Map<string, number>();
+  data.variables.filter(v => v.type === 'identifier').forEach(variable => {
+    const ids = new Set<string>();
+    let repeated = 0;
+    variable.values.forEach(value => {
+      if (getMissingCategory(variable, value) !== null) return;
+      const id = String(value).trim();
+      if (ids.has(id)) repeated++;
+      else ids.add(id);
+    });
+    repeatedIds.set(variable.name, repeated);
+    consistencyChecks.push({
+      name: `Unique IDs (${variable.name})`,
+      score: roundScore(percent(rows - repeated, rows)),
+      detail: `${countOf(repeated, 'repeated value')}`
+    });
+  });
+  if (consistencyRules.length > 0) {
+    const breaking = rowsBreaking(consistencyRules);
+    consistencyChecks.push({
+      name: 'Cross-field rules',
+      score: roundScore(percent(rows - breaking, rows)),
+      detail: `${countOf(breaking, 'respondent')} breaking ${consistencyRules.length === 1 ? 'the skip-logic or cross-field rule' : `any of ${consistencyRules.length} skip-logic or cross-field rules`}`
+    });
+  }
+
+  const dimensions: QualityReport['dimensions'] = {
+    completeness: { score: roundScore(meanScore(completenessChecks)), weight: QUALITY_WEIGHTS.completeness, checks: completenessChecks },
+    validity: { score: roundScore(meanScore(validityChecks)), weight: QUALITY_WEIGHTS.validity, checks: validityChecks },
+    consistency: { score: roundScore(meanScore(consistencyChecks)), weight: QUALITY_WEIGHTS.consistency, checks: consistencyChecks }
+  };
+  const weighted = (scores: Record<QualityDimensionName, number>) =>
+    (Object.keys(QUALITY_WEIGHTS) as QualityDimensionName[]).reduce((sum, name) => sum + scores[name] * QUALITY_WEIGHTS[name], 0);
+
+  const variables = data.variables.map(variable => {
+    const issues: string[] = [];
+    const stats = perVariable.find(v => v.variable === variable);
+    const rules = ruleChecks.filter(check => check.variables.includes(variable.name) && check.rows.length > 0);
+    rules.forEach(check => issues.push(`${countOf(check.rows.length, 'row')} breaking ${check.rule}`));
+    const ruleRows = (dimension: RuleCheck['dimension']) =>
+      rowsBreaking(rules.filter(check => check.dimension === dimension));
+
+    let completeness = 100;
+    let validity = percent(rows - ruleRows('validity'), rows);
+    let consistency = percent(rows - ruleRows('consistency'), rows);
+    if (stats) {
+      completeness = percent(stats.answered, stats.applicable);
+      const invalidCount = Object.values(stats.invalid).reduce((a, b) => a + b, 0);
+      validity = Math.min(validity, percent(stats.answered - invalidCount, stats.answered));
+      if (stats.applicable > stats.answered) issues.unshift(`${countOf(stats.applicable - stats.answered, 'answer')} missing`);
+      Object.entries(stats.invalid).forEach(([reason, count]) => issues.push(`${countOf(count, 'value')} ${reason}`));
+    } else {
+      const repeated = repeatedIds.get(variable.name) ?? 0;
+      consistency = Math.min(consistency, percent(rows - repeated, rows));
+      if (repeated > 0) issues.push(countOf(repeated, 'repeated ID'));
+    }
+    return {
+      name: variable.name,
+      score: roundScore(weighted({ completeness, validity, consistency })),
+      completeness: roundScore(completeness),
+      validity: roundScore(validity),
+      consistency: roundScore(consistency),
+      issues
+    };
+  });
+
+  return {
+    overall: Math.round(weighted({
+      completeness: dimensions.completeness.score,
+      validity: dimensions.validity.score,
+      consistency: dimensions.consistency.score
+    })),
+    dimensions,
+    variables
+  };
 }
 
 function generateExecutiveSummary(data: SurveyData, analysis: any, insights: any[]) {
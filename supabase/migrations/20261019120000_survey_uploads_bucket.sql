@@ -0,0 +1,14 @@
+-- Private bucket holding large survey datasets uploaded in parts by the
+-- client. The analyze-survey edge function reads them with the service role.
+insert into storage.buckets (id, name, public)
+values ('survey-uploads', 'survey-uploads', false)
+on conflict (id) do nothing;
+
+create policy "Clients can upload survey dataset parts"
+on storage.objects
+for insert
+to anon, authenticated
+with check (
+  bucket_id = 'survey-uploads'
+  and (storage.foldername(name))[1] = 'datasets'
+);
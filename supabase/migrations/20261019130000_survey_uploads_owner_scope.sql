@@ -0,0 +1,35 @@
+-- Dataset parts are kept under datasets/<user id>/, so each caller (signed
+-- in, or signed in anonymously) can only write, read and remove its own
+-- uploads. The analyze-survey function checks the same prefix and deletes
+-- the parts once it has read them.
+drop policy if exists "Clients can upload survey dataset parts" on storage.objects;
+
+create policy "Users can upload their own survey dataset parts"
+on storage.objects
+for insert
+to authenticated
+with check (
+  bucket_id = 'survey-uploads'
+  and (storage.foldername(name))[1] = 'datasets'
+  and (storage.foldername(name))[2] = auth.uid()::text
+);
+
+create policy "Users can read their own survey dataset parts"
+on storage.objects
+for select
+to authenticated
+using (
+  bucket_id = 'survey-uploads'
+  and (storage.foldername(name))[1] = 'datasets'
+  and (storage.foldername(name))[2] = auth.uid()::text
+);
+
+create policy "Users can remove their own survey dataset parts"
+on storage.objects
+for delete
+to authenticated
+using (
+  bucket_id = 'survey-uploads'
+  and (storage.foldername(name))[1] = 'datasets'
+  and (storage.foldername(name))[2] = auth.uid()::text
+);